@@ -40,4 +40,8 @@ export default {
 
 // Mock named exports
 export const client = jest.fn().mockReturnValue(mockClient);
-export const ApiKey = jest.fn().mockImplementation((key: string) => ({ apiKey: key }));
\ No newline at end of file
+export const ApiKey = jest.fn().mockImplementation((key: string) => ({ apiKey: key }));
+export const FusionType = {
+  rankedFusion: 'rankedFusion',
+  relativeScoreFusion: 'relativeScoreFusion',
+};
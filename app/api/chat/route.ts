@@ -9,6 +9,13 @@ import { openai } from '@ai-sdk/openai';
 import { generateText } from 'ai';
 import { getMem0Client } from '@/lib/memory/mem0-client';
 import { getSearchOrchestrator } from '@/lib/search/cached-search-orchestrator';
+import { selectWithMMR, getMMRCandidateLimit } from '@/lib/search/mmr-selection';
+import { isCompoundQuery } from '@/lib/search/multi-query';
+import { explainRanking } from '@/lib/search/search-explain';
+import { routeChatQuery } from '@/lib/search/query-optimizer';
+import { findSymbolsInText, formatSymbolContext } from '@/lib/search/symbol-index';
+import { generateDocumentSectionUrl } from '@/lib/attribution/url-generator';
+import { DEFAULT_RETRIEVAL_CONFIG } from '@/types/rag';
 import type {
   ChatResponse,
   ChatMessage,
@@ -20,6 +27,8 @@ import type {
 } from '@/types/chat';
 import type { Document, SearchResponse, SearchResult } from '@/types/search';
 import type { ConversationMemoryContext } from '@/types/memory';
+import type { ChatRoutePlan } from '@/types/query-optimization';
+import type { IndexedSymbol } from '@/types/code-symbols';
 import type {
   MemoryMessage,
   SessionId,
@@ -35,8 +44,13 @@ const ChatRequestSchema = z.object({
   userId: z.string().optional(),
   streaming: z.boolean().default(true),
   maxSources: z.number().positive().max(20).default(5),
+  mmrLambda: z.number().min(0).max(1).optional(),
+  explain: z.boolean().default(false),
 }).strict();
 
+// Rough token-to-character ratio for sizing prompt context
+const CHARS_PER_TOKEN = 4;
+
 // Session management utilities
 const generateSessionId = (): SessionId => `sess_${Date.now()}_${Math.random().toString(36).substr(2, 9)}` as SessionId;
 const generateRunId = (conversationId: string): RunId => `run_${conversationId}_${Date.now()}` as RunId;
@@ -65,6 +79,18 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const searchOrchestrator = getSearchOrchestrator();
     timings.clientInit = Date.now() - clientStart;
 
+    // Route through the query optimizer: the strategy picks model, sources,
+    // context budget and whether search re-classifies the query
+    // Only search needs the plan, so memory retrieval starts without it
+    const routingStart = Date.now();
+    const routePlanPromise = routeChatQuery(validatedRequest.message, validatedRequest.maxSources)
+      .then(plan => {
+        timings.queryRouting = Date.now() - routingStart;
+        return plan;
+      });
+    // Symbol lookup is in-memory after the first load, so it runs alongside retrieval
+    const symbolsPromise = findSymbolsInText(validatedRequest.message);
+
     // OPTIMIZATION: Run memory retrieval and search completely in parallel
     const parallelStart = Date.now();
     const [memoryContext, searchResults] = await Promise.allSettled([
@@ -121,11 +147,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
       // Step 2: Perform initial RAG search with base query (parallel to memory retrieval)
       (async () => {
+        const routePlan = await routePlanPromise;
         const searchStart = Date.now();
         try {
           const searchPromise = searchOrchestrator.search({
             query: validatedRequest.message, // Use original query for parallel execution
-            limit: validatedRequest.maxSources + 2, // Get extra results for potential reranking
+            limit: getMMRCandidateLimit(routePlan.maxSources), // Candidate pool for MMR selection
             offset: 0,
             includeContent: true,
             includeEmbedding: false,
@@ -134,6 +161,17 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
             userId,
             context: `conversation:${conversationId}`,
             filters: {},
+            explain: validatedRequest.explain,
+            weights: routePlan.runClassification ? undefined : routePlan.sourceWeights,
+            skipClassification: !routePlan.runClassification,
+            queryType: routePlan.queryType,
+            config: {
+              embeddingModel: routePlan.embeddingModel,
+              contextTokenBudget: routePlan.contextTokenBudget,
+              rerankEnabled: routePlan.useReranking,
+              // Compound questions fuse per-topic results; others expand matching chunks
+              retrievalStrategy: isCompoundQuery(validatedRequest.message) ? 'multi_query' : 'hierarchical',
+            },
           });
 
           const searchTimeout = new Promise((_, reject) =>
@@ -161,6 +199,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       })(),
     ]);
 
+    // A routing failure fails the request, as before search started
+    const routePlan = await routePlanPromise;
+
     // Extract results from Promise.allSettled
     const resolvedMemoryContext = memoryContext.status === 'fulfilled'
       ? memoryContext.value
@@ -204,15 +245,28 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       };
     }
 
+    // Pick maxSources documents balancing relevance against redundancy
+    finalSearchResults = {
+      ...finalSearchResults,
+      results: selectWithMMR(finalSearchResults.results, {
+        maxSources: routePlan.maxSources,
+        lambda: validatedRequest.mmrLambda,
+        diversityThreshold: DEFAULT_RETRIEVAL_CONFIG.diversityThreshold,
+      }),
+    };
+
     timings.queryEnhancement = Date.now() - enhanceStart;
 
     // Step 4: Generate contextual response with optimized results
     const responseStart = Date.now();
+    const symbols = (await symbolsPromise).map(match => match.symbol);
     const response = await generateContextualResponse({
       query: validatedRequest.message,
       searchResults: [...finalSearchResults.results],
       memoryContext: resolvedMemoryContext,
       conversationId,
+      routePlan,
+      symbols,
     });
     timings.responseGeneration = Date.now() - responseStart;
 
@@ -286,7 +340,21 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       metadata: {
         searchTime: finalSearchResults.metadata.searchTime,
         retrievalCount: finalSearchResults.results.length,
+        model: routePlan.model,
+        temperature: routePlan.temperature,
+        routing: routePlan,
+        ...(symbols.length > 0 && { symbols }),
         ...({ parallelOptimization: true } as any), // Type assertion for extended metadata
+        ...(validatedRequest.explain && {
+          // Ranks reflect the final order after memory boosts and MMR selection
+          rankingExplanations: explainRanking(finalSearchResults.results).map(doc => ({
+            documentId: doc.id,
+            filepath: doc.filepath,
+            rank: doc.rank,
+            finalScore: doc.finalScore,
+            rankingFactors: doc.rankingFactors,
+          })),
+        }),
       } as MessageMetadata,
     };
 
@@ -314,6 +382,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       memoryStorage: `${timings.memoryStorage}ms`,
       search: `${timings.ragSearch}ms`,
       llm: `${timings.responseGeneration}ms`,
+      routing: `${routePlan.strategy} (${routePlan.model}, ${routePlan.maxSources} sources)`,
       memoryStatus,
       memoryUsed
     });
@@ -359,20 +428,26 @@ async function generateContextualResponse(params: {
   searchResults: Document[];
   memoryContext: ConversationMemoryContext;
   conversationId: ConversationId;
+  routePlan: ChatRoutePlan;
+  symbols: readonly IndexedSymbol[];
 }): Promise<{
   content: string;
   sources: Citation[];
   suggestions: string[];
 }> {
-  const { query, searchResults, memoryContext } = params;
+  const { query, searchResults, memoryContext, routePlan, symbols } = params;
+  const contextSources = searchResults.slice(0, routePlan.maxSources);
+  // Split the routed context budget across the sources in the prompt
+  const charsPerSource = Math.floor(
+    (routePlan.contextTokenBudget * CHARS_PER_TOKEN) / Math.max(1, contextSources.length)
+  );
 
   // Prepare context building in parallel
   const [searchContext, memoryContextStr, systemPrompt] = await Promise.all([
     // Build search context
     Promise.resolve(
-      searchResults
-        .slice(0, 5)
-        .map(doc => doc.content)
+      contextSources
+        .map(doc => doc.content.slice(0, charsPerSource))
         .join('\n\n')
     ),
     // Build memory context
@@ -390,7 +465,10 @@ async function generateContextualResponse(params: {
 
 SEARCH CONTEXT:
 ${searchContext}
-
+${symbols.length > 0 ? `
+SYMBOL DEFINITIONS:
+${formatSymbolContext(symbols)}
+` : ''}
 MEMORY CONTEXT:
 ${memoryContextStr}
 
@@ -400,8 +478,8 @@ Please provide a comprehensive answer with proper citations.`;
 
   // Run LLM call and citation building in parallel
   const [response, sources] = await Promise.all([
-    generateOpenAIResponse(systemPrompt, userPrompt),
-    Promise.resolve(buildCitationSources(searchResults)),
+    generateOpenAIResponse(systemPrompt, userPrompt, routePlan),
+    Promise.resolve(buildCitationSources(contextSources)),
   ]);
 
   return {
@@ -445,7 +523,7 @@ function buildCitationSources(searchResults: Document[]): Citation[] {
     documentId: doc.id,
     excerpt: doc.content.slice(0, 200) + '...',
     relevanceScore: doc.score || 0.8,
-    sourceUrl: doc.metadata?.url,
+    sourceUrl: generateDocumentSectionUrl(doc),
     sourcePath: doc.filepath,
     sourceType: doc.source,
     timestamp: new Date(),
@@ -453,16 +531,20 @@ function buildCitationSources(searchResults: Document[]): Citation[] {
 }
 
 // Real OpenAI response generation with context
-async function generateOpenAIResponse(systemPrompt: string, userPrompt: string): Promise<{
+async function generateOpenAIResponse(
+  systemPrompt: string,
+  userPrompt: string,
+  routePlan: Pick<ChatRoutePlan, 'model' | 'temperature'>
+): Promise<{
   content: string;
   suggestions: string[];
 }> {
   try {
     const result = await generateText({
-      model: openai('gpt-4-turbo'),
+      model: openai(routePlan.model),
       system: systemPrompt,
       prompt: userPrompt,
-      temperature: 0.7,
+      temperature: routePlan.temperature,
     });
 
     return {
@@ -543,6 +625,9 @@ function enhanceSearchResultsWithMemory(
         memoryBoost: relevanceBoost,
         contextEnhanced: relevanceBoost > 0,
       },
+      ...(doc.rankingFactors && {
+        rankingFactors: { ...doc.rankingFactors, memoryBoost: relevanceBoost },
+      }),
     };
   }).sort((a, b) => (b.score || 0) - (a.score || 0)); // Re-sort by enhanced scores
 }
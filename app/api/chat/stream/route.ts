@@ -9,12 +9,20 @@ import { openai } from '@ai-sdk/openai';
 import { streamText } from 'ai';
 import { getMem0Client } from '@/lib/memory/mem0-client';
 import { getSearchOrchestrator } from '@/lib/search/cached-search-orchestrator';
+import { selectWithMMR, getMMRCandidateLimit } from '@/lib/search/mmr-selection';
+import { isCompoundQuery } from '@/lib/search/multi-query';
+import { routeChatQuery } from '@/lib/search/query-optimizer';
+import { findSymbolsInText, formatSymbolContext } from '@/lib/search/symbol-index';
+import { generateDocumentSectionUrl } from '@/lib/attribution/url-generator';
+import { DEFAULT_RETRIEVAL_CONFIG } from '@/types/rag';
 import type {
   ConversationId,
   MessageId,
 } from '@/types/chat';
 import type { Document } from '@/types/search';
 import type { ConversationMemoryContext } from '@/types/memory';
+import type { ChatRoutePlan } from '@/types/query-optimization';
+import type { IndexedSymbol } from '@/types/code-symbols';
 import type {
   MemoryMessage,
   SessionId,
@@ -29,6 +37,7 @@ const StreamChatRequestSchema = z.object({
   sessionId: z.string().optional(),
   userId: z.string().optional(),
   maxSources: z.number().positive().max(20).default(5),
+  mmrLambda: z.number().min(0).max(1).optional(),
 }).strict();
 
 // Streaming event types
@@ -36,7 +45,7 @@ type StreamEvent =
   | { type: 'status'; data: { stage: 'searching' | 'analyzing' | 'generating' | 'formatting'; message: string } }
   | { type: 'sources'; data: { sources: Document[]; count: number } }
   | { type: 'token'; data: { token: string; delta: string } }
-  | { type: 'complete'; data: { message: MessageResponse; sources: Document[]; suggestions: string[] } }
+  | { type: 'complete'; data: { message: MessageResponse; sources: Document[]; suggestions: string[]; routing?: ChatRoutePlan; symbols?: readonly IndexedSymbol[] } }
   | { type: 'error'; data: { error: string } };
 
 // Response message type
@@ -49,6 +58,9 @@ type MessageResponse = {
   status: 'completed';
 };
 
+// Rough token-to-character ratio for sizing prompt context
+const CHARS_PER_TOKEN = 4;
+
 // Session management utilities
 const generateSessionId = (): SessionId => `sess_${Date.now()}_${Math.random().toString(36).substr(2, 9)}` as SessionId;
 const generateRunId = (conversationId: string): RunId => `run_${conversationId}_${Date.now()}` as RunId;
@@ -293,9 +305,15 @@ export async function POST(request: NextRequest): Promise<Response> {
           const searchOrchestrator = getSearchOrchestrator();
           timings.clientInit = Date.now() - clientStart;
 
-          // Detect query complexity for smart source limiting (before parallel ops)
-          const complexity = detectQueryComplexity(validatedRequest.message);
-          const smartSourceLimit = Math.min(complexity.sources, validatedRequest.maxSources);
+          // Route through the query optimizer: the strategy picks model, sources,
+          // context budget and whether search re-classifies; only search waits for it
+          const routingStart = Date.now();
+          const routePlanPromise = routeChatQuery(validatedRequest.message, validatedRequest.maxSources)
+            .then(plan => {
+              timings.queryRouting = Date.now() - routingStart;
+              return plan;
+            });
+          const symbolsPromise = findSymbolsInText(validatedRequest.message);
 
           // Step 2: PARALLEL EXECUTION - Memory and Search run simultaneously (1000ms savings)
           // Memory is only needed for response generation, NOT search
@@ -329,11 +347,12 @@ export async function POST(request: NextRequest): Promise<Response> {
 
             // Search execution (parallel, uses original query)
             (async () => {
+              const routePlan = await routePlanPromise;
               const searchStart = Date.now();
               try {
                 const results = await searchOrchestrator.search({
                   query: validatedRequest.message, // Use original query (no memory dependency)
-                  limit: smartSourceLimit,
+                  limit: getMMRCandidateLimit(routePlan.maxSources), // Candidate pool for MMR selection
                   offset: 0,
                   includeContent: true,
                   includeEmbedding: false,
@@ -342,8 +361,14 @@ export async function POST(request: NextRequest): Promise<Response> {
                   userId,
                   context: `conversation:${conversationId}`,
                   filters: {},
+                  weights: routePlan.runClassification ? undefined : routePlan.sourceWeights,
+                  skipClassification: !routePlan.runClassification,
+                  queryType: routePlan.queryType,
                   config: {
-                    embeddingModel: complexity.embeddingModel, // Smart embedding: small (fast) vs large (quality)
+                    embeddingModel: routePlan.embeddingModel, // Smart embedding: small (fast) vs large (quality)
+                    contextTokenBudget: routePlan.contextTokenBudget,
+                    rerankEnabled: routePlan.useReranking,
+                    retrievalStrategy: isCompoundQuery(validatedRequest.message) ? 'multi_query' : 'hierarchical',
                   },
                 });
                 timings.ragSearch = Date.now() - searchStart;
@@ -356,6 +381,10 @@ export async function POST(request: NextRequest): Promise<Response> {
 
           timings.parallelExecution = Date.now() - parallelStart;
 
+          // A routing failure fails the request rather than falling back to demo mode
+          const routePlan = await routePlanPromise;
+          const smartSourceLimit = routePlan.maxSources;
+
           // Extract results from parallel execution
           const memoryContext = memoryResult.status === 'fulfilled'
             ? memoryResult.value
@@ -377,7 +406,15 @@ export async function POST(request: NextRequest): Promise<Response> {
             return;
           }
 
-          const searchResults = searchResult.value;
+          // Pick smartSourceLimit documents balancing relevance against redundancy
+          const searchResults = {
+            ...searchResult.value,
+            results: selectWithMMR(searchResult.value.results, {
+              maxSources: smartSourceLimit,
+              lambda: validatedRequest.mmrLambda,
+              diversityThreshold: DEFAULT_RETRIEVAL_CONFIG.diversityThreshold,
+            }),
+          };
 
           // Send sources found immediately for trust building (UX improvement)
           // Users can see what sources were found while generation is happening
@@ -394,13 +431,17 @@ export async function POST(request: NextRequest): Promise<Response> {
           // Step 3: Generate streaming response
           sendEvent({ type: 'status', data: { stage: 'generating', message: 'Generating response...' } });
 
+          const symbols = (await symbolsPromise).map(match => match.symbol);
           const responseStart = Date.now();
           const response = await generateStreamingResponse({
             query: validatedRequest.message,
             searchResults: [...searchResults.results], // Spread to convert readonly array to mutable
             memoryContext,
             conversationId,
-            temperature: complexity.temperature, // Use smart temperature based on query complexity
+            model: routePlan.model,
+            temperature: routePlan.temperature,
+            contextTokenBudget: routePlan.contextTokenBudget,
+            symbols,
             onToken: (token: string, delta: string) => {
               sendEvent({ type: 'token', data: { token, delta } });
             },
@@ -454,7 +495,9 @@ export async function POST(request: NextRequest): Promise<Response> {
             data: {
               message: chatMessage,
               sources: response.sources as any,
-              suggestions: response.suggestions
+              suggestions: response.suggestions,
+              routing: routePlan,
+              ...(symbols.length > 0 && { symbols })
             }
           });
 
@@ -470,9 +513,17 @@ export async function POST(request: NextRequest): Promise<Response> {
             timestamp: new Date().toISOString(),
             conversationId,
             query: validatedRequest.message.slice(0, 100),
+            routing: {
+              strategy: routePlan.strategy,
+              model: routePlan.model,
+              maxSources: routePlan.maxSources,
+              contextTokenBudget: routePlan.contextTokenBudget,
+              runClassification: routePlan.runClassification
+            },
             timings: {
               requestParsing: timings.requestParsing,
               clientInit: timings.clientInit,
+              queryRouting: timings.queryRouting || 0,
               memoryRetrieval: timings.memoryRetrieval || 0,
               ragSearch: timings.ragSearch || 0,
               parallelExecution: timings.parallelExecution || 0,
@@ -549,12 +600,16 @@ async function generateStreamingResponse(params: {
   searchResults: Document[];
   memoryContext: ConversationMemoryContext;
   conversationId: ConversationId;
+  model?: string; // Routed chat model (defaults to gpt-4o)
   temperature?: number; // Optional smart temperature (defaults to 0.5)
+  contextTokenBudget?: number; // Routed context budget shared across sources
+  symbols?: readonly IndexedSymbol[]; // Definitions of identifiers named in the query
   onToken: (token: string, delta: string) => void;
   onStatusChange: (stage: 'generating' | 'formatting', message: string) => void;
 }): Promise<{
   content: string;
   sources: Array<{
+    documentId: string;
     filepath: string;
     title: string;
     url: string;
@@ -570,11 +625,25 @@ async function generateStreamingResponse(params: {
     llmStreamTotal: number;
   };
 }> {
-  const { query, searchResults, memoryContext, temperature = 0.5, onToken, onStatusChange } = params;
-
-  // Build context from search results (reduced from 500 to 300 chars for faster processing)
+  const {
+    query,
+    searchResults,
+    memoryContext,
+    model = 'gpt-4o',
+    temperature = 0.5,
+    contextTokenBudget,
+    symbols = [],
+    onToken,
+    onStatusChange
+  } = params;
+
+  // Build context from search results, splitting the routed token budget across sources
+  // (300 chars per source without a budget, for faster processing)
+  const charsPerSource = contextTokenBudget
+    ? Math.floor((contextTokenBudget * CHARS_PER_TOKEN) / Math.max(1, searchResults.length))
+    : 300;
   const searchContext = searchResults
-    .map((doc, index) => `[${index + 1}] ${doc.content.slice(0, 300)}...`)
+    .map((doc, index) => `[${index + 1}] ${doc.content.slice(0, charsPerSource)}...`)
     .join('\n\n');
 
   // Build system prompt
@@ -590,7 +659,10 @@ async function generateStreamingResponse(params: {
 
 SEARCH CONTEXT:
 ${searchContext}
-
+${symbols.length > 0 ? `
+SYMBOL DEFINITIONS:
+${formatSymbolContext(symbols)}
+` : ''}
 QUESTION: ${query}
 
 Please provide a comprehensive answer with proper citations.`;
@@ -614,7 +686,7 @@ Please provide a comprehensive answer with proper citations.`;
 
       const streamPromise = (async () => {
         const result = await streamText({
-          model: openai('gpt-4o'), // 6x faster than gpt-4-turbo, 50% cheaper
+          model: openai(model), // Routed per strategy: gpt-4o-mini for cached/lightweight
           system: systemPrompt,
           prompt: userPrompt,
           temperature, // Smart temperature: 0.3 (simple), 0.4 (medium), 0.5 (complex)
@@ -800,6 +872,7 @@ Provide accurate, contextual responses with proper source citations. Be conversa
 
 // Citation source building
 function buildCitationSources(searchResults: Document[]): Array<{
+  documentId: string;
   filepath: string;
   title: string;
   url: string;
@@ -810,9 +883,10 @@ function buildCitationSources(searchResults: Document[]): Array<{
   authority?: 'primary' | 'authoritative' | 'supplementary' | 'community';
 }> {
   return searchResults.slice(0, 5).map((doc, index) => ({
+    documentId: doc.id,
     filepath: doc.filepath,
     title: doc.filepath,
-    url: doc.metadata?.url || `/${doc.filepath}`,
+    url: generateDocumentSectionUrl(doc) || `/${doc.filepath}`,
     content: doc.content.slice(0, 200) + '...',
     score: doc.score || 0,
     source: doc.source as 'github' | 'web',
@@ -835,56 +909,3 @@ function extractTopics(message: string): string[] {
     .filter(word => word.length > 3 && !stopWords.has(word))
     .slice(0, 5);
 }
-
-// Detect query complexity for smart optimization
-function detectQueryComplexity(query: string): {
-  sources: number;
-  temperature: number;
-  embeddingModel: 'text-embedding-3-small' | 'text-embedding-3-large';
-} {
-  const lowercaseQuery = query.toLowerCase();
-
-  // Simple queries (factual lookups)
-  const simplePatterns = [
-    /^what is /i,
-    /^who is /i,
-    /^where is /i,
-    /^when /i,
-    /^define /i,
-    /^explain /i,
-  ];
-
-  // Complex queries (requiring analysis)
-  const complexPatterns = [
-    /how does .* work/i,
-    /architecture/i,
-    /implementation/i,
-    /compare/i,
-    /difference between/i,
-    /in detail/i,
-    /comprehensive/i,
-  ];
-
-  const isSimple = simplePatterns.some(pattern => pattern.test(query));
-  const isComplex = complexPatterns.some(pattern => pattern.test(query)) || query.length > 100;
-
-  if (isSimple && !isComplex) {
-    return {
-      sources: 3,
-      temperature: 0.3,
-      embeddingModel: 'text-embedding-3-small' // 2x faster, 62% cheaper for simple queries
-    };
-  } else if (isComplex) {
-    return {
-      sources: 5,
-      temperature: 0.5,
-      embeddingModel: 'text-embedding-3-large' // Full quality for complex queries
-    };
-  } else {
-    return {
-      sources: 4,
-      temperature: 0.4,
-      embeddingModel: 'text-embedding-3-small' // Default to faster model
-    };
-  }
-}
\ No newline at end of file
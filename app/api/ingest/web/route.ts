@@ -6,7 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getWebCrawler } from '@/lib/ingestion/web-crawler';
-import { createWeaviateClient } from '@/lib/weaviate/client';
+import { getVectorStore } from '@/lib/vector-store';
 
 // API request validation
 const APIWebCrawlRequestSchema = z.object({
@@ -85,16 +85,16 @@ async function validateEnvironment(): Promise<string | null> {
     return 'FIRECRAWL_API_KEY environment variable is required';
   }
 
-  if (!process.env.WEAVIATE_HOST || !process.env.WEAVIATE_API_KEY) {
+  const store = getVectorStore();
+  if (store.backend === 'weaviate' && (!process.env.WEAVIATE_HOST || !process.env.WEAVIATE_API_KEY)) {
     return 'Weaviate configuration (WEAVIATE_HOST, WEAVIATE_API_KEY) is required';
   }
 
-  // Test Weaviate connection
+  // Test vector store connection
   try {
-    const client = createWeaviateClient();
-    await client.misc.metaGetter().do();
+    await store.healthCheck();
   } catch (error) {
-    return `Weaviate connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    return `Vector store connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
   }
 
   // Test Firecrawl service
@@ -282,6 +282,7 @@ export async function GET(): Promise<NextResponse> {
       configuration: {
         firecrawlConfigured: !!process.env.FIRECRAWL_API_KEY,
         weaviateConfigured: !!(process.env.WEAVIATE_HOST && process.env.WEAVIATE_API_KEY),
+        vectorStore: getVectorStore().backend,
         maxTargetsPerRequest: 10,
         maxPagesPerTarget: 1000,
         supportedDomains: ['docs.*', 'api.*', 'help.*'],
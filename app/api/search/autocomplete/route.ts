@@ -0,0 +1,58 @@
+/**
+ * Search Autocomplete API Route
+ * Prefix and fuzzy completions from indexed paths, symbols and past queries
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAutocompleteIndex } from '@/lib/search/autocomplete-index';
+import { processSearchError, createErrorResponse } from '@/lib/search/error-handler';
+import { AutoCompleteRequestSchema, type AutoCompleteResponse } from '@/types/search';
+
+/**
+ * Reads the request from query parameters; context is a comma-separated source list
+ */
+function parseAutoCompleteParams(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const context = params.get('context');
+
+  return AutoCompleteRequestSchema.parse({
+    partial: params.get('partial') ?? params.get('q') ?? '',
+    limit: params.get('limit') ?? undefined,
+    context: context ? context.split(',').map(source => source.trim()).filter(Boolean) : undefined
+  });
+}
+
+/**
+ * GET /api/search/autocomplete?partial=...&limit=...&context=github,web
+ * Answers from the in-memory index; a stale index is refreshed in the
+ * background so the request stays within its latency budget
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const autoCompleteRequest = parseAutoCompleteParams(request);
+    const index = getAutocompleteIndex();
+
+    index.refreshIfStale().catch(error => {
+      console.warn('Autocomplete index refresh failed:', error);
+    });
+
+    const suggestions = index.suggest(autoCompleteRequest);
+    const response: AutoCompleteResponse = {
+      suggestions,
+      metadata: {
+        queryTime: Date.now() - startTime,
+        totalSuggestions: suggestions.length
+      }
+    };
+
+    return NextResponse.json(response, {
+      headers: { 'X-Query-Time-Ms': response.metadata.queryTime.toString() }
+    });
+
+  } catch (error) {
+    const { errorResponse, status } = processSearchError(error);
+    return createErrorResponse(errorResponse, status, Date.now() - startTime);
+  }
+}
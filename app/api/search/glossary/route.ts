@@ -0,0 +1,118 @@
+/**
+ * Search Glossary API
+ * Lists and edits the terms, synonyms and acronyms used for query expansion
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { GlossaryEntrySchema } from '@/types/glossary';
+import { getGlossary, saveGlossary, setGlossary, QueryGlossary } from '@/lib/search/glossary';
+
+/**
+ * Shared error response for glossary requests
+ */
+function handleGlossaryError(error: unknown): NextResponse {
+  console.error('Glossary API error:', error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  // request.json() rejects malformed bodies with a SyntaxError
+  if (error instanceof SyntaxError) {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+// Edits run one at a time so concurrent requests never drop each other's changes
+let pendingEdit: Promise<unknown> = Promise.resolve();
+
+/**
+ * Persists an edited copy of the shared glossary and swaps it in only once
+ * the file is written, so a failed write leaves the served glossary as is
+ */
+function commitGlossary(edit: (glossary: QueryGlossary) => boolean): Promise<boolean> {
+  const committed = pendingEdit.catch(() => {}).then(async () => {
+    const glossary = new QueryGlossary((await getGlossary()).toJSON());
+    if (!edit(glossary)) return false;
+
+    await saveGlossary(glossary);
+    setGlossary(glossary);
+    return true;
+  });
+  pendingEdit = committed;
+  return committed;
+}
+
+/**
+ * GET /api/search/glossary - List glossary entries, optionally expanding a query
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q');
+    const glossary = await getGlossary();
+
+    return NextResponse.json({
+      entries: glossary.list(),
+      ...(query && { expansions: glossary.expand(query) })
+    });
+  } catch (error) {
+    return handleGlossaryError(error);
+  }
+}
+
+/**
+ * PUT /api/search/glossary - Add an entry or replace the one with the same term
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const entry = GlossaryEntrySchema.parse(await request.json());
+
+    await commitGlossary(glossary => {
+      glossary.upsert(entry);
+      return true;
+    });
+
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    return handleGlossaryError(error);
+  }
+}
+
+/**
+ * DELETE /api/search/glossary?term=... - Remove an entry by term
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const term = new URL(request.url).searchParams.get('term');
+    if (!term) {
+      return NextResponse.json(
+        { error: 'term query parameter required' },
+        { status: 400 }
+      );
+    }
+
+    if (!await commitGlossary(glossary => glossary.remove(term))) {
+      return NextResponse.json(
+        { error: 'Glossary term not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleGlossaryError(error);
+  }
+}
@@ -6,14 +6,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { testWeaviateConnection } from '@/lib/search/hybrid-search';
 import { validateAndProcessRequest } from '@/lib/search/search-validation';
-import { createPerformanceHeaders } from '@/lib/search/search-utils';
+import {
+  createPerformanceHeaders,
+  createNdjsonSearchStream,
+  emitDocumentEvents
+} from '@/lib/search/search-utils';
 import { processSearchError, createErrorResponse } from '@/lib/search/error-handler';
 import { SearchResponse } from '@/types/search';
 import { ValidatedSearchRequest } from '@/lib/search/search-validation';
 import {
   executeSearchWorkflow,
   createHealthResponse,
-  createUnhealthyResponse
+  createUnhealthyResponse,
+  type SearchExecutionParams
 } from '@/lib/search/search-orchestrator';
 
 /**
@@ -29,7 +34,9 @@ function extractSearchParams(searchRequest: ValidatedSearchRequest) {
     includeEmbedding: searchRequest.includeEmbedding ?? false,
     timeout: searchRequest.timeout ?? 5000,
     filters: searchRequest.filters,
-    config: searchRequest.config
+    config: searchRequest.config,
+    facets: searchRequest.facets ?? false,
+    explain: searchRequest.explain ?? false
   };
 }
 
@@ -49,6 +56,41 @@ function createSearchResponse(response: SearchResponse, startTime: number): Next
   return NextResponse.json(response, { status: 200, headers });
 }
 
+/**
+ * Streams the search as NDJSON: classification metadata, each document as it
+ * is scored, reranked documents when reranking is on, then a summary line
+ */
+function createNdjsonResponse(params: SearchExecutionParams): NextResponse {
+  const stream = createNdjsonSearchStream(
+    async emit => {
+      const { results, ...summary } = await executeSearchWorkflow(params, {
+        onClassified: (queryId, query, classification) => emit({
+          type: 'metadata',
+          queryId,
+          query,
+          classification: {
+            type: classification.type,
+            confidence: classification.confidence,
+            weights: params.weights ?? classification.weights
+          }
+        }),
+        onScored: document => emit({ type: 'document', stage: 'scored', document }),
+        onDocuments: (documents, stage) => emitDocumentEvents(documents, stage, emit)
+      });
+      emit({ type: 'summary', totalResults: results.length, ...summary });
+    },
+    error => processSearchError(error).errorResponse
+  );
+
+  return new NextResponse(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
+
 /**
  * POST /api/search - Hybrid search endpoint
  */
@@ -58,6 +100,10 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
     const searchRequest = await validateAndProcessRequest(request);
     const params = extractSearchParams(searchRequest);
+    if (searchRequest.stream) {
+      return createNdjsonResponse(params);
+    }
+
     const response = await executeSearchWorkflow(params);
     return createSearchResponse(response, startTime);
 
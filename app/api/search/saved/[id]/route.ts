@@ -0,0 +1,37 @@
+/**
+ * Saved Search API
+ * Removes a single subscription
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSavedSearchService } from '@/lib/search/saved-searches';
+import { createSavedSearchId } from '@/types/saved-search';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/search/saved/[id] - Stop notifying for a saved search
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const deleted = await getSavedSearchService().delete(createSavedSearchId(id));
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Saved search not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Saved search API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Saved Search Check API
+ * Re-checks every subscription outside of an ingestion run
+ */
+
+import { NextResponse } from 'next/server';
+import { getSavedSearchService } from '@/lib/search/saved-searches';
+
+/**
+ * POST /api/search/saved/check - Notify subscriptions with new or changed results
+ */
+export async function POST() {
+  try {
+    const notifications = await getSavedSearchService().check({ trigger: 'manual' });
+
+    return NextResponse.json({ success: true, notifications });
+  } catch (error) {
+    console.error('Saved search check error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
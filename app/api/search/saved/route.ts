@@ -0,0 +1,57 @@
+/**
+ * Saved Searches API
+ * Subscriptions to a query plus filters, and the notifications they raised
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSavedSearchService } from '@/lib/search/saved-searches';
+import { CreateSavedSearchRequestSchema } from '@/types/saved-search';
+
+/**
+ * GET /api/search/saved - List subscriptions and recent notifications
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const limit = Number(new URL(request.url).searchParams.get('limit')) || undefined;
+    const service = getSavedSearchService();
+    const [searches, notifications] = await Promise.all([
+      service.list(),
+      service.listNotifications(limit)
+    ]);
+
+    return NextResponse.json({ searches, notifications });
+  } catch (error) {
+    console.error('Saved searches API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/search/saved - Save a query, baselined on its current results
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = CreateSavedSearchRequestSchema.parse(await request.json());
+    const search = await getSavedSearchService().create(body);
+
+    return NextResponse.json({ success: true, search }, { status: 201 });
+  } catch (error) {
+    console.error('Saved searches API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
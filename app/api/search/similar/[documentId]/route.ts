@@ -0,0 +1,80 @@
+/**
+ * Similar Documents API Route
+ * "More like this" neighbours of a stored document
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { findSimilarDocuments } from '@/lib/search/similar-documents';
+import { processSearchError, createErrorResponse } from '@/lib/search/error-handler';
+import {
+  SimilarDocumentsRequestSchema,
+  type SimilarDocumentsResponse
+} from '@/types/search';
+
+interface RouteParams {
+  params: Promise<{ documentId: string }>;
+}
+
+function parseList(value: string | null): string[] | undefined {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+/**
+ * Reads SearchFilters from query parameters; lists are comma-separated
+ */
+function parseFilterParams(params: URLSearchParams) {
+  const from = params.get('from');
+  const to = params.get('to');
+  const minScore = params.get('minScore');
+  const filters = {
+    source: parseList(params.get('source')),
+    language: parseList(params.get('language')),
+    tags: parseList(params.get('tags')),
+    dateRange: from || to ? { from: from ?? undefined, to: to ?? undefined } : undefined,
+    minScore: minScore !== null ? Number(minScore) : undefined
+  };
+
+  const present = Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined));
+  return Object.keys(present).length > 0 ? present : undefined;
+}
+
+/**
+ * GET /api/search/similar/[documentId]?limit=&excludeSiblings=&includeContent=&source=&language=&tags=&from=&to=&minScore=
+ */
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const { documentId } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const similarRequest = SimilarDocumentsRequestSchema.parse({
+      documentId,
+      limit: searchParams.get('limit') ?? undefined,
+      excludeSiblings: searchParams.get('excludeSiblings') === 'true',
+      includeContent: searchParams.get('includeContent') === 'true',
+      filters: parseFilterParams(searchParams)
+    });
+
+    const { documents, excludedSiblings, searchTime } = await findSimilarDocuments(similarRequest);
+    const response: SimilarDocumentsResponse = {
+      success: true,
+      documentId: similarRequest.documentId,
+      results: documents,
+      metadata: {
+        searchTime,
+        totalResults: documents.length,
+        excludedSiblings,
+        filters: similarRequest.filters
+      }
+    };
+
+    return NextResponse.json(response, {
+      headers: { 'X-Total-Time-Ms': (Date.now() - startTime).toString() }
+    });
+
+  } catch (error) {
+    const { errorResponse, status } = processSearchError(error);
+    return createErrorResponse(errorResponse, status, Date.now() - startTime);
+  }
+}
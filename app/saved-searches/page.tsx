@@ -0,0 +1,88 @@
+/**
+ * Saved Searches
+ * Manage query subscriptions and review their notifications
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '../../src/components/ui/button';
+import { SavedSearchesPanel } from '../../src/components/search/SavedSearchesPanel';
+import type { SavedSearch, SavedSearchNotification } from '../../src/types/saved-search';
+import { RefreshCw } from 'lucide-react';
+
+const SavedSearchesPage = () => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [notifications, setNotifications] = useState<SavedSearchNotification[]>([]);
+  const [checking, setChecking] = useState(false);
+
+  const fetchSavedSearches = async () => {
+    try {
+      const response = await fetch('/api/search/saved');
+      if (response.ok) {
+        const data = await response.json();
+        setSearches(data.searches);
+        setNotifications(data.notifications);
+      }
+    } catch (error) {
+      console.error('Failed to fetch saved searches:', error);
+    }
+  };
+
+  const createSearch = async (input: { name: string; query: string; topN: number }) => {
+    const response = await fetch('/api/search/saved', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    });
+    if (!response.ok) {
+      console.error('Failed to save search:', await response.text());
+    }
+    await fetchSavedSearches();
+  };
+
+  const deleteSearch = async (id: SavedSearch['id']) => {
+    await fetch(`/api/search/saved/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    await fetchSavedSearches();
+  };
+
+  const checkNow = async () => {
+    setChecking(true);
+    try {
+      await fetch('/api/search/saved/check', { method: 'POST' });
+      await fetchSavedSearches();
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSavedSearches();
+  }, []);
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Saved Searches</h1>
+          <p className="text-muted-foreground">
+            Checked after every crawl and local ingestion run
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={checkNow} disabled={checking}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${checking ? 'animate-spin' : ''}`} />
+          Check now
+        </Button>
+      </div>
+
+      <SavedSearchesPanel
+        searches={searches}
+        notifications={notifications}
+        onCreate={createSearch}
+        onDelete={deleteSearch}
+      />
+    </div>
+  );
+};
+
+export default SavedSearchesPage;
@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -19,10 +20,86 @@ import {
   StarIcon,
   ShieldCheckIcon,
   InfoIcon,
-  UsersIcon
+  UsersIcon,
+  LinkIcon
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { SourceViewerProps, Citation } from './types';
+import type { Document, SimilarDocumentsResponse } from '@/types/search';
+
+const RELATED_FILES_LIMIT = 3;
+
+/**
+ * RelatedFiles - "More like this" for one citation
+ * Loads neighbours from other directories on demand
+ */
+function RelatedFiles({ documentId }: { documentId: string }) {
+  const [related, setRelated] = useState<readonly Document[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadRelated = async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(
+        `/api/search/similar/${encodeURIComponent(documentId)}?limit=${RELATED_FILES_LIMIT}&excludeSiblings=true`
+      );
+      if (res.ok) {
+        const data: SimilarDocumentsResponse = await res.json();
+        setRelated(data.results);
+      }
+    } catch (error) {
+      console.error('Failed to load related files:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!related) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="mt-2 h-6 px-2 text-xs"
+        disabled={isLoading}
+        onClick={event => {
+          event.stopPropagation();
+          loadRelated();
+        }}
+      >
+        <LinkIcon className="h-3 w-3" />
+        {isLoading ? 'Loading related files...' : 'Related files'}
+      </Button>
+    );
+  }
+
+  if (related.length === 0) {
+    return <p className="mt-2 text-xs text-muted-foreground">No related files found</p>;
+  }
+
+  return (
+    <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+      {related.map(doc => (
+        <li key={doc.id} className="flex items-center gap-1">
+          <LinkIcon className="h-3 w-3" />
+          {doc.metadata.url ? (
+            <a
+              href={doc.metadata.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="truncate hover:underline"
+              onClick={event => event.stopPropagation()}
+            >
+              {doc.filepath}
+            </a>
+          ) : (
+            <span className="truncate">{doc.filepath}</span>
+          )}
+          <span className="opacity-75">{Math.round(doc.score * 100)}%</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
 
 /**
  * SourceViewer - Displays RAG citations with enhanced UI
@@ -203,6 +280,8 @@ export default function SourceViewer({
                     <span className="truncate">{citation.url}</span>
                   </div>
                 )}
+
+                {citation.documentId && <RelatedFiles documentId={citation.documentId} />}
               </CardContent>
             </Card>
           ))}
@@ -4,6 +4,8 @@
  */
 
 export interface Citation {
+  /** Indexed document id, used to look up related files */
+  documentId?: string;
   /** File path within the repository */
   filepath?: string;
   /** Title of the source (alternative to filepath) */
@@ -6,7 +6,7 @@ const config = {
     '^.+\\.(js|jsx|ts|tsx)$': '@swc/jest',
   },
   transformIgnorePatterns: [
-    'node_modules/(?!(@upstash/redis|uncrypto)/)',
+    'node_modules/(?!(@upstash/redis|uncrypto|yaml)/)',
   ],
   setupFilesAfterEnv: [
     '<rootDir>/jest.setup.js',
@@ -8,6 +8,10 @@ const nextConfig: NextConfig = {
     ignoreBuildErrors: true,
   },
 
+  // Symbol extraction parses code with the TypeScript compiler; load it
+  // from node_modules instead of bundling it into server routes
+  serverExternalPackages: ['typescript'],
+
   // Performance optimizations
   compress: true, // Enable gzip compression
 
@@ -2,12 +2,46 @@
 
 import dotenv from 'dotenv'
 import { LocalRepositoryProcessor } from '../src/lib/ingestion/local-processor'
-import { createWeaviateClient, testConnection } from '../src/lib/weaviate/client'
+import { loadSourceAuthorityRules } from '../src/lib/ingestion/source-authority'
+import { testConnection } from '../src/lib/weaviate/client'
+import { getVectorStore } from '../src/lib/vector-store'
+import type { VectorStore } from '../src/lib/vector-store/types'
+import {
+  applySyncPlan,
+  defaultManifestPath,
+  DEFAULT_WATCH_DEBOUNCE_MS,
+  loadSyncManifest,
+  localWriteItem,
+  planPathSync,
+  planSync,
+  recordWrittenFile,
+  saveSyncManifest,
+  watchRepository,
+  writeItemIds,
+  type IngestedObjects,
+  type LocalObjectOptions,
+  type SyncManifest,
+  type SyncPlan
+} from '../src/lib/ingestion/local-sync'
+import { readGitProvenance } from '../src/lib/ingestion/git-provenance'
+import {
+  BatchWriter,
+  DEFAULT_BATCH_WRITER_OPTIONS,
+  formatBatchProgress,
+  formatDuration,
+  IngestionCheckpoint,
+  type BatchWriterOptions
+} from '../src/lib/ingestion/batch-writer'
+import { createDocumentHash } from '../src/lib/search/search-utils'
+import { notifySavedSearches, savedSearchDocumentKey } from '../src/lib/search/saved-searches'
+import { resolve } from 'path'
 import { z } from 'zod'
 
 // Load environment variables from .env.local
 dotenv.config({ path: '.env.local' })
 
+const PROGRESS_INTERVAL_MS = 5000
+
 const ConfigSchema = z.object({
   localRepoPath: z.string(),
   dryRun: z.boolean().default(false),
@@ -15,7 +49,18 @@ const ConfigSchema = z.object({
   verbose: z.boolean().default(false),
   source: z.string().default('local'),
   baseUrl: z.string().optional(),
-  priority: z.number().default(1.2)
+  priority: z.number().default(1.2),
+  chunks: z.boolean().default(true),
+  authorityConfig: z.string().optional(),
+  sync: z.boolean().default(false),
+  watch: z.boolean().default(false),
+  manifest: z.string().optional(),
+  debounceMs: z.number().default(DEFAULT_WATCH_DEBOUNCE_MS),
+  batchSize: z.number().int().positive().default(DEFAULT_BATCH_WRITER_OPTIONS.batchSize),
+  concurrency: z.number().int().positive().default(DEFAULT_BATCH_WRITER_OPTIONS.concurrency),
+  retries: z.number().int().nonnegative().default(DEFAULT_BATCH_WRITER_OPTIONS.maxRetries),
+  resume: z.boolean().default(false),
+  checkpoint: z.string().optional()
 })
 
 async function main() {
@@ -27,14 +72,30 @@ async function main() {
     console.error('')
     console.error('Options:')
     console.error('  --source <type>     Source type (default: "local", e.g., "github", "company")')
-    console.error('  --base-url <url>    Base URL for generating document URLs (e.g., GitHub repo URL)')
+    console.error('  --base-url <url>    Base URL for generating document URLs (e.g., GitHub repo URL);')
+    console.error('                      links are pinned to HEAD when the path is a git checkout')
     console.error('  --priority <num>    Priority weight for documents (default: 1.2)')
     console.error('  --max-files <num>   Maximum number of files to process')
-    console.error('  --dry-run           Show what would be ingested without writing to Weaviate')
+    console.error('  --no-chunks         Store whole files only, skipping Chunk objects')
+    console.error('  --authority-config <path>  JSON rules mapping repo paths to source authority')
+    console.error('                      (default: SOURCE_AUTHORITY_CONFIG)')
+    console.error('  --sync              Only write added and changed files and delete removed ones,')
+    console.error('                      tracked by a manifest of content hashes')
+    console.error('  --manifest <path>   Sync manifest location (default: data/sync/<source>-<hash>.json)')
+    console.error('  --watch             Sync, then re-sync whenever files change (implies --sync)')
+    console.error('  --debounce <ms>     Quiet period before a watch re-sync (default: 500)')
+    console.error('  --batch-size <num>  Objects per vector store batch (default: 100)')
+    console.error('  --concurrency <num> Batches written in parallel (default: 2)')
+    console.error('  --retries <num>     Retries with backoff for transient write errors (default: 3)')
+    console.error('  --resume            Skip files an interrupted run already wrote')
+    console.error('  --checkpoint <path> Checkpoint location (default: data/checkpoints/<source>-<hash>.json)')
+    console.error('  --dry-run           Show what would be ingested without writing to the vector store')
     console.error('  --verbose           Show detailed progress information')
     console.error('')
     console.error('Example:')
     console.error('  npm run ingest-local ./company-repo --source github --base-url https://github.com/company/repo --priority 1.5')
+    console.error('  npm run ingest-local ./company-repo --watch')
+    console.error('  npm run ingest-local ./company-repo --batch-size 200 --concurrency 4 --resume')
     console.error('')
     console.error('Or set LOCAL_REPO_PATH environment variable')
     process.exit(1)
@@ -52,6 +113,24 @@ async function main() {
   const priorityIndex = args.indexOf('--priority')
   const priority = priorityIndex >= 0 ? parseFloat(args[priorityIndex + 1]) : 1.2
 
+  // Parse authority rules argument
+  const authorityConfigIndex = args.indexOf('--authority-config')
+  const authorityConfig = authorityConfigIndex >= 0
+    ? args[authorityConfigIndex + 1]
+    : process.env.SOURCE_AUTHORITY_CONFIG
+
+  // Parse sync arguments
+  const manifestIndex = args.indexOf('--manifest')
+  const debounceIndex = args.indexOf('--debounce')
+  const watch = args.includes('--watch')
+
+  // Parse batch writer arguments
+  const numberArg = (flag: string) => {
+    const index = args.indexOf(flag)
+    return index >= 0 ? parseInt(args[index + 1]) : undefined
+  }
+  const checkpointIndex = args.indexOf('--checkpoint')
+
   const config = ConfigSchema.parse({
     localRepoPath,
     dryRun: args.includes('--dry-run'),
@@ -60,7 +139,18 @@ async function main() {
       parseInt(args[args.indexOf('--max-files') + 1]) : undefined,
     source,
     baseUrl,
-    priority
+    priority,
+    chunks: !args.includes('--no-chunks'),
+    authorityConfig,
+    sync: watch || args.includes('--sync'),
+    watch,
+    manifest: manifestIndex >= 0 ? args[manifestIndex + 1] : undefined,
+    debounceMs: debounceIndex >= 0 ? parseInt(args[debounceIndex + 1]) : DEFAULT_WATCH_DEBOUNCE_MS,
+    batchSize: numberArg('--batch-size'),
+    concurrency: numberArg('--concurrency'),
+    retries: numberArg('--retries'),
+    resume: args.includes('--resume'),
+    checkpoint: checkpointIndex >= 0 ? args[checkpointIndex + 1] : undefined
   })
 
   console.log('🚀 Starting local repository ingestion...')
@@ -70,26 +160,34 @@ async function main() {
     console.log(`🔗 Base URL: ${config.baseUrl}`)
   }
   console.log(`⚡ Priority: ${config.priority}`)
+  if (config.authorityConfig) {
+    console.log(`🛡️  Authority rules: ${config.authorityConfig}`)
+  }
 
   if (config.dryRun) {
-    console.log('🧪 DRY RUN MODE - No data will be written to Weaviate')
+    console.log('🧪 DRY RUN MODE - No data will be written to the vector store')
   }
 
   try {
-    // Test Weaviate connection
-    console.log('🔌 Testing Weaviate connection...')
-    const connected = await testConnection()
+    const store = getVectorStore()
 
-    if (!connected) {
-      console.error('❌ Failed to connect to Weaviate. Check your configuration.')
-      process.exit(1)
-    }
+    // Test Weaviate connection (the in-memory store needs none)
+    if (store.backend === 'weaviate') {
+      console.log('🔌 Testing Weaviate connection...')
+      const connected = await testConnection()
 
-    console.log('✅ Weaviate connection successful')
+      if (!connected) {
+        console.error('❌ Failed to connect to Weaviate. Check your configuration.')
+        process.exit(1)
+      }
+
+      console.log('✅ Weaviate connection successful')
+    }
 
     // Initialize processor
     const processor = new LocalRepositoryProcessor({
-      basePath: config.localRepoPath
+      basePath: config.localRepoPath,
+      authorityRules: loadSourceAuthorityRules(config.authorityConfig)
     })
 
     // Process files
@@ -115,6 +213,13 @@ async function main() {
     console.log(`  Documentation: ${stats.docs}`)
     console.log(`  Configuration: ${stats.config}`)
     console.log(`  Other: ${stats.other}`)
+    console.log(`  Authority: ${['primary', 'authoritative', 'supplementary', 'community']
+      .map(level => `${level} ${files.filter(f => f.authority === level).length}`)
+      .join(', ')}`)
+    if (config.chunks) {
+      console.log(`  Chunks: ${files.reduce((sum, f) => sum + f.chunks.length, 0)}`)
+    }
+    console.log(`  Symbols: ${files.reduce((sum, f) => sum + f.symbols.length, 0)}`)
 
     if (config.verbose) {
       console.log('\n📋 File breakdown:')
@@ -123,60 +228,150 @@ async function main() {
       })
     }
 
-    if (!config.dryRun) {
-      console.log('\n🚀 Starting Weaviate ingestion...')
-
-      const client = createWeaviateClient()
-      let successCount = 0
-      let errorCount = 0
-
-      for (const file of files) {
-        try {
-          // Generate URL based on configuration
-          let url: string
-          if (config.baseUrl) {
-            // Use base URL if provided (e.g., GitHub URL)
-            url = `${config.baseUrl}/blob/main/${file.relativePath}`
-          } else {
-            // Fall back to local:// URL
-            url = `${config.source}://${file.relativePath}`
-          }
-
-          const document = {
-            content: file.content,
-            source: config.source,
-            filepath: file.relativePath,
-            url: url,
-            lastModified: file.lastModified.toISOString(),
-            priority: config.priority,
-            language: file.language,
-            isCode: file.metadata.isCode,
-            isDocumentation: file.metadata.isDocumentation,
-            fileType: file.metadata.fileType,
-            size: file.size
-          }
+    const git = await readGitProvenance(config.localRepoPath)
+    if (git) {
+      console.log(`\n🌿 Git: ${git.branch ?? 'detached HEAD'} @ ${git.commit.slice(0, 12)}` +
+        ` (${git.dirty.size} uncommitted paths link to the branch)`)
+    } else {
+      console.log('\n🌿 Git: not a git checkout, links are not pinned to a commit')
+    }
 
-          await client.data.creator()
-            .withClassName('Document')
-            .withProperties(document)
-            .do()
+    const objectOptions: LocalObjectOptions = {
+      source: config.source,
+      baseUrl: config.baseUrl,
+      priority: config.priority,
+      chunks: config.chunks,
+      git: git ?? undefined
+    }
 
-          successCount++
+    const writerOptions = {
+      batchSize: config.batchSize,
+      concurrency: config.concurrency,
+      maxRetries: config.retries
+    }
+    const manifestPath = config.manifest ?? defaultManifestPath(config.localRepoPath, config.source)
 
-          if (config.verbose || successCount % 50 === 0) {
-            console.log(`  ✅ Ingested: ${file.relativePath} (${successCount}/${files.length})`)
+    if (config.sync) {
+      const manifest = await loadSyncManifest(manifestPath, {
+        source: config.source,
+        basePath: resolve(config.localRepoPath)
+      })
+      console.log(`\n🔄 Sync manifest: ${manifestPath} (${Object.keys(manifest.files).length} files)`)
+
+      // A limited file list says nothing about the files left out
+      const prune = !config.maxFiles
+      const plan = planSync(manifest, files, prune)
+      await syncFiles(store, plan, manifest, manifestPath, objectOptions, writerOptions, config.dryRun)
+
+      if (config.watch) {
+        console.log(`\n👀 Watching ${config.localRepoPath} for changes (debounce ${config.debounceMs}ms, Ctrl+C to stop)`)
+        const watcher = watchRepository(config.localRepoPath, async paths => {
+          console.log(`\n📝 ${paths.length} path(s) changed, syncing...`)
+          // Only changed paths are read; deleted ones are missing from present
+          const { files: current, present } = await processor.processPaths(paths)
+          // HEAD may have moved since the last sync
+          const currentGit = await readGitProvenance(config.localRepoPath)
+          const options = { ...objectOptions, git: currentGit ?? undefined }
+          const plan = planPathSync(manifest, current, paths, present)
+          await syncFiles(store, plan, manifest, manifestPath, options, writerOptions, config.dryRun)
+        }, config.debounceMs)
+
+        process.once('SIGINT', async () => {
+          console.log('\n⏳ Finishing the current sync...')
+          // Syncs changes already seen and saves the manifest before the store flushes
+          await watcher.close()
+          await store.flush()
+          console.log('👋 Stopped watching')
+          process.exit(0)
+        })
+        return
+      }
+    } else if (!config.dryRun) {
+      console.log(`\n🚀 Starting ingestion into ${store.backend} vector store...`)
+
+      const checkpointPath = config.checkpoint ?? IngestionCheckpoint.defaultPath(config.localRepoPath, config.source)
+      const scope = { source: config.source, basePath: resolve(config.localRepoPath) }
+      const checkpoint = config.resume
+        ? await IngestionCheckpoint.load(checkpointPath, scope)
+        : IngestionCheckpoint.create(checkpointPath, scope)
+      const hashes = new Map(files.map(file => [file.relativePath, createDocumentHash(file.content)]))
+      const pending = files.filter(file => !checkpoint.isComplete(file.relativePath, hashes.get(file.relativePath)!))
+
+      if (config.resume) {
+        console.log(`⏯️  Resuming from ${checkpointPath}: ${files.length - pending.length} files already written`)
+      }
+      console.log(`📦 Batches of ${config.batchSize} objects, ${config.concurrency} in flight, ${config.retries} retries`)
+
+      // Full runs keep the sync manifest current, so a later --sync only
+      // touches what changed and stale chunks and symbols are dropped now
+      const manifest = await loadSyncManifest(manifestPath, scope)
+      const written = new Map<string, IngestedObjects>()
+      const ingestedKeys: string[] = []
+      let chunkCount = 0
+      let symbolCount = 0
+      let lastReport = 0
+
+      const writer = new BatchWriter(store, {
+        ...writerOptions,
+        totalItems: pending.length,
+        onItemsWritten: async paths => {
+          for (const path of paths) {
+            const objects = written.get(path)!
+            await recordWrittenFile(store, manifest, path, hashes.get(path)!, objects)
+            checkpoint.markComplete(path, hashes.get(path)!)
+            ingestedKeys.push(savedSearchDocumentKey(config.source, path))
+            chunkCount += objects.chunkIds.length
+            symbolCount += objects.symbolIds.length
+            if (config.verbose) console.log(`  ✅ Ingested: ${path}`)
+          }
+          await checkpoint.save()
+        },
+        onProgress: progress => {
+          if (config.verbose || progress.elapsedMs - lastReport >= PROGRESS_INTERVAL_MS) {
+            lastReport = progress.elapsedMs
+            console.log(`  ⏱️  ${formatBatchProgress(progress, 'files')}`)
           }
-
-        } catch (error) {
-          errorCount++
-          console.error(`  ❌ Failed: ${file.relativePath}`, error)
         }
+      })
+
+      for (const file of pending) {
+        const item = localWriteItem(file, objectOptions)
+        written.set(file.relativePath, writeItemIds(item))
+        await writer.write(item)
+      }
+      const summary = await writer.flush()
+      // The in-memory store saves its snapshot here
+      await store.flush()
+      if (summary.items > 0) {
+        await saveSyncManifest(manifestPath, manifest)
       }
 
       console.log(`\n📊 Ingestion Summary:`)
-      console.log(`  ✅ Success: ${successCount}`)
-      console.log(`  ❌ Errors: ${errorCount}`)
-      console.log(`  📈 Success rate: ${((successCount / files.length) * 100).toFixed(1)}%`)
+      console.log(`  ✅ Success: ${summary.items}`)
+      if (config.resume) {
+        console.log(`  ⏭️  Skipped (checkpoint): ${files.length - pending.length}`)
+      }
+      if (config.chunks) {
+        console.log(`  🧩 Chunks: ${chunkCount}`)
+      }
+      console.log(`  🔣 Symbols: ${symbolCount}`)
+      console.log(`  ❌ Errors: ${summary.failed}`)
+      console.log(`  🔁 Retries: ${summary.retries}`)
+      console.log(`  ⏱️  ${formatDuration(summary.elapsedMs)} at ${summary.objectsPerSecond.toFixed(1)} objects/s`)
+      if (pending.length > 0) {
+        console.log(`  📈 Success rate: ${((summary.items / pending.length) * 100).toFixed(1)}%`)
+      }
+
+      if (summary.failed === 0) {
+        await checkpoint.remove()
+      } else {
+        console.log(`  💾 Checkpoint saved to ${checkpointPath}; rerun with --resume to retry failed files`)
+      }
+
+      const notified = await notifySavedSearches({ trigger: 'local_ingest', changed: ingestedKeys })
+      if (notified > 0) {
+        console.log(`  🔔 Saved search notifications: ${notified}`)
+      }
     }
 
     console.log('\n✅ Local ingestion completed successfully!')
@@ -187,6 +382,60 @@ async function main() {
   }
 }
 
+/**
+ * Applies a sync plan: writes changed files, deletes removed ones and saves
+ * the manifest when anything changed
+ */
+async function syncFiles(
+  store: VectorStore,
+  plan: SyncPlan,
+  manifest: SyncManifest,
+  manifestPath: string,
+  options: LocalObjectOptions,
+  writerOptions: Partial<BatchWriterOptions>,
+  dryRun: boolean
+) {
+
+  if (dryRun) {
+    console.log(`\n📊 Sync Plan:`)
+    console.log(`  ➕ Added: ${plan.added.length}`)
+    console.log(`  ✏️  Changed: ${plan.changed.length}`)
+    console.log(`  ➖ Removed: ${plan.removed.length}`)
+    console.log(`  ⏸️  Unchanged: ${plan.unchanged}`)
+    for (const file of plan.added) console.log(`  + ${file.relativePath}`)
+    for (const file of plan.changed) console.log(`  ~ ${file.relativePath}`)
+    for (const path of plan.removed) console.log(`  - ${path}`)
+    return
+  }
+
+  const result = await applySyncPlan(store, plan, manifest, options, writerOptions)
+  await store.flush()
+  if (result.touched.length > 0) {
+    await saveSyncManifest(manifestPath, manifest)
+  }
+
+  console.log(`\n📊 Sync Summary:`)
+  console.log(`  ➕ Added: ${result.added}`)
+  console.log(`  ✏️  Changed: ${result.changed}`)
+  console.log(`  ➖ Removed: ${result.removed}`)
+  console.log(`  ⏸️  Unchanged: ${result.unchanged}`)
+  if (options.chunks) {
+    console.log(`  🧩 Chunks written: ${result.chunkCount}`)
+  }
+  console.log(`  🔣 Symbols written: ${result.symbolCount}`)
+  console.log(`  ❌ Errors: ${result.errors}`)
+
+  if (result.touched.length > 0) {
+    const notified = await notifySavedSearches({
+      trigger: 'local_ingest',
+      changed: result.touched.map(path => savedSearchDocumentKey(options.source, path))
+    })
+    if (notified > 0) {
+      console.log(`  🔔 Saved search notifications: ${notified}`)
+    }
+  }
+}
+
 // Run if called directly
 if (require.main === module) {
   main()
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Bell, Trash2 } from 'lucide-react';
+import type { SavedSearch, SavedSearchNotification } from '../../types/saved-search';
+
+interface SavedSearchesPanelProps {
+  searches: readonly SavedSearch[];
+  notifications: readonly SavedSearchNotification[];
+  onCreate: (input: { name: string; query: string; topN: number }) => Promise<void>;
+  onDelete: (id: SavedSearch['id']) => Promise<void>;
+}
+
+export function SavedSearchesPanel({ searches, notifications, onCreate, onDelete }: SavedSearchesPanelProps) {
+  const [name, setName] = useState('');
+  const [query, setQuery] = useState('');
+  const [topN, setTopN] = useState(10);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || !query.trim()) return;
+
+    setSaving(true);
+    try {
+      await onCreate({ name: name.trim(), query: query.trim(), topN });
+      setName('');
+      setQuery('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Saved Searches</CardTitle>
+          <CardDescription>
+            Get notified when new or changed content ranks for a query
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-2 mb-4">
+            <input
+              className="w-full rounded-md border px-3 py-2 text-sm"
+              placeholder="Name"
+              value={name}
+              onChange={event => setName(event.target.value)}
+            />
+            <input
+              className="w-full rounded-md border px-3 py-2 text-sm"
+              placeholder="Query, e.g. lang:ts rate limiter"
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+            />
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-muted-foreground" htmlFor="saved-search-top-n">Top</label>
+              <input
+                id="saved-search-top-n"
+                type="number"
+                min={1}
+                max={50}
+                className="w-20 rounded-md border px-3 py-2 text-sm"
+                value={topN}
+                onChange={event => setTopN(Number(event.target.value) || 10)}
+              />
+              <Button type="submit" size="sm" disabled={saving}>
+                Save search
+              </Button>
+            </div>
+          </form>
+
+          {searches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No saved searches yet</p>
+          ) : (
+            <div className="space-y-2">
+              {searches.map(search => (
+                <div key={search.id} className="flex items-start gap-2 p-2 rounded-lg bg-muted/50">
+                  <div className="flex-1">
+                    <p className="text-sm font-medium">{search.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {search.query} · top {search.topN}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => onDelete(search.id)} aria-label={`Delete ${search.name}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Notifications
+          </CardTitle>
+          <CardDescription>
+            Results that entered or changed in a saved search&apos;s top N
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {notifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No notifications yet</p>
+          ) : (
+            <div className="space-y-2">
+              {notifications.map(notification => (
+                <div key={notification.id} className="p-2 rounded-lg bg-muted/50">
+                  <div className="flex justify-between items-center mb-1">
+                    <p className="text-sm font-medium">{notification.savedSearchName}</p>
+                    <Badge variant="outline" className="text-xs">{notification.trigger}</Badge>
+                  </div>
+                  {notification.matches.map(match => (
+                    <p key={`${match.source}:${match.filepath}`} className="text-xs">
+                      #{match.rank} {match.filepath}{' '}
+                      <Badge variant={match.change === 'new' ? 'success' : 'secondary'} className="text-xs">
+                        {match.change}
+                      </Badge>
+                    </p>
+                  ))}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {new Date(notification.createdAt).toLocaleString()}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * URL Generator Tests
+ * Covers section deep links and commit-pinned permalinks for citations
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { generateBlobUrl, generateDocumentSectionUrl, generateSectionUrl, pinBlobUrl } from '../url-generator';
+import { createDocumentId, type Document, type DocumentChunk } from '../../../types/search';
+
+function page(url: string | undefined, chunks?: DocumentChunk[], git: { branch?: string; commit?: string } = {}): Document {
+  return {
+    id: createDocumentId('web-1'),
+    filepath: '/docs/setup',
+    metadata: { url, ...git },
+    chunks
+  } as unknown as Document;
+}
+
+function chunk(chunkIndex: number, anchor?: string, score?: number, lines = [1, 1]): DocumentChunk {
+  return {
+    id: `web-1#${chunkIndex}`,
+    content: '',
+    startLine: lines[0],
+    endLine: lines[1],
+    chunkIndex,
+    totalChunks: 3,
+    anchor,
+    score
+  };
+}
+
+describe('section URLs', () => {
+  it('replaces an existing fragment', () => {
+    expect(generateSectionUrl('https://docs.test/setup#top', 'install')).toBe('https://docs.test/setup#install');
+  });
+
+  it('links to the best-scoring chunk with an anchor', () => {
+    const doc = page('https://docs.test/setup', [chunk(0, 'intro', 0.4), chunk(1, 'install', 0.9), chunk(2, undefined, 1)]);
+
+    expect(generateDocumentSectionUrl(doc)).toBe('https://docs.test/setup#install');
+  });
+
+  it('falls back to the document URL', () => {
+    expect(generateDocumentSectionUrl(page('https://docs.test/setup', [chunk(0)]))).toBe('https://docs.test/setup');
+    expect(generateDocumentSectionUrl(page(undefined, [chunk(0, 'intro')]))).toBeUndefined();
+  });
+});
+
+describe('permalinks', () => {
+  const repo = 'https://github.com/acme/app';
+  const sha = '0123456789abcdef0123456789abcdef01234567';
+
+  it('builds blob URLs at a ref', () => {
+    expect(generateBlobUrl(`${repo}/`, sha, '/src/a.ts')).toBe(`${repo}/blob/${sha}/src/a.ts`);
+  });
+
+  it('pins branch URLs, including branch names with slashes', () => {
+    expect(pinBlobUrl(`${repo}/blob/feature/cache/src/a.ts`, sha, 'feature/cache')).toBe(`${repo}/blob/${sha}/src/a.ts`);
+    expect(pinBlobUrl(`${repo}/blob/main/src/a.ts`, sha)).toBe(`${repo}/blob/main/src/a.ts`);
+  });
+
+  it('links commit-pinned code to the best chunk line range', () => {
+    const doc = page(`${repo}/blob/main/src/a.ts`, [chunk(0, undefined, 0.2, [1, 8]), chunk(1, undefined, 0.7, [9, 30])], {
+      branch: 'main',
+      commit: sha
+    });
+
+    expect(generateDocumentSectionUrl(doc)).toBe(`${repo}/blob/${sha}/src/a.ts#L9-L30`);
+  });
+
+  it('prefers section anchors and leaves unpinned documents without line ranges', () => {
+    const pinned = page(`${repo}/blob/${sha}/README.md`, [chunk(0, undefined, 0.9), chunk(1, 'usage', 0.5)], { commit: sha });
+    const unpinned = page(`${repo}/blob/main/src/a.ts`, [chunk(0, undefined, 0.9, [3, 4])], { branch: 'main' });
+
+    expect(generateDocumentSectionUrl(pinned)).toBe(`${repo}/blob/${sha}/README.md#usage`);
+    expect(generateDocumentSectionUrl(unpinned)).toBe(`${repo}/blob/main/src/a.ts`);
+  });
+});
@@ -4,6 +4,7 @@
  */
 
 import type { GitHubMetadata, SourceLocation } from '../../types/source-attribution';
+import type { Document, DocumentChunk } from '../../types/search';
 
 /**
  * Generates GitHub URL with line number anchors
@@ -162,4 +163,52 @@ export function getFileType(filepath: string): 'code' | 'doc' | 'config' | 'test
   }
 
   return 'code';
-}
\ No newline at end of file
+}
+
+/**
+ * Points a URL at a section anchor, replacing any existing fragment
+ */
+export function generateSectionUrl(url: string, anchor: string): string {
+  return `${url.split('#')[0]}#${anchor}`;
+}
+
+/**
+ * Blob URL of a file at a ref, e.g. https://github.com/org/repo/blob/<ref>/<path>
+ */
+export function generateBlobUrl(baseUrl: string, ref: string, filepath: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/blob/${ref}/${filepath.replace(/^\//, '')}`;
+}
+
+/**
+ * Points a branch blob URL at a commit so the link keeps showing the
+ * indexed revision after the branch moves
+ */
+export function pinBlobUrl(url: string, commit: string, branch?: string): string {
+  if (url.includes(`/blob/${commit}/`) || !branch) return url;
+  return url.replace(`/blob/${branch}/`, `/blob/${commit}/`);
+}
+
+function lineFragment(chunk: DocumentChunk): string {
+  return chunk.startLine === chunk.endLine ? `L${chunk.startLine}` : `L${chunk.startLine}-L${chunk.endLine}`;
+}
+
+/**
+ * Deep link to the best-scoring section among a result's chunks, or the
+ * document URL when no chunk has an anchor
+ * Documents indexed at a known commit link to that commit, and to the line
+ * range of their best chunk since line numbers are stable there
+ */
+export function generateDocumentSectionUrl(document: Document): string | undefined {
+  const metadata = document.metadata;
+  if (!metadata?.url) return undefined;
+
+  const url = metadata.commit ? pinBlobUrl(metadata.url, metadata.commit, metadata.branch) : metadata.url;
+  const chunks = [...(document.chunks ?? [])].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+  const section = chunks.find(chunk => chunk.anchor);
+  if (section) return generateSectionUrl(url, section.anchor!);
+
+  if (metadata.commit && chunks.length > 0 && url.includes(`/blob/${metadata.commit}/`)) {
+    return generateSectionUrl(url, lineFragment(chunks[0]));
+  }
+  return url;
+}
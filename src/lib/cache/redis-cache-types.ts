@@ -44,6 +44,7 @@ export interface SearchMetadata {
   resultCount: number;
   searchTime: number;
   sources?: string[];
+  reranked?: boolean;
 }
 
 // Document interface (simplified)
@@ -53,11 +53,14 @@ export function getCacheManager(): import('./redis-cache-manager').RedisCacheMan
 
 /**
  * Utility function to create cache context from memory and search parameters
+ * The optional variant signature keeps results for different filters and
+ * retrieval strategies apart
  */
 export function createCacheContext(
   sessionId?: string,
   userId?: string,
-  sourceWeights?: Record<string, number>
+  sourceWeights?: Record<string, number>,
+  variantSignature?: string
 ): string {
   const parts = [
     sessionId || 'anonymous',
@@ -65,6 +68,10 @@ export function createCacheContext(
     sourceWeights ? JSON.stringify(sourceWeights) : 'default'
   ];
 
+  if (variantSignature) {
+    parts.push(variantSignature);
+  }
+
   return createHash('md5').update(parts.join('::')).digest('hex').slice(0, 8);
 }
 
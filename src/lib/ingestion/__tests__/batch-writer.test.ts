@@ -0,0 +1,231 @@
+/**
+ * Batch Writer Tests
+ * Covers batching, bounded concurrency, retries, failure isolation,
+ * progress reporting and resumable checkpoints
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BatchWriter,
+  IngestionCheckpoint,
+  backoffDelay,
+  formatBatchProgress,
+  formatDuration,
+  isTransientError,
+  type WriteItem
+} from '../batch-writer';
+import { InMemoryVectorStore } from '../../vector-store';
+import type { VectorObject, VectorStoreClass } from '../../vector-store/types';
+
+function item(key: string, chunkCount = 2): WriteItem {
+  return {
+    key,
+    objects: [
+      { className: 'Document', object: { id: `${key}-doc`, properties: { filepath: key } } },
+      ...Array.from({ length: chunkCount }, (_, index) => ({
+        className: 'Chunk' as const,
+        object: { id: `${key}-chunk-${index}`, properties: { filepath: key } }
+      }))
+    ]
+  };
+}
+
+type UpsertCall = [VectorStoreClass, readonly VectorObject[]];
+
+describe('BatchWriter', () => {
+  let store: InMemoryVectorStore;
+
+  beforeEach(() => {
+    store = new InMemoryVectorStore({ embed: () => [1] });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should write items in batches with documents before chunks', async () => {
+    const upsert = jest.spyOn(store, 'upsert');
+    const writer = new BatchWriter(store, { batchSize: 6, concurrency: 1 });
+
+    for (const key of ['a', 'b', 'c', 'd', 'e']) await writer.write(item(key));
+    const summary = await writer.flush();
+
+    expect(summary).toMatchObject({ items: 5, objects: 15, failed: 0, retries: 0 });
+    expect((upsert.mock.calls as UpsertCall[]).map(([className, objects]) => `${className}:${objects.length}`))
+      .toEqual(['Document:2', 'Chunk:4', 'Document:2', 'Chunk:4', 'Document:1', 'Chunk:2']);
+  });
+
+  it('should split items larger than a batch across requests', async () => {
+    const upsert = jest.spyOn(store, 'upsert');
+    const writer = new BatchWriter(store, { batchSize: 4 });
+
+    await writer.write(item('big', 9));
+    await writer.flush();
+
+    expect((upsert.mock.calls as UpsertCall[]).map(([, objects]) => objects.length)).toEqual([1, 4, 4, 1]);
+  });
+
+  it('should keep at most concurrency batches in flight', async () => {
+    let active = 0;
+    let peak = 0;
+    jest.spyOn(store, 'upsert').mockImplementation(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+    });
+    const writer = new BatchWriter(store, { batchSize: 3, concurrency: 2 });
+
+    for (const key of ['a', 'b', 'c', 'd', 'e', 'f']) await writer.write(item(key));
+    const summary = await writer.flush();
+
+    expect(summary.items).toBe(6);
+    expect(peak).toBe(2);
+  });
+
+  it('should retry transient errors', async () => {
+    const upsert = store.upsert.bind(store);
+    jest.spyOn(store, 'upsert')
+      .mockRejectedValueOnce(new Error('usage error (503): service unavailable'))
+      .mockRejectedValueOnce(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))
+      .mockImplementation(upsert);
+    const writer = new BatchWriter(store, { retryDelayMs: 0 });
+
+    await writer.write(item('a'));
+    const summary = await writer.flush();
+
+    expect(summary).toMatchObject({ items: 1, failed: 0, retries: 2 });
+  });
+
+  it('should isolate the item a batch was rejected for', async () => {
+    const upsert = store.upsert.bind(store);
+    jest.spyOn(store, 'upsert').mockImplementation(async (className, objects) => {
+      if (objects.some(object => object.id === 'bad-doc')) {
+        throw new Error('Weaviate upsert failed for 1 Document objects: invalid date');
+      }
+      return upsert(className, objects);
+    });
+    const written: string[] = [];
+    const writer = new BatchWriter(store, {
+      batchSize: 100,
+      onItemsWritten: keys => {
+        written.push(...keys);
+      }
+    });
+
+    for (const key of ['a', 'bad', 'c']) await writer.write(item(key));
+    const summary = await writer.flush();
+
+    expect(summary).toMatchObject({ items: 2, failed: 1, failedKeys: ['bad'], retries: 0 });
+    expect(written).toEqual(['a', 'c']);
+  });
+
+  it('should not rewrite items when onItemsWritten fails', async () => {
+    const upsert = jest.spyOn(store, 'upsert');
+    const calls: string[][] = [];
+    const writer = new BatchWriter(store, {
+      batchSize: 100,
+      onItemsWritten: keys => {
+        calls.push(keys);
+        throw new Error('checkpoint write failed');
+      }
+    });
+
+    for (const key of ['a', 'b']) await writer.write(item(key));
+
+    await expect(writer.flush()).rejects.toThrow('checkpoint write failed');
+    expect(calls).toEqual([['a', 'b']]);
+    expect(upsert).toHaveBeenCalledTimes(2);
+    expect(writer.progress()).toMatchObject({ items: 2, failed: 0 });
+    await expect(writer.write(item('c'))).rejects.toThrow('checkpoint write failed');
+  });
+
+  it('should report progress with an ETA', async () => {
+    const reports: string[] = [];
+    const writer = new BatchWriter(store, {
+      batchSize: 3,
+      totalItems: 4,
+      onProgress: progress => reports.push(formatBatchProgress(progress, 'files'))
+    });
+
+    for (const key of ['a', 'b', 'c', 'd']) await writer.write(item(key));
+    await writer.flush();
+
+    expect(reports).toHaveLength(4);
+    expect(reports[0]).toMatch(/^1\/4 files \(25\.0%\) · [\d.]+ objects\/s · ETA \d+s$/);
+    expect(reports[3]).toMatch(/^4\/4 files \(100\.0%\) · [\d.]+ objects\/s · ETA 0s$/);
+  });
+});
+
+describe('retry helpers', () => {
+  it('should only treat transport and server errors as transient', () => {
+    expect(isTransientError(new Error('usage error (429): too many requests'))).toBe(true);
+    expect(isTransientError(new Error('fetch failed'))).toBe(true);
+    expect(isTransientError(Object.assign(new Error('x'), { code: 'ETIMEDOUT' }))).toBe(true);
+    expect(isTransientError(new Error('usage error (422): invalid property'))).toBe(false);
+    expect(isTransientError('nope')).toBe(false);
+  });
+
+  it('should back off exponentially up to the cap', () => {
+    const options = { retryDelayMs: 1000, maxRetryDelayMs: 5000 };
+
+    expect([0, 1, 2, 3].map(attempt => backoffDelay(attempt, options))).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('should format durations', () => {
+    expect(formatDuration(42_000)).toBe('42s');
+    expect(formatDuration(185_000)).toBe('3m 05s');
+    expect(formatDuration(3_720_000)).toBe('1h 02m');
+  });
+});
+
+describe('IngestionCheckpoint', () => {
+  let dir: string;
+  const scope = { source: 'local', basePath: '/repo' };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'checkpoint-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should resume only items whose content is unchanged', async () => {
+    const path = join(dir, 'checkpoints', 'local.json');
+    const checkpoint = IngestionCheckpoint.create(path, scope);
+    checkpoint.markComplete('a.ts', 'hash-a');
+    checkpoint.markComplete('b.ts', 'hash-b');
+    await Promise.all([checkpoint.save(), checkpoint.save()]);
+
+    const resumed = await IngestionCheckpoint.load(path, scope);
+
+    expect(resumed.size).toBe(2);
+    expect(resumed.isComplete('a.ts', 'hash-a')).toBe(true);
+    expect(resumed.isComplete('b.ts', 'hash-b2')).toBe(false);
+    expect(resumed.isComplete('c.ts', 'hash-c')).toBe(false);
+    expect(await readdir(join(dir, 'checkpoints'))).toEqual(['local.json']);
+  });
+
+  it('should start empty without a checkpoint and remove it when done', async () => {
+    const path = join(dir, 'local.json');
+    const checkpoint = await IngestionCheckpoint.load(path, scope);
+    expect(checkpoint.size).toBe(0);
+
+    await checkpoint.save();
+    await checkpoint.remove();
+
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('should refuse a checkpoint written for another source', async () => {
+    const path = join(dir, 'web.json');
+    await IngestionCheckpoint.create(path, { ...scope, source: 'web' }).save();
+
+    await expect(IngestionCheckpoint.load(path, scope)).rejects.toThrow('belongs to source "web"');
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Chunker Tests
+ * Covers line-aligned splitting, paragraph preference, overlap,
+ * declaration-aware chunking of TypeScript and heading-aware Markdown
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { chunkContent, chunkFile, chunkMarkdown, estimateTokens } from '../chunker';
+import { parseCodeStructure } from '../code-structure';
+import { parseMarkdownStructure, slugifyHeading } from '../markdown-structure';
+
+function numberedLines(count: number, width = 30): string {
+  return Array.from({ length: count }, (_, i) => `line ${i + 1}`.padEnd(width, '.')).join('\n');
+}
+
+describe('chunkContent', () => {
+  it('returns a single chunk for small content', () => {
+    const chunks = chunkContent('const a = 1\nconst b = 2', 'src/a.ts');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({
+      id: 'src/a.ts#0',
+      startLine: 1,
+      endLine: 2,
+      chunkIndex: 0,
+      totalChunks: 1
+    });
+  });
+
+  it('keeps every chunk within the token limit', () => {
+    const chunks = chunkContent(numberedLines(200), 'big.ts', { maxTokens: 100, overlapLines: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.tokenCount).toBeLessThanOrEqual(100);
+      expect(chunk.totalChunks).toBe(chunks.length);
+    }
+    expect(chunks[chunks.length - 1].endLine).toBe(200);
+  });
+
+  it('shares overlap lines between consecutive chunks', () => {
+    const chunks = chunkContent(numberedLines(60), 'f.ts', { maxTokens: 100, overlapLines: 2 });
+
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].startLine).toBe(chunks[i - 1].endLine - 1);
+    }
+  });
+
+  it('prefers to end chunks on a blank line', () => {
+    const paragraph = numberedLines(8);
+    const content = [paragraph, '', paragraph, '', paragraph].join('\n');
+    const chunks = chunkContent(content, 'doc.md', { maxTokens: 140, overlapLines: 0 });
+
+    expect(chunks[0].endLine).toBe(9);
+    expect(chunks[0].content.endsWith('\n')).toBe(true);
+  });
+
+  it('never produces an empty chunk for a single oversized line', () => {
+    const chunks = chunkContent('x'.repeat(4000), 'min.js', { maxTokens: 100 });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].tokenCount).toBe(estimateTokens('x'.repeat(4000)));
+  });
+});
+
+const COMPONENT_SOURCE = [
+  "'use client';",
+  '',
+  "import { useState } from 'react';",
+  "import { Button } from './ui/button';",
+  "import type { Document } from '../types/search';",
+  '',
+  'export type SearchBarProps = { onSearch: (query: string) => void };',
+  'const DEFAULT_QUERY = "";',
+  '',
+  '/**',
+  ' * Search input with a submit button',
+  ' */',
+  'export function SearchBar({ onSearch }: SearchBarProps) {',
+  '  const [query, setQuery] = useState(DEFAULT_QUERY);',
+  ...Array.from({ length: 12 }, (_, i) => `  // keeps the component above the grouping threshold ${i}`),
+  '  return <Button onClick={() => onSearch(query)}>Search</Button>;',
+  '}',
+  '',
+  'export default SearchBar;',
+  ''
+].join('\n');
+
+describe('parseCodeStructure', () => {
+  it('covers the file with the preamble and one unit per top-level statement', () => {
+    const structure = parseCodeStructure(COMPONENT_SOURCE, 'src/components/SearchBar.tsx');
+
+    expect(structure?.units.map(unit => [unit.startLine, unit.endLine, unit.symbols, unit.preamble])).toEqual([
+      [1, 5, [], true],
+      [6, 7, ['SearchBarProps'], false],
+      [8, 8, ['DEFAULT_QUERY'], false],
+      [9, 28, ['SearchBar'], false],
+      [29, 31, ['default'], false]
+    ]);
+    expect(structure?.imports.map(binding => binding.names)).toEqual([['useState'], ['Button'], ['Document']]);
+  });
+
+  it('ignores files that are not TypeScript or JavaScript', () => {
+    expect(parseCodeStructure('def main(): pass', 'main.py')).toBeNull();
+  });
+});
+
+describe('chunkFile', () => {
+  it('splits along declarations and keeps doc comments with them', () => {
+    const chunks = chunkFile(COMPONENT_SOURCE, 'SearchBar.tsx', { maxTokens: 400 });
+
+    expect(chunks.map(chunk => [chunk.startLine, chunk.endLine, chunk.symbols])).toEqual([
+      [1, 8, ['SearchBarProps', 'DEFAULT_QUERY']],
+      [10, 28, ['SearchBar']],
+      [30, 30, ['default']]
+    ]);
+    expect(chunks[1].content.startsWith('/**')).toBe(true);
+    expect(chunks[1].totalChunks).toBe(3);
+  });
+
+  it('adds the imports a chunk uses as context', () => {
+    const [preamble, component] = chunkFile(COMPONENT_SOURCE, 'SearchBar.tsx', { maxTokens: 400 });
+
+    expect(preamble.context).toBeUndefined();
+    expect(component.context).toBe("import { useState } from 'react';\nimport { Button } from './ui/button';");
+  });
+
+  it('splits oversized declarations by lines and keeps their symbol', () => {
+    const body = Array.from({ length: 80 }, (_, i) => `  const value${i} = compute(${i});`).join('\n');
+    const chunks = chunkFile(`export function build() {\n${body}\n}\n`, 'build.ts', { maxTokens: 100, overlapLines: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.symbols).toEqual(['build']);
+      expect(chunk.tokenCount).toBeLessThanOrEqual(100);
+    }
+    expect(chunks[chunks.length - 1].endLine).toBe(82);
+  });
+
+  it('falls back to size-bounded chunks for other languages', () => {
+    const chunks = chunkFile(numberedLines(200), 'notes.txt', { maxTokens: 100, overlapLines: 0 });
+
+    expect(chunks).toEqual(chunkContent(numberedLines(200), 'notes.txt', { maxTokens: 100, overlapLines: 0 }));
+    expect(chunks[0].symbols).toBeUndefined();
+  });
+});
+
+const GUIDE_MARKDOWN = [
+  '---',
+  'title: Guide',
+  '---',
+  '# Setup Guide',
+  '',
+  '## Install',
+  'Run the installer.',
+  '',
+  '```bash',
+  '# not a heading',
+  'npm install',
+  '```',
+  '',
+  '### On `Windows`',
+  'Use WSL.',
+  '',
+  '## Install',
+  'Again, for the second time.'
+].join('\n');
+
+describe('parseMarkdownStructure', () => {
+  it('tracks heading breadcrumbs and unique anchors outside fences and front matter', () => {
+    const { sections, fences } = parseMarkdownStructure(GUIDE_MARKDOWN);
+
+    expect(sections.map(section => [section.startLine, section.endLine, section.breadcrumb, section.anchor])).toEqual([
+      [1, 3, [], undefined],
+      [4, 5, ['Setup Guide'], 'setup-guide'],
+      [6, 13, ['Setup Guide', 'Install'], 'install'],
+      [14, 16, ['Setup Guide', 'Install', 'On Windows'], 'on-windows'],
+      [17, 18, ['Setup Guide', 'Install'], 'install-1']
+    ]);
+    expect(fences).toEqual([{ startLine: 9, endLine: 12 }]);
+  });
+
+  it('slugs headings like GitHub', () => {
+    expect(slugifyHeading('What’s new in v2.0?')).toBe('whats-new-in-v20');
+    expect(slugifyHeading('API & SDK')).toBe('api--sdk');
+  });
+});
+
+describe('chunkMarkdown', () => {
+  it('chunks by section and joins a bare heading to its first subsection', () => {
+    const chunks = chunkFile(GUIDE_MARKDOWN, 'docs/guide.md');
+
+    expect(chunks.map(chunk => [chunk.startLine, chunk.endLine, chunk.anchor, chunk.context])).toEqual([
+      [1, 3, undefined, undefined],
+      [4, 12, 'install', 'Setup Guide > Install'],
+      [14, 15, 'on-windows', 'Setup Guide > Install > On Windows'],
+      [17, 18, 'install-1', 'Setup Guide > Install']
+    ]);
+    expect(chunks[1].breadcrumb).toEqual(['Setup Guide', 'Install']);
+  });
+
+  it('splits long sections between paragraphs without breaking code fences', () => {
+    const paragraph = numberedLines(6);
+    const fence = ['```ts', numberedLines(12), '```'].join('\n');
+    const content = ['# Reference', paragraph, '', fence, '', paragraph].join('\n');
+    const chunks = chunkMarkdown(content, 'web-ref', { maxTokens: 100, overlapLines: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    const fenceChunk = chunks.find(chunk => chunk.content.startsWith('```ts'));
+    expect(fenceChunk?.content.endsWith('```')).toBe(true);
+    for (const chunk of chunks) {
+      expect(chunk.anchor).toBe('reference');
+      expect(chunk.id.startsWith('web-ref#')).toBe(true);
+    }
+  });
+});
@@ -5,16 +5,7 @@
 
 import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
 import type { Document, DocumentSource } from '../../../types/search';
-
-// Create mock functions BEFORE jest.mock() calls (only for external dependencies)
-const mockCreateWeaviateClientFn = jest.fn();
-
-// Mock only external dependencies (NOT crypto - we want real hashing for behavior tests)
-jest.mock('../../weaviate/client', () => ({
-  createWeaviateClient: mockCreateWeaviateClientFn
-}));
-
-// Import AFTER mocks are set up
+import { InMemoryVectorStore } from '../../vector-store';
 import {
   DEFAULT_DEDUP_CONFIG,
   DeduplicationConfig,
@@ -31,41 +22,18 @@ import {
   resetDeduplicatorSingleton
 } from '../deduplication';
 
-// Get references to mocked functions
-const mockCreateWeaviateClient = mockCreateWeaviateClientFn;
-
 describe('Deduplication', () => {
-  let mockClient: any;
-  let mockQuery: any;
+  let store: InMemoryVectorStore;
 
   beforeEach(() => {
     // Reset all mocks and singleton
     jest.clearAllMocks();
     resetDeduplicatorSingleton();
 
-    // Mock Weaviate client and query builder
-    mockQuery = {
-      withClassName: jest.fn().mockReturnThis(),
-      withFields: jest.fn().mockReturnThis(),
-      withWhere: jest.fn().mockReturnThis(),
-      withLimit: jest.fn().mockReturnThis(),
-      do: jest.fn()
-    };
-
-    mockClient = {
-      graphql: {
-        get: jest.fn().mockReturnValue(mockQuery)
-      }
-    };
-
-    // Configure weaviate client mock (legacy support)
-    if (jest.isMockFunction(mockCreateWeaviateClient)) {
-      mockCreateWeaviateClient.mockReturnValue(mockClient);
-    }
-
-    // Inject mock client for dependency injection
+    // Inject an in-memory store for dependency injection
+    store = new InMemoryVectorStore({ embed: () => [1] });
     setDeduplicatorDependencies({
-      weaviateClient: mockClient
+      vectorStore: store
     });
   });
 
@@ -448,54 +416,51 @@ describe('Deduplication', () => {
       });
     });
 
-    describe('Weaviate Integration', () => {
+    describe('Vector Store Integration', () => {
       it('should check existing document by content hash', async () => {
         const testDoc = createTestDocument('test content for hash check');
-
-        const mockExistingDoc = {
-          id: 'existing-weaviate-id',
-          source: 'github',
-          filepath: '/existing/file.ts',
-          lastModified: '2023-01-01T00:00:00Z'
-        };
-
-        mockQuery.do.mockResolvedValue({
-          data: {
-            Get: {
-              Document: [mockExistingDoc]
-            }
+        await store.upsert('Document', [{
+          id: 'existing-id',
+          properties: {
+            content: '  Test content for hash check\n',
+            url: testDoc.metadata.url,
+            source: 'github',
+            filepath: '/existing/file.ts'
           }
-        });
+        }]);
 
         const result = await deduplicator.checkExistingDocument(testDoc);
 
         // Should find existing document and include checksum in metadata
         expect(result).not.toBeNull();
-        expect(result?.id).toBe('existing-weaviate-id');
+        expect(result?.id).toBe('existing-id');
         expect(result?.metadata.checksum).toBeDefined();
-        expect(mockClient.graphql.get).toHaveBeenCalled();
       });
 
-      it('should return null when document does not exist in Weaviate', async () => {
-        const testDoc = createTestDocument('non-existing content');
+      it('should return null when the stored document has changed', async () => {
+        const testDoc = createTestDocument('new content');
+        await store.upsert('Document', [{
+          id: 'existing-id',
+          properties: { content: 'old content', url: testDoc.metadata.url, filepath: testDoc.filepath }
+        }]);
 
-        mockQuery.do.mockResolvedValue({
-          data: {
-            Get: {
-              Document: []
-            }
-          }
-        });
+        const result = await deduplicator.checkExistingDocument(testDoc);
+
+        expect(result).toBeNull();
+      });
+
+      it('should return null when document does not exist in the store', async () => {
+        const testDoc = createTestDocument('non-existing content');
 
         const result = await deduplicator.checkExistingDocument(testDoc);
 
         expect(result).toBeNull();
       });
 
-      it('should handle Weaviate query errors gracefully', async () => {
+      it('should handle vector store errors gracefully', async () => {
         const testDoc = createTestDocument('error test content');
-
-        mockQuery.do.mockRejectedValue(new Error('Weaviate connection failed'));
+        jest.spyOn(store, 'getByFilter').mockRejectedValue(new Error('Weaviate connection failed'));
+        jest.spyOn(console, 'error').mockImplementation(() => {});
 
         const result = await deduplicator.checkExistingDocument(testDoc);
 
@@ -652,15 +617,12 @@ describe('Deduplication', () => {
     describe('checkDocumentExists', () => {
       it('should check document existence using singleton', async () => {
         const testDoc = createTestDocument('existence check content');
-
-        mockQuery.do.mockResolvedValue({
-          data: { Get: { Document: [] } }
-        });
+        const getByFilter = jest.spyOn(store, 'getByFilter');
 
         const result = await checkDocumentExists(testDoc);
 
         expect(result).toBeNull();
-        expect(mockClient.graphql.get).toHaveBeenCalled();
+        expect(getByFilter).toHaveBeenCalled();
       });
     });
   });
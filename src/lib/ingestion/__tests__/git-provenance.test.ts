@@ -0,0 +1,106 @@
+/**
+ * Git Provenance Tests
+ * Covers log and status parsing, per-file provenance and reading a checkout
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileProvenance, parseGitLog, parseGitStatus, readGitProvenance } from '../git-provenance';
+
+const LOG = [
+  '',
+  'bbb\x1fGrace\x1f2026-10-02T10:00:00+00:00\n\nsrc/a.ts\n',
+  'aaa\x1fAda\x1f2026-10-01T10:00:00+00:00\n\nsrc/a.ts\nREADME.md\n'
+].join('\x1e');
+
+describe('parseGitLog', () => {
+  it('should keep the newest commit per path', () => {
+    const files = parseGitLog(LOG);
+
+    expect(files.get('src/a.ts')).toEqual({ commit: 'bbb', author: 'Grace', date: new Date('2026-10-02T10:00:00Z') });
+    expect(files.get('README.md')?.author).toBe('Ada');
+    expect(files.size).toBe(2);
+  });
+});
+
+describe('parseGitStatus', () => {
+  it('should strip the prefix and skip rename sources', () => {
+    const status = ' M docs/guide.md\0R  docs/new.md\0docs/old.md\0?? docs/draft.md\0 M other/x.ts\0';
+
+    expect([...parseGitStatus(status, 'docs/')]).toEqual(['guide.md', 'new.md', 'draft.md']);
+  });
+});
+
+describe('fileProvenance', () => {
+  const repository = {
+    branch: 'main',
+    commit: 'head-sha',
+    files: parseGitLog(LOG),
+    dirty: new Set(['README.md', 'new.ts'])
+  };
+
+  it('should pin committed files to HEAD', () => {
+    expect(fileProvenance(repository, 'src/a.ts')).toEqual({
+      branch: 'main',
+      commit: 'head-sha',
+      author: 'Grace',
+      committedAt: new Date('2026-10-02T10:00:00Z')
+    });
+  });
+
+  it('should not pin modified or untracked files', () => {
+    expect(fileProvenance(repository, 'README.md')).toEqual({ branch: 'main', author: 'Ada' });
+    expect(fileProvenance(repository, 'new.ts')).toEqual({ branch: 'main' });
+  });
+});
+
+describe('readGitProvenance', () => {
+  let dir: string;
+
+  const git = (...args: string[]) => execFileSync('git', args, {
+    cwd: dir,
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'Ada',
+      GIT_AUTHOR_EMAIL: 'ada@example.com',
+      GIT_AUTHOR_DATE: '2026-10-01T10:00:00Z',
+      GIT_COMMITTER_NAME: 'Ada',
+      GIT_COMMITTER_EMAIL: 'ada@example.com'
+    }
+  }).toString().trim();
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'git-provenance-'));
+    await mkdir(join(dir, 'docs'));
+    await writeFile(join(dir, 'docs', 'guide.md'), '# Guide\n');
+    await writeFile(join(dir, 'docs', 'faq.md'), '# FAQ\n');
+    git('init', '--quiet', '--initial-branch=trunk');
+    git('add', '.');
+    git('-c', 'commit.gpgsign=false', 'commit', '--quiet', '-m', 'Add docs');
+    await writeFile(join(dir, 'docs', 'faq.md'), '# FAQ\n\nDraft\n');
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read branch, HEAD and per-file commits relative to a subdirectory', async () => {
+    const provenance = await readGitProvenance(join(dir, 'docs'));
+
+    expect(provenance).toMatchObject({ branch: 'trunk', commit: git('rev-parse', 'HEAD') });
+    expect(provenance?.files.get('guide.md')).toMatchObject({ author: 'Ada', date: new Date('2026-10-01T10:00:00Z') });
+    expect([...provenance!.dirty]).toEqual(['faq.md']);
+  });
+
+  it('should return null outside a git checkout', async () => {
+    const outside = await mkdtemp(join(tmpdir(), 'no-git-'));
+    try {
+      expect(await readGitProvenance(outside)).toBeNull();
+    } finally {
+      await rm(outside, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Identifier Tokens Tests
+ * Covers identifier splitting, the derived property text and query expansion
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  splitIdentifier,
+  splitPath,
+  buildIdentifierText,
+  expandIdentifierQuery
+} from '../identifier-tokens';
+
+describe('splitIdentifier', () => {
+  it('should split camelCase, PascalCase and acronyms', () => {
+    expect(splitIdentifier('getCacheManager')).toEqual(['get', 'cache', 'manager']);
+    expect(splitIdentifier('RedisCacheManager')).toEqual(['redis', 'cache', 'manager']);
+    expect(splitIdentifier('parseHTTPRequest')).toEqual(['parse', 'http', 'request']);
+    expect(splitIdentifier('base64Encode')).toEqual(['base64', 'encode']);
+  });
+
+  it('should split snake_case and kebab-case', () => {
+    expect(splitIdentifier('MAX_RETRY_COUNT')).toEqual(['max', 'retry', 'count']);
+    expect(splitIdentifier('__init__')).toEqual(['init']);
+    expect(splitIdentifier('redis-cache-manager')).toEqual(['redis', 'cache', 'manager']);
+  });
+});
+
+describe('splitPath', () => {
+  it('should split every path segment', () => {
+    expect(splitPath('src/lib/search/hybridSearch.ts')).toEqual(['src', 'lib', 'search', 'hybrid', 'search', 'ts']);
+    expect(splitPath('')).toEqual([]);
+  });
+});
+
+describe('buildIdentifierText', () => {
+  it('should list path words and each distinct compound identifier once', () => {
+    const content = [
+      'export function getCacheManager() {',
+      '  return new RedisCacheManager(cache_ttl)',
+      '}',
+      'const manager = getCacheManager()'
+    ].join('\n');
+
+    expect(buildIdentifierText(content, 'src/lib/redis-cache.ts')).toBe([
+      'src lib redis cache ts',
+      'get cache manager',
+      'redis cache manager',
+      'cache ttl'
+    ].join('\n'));
+  });
+
+  it('should skip plain words', () => {
+    expect(buildIdentifierText('return the value')).toBe('');
+  });
+});
+
+describe('expandIdentifierQuery', () => {
+  it('should append split words of identifiers in the query', () => {
+    expect(expandIdentifierQuery('why does getCacheManager call load_config twice'))
+      .toBe('why does getCacheManager call load_config twice get cache manager load config');
+  });
+
+  it('should leave prose queries unchanged', () => {
+    expect(expandIdentifierQuery('how does caching work')).toBe('how does caching work');
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Local Sync Tests
+ * Covers manifest planning, incremental writes and deletes, git provenance
+ * on written objects and debounced re-syncs in watch mode
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  applySyncPlan,
+  buildLocalObjects,
+  createChangeDebouncer,
+  loadSyncManifest,
+  localWriteItem,
+  planPathSync,
+  planSync,
+  recordWrittenFile,
+  saveSyncManifest,
+  writeItemIds,
+  type SyncManifest
+} from '../local-sync';
+import type { ProcessedFile } from '../local-processor';
+import type { RepositoryProvenance } from '../git-provenance';
+import { InMemoryVectorStore } from '../../vector-store';
+import type { VectorStoreClass } from '../../vector-store/types';
+
+const OPTIONS = { source: 'local', priority: 1.2, chunks: true };
+
+function file(relativePath: string, content: string, chunkCount = 1): ProcessedFile {
+  return {
+    path: `/repo/${relativePath}`,
+    relativePath,
+    content,
+    size: content.length,
+    language: 'typescript',
+    lastModified: new Date('2026-10-01T00:00:00.000Z'),
+    metadata: { isCode: true, isDocumentation: false, fileType: 'code' },
+    authority: 'primary',
+    chunks: Array.from({ length: chunkCount }, (_, chunkIndex) => ({
+      id: `${relativePath}#${chunkIndex}`,
+      content: `${content} part ${chunkIndex}`,
+      startLine: chunkIndex + 1,
+      endLine: chunkIndex + 1,
+      chunkIndex,
+      totalChunks: chunkCount,
+      tokenCount: 4
+    })),
+    symbols: []
+  } as ProcessedFile;
+}
+
+async function filepaths(store: InMemoryVectorStore, className: VectorStoreClass): Promise<string[]> {
+  const hits = await store.getByFilter({ className, fields: ['filepath'], limit: 100 });
+  return hits.map(hit => String(hit.filepath)).sort();
+}
+
+describe('local sync', () => {
+  let store: InMemoryVectorStore;
+  let manifest: SyncManifest;
+
+  beforeEach(() => {
+    store = new InMemoryVectorStore({ embed: () => [1] });
+    manifest = { source: 'local', basePath: '/repo', files: {} };
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should write every file on the first sync', async () => {
+    const result = await applySyncPlan(store, planSync(manifest, [file('a.ts', 'a'), file('b.ts', 'b')]), manifest, OPTIONS);
+
+    expect(result).toMatchObject({ added: 2, changed: 0, removed: 0, unchanged: 0, errors: 0, chunkCount: 2 });
+    expect(Object.keys(manifest.files).sort()).toEqual(['a.ts', 'b.ts']);
+    expect(await filepaths(store, 'Document')).toEqual(['a.ts', 'b.ts']);
+  });
+
+  it('should only touch added, changed and removed files', async () => {
+    await applySyncPlan(store, planSync(manifest, [file('a.ts', 'a'), file('b.ts', 'b')]), manifest, OPTIONS);
+    const upsert = jest.spyOn(store, 'upsert');
+
+    const plan = planSync(manifest, [file('a.ts', 'a'), file('b.ts', 'b v2'), file('c.ts', 'c')]);
+    const result = await applySyncPlan(store, plan, manifest, OPTIONS);
+
+    expect(result).toMatchObject({ added: 1, changed: 1, removed: 0, unchanged: 1 });
+    expect(result.touched).toEqual(['c.ts', 'b.ts']);
+    expect(upsert.mock.calls.filter(([className]) => className === 'Document')
+      .flatMap(([, objects]) => objects.map(object => object.properties.filepath))).toEqual(['c.ts', 'b.ts']);
+  });
+
+  it('should delete the objects of removed files', async () => {
+    await applySyncPlan(store, planSync(manifest, [file('a.ts', 'a', 3), file('b.ts', 'b')]), manifest, OPTIONS);
+
+    const result = await applySyncPlan(store, planSync(manifest, [file('b.ts', 'b')]), manifest, OPTIONS);
+
+    expect(result).toMatchObject({ added: 0, changed: 0, removed: 1, unchanged: 1 });
+    expect(Object.keys(manifest.files)).toEqual(['b.ts']);
+    expect(await filepaths(store, 'Document')).toEqual(['b.ts']);
+    expect(await filepaths(store, 'Chunk')).toEqual(['b.ts']);
+  });
+
+  it('should drop chunks a changed file no longer produces', async () => {
+    await applySyncPlan(store, planSync(manifest, [file('a.ts', 'a', 3)]), manifest, OPTIONS);
+
+    await applySyncPlan(store, planSync(manifest, [file('a.ts', 'a v2', 1)]), manifest, OPTIONS);
+
+    expect(await filepaths(store, 'Chunk')).toEqual(['a.ts']);
+    expect(manifest.files['a.ts'].chunkIds).toHaveLength(1);
+  });
+
+  it('should write through batches of the configured size', async () => {
+    const upsert = jest.spyOn(store, 'upsert');
+
+    const result = await applySyncPlan(
+      store,
+      planSync(manifest, [file('a.ts', 'a', 2), file('b.ts', 'b', 2)]),
+      manifest,
+      OPTIONS,
+      { batchSize: 3, concurrency: 1 }
+    );
+
+    expect(result).toMatchObject({ added: 2, chunkCount: 4 });
+    expect(upsert.mock.calls.map(([className, objects]) => `${className}:${objects.length}`))
+      .toEqual(['Document:1', 'Chunk:2', 'Document:1', 'Chunk:2']);
+  });
+
+  it('should record written files and drop their stale objects', async () => {
+    await applySyncPlan(store, planSync(manifest, [file('a.ts', 'a', 3)]), manifest, OPTIONS);
+    const item = localWriteItem(file('a.ts', 'a v2', 1), OPTIONS);
+    await store.upsert('Chunk', item.objects.filter(entry => entry.className === 'Chunk').map(entry => entry.object));
+
+    const previous = await recordWrittenFile(store, manifest, 'a.ts', 'hash-v2', writeItemIds(item));
+
+    expect(previous?.chunkIds).toHaveLength(3);
+    expect(manifest.files['a.ts']).toMatchObject({ hash: 'hash-v2', chunkIds: writeItemIds(item).chunkIds });
+    expect(await filepaths(store, 'Chunk')).toEqual(['a.ts']);
+  });
+
+  it('should keep files missing from the list when not pruning', () => {
+    manifest.files['old.ts'] = { documentId: 'd', chunkIds: [], symbolIds: [], hash: 'h', syncedAt: '' };
+
+    expect(planSync(manifest, [], false).removed).toEqual([]);
+    expect(planSync(manifest, []).removed).toEqual(['old.ts']);
+  });
+
+  it('should only plan reported paths when watching', async () => {
+    await applySyncPlan(store, planSync(manifest, [file('a.ts', 'a'), file('lib/b.ts', 'b'), file('lib/c.ts', 'c')]), manifest, OPTIONS);
+
+    const plan = planPathSync(manifest, [file('a.ts', 'a v2')], ['a.ts', 'lib'], new Set(['a.ts', 'lib/b.ts']));
+
+    expect(plan.changed.map(changed => changed.relativePath)).toEqual(['a.ts']);
+    expect(plan.removed).toEqual(['lib/c.ts']);
+    expect(planPathSync(manifest, [], ['a.ts'], new Set()).removed).toEqual(['a.ts']);
+  });
+
+  it('should keep the previous entry of a file that fails to write', async () => {
+    await applySyncPlan(store, planSync(manifest, [file('a.ts', 'a')]), manifest, OPTIONS);
+    const previous = manifest.files['a.ts'];
+    jest.spyOn(store, 'upsert').mockRejectedValueOnce(new Error('unavailable'));
+
+    const result = await applySyncPlan(store, planSync(manifest, [file('a.ts', 'a v2')]), manifest, OPTIONS);
+
+    expect(result).toMatchObject({ changed: 0, errors: 1, touched: [] });
+    expect(manifest.files['a.ts']).toBe(previous);
+    expect(planSync(manifest, [file('a.ts', 'a v2')]).changed).toHaveLength(1);
+  });
+
+  describe('manifest files', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'local-sync-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should start empty and round-trip', async () => {
+      const manifestPath = join(dir, 'sync', 'local.json');
+      const loaded = await loadSyncManifest(manifestPath, { source: 'local', basePath: '/repo' });
+      expect(loaded).toEqual(manifest);
+
+      await applySyncPlan(store, planSync(loaded, [file('a.ts', 'a')]), loaded, OPTIONS);
+      await saveSyncManifest(manifestPath, loaded);
+
+      expect(await loadSyncManifest(manifestPath, { source: 'local', basePath: '/repo' })).toEqual(loaded);
+    });
+
+    it('should save through a temporary file one save at a time', async () => {
+      const manifestPath = join(dir, 'sync', 'local.json');
+      const saved = { ...manifest, files: { 'a.ts': { documentId: 'd', chunkIds: [], symbolIds: [], hash: 'h', syncedAt: '' } } };
+
+      await Promise.all([saveSyncManifest(manifestPath, manifest), saveSyncManifest(manifestPath, saved)]);
+
+      expect(await readdir(join(dir, 'sync'))).toEqual(['local.json']);
+      expect(await loadSyncManifest(manifestPath, { source: 'local', basePath: '/repo' })).toEqual(saved);
+    });
+
+    it('should refuse a manifest written for another source', async () => {
+      const manifestPath = join(dir, 'github.json');
+      await saveSyncManifest(manifestPath, { ...manifest, source: 'github' });
+
+      await expect(loadSyncManifest(manifestPath, { source: 'local', basePath: '/repo' }))
+        .rejects.toThrow('belongs to source "github"');
+    });
+  });
+});
+
+describe('buildLocalObjects', () => {
+  const git: RepositoryProvenance = {
+    branch: 'main',
+    commit: 'head-sha',
+    files: new Map([
+      ['a.ts', { commit: 'a-sha', author: 'Ada', date: new Date('2026-09-01T00:00:00.000Z') }],
+      ['b.ts', { commit: 'b-sha', author: 'Grace', date: new Date('2026-09-02T00:00:00.000Z') }]
+    ]),
+    dirty: new Set(['b.ts'])
+  };
+  const options = { ...OPTIONS, baseUrl: 'https://github.com/acme/app', git };
+
+  it('should pin committed files to HEAD on every object', () => {
+    const { document, chunks } = buildLocalObjects(file('a.ts', 'a'), options);
+
+    expect(document.properties).toMatchObject({
+      url: 'https://github.com/acme/app/blob/head-sha/a.ts',
+      author: 'Ada',
+      branch: 'main',
+      commit: 'head-sha',
+      lastModified: '2026-09-01T00:00:00.000Z'
+    });
+    expect(chunks[0].properties).toMatchObject({ author: 'Ada', branch: 'main', commit: 'head-sha' });
+  });
+
+  it('should link uncommitted changes to the branch', () => {
+    const { document } = buildLocalObjects(file('b.ts', 'b'), options);
+
+    expect(document.properties).toMatchObject({
+      url: 'https://github.com/acme/app/blob/main/b.ts',
+      commit: '',
+      lastModified: '2026-10-01T00:00:00.000Z'
+    });
+  });
+
+  it('should keep symbols that share a qualified name apart', () => {
+    const overloaded = {
+      ...file('a.ts', 'a'),
+      symbols: [
+        { name: 'parse', qualifiedName: 'parse', kind: 'function', startLine: 1, endLine: 1, exported: true },
+        { name: 'parse', qualifiedName: 'parse', kind: 'function', startLine: 2, endLine: 4, exported: true }
+      ]
+    } as ProcessedFile;
+
+    const { symbols } = buildLocalObjects(overloaded, OPTIONS);
+
+    expect(new Set(symbols.map(symbol => symbol.id)).size).toBe(2);
+  });
+
+  it('should fall back to main without git metadata', () => {
+    const { document } = buildLocalObjects(file('a.ts', 'a'), { ...options, git: undefined });
+
+    expect(document.properties).toMatchObject({ url: 'https://github.com/acme/app/blob/main/a.ts', author: '', commit: '' });
+  });
+});
+
+describe('createChangeDebouncer', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run once after changes settle', async () => {
+    const runs: string[][] = [];
+    const debouncer = createChangeDebouncer(async paths => {
+      runs.push(paths);
+    }, 100);
+
+    debouncer.add('a.ts');
+    await jest.advanceTimersByTimeAsync(60);
+    debouncer.add('b.ts');
+    debouncer.add('a.ts');
+    await jest.advanceTimersByTimeAsync(60);
+    expect(runs).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(40);
+    expect(runs).toEqual([['a.ts', 'b.ts']]);
+  });
+
+  it('should queue changes made during a run for one more run', async () => {
+    const runs: string[][] = [];
+    let finish = () => {};
+    const debouncer = createChangeDebouncer(paths => {
+      runs.push(paths);
+      return new Promise<void>(resolve => {
+        finish = resolve;
+      });
+    }, 100);
+
+    debouncer.add('a.ts');
+    await jest.advanceTimersByTimeAsync(100);
+    debouncer.add('b.ts');
+    await jest.advanceTimersByTimeAsync(500);
+    expect(runs).toEqual([['a.ts']]);
+
+    finish();
+    await jest.advanceTimersByTimeAsync(100);
+    expect(runs).toEqual([['a.ts'], ['b.ts']]);
+  });
+
+  it('should finish the run in flight and pending changes when drained', async () => {
+    const runs: string[][] = [];
+    let finish = () => {};
+    const debouncer = createChangeDebouncer(paths => {
+      runs.push(paths);
+      return runs.length === 1
+        ? new Promise<void>(resolve => {
+          finish = resolve;
+        })
+        : Promise.resolve();
+    }, 100);
+
+    debouncer.add('a.ts');
+    await jest.advanceTimersByTimeAsync(100);
+    debouncer.add('b.ts');
+
+    let drained = false;
+    const draining = debouncer.drain().then(() => {
+      drained = true;
+    });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(drained).toBe(false);
+
+    finish();
+    await draining;
+    debouncer.add('c.ts');
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(runs).toEqual([['a.ts'], ['b.ts']]);
+  });
+
+  it('should drop pending changes when cancelled', async () => {
+    const onChange = jest.fn(async () => {});
+    const debouncer = createChangeDebouncer(onChange, 100);
+
+    debouncer.add('a.ts');
+    debouncer.cancel();
+    await jest.advanceTimersByTimeAsync(200);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Source Authority Tests
+ * Covers domain and path rules, defaults and rule file loading
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  resolveSourceAuthority,
+  loadSourceAuthorityRules,
+  DEFAULT_SOURCE_AUTHORITY_RULES,
+  type SourceAuthorityRules,
+} from '../source-authority';
+
+const RULES: SourceAuthorityRules = {
+  domains: [
+    { domain: 'docs.example.com', authority: 'authoritative' },
+    { domain: 'stackoverflow.com', authority: 'community' },
+  ],
+  paths: [
+    { pattern: 'legacy/**', authority: 'supplementary' },
+    { pattern: 'src/**/*.generated.ts', authority: 'community' },
+  ],
+};
+
+describe('resolveSourceAuthority', () => {
+  it('matches domain rules including subdomains', () => {
+    expect(resolveSourceAuthority({ source: 'web', url: 'https://docs.example.com/guide' }, RULES)).toBe('authoritative');
+    expect(resolveSourceAuthority({ source: 'web', url: 'https://meta.stackoverflow.com/q/1' }, RULES)).toBe('community');
+  });
+
+  it('matches path globs in order', () => {
+    expect(resolveSourceAuthority({ source: 'local', filepath: 'legacy/api/client.ts' }, RULES)).toBe('supplementary');
+    expect(resolveSourceAuthority({ source: 'github', filepath: 'src/db/schema.generated.ts' }, RULES)).toBe('community');
+  });
+
+  it('falls back to the default authority config', () => {
+    expect(resolveSourceAuthority({ source: 'web', url: 'https://blog.other.dev/post' }, RULES)).toBe('supplementary');
+    expect(resolveSourceAuthority({ source: 'local', filepath: 'src/lib/search.ts' })).toBe('primary');
+    expect(resolveSourceAuthority({ source: 'local', filepath: 'docs/setup.md' })).toBe('authoritative');
+    expect(resolveSourceAuthority({ source: 'local', filepath: 'src/__tests__/search.test.ts' })).toBe('authoritative');
+  });
+});
+
+describe('loadSourceAuthorityRules', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('returns defaults when no config file exists', () => {
+    expect(loadSourceAuthorityRules(undefined)).toBe(DEFAULT_SOURCE_AUTHORITY_RULES);
+    expect(loadSourceAuthorityRules('/nonexistent/authority.json')).toBe(DEFAULT_SOURCE_AUTHORITY_RULES);
+  });
+
+  it('parses rule files and rejects unknown authority levels', () => {
+    dir = mkdtempSync(join(tmpdir(), 'authority-'));
+    const validPath = join(dir, 'valid.json');
+    const invalidPath = join(dir, 'invalid.json');
+    writeFileSync(validPath, JSON.stringify({ domains: [{ domain: 'example.com', authority: 'primary' }] }));
+    writeFileSync(invalidPath, JSON.stringify({ paths: [{ pattern: '**', authority: 'official' }] }));
+
+    expect(loadSourceAuthorityRules(validPath)).toEqual({
+      domains: [{ domain: 'example.com', authority: 'primary' }],
+      paths: [],
+    });
+    expect(() => loadSourceAuthorityRules(invalidPath)).toThrow();
+  });
+});
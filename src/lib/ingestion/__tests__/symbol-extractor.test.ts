@@ -0,0 +1,153 @@
+/**
+ * Symbol Extractor Tests
+ * Covers TS/JS and Python declarations, containers and line ranges
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { extractSymbols, detectSymbolLanguage } from '../symbol-extractor';
+
+const TYPESCRIPT_SOURCE = [
+  "import { z } from 'zod'",                                        // 1
+  '',                                                               // 2
+  'export interface SearchFilters {',                               // 3
+  '  source?: string[]',                                            // 4
+  '}',                                                              // 5
+  '',                                                               // 6
+  'export const DEFAULT_LIMIT = 10',                                // 7
+  'const internalCache = new Map()',                                // 8
+  '',                                                               // 9
+  'export const buildWhereFilter = (filters?: SearchFilters) => {', // 10
+  "  const label = '{not a brace'",                                 // 11
+  '  return filters',                                               // 12
+  '}',                                                              // 13
+  '',                                                               // 14
+  'export async function performHybridSearch(',                     // 15
+  '  params: SearchParams',                                         // 16
+  '): Promise<void> {',                                             // 17
+  '  // closing } in a comment',                                    // 18
+  '  await run(params)',                                            // 19
+  '}',                                                              // 20
+  '',                                                               // 21
+  'export class RedisCacheManager {',                               // 22
+  '  private ttl = 60',                                             // 23
+  '',                                                               // 24
+  '  async get(key: string) {',                                     // 25
+  '    if (key) {',                                                 // 26
+  '      return null',                                              // 27
+  '    }',                                                          // 28
+  '  }',                                                            // 29
+  '',                                                               // 30
+  '  invalidate = (key: string) => this.delete(key)',               // 31
+  '}',                                                              // 32
+  '',                                                               // 33
+  'export const SCHEMA = z.object({',                               // 34
+  '  query: z.string()',                                            // 35
+  '})'                                                              // 36
+].join('\n');
+
+const PYTHON_SOURCE = [
+  'MAX_RETRIES = 3',                 // 1
+  '',                                // 2
+  'class Crawler(Base):',            // 3
+  '    """Fetches pages."""',        // 4
+  '',                                // 5
+  '    def fetch(self, url):',       // 6
+  '        def helper():',           // 7
+  '            return url',          // 8
+  '        return helper()',         // 9
+  '',                                // 10
+  '    async def _close(self):',     // 11
+  '        pass',                    // 12
+  '',                                // 13
+  'def ingest_repository(path):',    // 14
+  '    return path',                 // 15
+].join('\n');
+
+describe('extractSymbols', () => {
+  it('should extract TypeScript declarations with line ranges', () => {
+    const symbols = extractSymbols(TYPESCRIPT_SOURCE, 'typescript');
+
+    expect(symbols.map(symbol => [symbol.qualifiedName, symbol.kind, symbol.startLine, symbol.endLine])).toEqual([
+      ['SearchFilters', 'interface', 3, 5],
+      ['DEFAULT_LIMIT', 'const', 7, 7],
+      ['buildWhereFilter', 'function', 10, 13],
+      ['performHybridSearch', 'function', 15, 20],
+      ['RedisCacheManager', 'class', 22, 32],
+      ['RedisCacheManager.get', 'method', 25, 29],
+      ['RedisCacheManager.invalidate', 'method', 31, 31],
+      ['SCHEMA', 'const', 34, 36]
+    ]);
+  });
+
+  it('should record containers and exports', () => {
+    const symbols = extractSymbols(TYPESCRIPT_SOURCE, 'typescript');
+
+    expect(symbols.find(symbol => symbol.name === 'get')).toMatchObject({
+      container: 'RedisCacheManager',
+      exported: true
+    });
+    expect(symbols.some(symbol => symbol.name === 'internalCache')).toBe(false);
+  });
+
+  it('should keep the implementation of overloaded functions', () => {
+    const symbols = extractSymbols([
+      'export function parse(input: string): number;',
+      'export function parse(input: number): number;',
+      'export function parse(input: unknown): number {',
+      '  return Number(input)',
+      '}'
+    ].join('\n'), 'javascript');
+
+    expect(symbols).toEqual([expect.objectContaining({ name: 'parse', startLine: 3, endLine: 5 })]);
+  });
+
+  it('should parse templates, decorators and JSX like the compiler', () => {
+    const symbols = extractSymbols([
+      'export const render = () => `${"{"}`',            // 1
+      '',                                                 // 2
+      '@Injectable()',                                    // 3
+      'export class Store<T extends { id: string }> {',   // 4
+      '  #evict(): void {}',                              // 5
+      '  get size() {',                                   // 6
+      '    return 0',                                     // 7
+      '  }',                                              // 8
+      '}',                                                // 9
+      'export function Panel() {',                        // 10
+      '  return <div className="{">{items}</div>',        // 11
+      '}'                                                 // 12
+    ].join('\n'), 'typescript');
+
+    expect(symbols.map(symbol => [symbol.qualifiedName, symbol.kind, symbol.startLine, symbol.endLine, symbol.exported])).toEqual([
+      ['render', 'function', 1, 1, true],
+      ['Store', 'class', 3, 9, true],
+      ['Store.#evict', 'method', 5, 5, false],
+      ['Store.size', 'method', 6, 8, true],
+      ['Panel', 'function', 10, 12, true]
+    ]);
+  });
+
+  it('should extract Python classes, methods and module constants', () => {
+    const symbols = extractSymbols(PYTHON_SOURCE, 'python');
+
+    expect(symbols.map(symbol => [symbol.qualifiedName, symbol.kind, symbol.startLine, symbol.endLine, symbol.exported])).toEqual([
+      ['MAX_RETRIES', 'const', 1, 1, true],
+      ['Crawler', 'class', 3, 12, true],
+      ['Crawler.fetch', 'method', 6, 9, true],
+      ['Crawler._close', 'method', 11, 12, false],
+      ['ingest_repository', 'function', 14, 15, true]
+    ]);
+  });
+
+  it('should return no symbols for other languages', () => {
+    expect(extractSymbols('# Heading\nfunction foo() {}', 'markdown')).toEqual([]);
+  });
+});
+
+describe('detectSymbolLanguage', () => {
+  it('should map source extensions to extractor languages', () => {
+    expect(detectSymbolLanguage('src/app.tsx')).toBe('typescript');
+    expect(detectSymbolLanguage('scripts/build.mjs')).toBe('javascript');
+    expect(detectSymbolLanguage('crawler/main.py')).toBe('python');
+    expect(detectSymbolLanguage('README.md')).toBe('text');
+  });
+});
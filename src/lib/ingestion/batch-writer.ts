@@ -0,0 +1,343 @@
+/**
+ * Batch Ingestion Writer
+ * Groups the objects of ingested files or pages into store batches, writes
+ * them with bounded concurrency, retries transient failures with backoff
+ * and reports throughput and ETA
+ */
+
+import { randomUUID } from 'crypto'
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises'
+import { dirname, join, resolve } from 'path'
+import type { VectorObject, VectorStore, VectorStoreClass } from '../vector-store/types'
+import { createDocumentHash } from '../search/search-document-utils'
+
+// Documents first, so chunk and symbol references resolve to written parents
+const CLASS_ORDER: readonly VectorStoreClass[] = ['Document', 'Chunk', 'Symbol']
+
+const TRANSIENT_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'])
+// weaviate-ts-client reports HTTP failures as "usage error (503): ..." or "status code: 503"
+const TRANSIENT_MESSAGE = /(?:\(|status code: )(?:429|5\d\d)\b|timed? ?out|socket hang up|fetch failed|ECONNRESET/i
+
+export interface BatchWriterOptions {
+  // Objects per store request
+  batchSize: number
+  // Batches in flight at once
+  concurrency: number
+  // Attempts after the first for transient failures
+  maxRetries: number
+  // First backoff delay, doubled on each retry up to maxRetryDelayMs
+  retryDelayMs: number
+  maxRetryDelayMs: number
+  // Items expected in total, for progress and ETA
+  totalItems?: number
+  onProgress?: (progress: BatchWriterProgress) => void
+  // Called with the keys of each batch once all of its objects are stored
+  onItemsWritten?: (keys: string[]) => Promise<void> | void
+}
+
+export const DEFAULT_BATCH_WRITER_OPTIONS: BatchWriterOptions = {
+  batchSize: 100,
+  concurrency: 2,
+  maxRetries: 3,
+  retryDelayMs: 1000,
+  maxRetryDelayMs: 30000
+}
+
+/**
+ * One ingested unit, e.g. a file or page with its chunks and symbols;
+ * it is reported written only when every object is stored
+ */
+export interface WriteItem {
+  key: string
+  objects: ReadonlyArray<{ className: VectorStoreClass; object: VectorObject }>
+}
+
+export interface BatchWriterProgress {
+  items: number
+  objects: number
+  failed: number
+  totalItems?: number
+  elapsedMs: number
+  objectsPerSecond: number
+  itemsPerSecond: number
+  // Unknown until an item is written or when totalItems is not set
+  etaMs?: number
+}
+
+export interface BatchWriterSummary extends BatchWriterProgress {
+  retries: number
+  failedKeys: string[]
+}
+
+/**
+ * Transport and server-side failures that may succeed on retry; rejected
+ * objects and schema errors are not transient
+ */
+export function isTransientError(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code
+  if (code && TRANSIENT_CODES.has(code)) return true
+  return error instanceof Error && TRANSIENT_MESSAGE.test(error.message)
+}
+
+export function backoffDelay(attempt: number, options: Pick<BatchWriterOptions, 'retryDelayMs' | 'maxRetryDelayMs'>): number {
+  return Math.min(options.retryDelayMs * 2 ** attempt, options.maxRetryDelayMs)
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * "1h 02m", "3m 05s" or "42s"
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  const pad = (value: number) => String(value).padStart(2, '0')
+  if (seconds >= 3600) return `${Math.floor(seconds / 3600)}h ${pad(Math.floor(seconds / 60) % 60)}m`
+  if (seconds >= 60) return `${Math.floor(seconds / 60)}m ${pad(seconds % 60)}s`
+  return `${seconds}s`
+}
+
+/**
+ * One-line progress report, e.g.
+ * "1200/5000 items (24.0%) · 850.0 objects/s · ETA 1m 12s"
+ */
+export function formatBatchProgress(progress: BatchWriterProgress, unit = 'items'): string {
+  const count = progress.totalItems
+    ? `${progress.items}/${progress.totalItems} ${unit} (${((progress.items / progress.totalItems) * 100).toFixed(1)}%)`
+    : `${progress.items} ${unit}`
+  const parts = [count, `${progress.objectsPerSecond.toFixed(1)} objects/s`]
+  if (progress.etaMs !== undefined) parts.push(`ETA ${formatDuration(progress.etaMs)}`)
+  if (progress.failed > 0) parts.push(`${progress.failed} failed`)
+  return parts.join(' · ')
+}
+
+/**
+ * Buffers items into batches of about batchSize objects and writes them
+ * with at most concurrency batches in flight
+ * A batch rejected for a non-transient reason is retried item by item, so
+ * one bad object only fails its own item
+ */
+export class BatchWriter {
+  private readonly options: BatchWriterOptions
+  private readonly inflight = new Set<Promise<void>>()
+  private buffer: WriteItem[] = []
+  private bufferedObjects = 0
+  private readonly startedAt = Date.now()
+  private items = 0
+  private objects = 0
+  private retries = 0
+  private readonly failedKeys: string[] = []
+  // First onItemsWritten failure; raised by the next write or flush
+  private callbackError: { error: unknown } | null = null
+
+  constructor(private readonly store: VectorStore, options: Partial<BatchWriterOptions> = {}) {
+    this.options = { ...DEFAULT_BATCH_WRITER_OPTIONS, ...options }
+  }
+
+  /**
+   * Queues an item, waiting for a free slot when a full batch is ready
+   */
+  async write(item: WriteItem): Promise<void> {
+    this.throwCallbackError()
+    this.buffer.push(item)
+    this.bufferedObjects += item.objects.length
+    if (this.bufferedObjects >= this.options.batchSize) await this.dispatch()
+  }
+
+  /**
+   * Writes everything still buffered and waits for batches in flight;
+   * rejects with the first onItemsWritten failure
+   */
+  async flush(): Promise<BatchWriterSummary> {
+    if (this.buffer.length > 0) await this.dispatch()
+    await Promise.all(this.inflight)
+    this.throwCallbackError()
+    return { ...this.progress(), retries: this.retries, failedKeys: [...this.failedKeys] }
+  }
+
+  progress(): BatchWriterProgress {
+    const elapsedMs = Math.max(Date.now() - this.startedAt, 1)
+    const itemsPerSecond = (this.items * 1000) / elapsedMs
+    const remaining = this.options.totalItems !== undefined
+      ? this.options.totalItems - this.items - this.failedKeys.length
+      : undefined
+
+    return {
+      items: this.items,
+      objects: this.objects,
+      failed: this.failedKeys.length,
+      totalItems: this.options.totalItems,
+      elapsedMs,
+      objectsPerSecond: (this.objects * 1000) / elapsedMs,
+      itemsPerSecond,
+      etaMs: remaining !== undefined && itemsPerSecond > 0 ? (Math.max(remaining, 0) / itemsPerSecond) * 1000 : undefined
+    }
+  }
+
+  private async dispatch(): Promise<void> {
+    while (this.inflight.size >= this.options.concurrency) {
+      await Promise.race(this.inflight)
+    }
+
+    const batch = this.buffer
+    this.buffer = []
+    this.bufferedObjects = 0
+
+    const task = this.writeBatch(batch).finally(() => {
+      this.inflight.delete(task)
+    })
+    this.inflight.add(task)
+  }
+
+  private async writeBatch(batch: WriteItem[]): Promise<void> {
+    let written = batch
+    try {
+      await this.upsertItems(batch)
+    } catch (error) {
+      if (batch.length === 1) {
+        this.failed(batch[0], error)
+        return
+      }
+      written = []
+      for (const item of batch) {
+        try {
+          await this.upsertItems([item])
+          written.push(item)
+        } catch (itemError) {
+          this.failed(item, itemError)
+        }
+      }
+    }
+
+    if (written.length === 0) return
+    // The items are stored, so a failing callback must not write or fail them again
+    try {
+      await this.completed(written)
+    } catch (error) {
+      this.callbackError ??= { error }
+    }
+  }
+
+  private throwCallbackError(): void {
+    if (this.callbackError) throw this.callbackError.error
+  }
+
+  private async upsertItems(items: WriteItem[]): Promise<void> {
+    for (const className of CLASS_ORDER) {
+      const objects = items.flatMap(item => item.objects
+        .filter(entry => entry.className === className)
+        .map(entry => entry.object))
+
+      for (let start = 0; start < objects.length; start += this.options.batchSize) {
+        await this.withRetry(() => this.store.upsert(className, objects.slice(start, start + this.options.batchSize)))
+      }
+    }
+  }
+
+  private async withRetry(operation: () => Promise<void>): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation()
+      } catch (error) {
+        if (attempt >= this.options.maxRetries || !isTransientError(error)) throw error
+        this.retries++
+        await sleep(backoffDelay(attempt, this.options))
+      }
+    }
+  }
+
+  private async completed(items: WriteItem[]): Promise<void> {
+    this.items += items.length
+    this.objects += items.reduce((sum, item) => sum + item.objects.length, 0)
+    await this.options.onItemsWritten?.(items.map(item => item.key))
+    this.options.onProgress?.(this.progress())
+  }
+
+  private failed(item: WriteItem, error: unknown): void {
+    this.failedKeys.push(item.key)
+    console.error(`  ❌ Failed: ${item.key}`, error)
+    this.options.onProgress?.(this.progress())
+  }
+}
+
+export interface IngestionCheckpointData {
+  source: string
+  basePath: string
+  // Content hash per item key written by an earlier run
+  completed: Record<string, string>
+  updatedAt: string
+}
+
+/**
+ * Item keys a run has finished, persisted so an interrupted ingestion can
+ * resume; an item only counts as done while its content hash matches
+ */
+export class IngestionCheckpoint {
+  private saving: Promise<void> = Promise.resolve()
+
+  private constructor(readonly path: string, private readonly data: IngestionCheckpointData) {}
+
+  /**
+   * Checkpoint path for a repository and source under ./data/checkpoints
+   */
+  static defaultPath(basePath: string, source: string): string {
+    return join('data', 'checkpoints', `${source}-${createDocumentHash(resolve(basePath)).slice(0, 12)}.json`)
+  }
+
+  static create(path: string, scope: Pick<IngestionCheckpointData, 'source' | 'basePath'>): IngestionCheckpoint {
+    return new IngestionCheckpoint(path, { ...scope, completed: {}, updatedAt: new Date().toISOString() })
+  }
+
+  /**
+   * Loads a checkpoint, starting empty when the file does not exist
+   */
+  static async load(path: string, scope: Pick<IngestionCheckpointData, 'source' | 'basePath'>): Promise<IngestionCheckpoint> {
+    try {
+      const data: IngestionCheckpointData = JSON.parse(await readFile(path, 'utf-8'))
+      if (data.source !== scope.source) {
+        throw new Error(`Checkpoint ${path} belongs to source "${data.source}", not "${scope.source}"`)
+      }
+      return new IngestionCheckpoint(path, data)
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') return IngestionCheckpoint.create(path, scope)
+      throw error
+    }
+  }
+
+  get size(): number {
+    return Object.keys(this.data.completed).length
+  }
+
+  isComplete(key: string, hash: string): boolean {
+    return this.data.completed[key] === hash
+  }
+
+  markComplete(key: string, hash: string): void {
+    this.data.completed[key] = hash
+  }
+
+  /**
+   * Writes the checkpoint through a temporary file so an interrupted save
+   * never leaves a truncated checkpoint; saves run one at a time
+   */
+  save(): Promise<void> {
+    // A failed save must not block the ones after it
+    this.saving = this.saving.catch(() => {}).then(async () => {
+      this.data.updatedAt = new Date().toISOString()
+      const temporary = `${this.path}.${randomUUID()}.tmp`
+      await mkdir(dirname(this.path), { recursive: true })
+      await writeFile(temporary, JSON.stringify(this.data), 'utf-8')
+      await rename(temporary, this.path)
+    })
+    return this.saving
+  }
+
+  /**
+   * Removes the checkpoint after a run that wrote everything
+   */
+  async remove(): Promise<void> {
+    await this.saving.catch(() => {})
+    await rm(this.path, { force: true })
+  }
+}
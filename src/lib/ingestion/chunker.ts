@@ -0,0 +1,100 @@
+import { parseCodeStructure, type CodeStructure, type ImportBinding } from './code-structure'
+import {
+  chunkContent,
+  DEFAULT_CHUNKING_OPTIONS,
+  estimateTokens,
+  toChunks,
+  trimBlankLines,
+  type ChunkingOptions,
+  type ContentChunk,
+  type LineRange
+} from './line-chunker'
+import { chunkMarkdown } from './markdown-chunker'
+import { isMarkdownFile } from './markdown-structure'
+
+export { chunkContent, DEFAULT_CHUNKING_OPTIONS, estimateTokens, type ChunkingOptions, type ContentChunk } from './line-chunker'
+export { chunkMarkdown } from './markdown-chunker'
+
+/**
+ * Import statements from outside the chunk that bind a name the chunk uses
+ */
+function importContext(lines: string[], { start, end }: LineRange, imports: ImportBinding[]): string | undefined {
+  const chunkText = lines.slice(start, end).join('\n')
+  const used = imports.filter(binding =>
+    (binding.line <= start || binding.line > end) &&
+    binding.names.some(name => new RegExp(`(?<![\\w$])${name.replace(/\$/g, '\\$')}(?![\\w$])`).test(chunkText))
+  )
+  return used.length > 0 ? used.map(binding => binding.text).join('\n') : undefined
+}
+
+/**
+ * Groups top-level declarations into chunks: a declaration of at least a
+ * quarter of maxTokens gets a chunk of its own, smaller neighbours share one,
+ * and declarations over maxTokens are split by lines
+ */
+function chunkCodeStructure(
+  lines: string[],
+  structure: CodeStructure,
+  chunkIdPrefix: string,
+  { maxTokens, overlapLines }: ChunkingOptions
+): ContentChunk[] {
+  const ranges: LineRange[] = []
+  let group: { start: number; end: number; symbols: string[]; tokens: number } | null = null
+  const flush = () => {
+    if (group) ranges.push(group)
+    group = null
+  }
+
+  for (const unit of structure.units) {
+    const text = lines.slice(unit.startLine - 1, unit.endLine).join('\n')
+    const tokens = estimateTokens(text)
+
+    if (tokens > maxTokens) {
+      flush()
+      for (const piece of chunkContent(text, chunkIdPrefix, { maxTokens, overlapLines })) {
+        ranges.push({
+          start: unit.startLine - 1 + piece.startLine - 1,
+          end: unit.startLine - 1 + piece.endLine,
+          symbols: [...unit.symbols]
+        })
+      }
+      continue
+    }
+
+    if (tokens >= maxTokens / 4 || (group && group.tokens + tokens > maxTokens)) flush()
+    group ??= { start: unit.startLine - 1, end: unit.startLine - 1, symbols: [], tokens: 0 }
+    group.end = unit.endLine
+    group.symbols.push(...unit.symbols)
+    group.tokens += tokens
+    if (group.tokens >= maxTokens / 4) flush()
+  }
+  flush()
+
+  const trimmed = ranges
+    .map(range => trimBlankLines(lines, range))
+    .filter((range): range is LineRange => range !== null)
+    .map(range => ({ ...range, context: importContext(lines, range, structure.imports) }))
+  return toChunks(lines, trimmed, chunkIdPrefix)
+}
+
+/**
+ * Chunks a file by its structure where the language is understood, e.g.
+ * TypeScript along top-level declarations and Markdown along headings, and
+ * by size otherwise
+ */
+export function chunkFile(
+  content: string,
+  filepath: string,
+  options: Partial<ChunkingOptions> = {}
+): ContentChunk[] {
+  const resolved = { ...DEFAULT_CHUNKING_OPTIONS, ...options }
+
+  try {
+    if (isMarkdownFile(filepath)) return chunkMarkdown(content, filepath, resolved)
+    const structure = parseCodeStructure(content, filepath)
+    if (structure) return chunkCodeStructure(content.split('\n'), structure, filepath, resolved)
+  } catch (error) {
+    console.warn(`Structured chunking failed for ${filepath}, splitting by size:`, error)
+  }
+  return chunkContent(content, filepath, resolved)
+}
@@ -0,0 +1,149 @@
+/**
+ * Code Structure
+ * Splits TypeScript and JavaScript files into top-level declarations using
+ * the TypeScript parser
+ */
+
+import ts from 'typescript'
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ts: ts.ScriptKind.TS,
+  mts: ts.ScriptKind.TS,
+  cts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+  js: ts.ScriptKind.JS,
+  mjs: ts.ScriptKind.JS,
+  cjs: ts.ScriptKind.JS,
+  jsx: ts.ScriptKind.JSX
+}
+
+/**
+ * Consecutive lines of a file (1-based, inclusive) holding one top-level
+ * statement together with the comments and blank lines before it
+ */
+export interface CodeUnit {
+  startLine: number
+  endLine: number
+  // Declared names, e.g. ["SearchBar"] or ["DEFAULT_LIMIT", "MAX_LIMIT"]
+  symbols: string[]
+  // Imports and directives at the top of the file form the preamble
+  preamble: boolean
+}
+
+export interface ImportBinding {
+  readonly text: string
+  readonly line: number
+  readonly names: readonly string[]
+}
+
+export interface CodeStructure {
+  readonly units: CodeUnit[]
+  readonly imports: ImportBinding[]
+}
+
+export function isStructuredCodeFile(filepath: string): boolean {
+  return scriptKind(filepath) !== undefined
+}
+
+function scriptKind(filepath: string): ts.ScriptKind | undefined {
+  const ext = filepath.split('.').pop()?.toLowerCase() ?? ''
+  return SCRIPT_KINDS[ext]
+}
+
+function isPreambleStatement(statement: ts.Statement): boolean {
+  return ts.isImportDeclaration(statement) ||
+    ts.isImportEqualsDeclaration(statement) ||
+    (ts.isExpressionStatement(statement) && ts.isStringLiteral(statement.expression))
+}
+
+/**
+ * Names bound by an import, e.g. ["React", "useState"] for
+ * import React, { useState } from 'react'
+ */
+function importedNames(statement: ts.Statement): string[] {
+  if (ts.isImportEqualsDeclaration(statement)) return [statement.name.text]
+  if (!ts.isImportDeclaration(statement) || !statement.importClause) return []
+
+  const { name, namedBindings } = statement.importClause
+  const names = name ? [name.text] : []
+  if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+    names.push(namedBindings.name.text)
+  } else if (namedBindings) {
+    names.push(...namedBindings.elements.map(element => element.name.text))
+  }
+  return names
+}
+
+/**
+ * Names a top-level statement declares; anonymous default exports are "default"
+ */
+function declaredNames(statement: ts.Statement): string[] {
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations
+      .map(declaration => declaration.name)
+      .filter(ts.isIdentifier)
+      .map(name => name.text)
+  }
+  if (ts.isExportAssignment(statement)) return ['default']
+  if (
+    ts.isFunctionDeclaration(statement) ||
+    ts.isClassDeclaration(statement) ||
+    ts.isInterfaceDeclaration(statement) ||
+    ts.isTypeAliasDeclaration(statement) ||
+    ts.isEnumDeclaration(statement) ||
+    ts.isModuleDeclaration(statement)
+  ) {
+    return [statement.name?.text ?? 'default']
+  }
+  return []
+}
+
+/**
+ * Top-level statements of a TypeScript or JavaScript file as line ranges
+ * that cover the whole file, or null for other files
+ */
+export function parseCodeStructure(content: string, filepath: string): CodeStructure | null {
+  const kind = scriptKind(filepath)
+  if (kind === undefined) return null
+
+  const sourceFile = ts.createSourceFile(filepath, content, ts.ScriptTarget.Latest, false, kind)
+  const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line + 1
+  const totalLines = content.split('\n').length
+  const units: CodeUnit[] = []
+  const imports: ImportBinding[] = []
+  let inPreamble = true
+
+  for (const statement of sourceFile.statements) {
+    const names = importedNames(statement)
+    if (names.length > 0) {
+      imports.push({ text: statement.getText(sourceFile), line: lineOf(statement.getStart(sourceFile)), names })
+    }
+
+    inPreamble = inPreamble && isPreambleStatement(statement)
+    const previous = units[units.length - 1]
+    const endLine = lineOf(statement.end)
+
+    // Statements sharing a line, or a preamble that continues, extend the unit
+    if (previous && (endLine <= previous.endLine || (inPreamble && previous.preamble))) {
+      previous.endLine = Math.max(previous.endLine, endLine)
+      previous.symbols.push(...declaredNames(statement))
+      continue
+    }
+
+    units.push({
+      startLine: previous ? previous.endLine + 1 : 1,
+      endLine,
+      symbols: declaredNames(statement),
+      preamble: inPreamble
+    })
+  }
+
+  // Trailing comments belong to the last statement
+  if (units.length === 0) {
+    units.push({ startLine: 1, endLine: totalLines, symbols: [], preamble: false })
+  } else {
+    units[units.length - 1].endLine = totalLines
+  }
+
+  return { units, imports }
+}
@@ -7,7 +7,8 @@ import { Queue, Worker, Job } from 'bullmq';
 import { createHash } from 'crypto';
 import { z } from 'zod';
 import { getWebCrawler, WebCrawlRequest, WebCrawlResult } from './web-crawler';
-import { createWeaviateClient } from '../weaviate/client';
+import { getVectorStore } from '../vector-store';
+import { notifySavedSearches, savedSearchDocumentKey } from '../search/saved-searches';
 
 // Redis connection for BullMQ
 const redisConnection = {
@@ -55,27 +56,19 @@ export interface CrawlJobResult {
  * Content change detection service
  */
 class ChangeDetectionService {
-  private readonly client = createWeaviateClient();
-
   /**
-   * Gets stored content hash for URL
+   * Gets the content hash of the document stored for a URL
    */
   async getStoredContentHash(url: string): Promise<string | null> {
     try {
-      const result = await this.client.graphql
-        .get()
-        .withClassName('Document')
-        .withFields('metadata { checksum }')
-        .withWhere({
-          operator: 'Equal',
-          path: ['url'],
-          valueString: url,
-        })
-        .withLimit(1)
-        .do();
-
-      const documents = result?.data?.Get?.Document;
-      return documents?.[0]?.metadata?.checksum || null;
+      const [document] = await getVectorStore().getByFilter<{ content?: string }>({
+        className: 'Document',
+        fields: ['content'],
+        where: { operator: 'Equal', path: ['url'], valueText: url },
+        limit: 1,
+      });
+
+      return document?.content ? this.calculateContentHash(document.content) : null;
     } catch (error) {
       console.error(`Error getting stored hash for ${url}:`, error);
       return null;
@@ -129,6 +122,15 @@ class ChangeDetectionService {
   }
 }
 
+/**
+ * Saved search keys of crawled pages, by URL like resultDocumentKey
+ */
+function crawledDocumentKeys(results: readonly WebCrawlResult[]): string[] {
+  return results
+    .filter(result => result.success)
+    .flatMap(result => result.pages.map(page => savedSearchDocumentKey('web', page.url)));
+}
+
 /**
  * Web crawl scheduler with automation capabilities
  */
@@ -207,6 +209,10 @@ export class CrawlScheduler {
         0
       );
 
+      if (documentsUpdated > 0 || changesDetected.length > 0) {
+        await notifySavedSearches({ trigger: 'crawl', changed: crawledDocumentKeys(crawlResults) });
+      }
+
       const executionTime = Date.now() - startTime;
 
       return {
@@ -6,12 +6,16 @@
 
 import { createHash } from 'crypto';
 import { z } from 'zod';
-import { createWeaviateClient } from '../weaviate/client';
-import type { Document, DocumentSource } from '../../types/search';
+import { getVectorStore } from '../vector-store';
+import type { VectorStore } from '../vector-store/types';
+import { createDocumentId, type Document, type DocumentSource } from '../../types/search';
+
+// Stored documents compared when checking for an existing copy
+const MAX_EXISTING_CANDIDATES = 10;
 
 // Dependency injection for testing
 interface DeduplicatorDeps {
-  weaviateClient?: any; // Use any to support test mocks
+  vectorStore?: VectorStore;
 }
 
 let _deps: DeduplicatorDeps | undefined;
@@ -215,30 +219,31 @@ export class ContentDeduplicator {
   }
 
   /**
-   * Check if document exists in Weaviate by content hash
+   * Check if the vector store holds this document with the same content hash
+   * Stored documents are looked up by URL, or by filepath without one
    */
   async checkExistingDocument(doc: Document): Promise<Document | null> {
-    const checksum = this.createContentHash(doc.content, doc.metadata?.url);
-    const client = _deps?.weaviateClient || createWeaviateClient();
+    const url = doc.metadata?.url;
+    const checksum = this.createContentHash(doc.content, url);
+    const store = _deps?.vectorStore ?? getVectorStore();
 
     try {
-      const result = await client.graphql
-        .get()
-        .withClassName('Document')
-        .withFields('id source filepath lastModified')
-        .withWhere({
-          operator: 'Equal',
-          path: ['metadata', 'checksum'],
-          valueString: checksum,
-        })
-        .withLimit(1)
-        .do();
-
-      if (result?.data?.Get?.Document?.length > 0) {
-        const existingDoc = result.data.Get.Document[0];
+      const candidates = await store.getByFilter<{ content?: string; url?: string }>({
+        className: 'Document',
+        fields: ['content', 'url'],
+        where: url
+          ? { operator: 'Equal', path: ['url'], valueText: url }
+          : { operator: 'Equal', path: ['filepath'], valueText: doc.filepath },
+        limit: MAX_EXISTING_CANDIDATES,
+      });
+
+      const existing = candidates.find(candidate =>
+        this.createContentHash(candidate.content ?? '', candidate.url || undefined) === checksum
+      );
+      if (existing) {
         return {
           ...doc,
-          id: existingDoc.id,
+          id: createDocumentId(existing._additional.id),
           metadata: {
             ...doc.metadata,
             checksum,
@@ -0,0 +1,145 @@
+/**
+ * Git Provenance
+ * Reads branch, HEAD commit and per-file last-commit author and date from a
+ * local checkout so ingested files can link to the exact revision indexed
+ */
+
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+
+const run = promisify(execFile)
+
+// git log over a large history easily exceeds the 1MB default
+const MAX_GIT_OUTPUT = 256 * 1024 * 1024
+const RECORD_SEPARATOR = '\x1e'
+const FIELD_SEPARATOR = '\x1f'
+
+/**
+ * Last commit that touched a file
+ */
+export interface FileCommit {
+  commit: string
+  author: string
+  date: Date
+}
+
+export interface RepositoryProvenance {
+  // Undefined on a detached HEAD
+  branch?: string
+  commit: string
+  // Keyed by path relative to the ingested directory
+  files: Map<string, FileCommit>
+  // Modified, staged or untracked paths whose content HEAD does not hold
+  dirty: Set<string>
+}
+
+/**
+ * Git metadata stored on the objects of one file
+ */
+export interface FileProvenance {
+  branch?: string
+  // HEAD sha, only when the working copy matches it
+  commit?: string
+  author?: string
+  committedAt?: Date
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await run('git', ['-c', 'core.quotePath=false', ...args], {
+    cwd,
+    maxBuffer: MAX_GIT_OUTPUT
+  })
+  return stdout
+}
+
+/**
+ * Newest commit per path from
+ * git log --format=<RS>%H<US>%an<US>%aI --name-only
+ */
+export function parseGitLog(output: string): Map<string, FileCommit> {
+  const files = new Map<string, FileCommit>()
+
+  for (const record of output.split(RECORD_SEPARATOR)) {
+    const [header, ...paths] = record.split('\n')
+    const [commit, author, date] = header.split(FIELD_SEPARATOR)
+    if (!commit || !date) continue
+
+    for (const path of paths) {
+      if (path && !files.has(path)) files.set(path, { commit, author, date: new Date(date) })
+    }
+  }
+  return files
+}
+
+/**
+ * Paths from git status --porcelain -z, relative to prefix; renames and
+ * copies report only their new path
+ */
+export function parseGitStatus(output: string, prefix = ''): Set<string> {
+  const dirty = new Set<string>()
+  const entries = output.split('\0')
+
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index]
+    if (entry.length < 4) continue
+
+    const path = entry.slice(3)
+    if (path.startsWith(prefix)) dirty.add(path.slice(prefix.length))
+    // The original path of a rename or copy follows as its own entry
+    if (entry[0] === 'R' || entry[0] === 'C') index++
+  }
+  return dirty
+}
+
+/**
+ * Provenance of a checkout, or null when basePath is not inside a git
+ * work tree or git is unavailable
+ */
+export async function readGitProvenance(basePath: string): Promise<RepositoryProvenance | null> {
+  try {
+    const [head, branch, prefix] = await Promise.all([
+      git(basePath, ['rev-parse', 'HEAD']),
+      git(basePath, ['rev-parse', '--abbrev-ref', 'HEAD']),
+      git(basePath, ['rev-parse', '--show-prefix'])
+    ])
+    const [log, status] = await Promise.all([
+      git(basePath, [
+        'log',
+        `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI`,
+        '--name-only',
+        '--relative',
+        '--',
+        '.'
+      ]),
+      git(basePath, ['status', '--porcelain', '-z', '--untracked-files=all', '--', '.'])
+    ])
+
+    return {
+      branch: branch.trim() === 'HEAD' ? undefined : branch.trim(),
+      commit: head.trim(),
+      files: parseGitLog(log),
+      dirty: parseGitStatus(status, prefix.trim())
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Git metadata for one file; files that are untracked or differ from HEAD
+ * get no commit to pin links to and no commit date
+ */
+export function fileProvenance(repository: RepositoryProvenance, relativePath: string): FileProvenance {
+  const last = repository.files.get(relativePath)
+  if (!last) return { branch: repository.branch }
+  if (repository.dirty.has(relativePath)) {
+    return { branch: repository.branch, author: last.author }
+  }
+
+  return {
+    branch: repository.branch,
+    commit: repository.commit,
+    author: last.author,
+    committedAt: last.date
+  }
+}
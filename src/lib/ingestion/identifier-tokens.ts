@@ -0,0 +1,72 @@
+/**
+ * Identifier Tokens
+ * Splits code identifiers and paths into plain words for keyword search
+ */
+
+// Word-like runs that may join parts with underscores, dollars or hyphens
+const IDENTIFIER_RUN = /[A-Za-z_$][\w$]*(?:-[A-Za-z0-9_$]+)*/g
+
+// Keeps the derived property bounded on generated or minified files
+const MAX_INDEXED_IDENTIFIERS = 5000
+
+/**
+ * Lowercased words of an identifier, splitting camelCase and PascalCase humps,
+ * acronyms, snake_case and kebab-case, e.g. "parseHTTPRequest_v2" gives
+ * ["parse", "http", "request", "v2"]
+ */
+export function splitIdentifier(identifier: string): string[] {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.toLowerCase())
+}
+
+/**
+ * Words of every path segment, e.g. "src/lib/redis-cache.ts" gives
+ * ["src", "lib", "redis", "cache", "ts"]
+ */
+export function splitPath(filepath: string): string[] {
+  return filepath.split(/[\\/]/).flatMap(splitIdentifier)
+}
+
+/**
+ * Compound identifiers in the text with their split words, first occurrence only
+ */
+function compoundIdentifiers(text: string, limit: number): Map<string, string[]> {
+  const compounds = new Map<string, string[]>()
+
+  for (const match of text.matchAll(IDENTIFIER_RUN)) {
+    if (compounds.size >= limit) break
+    if (compounds.has(match[0])) continue
+
+    const words = splitIdentifier(match[0])
+    if (words.length > 1) compounds.set(match[0], words)
+  }
+  return compounds
+}
+
+/**
+ * Text for the derived `identifiers` property: the path words followed by the
+ * split words of each distinct compound identifier in the content
+ */
+export function buildIdentifierText(content: string, filepath: string = ''): string {
+  const groups = [splitPath(filepath).join(' ')]
+  for (const words of compoundIdentifiers(content, MAX_INDEXED_IDENTIFIERS).values()) {
+    groups.push(words.join(' '))
+  }
+  return groups.filter(Boolean).join('\n')
+}
+
+/**
+ * Appends the split words of compound identifiers to a keyword query, so
+ * "getCacheManager" also matches "get cache manager" in the identifiers property
+ */
+export function expandIdentifierQuery(query: string): string {
+  const expansions = new Set<string>()
+  for (const words of compoundIdentifiers(query, MAX_INDEXED_IDENTIFIERS).values()) {
+    expansions.add(words.join(' '))
+  }
+  return expansions.size > 0 ? `${query} ${[...expansions].join(' ')}` : query
+}
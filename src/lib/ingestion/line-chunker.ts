@@ -0,0 +1,107 @@
+/**
+ * Line Chunker
+ * Splits content into line-aligned chunks by size; the structured chunkers
+ * build on its ranges
+ */
+
+import type { DocumentChunk } from '../../types/search'
+
+export interface ChunkingOptions {
+  maxTokens: number
+  overlapLines: number
+}
+
+export interface ContentChunk extends DocumentChunk {
+  tokenCount: number
+  // Indexed alongside the chunk: imports it uses, or its heading path
+  context?: string
+}
+
+export interface LineRange {
+  start: number
+  end: number
+  symbols?: string[]
+  breadcrumb?: string[]
+  anchor?: string
+  context?: string
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  maxTokens: 400,
+  overlapLines: 2
+}
+
+// Rough OpenAI tokenizer ratio for code and English prose
+const CHARS_PER_TOKEN = 4
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/**
+ * Splits content into line-aligned chunks of at most maxTokens.
+ * Chunks prefer to end on a blank line once they are half full so that
+ * paragraphs and functions stay together, and consecutive chunks share
+ * overlapLines lines of context.
+ */
+export function chunkContent(
+  content: string,
+  chunkIdPrefix: string,
+  options: Partial<ChunkingOptions> = {}
+): ContentChunk[] {
+  const { maxTokens, overlapLines } = { ...DEFAULT_CHUNKING_OPTIONS, ...options }
+  const lines = content.split('\n')
+  const ranges: Array<{ start: number; end: number }> = []
+
+  let start = 0
+  while (start < lines.length) {
+    let end = start
+    let tokens = 0
+    let lastBlank = -1
+
+    while (end < lines.length) {
+      const lineTokens = estimateTokens(lines[end]) + 1
+      if (tokens + lineTokens > maxTokens && end > start) break
+      tokens += lineTokens
+      if (lines[end].trim() === '' && tokens >= maxTokens / 2) lastBlank = end
+      end++
+    }
+
+    // Back up to the last paragraph break when the chunk was cut mid-block
+    if (end < lines.length && lastBlank > start) {
+      end = lastBlank + 1
+    }
+
+    ranges.push({ start, end })
+    if (end >= lines.length) break
+    start = Math.max(end - overlapLines, start + 1)
+  }
+
+  return toChunks(lines, ranges, chunkIdPrefix)
+}
+
+export function toChunks(lines: string[], ranges: LineRange[], chunkIdPrefix: string): ContentChunk[] {
+  return ranges.map(({ start, end, ...structure }, chunkIndex) => {
+    const chunkText = lines.slice(start, end).join('\n')
+    return {
+      id: `${chunkIdPrefix}#${chunkIndex}`,
+      content: chunkText,
+      startLine: start + 1,
+      endLine: end,
+      chunkIndex,
+      totalChunks: ranges.length,
+      tokenCount: estimateTokens(chunkText),
+      ...Object.fromEntries(Object.entries(structure).filter(([, value]) => value !== undefined))
+    }
+  })
+}
+
+/**
+ * Drops blank lines at either end of a range, or the whole range if blank
+ */
+export function trimBlankLines(lines: string[], range: LineRange): LineRange | null {
+  let { start, end } = range
+  while (start < end && lines[start].trim() === '') start++
+  while (end > start && lines[end - 1].trim() === '') end--
+  return start < end ? { ...range, start, end } : null
+}
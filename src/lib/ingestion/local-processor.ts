@@ -1,12 +1,22 @@
 import { glob } from 'glob'
-import { readFile, stat } from 'fs/promises'
-import { join, relative } from 'path'
+import { access, readFile, stat } from 'fs/promises'
+import { join, relative, sep } from 'path'
 import { z } from 'zod'
+import { chunkFile, DEFAULT_CHUNKING_OPTIONS, type ContentChunk } from './chunker'
+import { extractSymbols } from './symbol-extractor'
+import {
+  resolveSourceAuthority,
+  SourceAuthorityRulesSchema,
+  DEFAULT_SOURCE_AUTHORITY_RULES
+} from './source-authority'
+import type { SourceAuthority } from '../../types/source-attribution'
+import type { CodeSymbol } from '../../types/code-symbols'
 
 const LocalIngestionConfigSchema = z.object({
   basePath: z.string(),
   includePatterns: z.array(z.string()).default([
     '**/*.{ts,tsx,js,jsx}',
+    '**/*.py',
     '**/*.{md,mdx}',
     '**/*.{json,yaml,yml}',
     'README*',
@@ -24,10 +34,21 @@ const LocalIngestionConfigSchema = z.object({
     '**/.env*'
   ]),
   maxFileSize: z.number().default(500 * 1024), // 500KB to avoid OpenAI token limits
+  chunkMaxTokens: z.number().positive().default(DEFAULT_CHUNKING_OPTIONS.maxTokens),
+  chunkOverlapLines: z.number().nonnegative().default(DEFAULT_CHUNKING_OPTIONS.overlapLines),
+  authorityRules: SourceAuthorityRulesSchema.default(DEFAULT_SOURCE_AUTHORITY_RULES),
 })
 
 export type LocalIngestionConfig = z.infer<typeof LocalIngestionConfigSchema>
 
+/**
+ * Whether a relative path is one of the given paths or lies under one;
+ * watchers report a directory for renames and deletes within it
+ */
+export function isWithinPaths(path: string, paths: readonly string[]): boolean {
+  return paths.some(entry => path === entry || path.startsWith(`${entry}/`) || path.startsWith(`${entry}${sep}`))
+}
+
 export interface ProcessedFile {
   path: string
   relativePath: string
@@ -40,6 +61,9 @@ export interface ProcessedFile {
     isDocumentation: boolean
     fileType: string
   }
+  authority: SourceAuthority
+  chunks: ContentChunk[]
+  symbols: CodeSymbol[]
 }
 
 export class LocalRepositoryProcessor {
@@ -81,19 +105,29 @@ export class LocalRepositoryProcessor {
 
       const content = await readFile(filePath, 'utf-8')
       const relativePath = relative(this.config.basePath, filePath)
+      const language = this.detectLanguage(filePath)
 
       return {
         path: filePath,
         relativePath,
         content,
         size: stats.size,
-        language: this.detectLanguage(filePath),
+        language,
         lastModified: stats.mtime,
         metadata: {
           isCode: this.isCodeFile(filePath),
           isDocumentation: this.isDocumentationFile(filePath),
           fileType: this.getFileType(filePath)
-        }
+        },
+        authority: resolveSourceAuthority(
+          { source: 'local', filepath: relativePath },
+          this.config.authorityRules
+        ),
+        chunks: chunkFile(content, relativePath, {
+          maxTokens: this.config.chunkMaxTokens,
+          overlapLines: this.config.chunkOverlapLines
+        }),
+        symbols: extractSymbols(content, language)
       }
     } catch (error) {
       console.error(`Error processing file ${filePath}:`, error)
@@ -118,6 +152,35 @@ export class LocalRepositoryProcessor {
     return processedFiles
   }
 
+  /**
+   * Processes only the files at or under the given paths relative to
+   * basePath, e.g. those a watcher reported; present holds the relative path
+   * of every ingestible file still on disk, so deleted files can be told
+   * apart from ones that failed to read, e.g. mid-save
+   */
+  async processPaths(paths: readonly string[]): Promise<{ files: ProcessedFile[]; present: Set<string> }> {
+    const files: ProcessedFile[] = []
+    const present = new Set<string>()
+
+    for (const filePath of await this.discoverFiles()) {
+      const relativePath = relative(this.config.basePath, filePath)
+      if (!isWithinPaths(relativePath, paths)) {
+        present.add(relativePath)
+        continue
+      }
+
+      const processed = await this.processFile(filePath)
+      if (processed) {
+        files.push(processed)
+        present.add(relativePath)
+      } else if (await access(filePath).then(() => true, () => false)) {
+        present.add(relativePath)
+      }
+    }
+
+    return { files, present }
+  }
+
   private detectLanguage(filePath: string): string {
     const ext = filePath.split('.').pop()?.toLowerCase()
 
@@ -0,0 +1,448 @@
+/**
+ * Local Repository Sync
+ * Writes processed files to the vector store and keeps a manifest of what
+ * each file produced, so re-runs only touch added, changed and removed files
+ */
+
+import { watch } from 'fs'
+import { randomUUID } from 'crypto'
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import { dirname, join, resolve } from 'path'
+import { createObjectId } from '../vector-store'
+import type { VectorObject, VectorStore } from '../vector-store/types'
+import { createDocumentHash } from '../search/search-document-utils'
+import { generateBlobUrl } from '../attribution/url-generator'
+import { buildIdentifierText } from './identifier-tokens'
+import { BatchWriter, type BatchWriterOptions, type WriteItem } from './batch-writer'
+import { fileProvenance, type FileProvenance, type RepositoryProvenance } from './git-provenance'
+import { isWithinPaths, type ProcessedFile } from './local-processor'
+
+export const DEFAULT_WATCH_DEBOUNCE_MS = 500
+
+// Tool and build output that never holds ingestible sources
+const WATCH_IGNORE = /(?:^|[/\\])(?:node_modules|\.git|\.next|dist|build)(?:[/\\]|$)/
+
+// Pending manifest save per path, so saves to one manifest run one at a time
+const manifestSaves = new Map<string, Promise<void>>()
+
+export interface LocalObjectOptions {
+  source: string
+  // Document URLs become <baseUrl>/blob/<ref>/<path> instead of <source>://<path>
+  baseUrl?: string
+  priority: number
+  chunks: boolean
+  // Pins URLs to HEAD and records branch, commit and last-commit author
+  git?: RepositoryProvenance
+}
+
+/**
+ * Ids of the objects one file was written as
+ */
+export interface IngestedObjects {
+  documentId: string
+  chunkIds: string[]
+  symbolIds: string[]
+}
+
+export interface SyncManifestEntry extends IngestedObjects {
+  hash: string
+  syncedAt: string
+}
+
+export interface SyncManifest {
+  source: string
+  basePath: string
+  // Keyed by path relative to basePath
+  files: Record<string, SyncManifestEntry>
+}
+
+export interface SyncPlan {
+  added: ProcessedFile[]
+  changed: ProcessedFile[]
+  unchanged: number
+  removed: string[]
+}
+
+export interface SyncResult {
+  added: number
+  changed: number
+  removed: number
+  unchanged: number
+  errors: number
+  chunkCount: number
+  symbolCount: number
+  // Relative paths written or deleted by the run
+  touched: string[]
+}
+
+/**
+ * Document, Chunk and Symbol objects for a file; ids derive from source and
+ * path, so writing a file again overwrites its objects
+ * Files matching HEAD link to the commit, others to the branch (or main)
+ */
+export function buildLocalObjects(file: ProcessedFile, options: LocalObjectOptions): {
+  document: VectorObject
+  chunks: VectorObject[]
+  symbols: VectorObject[]
+} {
+  const provenance: FileProvenance = options.git ? fileProvenance(options.git, file.relativePath) : {}
+  const url = options.baseUrl
+    ? generateBlobUrl(options.baseUrl, provenance.commit ?? provenance.branch ?? 'main', file.relativePath)
+    : `${options.source}://${file.relativePath}`
+  const git = {
+    author: provenance.author ?? '',
+    branch: provenance.branch ?? '',
+    commit: provenance.commit ?? ''
+  }
+  const documentId = createObjectId(`${options.source}:${file.relativePath}`)
+  const document = {
+    content: file.content,
+    identifiers: buildIdentifierText(file.content, file.relativePath),
+    source: options.source,
+    filepath: file.relativePath,
+    url,
+    lastModified: (provenance.committedAt ?? file.lastModified).toISOString(),
+    priority: options.priority,
+    language: file.language,
+    isCode: file.metadata.isCode,
+    isDocumentation: file.metadata.isDocumentation,
+    fileType: file.metadata.fileType,
+    size: file.size,
+    tags: [file.metadata.fileType, file.language],
+    authority: file.authority,
+    ...git
+  }
+
+  const chunks = options.chunks ? file.chunks.map(chunk => ({
+    id: createObjectId(`${documentId}#${chunk.chunkIndex}`),
+    properties: {
+      content: chunk.content,
+      identifiers: buildIdentifierText(chunk.content, file.relativePath),
+      document: [{ beacon: `weaviate://localhost/Document/${documentId}` }],
+      documentId,
+      source: document.source,
+      filepath: document.filepath,
+      url: document.url,
+      language: document.language,
+      lastModified: document.lastModified,
+      priority: document.priority,
+      tags: document.tags,
+      authority: document.authority,
+      ...git,
+      chunkIndex: chunk.chunkIndex,
+      totalChunks: chunk.totalChunks,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      tokenCount: chunk.tokenCount,
+      symbols: chunk.symbols ?? [],
+      breadcrumb: chunk.breadcrumb ?? [],
+      anchor: chunk.anchor ?? '',
+      context: chunk.context ?? ''
+    }
+  })) : []
+
+  // Overloads and redeclarations share a qualified name, so the line keeps them apart
+  const symbols = file.symbols.map(symbol => ({
+    id: createObjectId(`${documentId}@${symbol.qualifiedName}:${symbol.startLine}`),
+    properties: {
+      ...symbol,
+      documentId,
+      source: document.source,
+      filepath: document.filepath,
+      url: document.url,
+      language: document.language,
+      ...git
+    }
+  }))
+
+  return { document: { id: documentId, properties: document }, chunks, symbols }
+}
+
+/**
+ * The objects of one file as a batch writer item keyed by its path
+ */
+export function localWriteItem(file: ProcessedFile, options: LocalObjectOptions): WriteItem {
+  const { document, chunks, symbols } = buildLocalObjects(file, options)
+  return {
+    key: file.relativePath,
+    objects: [
+      { className: 'Document', object: document },
+      ...chunks.map(object => ({ className: 'Chunk' as const, object })),
+      ...symbols.map(object => ({ className: 'Symbol' as const, object }))
+    ]
+  }
+}
+
+/**
+ * Ids of the objects a write item stores
+ */
+export function writeItemIds(item: WriteItem): IngestedObjects {
+  const ids = (className: string) => item.objects
+    .filter(entry => entry.className === className)
+    .map(entry => entry.object.id)
+
+  return { documentId: ids('Document')[0], chunkIds: ids('Chunk'), symbolIds: ids('Symbol') }
+}
+
+/**
+ * Manifest path for a repository and source under ./data/sync
+ */
+export function defaultManifestPath(basePath: string, source: string): string {
+  return join('data', 'sync', `${source}-${createDocumentHash(resolve(basePath)).slice(0, 12)}.json`)
+}
+
+export async function loadSyncManifest(
+  manifestPath: string,
+  scope: Pick<SyncManifest, 'source' | 'basePath'>
+): Promise<SyncManifest> {
+  try {
+    const manifest: SyncManifest = JSON.parse(await readFile(manifestPath, 'utf-8'))
+    if (manifest.source !== scope.source) {
+      throw new Error(`Manifest ${manifestPath} belongs to source "${manifest.source}", not "${scope.source}"`)
+    }
+    return manifest
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') return { ...scope, files: {} }
+    throw error
+  }
+}
+
+/**
+ * Writes the manifest through a temporary file so an interrupted save never
+ * leaves a truncated manifest; saves to one path run one at a time
+ */
+export function saveSyncManifest(manifestPath: string, manifest: SyncManifest): Promise<void> {
+  // A failed save must not block the ones after it
+  const saving = (manifestSaves.get(manifestPath) ?? Promise.resolve()).catch(() => {}).then(async () => {
+    const temporary = `${manifestPath}.${randomUUID()}.tmp`
+    await mkdir(dirname(manifestPath), { recursive: true })
+    await writeFile(temporary, JSON.stringify(manifest, null, 2), 'utf-8')
+    await rename(temporary, manifestPath)
+  })
+  manifestSaves.set(manifestPath, saving)
+  return saving
+}
+
+/**
+ * Compares processed files with the manifest by content hash; with prune
+ * off, manifest paths missing from files are kept rather than removed
+ */
+export function planSync(manifest: SyncManifest, files: readonly ProcessedFile[], prune = true): SyncPlan {
+  const plan: SyncPlan = { added: [], changed: [], unchanged: 0, removed: [] }
+  const present = new Set<string>()
+
+  for (const file of files) {
+    present.add(file.relativePath)
+    const entry = manifest.files[file.relativePath]
+    if (!entry) plan.added.push(file)
+    else if (entry.hash !== createDocumentHash(file.content)) plan.changed.push(file)
+    else plan.unchanged++
+  }
+
+  if (prune) {
+    plan.removed = Object.keys(manifest.files).filter(path => !present.has(path))
+  }
+  return plan
+}
+
+/**
+ * Sync plan for watcher-reported paths: files are the processed files under
+ * them and present every ingestible path still on disk; only entries under a
+ * reported path can be removed
+ */
+export function planPathSync(
+  manifest: SyncManifest,
+  files: readonly ProcessedFile[],
+  paths: readonly string[],
+  present: ReadonlySet<string>
+): SyncPlan {
+  const plan = planSync(manifest, files, false)
+  plan.removed = Object.keys(manifest.files).filter(path => isWithinPaths(path, paths) && !present.has(path))
+  return plan
+}
+
+function staleIds(previous: readonly string[] | undefined, current: readonly string[]): string[] {
+  const kept = new Set(current)
+  return (previous ?? []).filter(id => !kept.has(id))
+}
+
+/**
+ * Deletes every object a manifest entry recorded
+ */
+async function deleteEntry(store: VectorStore, entry: SyncManifestEntry): Promise<void> {
+  if (entry.chunkIds.length > 0) await store.delete('Chunk', entry.chunkIds)
+  if (entry.symbolIds.length > 0) await store.delete('Symbol', entry.symbolIds)
+  await store.delete('Document', [entry.documentId])
+}
+
+/**
+ * Records a written file in the manifest after deleting the chunks and
+ * symbols its previous entry had that the write no longer produced
+ * Returns the previous entry, if any
+ */
+export async function recordWrittenFile(
+  store: VectorStore,
+  manifest: SyncManifest,
+  path: string,
+  hash: string,
+  written: IngestedObjects
+): Promise<SyncManifestEntry | undefined> {
+  const previous = manifest.files[path]
+  const staleChunks = staleIds(previous?.chunkIds, written.chunkIds)
+  const staleSymbols = staleIds(previous?.symbolIds, written.symbolIds)
+  if (staleChunks.length > 0) await store.delete('Chunk', staleChunks)
+  if (staleSymbols.length > 0) await store.delete('Symbol', staleSymbols)
+
+  manifest.files[path] = { ...written, hash, syncedAt: new Date().toISOString() }
+  return previous
+}
+
+/**
+ * Applies a sync plan through a batch writer and updates the manifest in place
+ * Changed files drop chunks and symbols they no longer produce; a file that
+ * fails keeps its previous entry so the next run retries it
+ */
+export async function applySyncPlan(
+  store: VectorStore,
+  plan: SyncPlan,
+  manifest: SyncManifest,
+  options: LocalObjectOptions,
+  writerOptions: Partial<Omit<BatchWriterOptions, 'onItemsWritten'>> = {}
+): Promise<SyncResult> {
+  const result: SyncResult = {
+    added: 0,
+    changed: 0,
+    removed: 0,
+    unchanged: plan.unchanged,
+    errors: 0,
+    chunkCount: 0,
+    symbolCount: 0,
+    touched: []
+  }
+
+  const files = [...plan.added, ...plan.changed]
+  const pending = new Map<string, { hash: string; written: IngestedObjects }>()
+  const writer = new BatchWriter(store, {
+    ...writerOptions,
+    totalItems: files.length,
+    onItemsWritten: async paths => {
+      for (const path of paths) {
+        const { hash, written } = pending.get(path)!
+        try {
+          const previous = await recordWrittenFile(store, manifest, path, hash, written)
+          if (previous) result.changed++
+          else result.added++
+          result.chunkCount += written.chunkIds.length
+          result.symbolCount += written.symbolIds.length
+          result.touched.push(path)
+        } catch (error) {
+          result.errors++
+          console.error(`  ❌ Failed to drop stale objects: ${path}`, error)
+        }
+      }
+    }
+  })
+
+  for (const file of files) {
+    const item = localWriteItem(file, options)
+    pending.set(file.relativePath, { hash: createDocumentHash(file.content), written: writeItemIds(item) })
+    await writer.write(item)
+  }
+  result.errors += (await writer.flush()).failed
+
+  for (const path of plan.removed) {
+    try {
+      await deleteEntry(store, manifest.files[path])
+      delete manifest.files[path]
+      result.removed++
+      result.touched.push(path)
+    } catch (error) {
+      result.errors++
+      console.error(`  ❌ Failed to remove: ${path}`, error)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Collects changed paths and runs onChange once no change has arrived for
+ * debounceMs; changes during a run queue another run after it
+ * drain stops debouncing, waits for the run in flight and runs what is left
+ */
+export function createChangeDebouncer(
+  onChange: (paths: string[]) => Promise<void>,
+  debounceMs: number = DEFAULT_WATCH_DEBOUNCE_MS
+): { add(path: string): void; cancel(): void; drain(): Promise<void> } {
+  const pending = new Set<string>()
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let running: Promise<void> | null = null
+  let stopped = false
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer)
+    timer = stopped ? null : setTimeout(flush, debounceMs)
+  }
+
+  const run = async (paths: string[]) => {
+    try {
+      await onChange(paths)
+    } catch (error) {
+      console.error('Sync after file changes failed:', error)
+    }
+  }
+
+  const flush = async () => {
+    timer = null
+    if (running || pending.size === 0) return
+    const paths = [...pending]
+    pending.clear()
+    running = run(paths)
+    await running
+    running = null
+    if (pending.size > 0) schedule()
+  }
+
+  return {
+    add(path: string) {
+      if (stopped) return
+      pending.add(path)
+      if (!running) schedule()
+    },
+    cancel() {
+      if (timer) clearTimeout(timer)
+      timer = null
+      pending.clear()
+    },
+    async drain() {
+      stopped = true
+      if (timer) clearTimeout(timer)
+      timer = null
+      while (running) await running
+      if (pending.size > 0) await flush()
+    }
+  }
+}
+
+/**
+ * Watches a repository recursively and reports debounced batches of changed
+ * paths, ignoring dependency, VCS and build directories
+ * close stops watching and resolves once changes already seen are synced
+ */
+export function watchRepository(
+  basePath: string,
+  onChange: (paths: string[]) => Promise<void>,
+  debounceMs: number = DEFAULT_WATCH_DEBOUNCE_MS
+): { close(): Promise<void> } {
+  const debouncer = createChangeDebouncer(onChange, debounceMs)
+  const watcher = watch(basePath, { recursive: true }, (_event, filename) => {
+    if (filename && !WATCH_IGNORE.test(filename.toString())) debouncer.add(filename.toString())
+  })
+
+  return {
+    close() {
+      watcher.close()
+      return debouncer.drain()
+    }
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Markdown Chunker
+ * Chunks Markdown along its heading sections; kept apart from the code
+ * chunker so crawling pages does not load the TypeScript compiler
+ */
+
+import { parseMarkdownStructure, type MarkdownStructure } from './markdown-structure'
+import {
+  chunkContent,
+  DEFAULT_CHUNKING_OPTIONS,
+  estimateTokens,
+  toChunks,
+  trimBlankLines,
+  type ChunkingOptions,
+  type ContentChunk,
+  type LineRange
+} from './line-chunker'
+
+/**
+ * Paragraphs of a line range, with each fenced code block as one block
+ */
+function splitBlocks(lines: string[], start: number, end: number, fences: MarkdownStructure['fences']): LineRange[] {
+  const blocks: LineRange[] = []
+  let index = start
+
+  while (index < end) {
+    const fence = fences.find(candidate => candidate.startLine === index + 1)
+    let blockEnd = fence ? Math.min(fence.endLine, end) : index + 1
+    if (!fence) {
+      while (blockEnd < end && lines[blockEnd - 1].trim() !== '' &&
+        !fences.some(candidate => candidate.startLine === blockEnd + 1)) {
+        blockEnd++
+      }
+    }
+    blocks.push({ start: index, end: blockEnd })
+    index = blockEnd
+  }
+  return blocks
+}
+
+/**
+ * Splits a section over maxTokens at paragraph boundaries; a fenced code
+ * block stays whole even when it alone exceeds maxTokens
+ */
+function splitSection(
+  lines: string[],
+  start: number,
+  end: number,
+  fences: MarkdownStructure['fences'],
+  { maxTokens, overlapLines }: ChunkingOptions
+): LineRange[] {
+  const tokensOf = (range: LineRange) => estimateTokens(lines.slice(range.start, range.end).join('\n'))
+  if (tokensOf({ start, end }) <= maxTokens) return [{ start, end }]
+
+  const ranges: LineRange[] = []
+  let current: LineRange | null = null
+  for (const block of splitBlocks(lines, start, end, fences)) {
+    if (current && tokensOf({ start: current.start, end: block.end }) <= maxTokens) {
+      current.end = block.end
+      continue
+    }
+    if (current) ranges.push(current)
+    current = block
+
+    const isFence = fences.some(fence => fence.startLine === block.start + 1)
+    if (tokensOf(block) > maxTokens && !isFence) {
+      const text = lines.slice(block.start, block.end).join('\n')
+      ranges.push(...chunkContent(text, '', { maxTokens, overlapLines })
+        .map(piece => ({ start: block.start + piece.startLine - 1, end: block.start + piece.endLine })))
+      current = null
+    }
+  }
+  if (current) ranges.push(current)
+  return ranges
+}
+
+/**
+ * Chunks Markdown by heading sections, each chunk carrying its heading path
+ * and anchor; a heading directly followed by a subheading joins that chunk
+ */
+function chunkMarkdownStructure(
+  lines: string[],
+  structure: MarkdownStructure,
+  chunkIdPrefix: string,
+  options: ChunkingOptions
+): ContentChunk[] {
+  const ranges: LineRange[] = []
+  let carriedStart: number | null = null
+
+  structure.sections.forEach((section, index) => {
+    const start = carriedStart ?? section.startLine - 1
+    const bodyStart = section.level > 0 ? section.startLine : section.startLine - 1
+    const hasBody = lines.slice(bodyStart, section.endLine).some(line => line.trim() !== '')
+    const next = structure.sections[index + 1]
+    if (!hasBody && next && next.level > section.level) {
+      carriedStart = start
+      return
+    }
+    carriedStart = null
+
+    const context = section.breadcrumb.join(' > ') || undefined
+    for (const range of splitSection(lines, start, section.endLine, structure.fences, options)) {
+      ranges.push({ ...range, breadcrumb: section.breadcrumb, anchor: section.anchor, context })
+    }
+  })
+
+  const trimmed = ranges
+    .map(range => trimBlankLines(lines, range))
+    .filter((range): range is LineRange => range !== null)
+  return toChunks(lines, trimmed, chunkIdPrefix)
+}
+
+/**
+ * Chunks Markdown along its headings, e.g. crawled pages whose ids carry
+ * no file extension
+ */
+export function chunkMarkdown(
+  content: string,
+  chunkIdPrefix: string,
+  options: Partial<ChunkingOptions> = {}
+): ContentChunk[] {
+  const resolved = { ...DEFAULT_CHUNKING_OPTIONS, ...options }
+  return chunkMarkdownStructure(content.split('\n'), parseMarkdownStructure(content), chunkIdPrefix, resolved)
+}
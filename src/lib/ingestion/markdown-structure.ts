@@ -0,0 +1,128 @@
+/**
+ * Markdown Structure
+ * Splits Markdown and MDX into heading sections with breadcrumbs and anchors
+ */
+
+const MARKDOWN_EXTENSIONS = new Set(['md', 'mdx', 'markdown'])
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})/
+
+/**
+ * Lines under one heading up to the next heading (1-based, inclusive)
+ */
+export interface MarkdownSection {
+  startLine: number
+  endLine: number
+  // 0 for content before the first heading
+  level: number
+  // Headings from the top level down to this section's own
+  breadcrumb: string[]
+  // Fragment id of the heading, unique within the document
+  anchor?: string
+}
+
+export interface MarkdownStructure {
+  readonly sections: MarkdownSection[]
+  // Fenced code blocks, never split between chunks
+  readonly fences: ReadonlyArray<{ startLine: number; endLine: number }>
+}
+
+export function isMarkdownFile(filepath: string): boolean {
+  return MARKDOWN_EXTENSIONS.has(filepath.split('.').pop()?.toLowerCase() ?? '')
+}
+
+/**
+ * Heading text without inline markup, e.g. "Use `getX()` with [Redis](url)"
+ * gives "Use getX() with Redis"
+ */
+export function headingText(raw: string): string {
+  return raw
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/[`*_~]/g, '')
+    .trim()
+}
+
+/**
+ * GitHub-style heading slug: lowercase, punctuation dropped, spaces as hyphens
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .trim()
+    .replace(/\s/g, '-')
+}
+
+/**
+ * Line after the front matter block, or 0 when there is none
+ */
+function skipFrontMatter(lines: string[]): number {
+  if (lines[0]?.trim() !== '---') return 0
+  const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---')
+  return end > 0 ? end + 1 : 0
+}
+
+/**
+ * Heading sections and fenced code blocks of a Markdown file
+ * Heading-like lines inside fences and front matter are content
+ */
+export function parseMarkdownStructure(content: string): MarkdownStructure {
+  const lines = content.split('\n')
+  const sections: MarkdownSection[] = [{ startLine: 1, endLine: lines.length, level: 0, breadcrumb: [] }]
+  const fences: Array<{ startLine: number; endLine: number }> = []
+  const trail: Array<{ level: number; text: string }> = []
+  const slugCounts = new Map<string, number>()
+  let fence: { marker: string; startLine: number } | null = null
+
+  for (let index = skipFrontMatter(lines); index < lines.length; index++) {
+    const line = lines[index]
+    const lineNumber = index + 1
+
+    if (fence) {
+      const close = FENCE_OPEN.exec(line)
+      if (close && close[1][0] === fence.marker[0] && close[1].length >= fence.marker.length &&
+        line.trim() === close[1]) {
+        fences.push({ startLine: fence.startLine, endLine: lineNumber })
+        fence = null
+      }
+      continue
+    }
+
+    const open = FENCE_OPEN.exec(line)
+    if (open) {
+      fence = { marker: open[1], startLine: lineNumber }
+      continue
+    }
+
+    const heading = ATX_HEADING.exec(line)
+    if (!heading) continue
+
+    const level = heading[1].length
+    const text = headingText(heading[2] ?? '')
+    while (trail.length > 0 && trail[trail.length - 1].level >= level) trail.pop()
+    trail.push({ level, text })
+
+    const slug = slugifyHeading(text)
+    const seen = slugCounts.get(slug) ?? 0
+    slugCounts.set(slug, seen + 1)
+
+    sections[sections.length - 1].endLine = lineNumber - 1
+    sections.push({
+      startLine: lineNumber,
+      endLine: lines.length,
+      level,
+      breadcrumb: trail.map(entry => entry.text),
+      anchor: seen === 0 ? slug : `${slug}-${seen}`
+    })
+  }
+
+  // An unclosed fence runs to the end of the document
+  if (fence) fences.push({ startLine: fence.startLine, endLine: lines.length })
+
+  return {
+    sections: sections.filter(section => section.endLine >= section.startLine),
+    fences
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Source Authority Resolution
+ * Assigns a SourceAuthority to each document at ingestion time
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { z } from 'zod';
+import type { DocumentSource } from '../../types/search';
+import {
+  DEFAULT_AUTHORITY_CONFIG,
+  SourceAuthoritySchema,
+  type SourceAuthority,
+} from '../../types/source-attribution';
+
+// Rules are checked in order; the first match wins
+export const SourceAuthorityRulesSchema = z.object({
+  domains: z.array(z.object({
+    domain: z.string().min(1),
+    authority: SourceAuthoritySchema,
+  })).default([]),
+  paths: z.array(z.object({
+    pattern: z.string().min(1),
+    authority: SourceAuthoritySchema,
+  })).default([]),
+}).strict();
+
+export type SourceAuthorityRules = z.infer<typeof SourceAuthorityRulesSchema>;
+
+export interface AuthorityTarget {
+  readonly source: DocumentSource;
+  readonly filepath?: string;
+  readonly url?: string;
+}
+
+export const DEFAULT_SOURCE_AUTHORITY_RULES: SourceAuthorityRules = {
+  domains: [],
+  paths: [],
+};
+
+const TEST_PATH_PATTERN = /(^|\/)(__tests__|tests?|spec)\/|\.(test|spec)\.[a-z]+$/i;
+const DOC_PATH_PATTERN = /(^|\/)docs?\/|\.(md|mdx|rst|txt)$|(^|\/)README/i;
+
+/**
+ * Converts a path glob (*, ** and ?) into an anchored regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\/?/g, '\u0000')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\u0000/g, '(?:.*/)?');
+  return new RegExp(`^${source.replace(/\(\?:\.\*\/\)\?$/, '.*')}$`);
+}
+
+/**
+ * True when the host is the domain itself or one of its subdomains
+ */
+function matchesDomain(hostname: string, domain: string): boolean {
+  const normalized = domain.toLowerCase().replace(/^\*?\./, '');
+  return hostname === normalized || hostname.endsWith(`.${normalized}`);
+}
+
+function getHostname(url?: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Default authority when no rule matches, following DEFAULT_AUTHORITY_CONFIG
+ */
+function defaultAuthority(target: AuthorityTarget): SourceAuthority {
+  if (target.source === 'web') {
+    return DEFAULT_AUTHORITY_CONFIG.web.thirdParty;
+  }
+
+  const filepath = target.filepath ?? '';
+  if (TEST_PATH_PATTERN.test(filepath)) return DEFAULT_AUTHORITY_CONFIG.github.tests;
+  if (DOC_PATH_PATTERN.test(filepath)) return DEFAULT_AUTHORITY_CONFIG.github.documentation;
+  return DEFAULT_AUTHORITY_CONFIG.github.codebase;
+}
+
+/**
+ * Resolves the authority of a document from domain and path rules
+ */
+export function resolveSourceAuthority(
+  target: AuthorityTarget,
+  rules: SourceAuthorityRules = DEFAULT_SOURCE_AUTHORITY_RULES
+): SourceAuthority {
+  const hostname = getHostname(target.url);
+  if (hostname) {
+    const domainRule = rules.domains.find(rule => matchesDomain(hostname, rule.domain));
+    if (domainRule) return domainRule.authority;
+  }
+
+  if (target.filepath) {
+    const filepath = target.filepath.replace(/\\/g, '/').replace(/^\.?\//, '');
+    const pathRule = rules.paths.find(rule => globToRegExp(rule.pattern).test(filepath));
+    if (pathRule) return pathRule.authority;
+  }
+
+  return defaultAuthority(target);
+}
+
+/**
+ * Loads rules from a JSON file, defaulting to SOURCE_AUTHORITY_CONFIG
+ * A missing file yields the defaults; an invalid file is an error so
+ * misconfiguration is caught before anything is ingested
+ */
+export function loadSourceAuthorityRules(
+  configPath: string | undefined = process.env.SOURCE_AUTHORITY_CONFIG
+): SourceAuthorityRules {
+  if (!configPath || !existsSync(configPath)) {
+    return DEFAULT_SOURCE_AUTHORITY_RULES;
+  }
+
+  const raw: unknown = JSON.parse(readFileSync(configPath, 'utf-8'));
+  return SourceAuthorityRulesSchema.parse(raw);
+}
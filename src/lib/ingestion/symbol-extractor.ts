@@ -0,0 +1,198 @@
+import ts from 'typescript'
+import type { CodeSymbol, CodeSymbolKind } from '../../types/code-symbols'
+
+const PY_DEF = /^(\s*)(?:async\s+)?def\s+([A-Za-z_]\w*)\s*\(/
+const PY_CLASS = /^(\s*)class\s+([A-Za-z_]\w*)\s*[:(]/
+const PY_CONSTANT = /^([A-Z][A-Z0-9_]*)\s*(?::[^=]+)?=(?!=)/
+
+type TopLevelDeclaration = ts.FunctionDeclaration | ts.ClassDeclaration | ts.InterfaceDeclaration
+
+function declarationKind(statement: ts.Statement): CodeSymbolKind | null {
+  if (ts.isFunctionDeclaration(statement)) return 'function'
+  if (ts.isClassDeclaration(statement)) return 'class'
+  if (ts.isInterfaceDeclaration(statement)) return 'interface'
+  return null
+}
+
+function isExported(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)
+}
+
+function isFunctionInitializer(initializer: ts.Expression | undefined): boolean {
+  return initializer !== undefined && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+}
+
+/**
+ * Name of a method or function-valued property, e.g. "get" or "#evict";
+ * other members and computed names have none
+ */
+function methodName(member: ts.ClassElement): string | null {
+  const isMethod = ts.isMethodDeclaration(member) || ts.isGetAccessor(member) || ts.isSetAccessor(member) ||
+    (ts.isPropertyDeclaration(member) && isFunctionInitializer(member.initializer))
+  const name = member.name
+  if (!isMethod || !name || !(ts.isIdentifier(name) || ts.isPrivateIdentifier(name))) return null
+  return name.text
+}
+
+/**
+ * Functions, classes, interfaces, exported consts and class methods of
+ * TypeScript or JavaScript source, with the lines each declaration spans
+ * Parsed with the TypeScript compiler in its JSX-aware mode, so React
+ * components parse too
+ */
+function extractTypeScriptSymbols(content: string, language: string): CodeSymbol[] {
+  const scriptKind = language === 'typescript' ? ts.ScriptKind.TSX : ts.ScriptKind.JSX
+  const sourceFile = ts.createSourceFile('source', content, ts.ScriptTarget.Latest, false, scriptKind)
+  const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line + 1
+  const span = (node: ts.Node) => ({ startLine: lineOf(node.getStart(sourceFile)), endLine: lineOf(node.end) })
+  const symbols: CodeSymbol[] = []
+
+  for (const statement of sourceFile.statements) {
+    const exported = isExported(statement)
+
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name)) continue
+        const isFunction = isFunctionInitializer(declaration.initializer)
+        if (!isFunction && !exported) continue
+        const name = declaration.name.text
+        symbols.push({ name, qualifiedName: name, kind: isFunction ? 'function' : 'const', exported, ...span(statement) })
+      }
+      continue
+    }
+
+    const kind = declarationKind(statement)
+    const name = (statement as TopLevelDeclaration).name?.text
+    if (!kind || !name) continue
+    symbols.push({ name, qualifiedName: name, kind, exported, ...span(statement) })
+
+    if (!ts.isClassDeclaration(statement)) continue
+    for (const member of statement.members) {
+      const method = methodName(member)
+      if (!method) continue
+      symbols.push({
+        name: method,
+        qualifiedName: `${name}.${method}`,
+        kind: 'method',
+        exported: !method.startsWith('#'),
+        container: name,
+        ...span(member)
+      })
+    }
+  }
+
+  return symbols
+}
+
+function indentation(line: string): number {
+  return line.length - line.trimStart().length
+}
+
+/**
+ * Last line of a Python block: the line before the next non-blank line
+ * indented no deeper than the declaration
+ */
+function findPythonBlockEnd(lines: string[], start: number, indent: number): number {
+  let end = start
+  for (let i = start + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue
+    if (indentation(lines[i]) <= indent) break
+    end = i
+  }
+  return end
+}
+
+/**
+ * Module-level functions, classes and constants plus class methods of
+ * Python source; functions nested inside functions are skipped
+ */
+function extractPythonSymbols(content: string): CodeSymbol[] {
+  const lines = content.split('\n')
+  const symbols: CodeSymbol[] = []
+  const scopes: Array<{ name: string; indent: number; kind: 'class' | 'function' }> = []
+
+  lines.forEach((line, index) => {
+    if (line.trim() === '' || line.trimStart().startsWith('#')) return
+
+    const indent = indentation(line)
+    while (scopes.length > 0 && scopes[scopes.length - 1].indent >= indent) scopes.pop()
+    const parent = scopes[scopes.length - 1]
+
+    const constant = indent === 0 ? PY_CONSTANT.exec(line) : null
+    if (constant) {
+      symbols.push({
+        name: constant[1],
+        qualifiedName: constant[1],
+        kind: 'const',
+        startLine: index + 1,
+        endLine: index + 1,
+        exported: !constant[1].startsWith('_')
+      })
+      return
+    }
+
+    const classMatch = PY_CLASS.exec(line)
+    const declaration = classMatch ?? PY_DEF.exec(line)
+    if (!declaration) return
+
+    const isClass = classMatch !== null
+    const name = declaration[2]
+    scopes.push({ name, indent, kind: isClass ? 'class' : 'function' })
+    if (parent?.kind === 'function') return
+
+    const container = parent?.kind === 'class' ? parent.name : undefined
+    symbols.push({
+      name,
+      qualifiedName: container ? `${container}.${name}` : name,
+      kind: isClass ? 'class' : container ? 'method' : 'function',
+      startLine: index + 1,
+      endLine: findPythonBlockEnd(lines, index, indent) + 1,
+      exported: !name.startsWith('_'),
+      container
+    })
+  })
+
+  return symbols
+}
+
+/**
+ * Overloads and re-declarations keep the declaration spanning the most lines
+ */
+function dedupeSymbols(symbols: CodeSymbol[]): CodeSymbol[] {
+  const byName = new Map<string, CodeSymbol>()
+  for (const symbol of symbols) {
+    const existing = byName.get(symbol.qualifiedName)
+    if (!existing || symbol.endLine - symbol.startLine > existing.endLine - existing.startLine) {
+      byName.set(symbol.qualifiedName, symbol)
+    }
+  }
+  return [...byName.values()].sort((a, b) => a.startLine - b.startLine)
+}
+
+/**
+ * Extracts symbol declarations with line ranges from TS/JS or Python
+ * source. Other languages yield no symbols.
+ */
+export function extractSymbols(content: string, language: string): CodeSymbol[] {
+  switch (language) {
+    case 'typescript':
+    case 'javascript':
+      return dedupeSymbols(extractTypeScriptSymbols(content, language))
+    case 'python':
+      return dedupeSymbols(extractPythonSymbols(content))
+    default:
+      return []
+  }
+}
+
+/**
+ * Language of a source file from its extension, for callers without one
+ */
+export function detectSymbolLanguage(filepath: string): string {
+  const ext = filepath.split('.').pop()?.toLowerCase()
+  if (ext === 'ts' || ext === 'tsx' || ext === 'mts' || ext === 'cts') return 'typescript'
+  if (ext === 'js' || ext === 'jsx' || ext === 'mjs' || ext === 'cjs') return 'javascript'
+  if (ext === 'py') return 'python'
+  return 'text'
+}
@@ -5,9 +5,19 @@
 
 import FirecrawlApp from '@mendable/firecrawl-js';
 import { z } from 'zod';
-import { createWeaviateClient } from '../weaviate/client';
+import { getVectorStore, createObjectId } from '../vector-store';
+import type { VectorObject } from '../vector-store/types';
 import { createDocumentHash } from '../search/search-utils';
 import { ContentNormalizer } from './content-normalizer';
+import { buildIdentifierText } from './identifier-tokens';
+import { chunkMarkdown } from './markdown-chunker';
+import { BatchWriter, formatBatchProgress } from './batch-writer';
+import {
+  resolveSourceAuthority,
+  loadSourceAuthorityRules,
+  DEFAULT_SOURCE_AUTHORITY_RULES,
+  type SourceAuthorityRules,
+} from './source-authority';
 import {
   Document,
   DocumentSource,
@@ -16,6 +26,9 @@ import {
   createDocumentId,
 } from '../../types/search';
 
+// Document objects one URL may have; earlier crawls stored pages under random ids
+const MAX_OBJECTS_PER_URL = 10;
+
 // Web crawl configuration
 export interface WebCrawlConfig {
   readonly maxPages: number;
@@ -26,6 +39,7 @@ export interface WebCrawlConfig {
   readonly includePatterns: readonly string[];
   readonly authorityWeight: number;
   readonly crawlDelay: number;
+  readonly authorityRules: SourceAuthorityRules;
 }
 
 // Default configuration following CLAUDE.md specs
@@ -38,6 +52,7 @@ export const DEFAULT_WEB_CRAWL_CONFIG: WebCrawlConfig = {
   includePatterns: ['docs.*', 'api.*', 'help.*'],
   authorityWeight: 0.8, // Lower than GitHub (1.2)
   crawlDelay: 1000,
+  authorityRules: DEFAULT_SOURCE_AUTHORITY_RULES,
 } as const;
 
 // Validation schemas
@@ -100,7 +115,11 @@ class WebCrawlerService {
     }
 
     this.firecrawl = new FirecrawlApp({ apiKey });
-    this.config = { ...DEFAULT_WEB_CRAWL_CONFIG, ...config };
+    this.config = {
+      ...DEFAULT_WEB_CRAWL_CONFIG,
+      authorityRules: loadSourceAuthorityRules(),
+      ...config,
+    };
     this.normalizer = new ContentNormalizer();
   }
 
@@ -295,66 +314,153 @@ class WebCrawlerService {
   }
 
   /**
-   * Indexes documents to Weaviate with deduplication
+   * Indexes new and changed pages through the batch writer; a page stored
+   * once under its URL-derived id with a matching content hash is skipped
    */
   private async indexDocuments(documents: Document[]): Promise<number> {
     if (documents.length === 0) return 0;
 
-    const client = createWeaviateClient();
-    let indexedCount = 0;
+    const store = getVectorStore();
+    // Objects a rewritten page replaces, removed once its new objects are stored
+    const replaced = new Map<string, { documentId: string; chunkCount: number; legacyIds: string[] }>();
+    const writer = new BatchWriter(store, {
+      maxRetries: this.config.retryAttempts,
+      retryDelayMs: this.config.retryDelay,
+      onItemsWritten: async urls => {
+        for (const url of urls) {
+          const page = replaced.get(url);
+          if (!page) continue;
+          try {
+            await this.deleteReplacedObjects(page.documentId, page.chunkCount, page.legacyIds);
+          } catch (error) {
+            console.error(`Failed to remove replaced objects of ${url}:`, error);
+          }
+        }
+      },
+    });
 
     for (const doc of documents) {
+      const url = doc.metadata?.url || doc.filepath;
       try {
-        // Check for existing document by URL
-        const existingQuery = client.graphql
-          .get()
-          .withClassName('Document')
-          .withFields('content')
-          .withWhere({
-            operator: 'Equal',
-            path: ['url'],
-            valueString: doc.metadata?.url || doc.filepath,
-          })
-          .withLimit(1);
-
-        const existing = await existingQuery.do();
-
-        if (existing?.data?.Get?.Document?.length > 0) {
-          continue; // Skip duplicate by URL
+        // Ids derive from the URL, so a changed page overwrites its objects
+        const documentId = createObjectId(`${doc.source}:${url}`);
+        const existing = await store.getByFilter<{ content?: string }>({
+          className: 'Document',
+          fields: ['content'],
+          where: { operator: 'Equal', path: ['url'], valueText: url },
+          limit: MAX_OBJECTS_PER_URL,
+        });
+        const current = existing.find(hit => hit._additional.id === documentId);
+        const legacyIds = existing
+          .map(hit => hit._additional.id)
+          .filter(id => id !== documentId);
+
+        if (current && legacyIds.length === 0 &&
+            createDocumentHash(current.content ?? '') === createDocumentHash(doc.content)) {
+          continue; // Unchanged since the last crawl
         }
 
-        // Index new document
-        await client.data
-          .creator()
-          .withClassName('Document')
-          .withProperties({
-            content: doc.content,
-            source: doc.source,
-            filepath: doc.filepath,
-            url: doc.metadata?.url || doc.filepath,
-            language: doc.language,
-            priority: doc.priority,
-            lastModified: doc.metadata.lastModified.toISOString(),
-            isCode: false,
-            isDocumentation: true,
-            fileType: 'documentation',
-            size: doc.metadata.size || 0,
-          })
-          .do();
-
-        indexedCount++;
-
-        // Rate limiting between requests
-        await new Promise(resolve =>
-          setTimeout(resolve, this.config.crawlDelay)
-        );
+        const properties = {
+          content: doc.content,
+          identifiers: buildIdentifierText(doc.content, doc.filepath),
+          source: doc.source,
+          filepath: doc.filepath,
+          url,
+          language: doc.language,
+          priority: doc.priority,
+          lastModified: doc.metadata.lastModified.toISOString(),
+          isCode: false,
+          isDocumentation: true,
+          fileType: 'documentation',
+          size: doc.metadata.size || 0,
+          tags: [...doc.metadata.tags],
+          authority: resolveSourceAuthority(
+            { source: doc.source, url },
+            this.config.authorityRules
+          ),
+        };
+        const chunks = this.chunkObjects(documentId, properties);
+        if (existing.length > 0) {
+          replaced.set(url, { documentId, chunkCount: chunks.length, legacyIds });
+        }
 
+        await writer.write({
+          key: url,
+          objects: [
+            { className: 'Document', object: { id: documentId, properties } },
+            ...chunks.map(object => ({ className: 'Chunk' as const, object })),
+          ],
+        });
       } catch (error) {
         console.error(`Failed to index document ${doc.id}:`, error);
       }
     }
 
-    return indexedCount;
+    const summary = await writer.flush();
+    await store.flush();
+    if (summary.items > 0) {
+      console.log(`Indexed ${formatBatchProgress(summary, 'pages')}`);
+    }
+    return summary.items;
+  }
+
+  /**
+   * Deletes chunks of a rewritten page past its new chunk count, and the
+   * documents and chunks earlier crawls stored for it under other ids
+   */
+  private async deleteReplacedObjects(documentId: string, chunkCount: number, legacyIds: readonly string[]): Promise<void> {
+    const store = getVectorStore();
+    const chunksOf = (id: string) => store.getByFilter<{ chunkIndex?: number }>({
+      className: 'Chunk',
+      fields: ['chunkIndex'],
+      where: { operator: 'Equal', path: ['documentId'], valueText: id },
+      limit: 10000,
+    });
+
+    const stale = (await chunksOf(documentId))
+      .filter(chunk => (chunk.chunkIndex ?? 0) >= chunkCount)
+      .map(chunk => chunk._additional.id);
+    for (const legacyId of legacyIds) {
+      stale.push(...(await chunksOf(legacyId)).map(chunk => chunk._additional.id));
+    }
+
+    if (stale.length > 0) await store.delete('Chunk', stale);
+    if (legacyIds.length > 0) await store.delete('Document', legacyIds);
+  }
+
+  /**
+   * Chunk objects for the heading sections of a page; Firecrawl returns
+   * markdown, so pages chunk along their headings
+   */
+  private chunkObjects(
+    documentId: string,
+    document: { content: string; filepath: string } & Record<string, unknown>
+  ): VectorObject[] {
+    return chunkMarkdown(document.content, documentId).map(chunk => ({
+      id: createObjectId(`${documentId}#${chunk.chunkIndex}`),
+      properties: {
+        content: chunk.content,
+        identifiers: buildIdentifierText(chunk.content, document.filepath),
+        document: [{ beacon: `weaviate://localhost/Document/${documentId}` }],
+        documentId,
+        source: document.source,
+        filepath: document.filepath,
+        url: document.url,
+        language: document.language,
+        lastModified: document.lastModified,
+        priority: document.priority,
+        tags: document.tags,
+        authority: document.authority,
+        chunkIndex: chunk.chunkIndex,
+        totalChunks: chunk.totalChunks,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        tokenCount: chunk.tokenCount,
+        breadcrumb: chunk.breadcrumb ?? [],
+        anchor: chunk.anchor ?? '',
+        context: chunk.context ?? '',
+      },
+    }));
   }
 
   /**
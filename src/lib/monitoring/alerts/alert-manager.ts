@@ -3,7 +3,7 @@
  */
 
 import * as Sentry from '@sentry/nextjs';
-import { AlertRule, AlertStatus, AlertSystemStatus } from './types';
+import { AlertEvent, AlertRule, AlertStatus, AlertSystemStatus } from './types';
 
 export class AlertManager {
   private static instance: AlertManager;
@@ -72,23 +72,60 @@ export class AlertManager {
     }
 
     if (rule.notifications.webhook && isTriggered) {
-      try {
-        // Webhook notification (if configured)
-        await fetch(rule.notifications.webhook, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            alert: rule.name,
-            severity: rule.severity,
-            message,
-            currentValue,
-            threshold: rule.threshold,
-            timestamp: new Date().toISOString()
-          })
-        });
-      } catch (error) {
-        console.error('Failed to send webhook alert:', error);
-      }
+      // Webhook notification (if configured)
+      await this.postWebhook(rule.notifications.webhook, {
+        alert: rule.name,
+        severity: rule.severity,
+        message,
+        currentValue,
+        threshold: rule.threshold,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * POST a JSON payload to a webhook; failures are logged, never thrown
+   */
+  private async postWebhook(url: string, payload: Record<string, unknown>): Promise<void> {
+    try {
+      await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      });
+    } catch (error) {
+      console.error('Failed to send webhook alert:', error);
+    }
+  }
+
+  /**
+   * Send a one-off event through the alert channel: listed with recent
+   * alerts and posted to ALERT_WEBHOOK_URL
+   */
+  async notify(event: AlertEvent): Promise<void> {
+    const now = new Date().toISOString();
+
+    // Events have no duration, so they are listed as already resolved
+    this.recentAlerts.unshift({
+      ruleId: event.id,
+      ruleName: event.name,
+      severity: event.severity,
+      message: event.message,
+      triggeredAt: now,
+      resolvedAt: now
+    });
+    this.recentAlerts = this.recentAlerts.slice(0, 50);
+
+    const webhook = process.env.ALERT_WEBHOOK_URL;
+    if (webhook) {
+      await this.postWebhook(webhook, {
+        alert: event.name,
+        severity: event.severity,
+        message: event.message,
+        ...(event.details && { details: event.details }),
+        timestamp: now
+      });
     }
   }
 
@@ -19,6 +19,15 @@ export interface AlertRule {
   };
 }
 
+// One-off notification that is not tied to a metric rule, e.g. a saved search match
+export interface AlertEvent {
+  id: string;
+  name: string;
+  message: string;
+  severity: AlertRule['severity'];
+  details?: Record<string, unknown>;
+}
+
 export interface AlertStatus {
   ruleId: string;
   triggered: boolean;
@@ -0,0 +1,146 @@
+/**
+ * Autocomplete Index Tests
+ * Covers prefix and fuzzy matching, ranking and index warm-up
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { AutocompleteIndex } from '../autocomplete-index';
+import { InMemoryVectorStore, setVectorStore } from '../../vector-store';
+import { createDocumentId, type Document } from '../../../types/search';
+import type { CodeSymbolKind, IndexedSymbol } from '../../../types/code-symbols';
+
+const createDocument = (filepath: string, source: Document['source'] = 'github'): Document => ({
+  id: createDocumentId(filepath),
+  content: '',
+  filepath,
+  language: 'typescript',
+  source,
+  score: 0.8,
+  priority: 1.0,
+  metadata: {
+    size: 0,
+    wordCount: 0,
+    lines: 1,
+    encoding: 'utf-8',
+    mimeType: 'text/plain',
+    tags: [],
+    lastModified: new Date(),
+    created: new Date(),
+    checksum: filepath
+  }
+});
+
+const createSymbol = (
+  qualifiedName: string,
+  kind: CodeSymbolKind,
+  filepath: string,
+  source: Document['source'] = 'github'
+): IndexedSymbol => ({
+  name: qualifiedName.split('.').pop()!,
+  qualifiedName,
+  kind,
+  startLine: 1,
+  endLine: 1,
+  exported: true,
+  filepath,
+  language: 'typescript',
+  source
+});
+
+describe('AutocompleteIndex', () => {
+  let index: AutocompleteIndex;
+
+  beforeEach(() => {
+    index = new AutocompleteIndex();
+    index.addDocument({ filepath: 'src/lib/cache/redis-cache-manager.ts', source: 'github' });
+    index.addSymbols([
+      createSymbol('RedisCacheManager', 'class', 'src/lib/cache/redis-cache-manager.ts'),
+      createSymbol('getCacheManager', 'function', 'src/lib/cache/redis-cache-manager.ts')
+    ]);
+    index.addDocument({ filepath: 'docs/caching.md', source: 'web' });
+  });
+
+  afterEach(() => {
+    setVectorStore(null);
+  });
+
+  it('should index class methods by qualified name and skip plain constants', () => {
+    index.addSymbols([
+      createSymbol('MAX_REQUESTS', 'constant', 'src/lib/security/rate-limiter.py', 'local'),
+      createSymbol('RateLimiter', 'class', 'src/lib/security/rate-limiter.py', 'local'),
+      createSymbol('RateLimiter.check_limit', 'method', 'src/lib/security/rate-limiter.py', 'local')
+    ]);
+
+    expect(index.suggest({ partial: 'check' })[0]).toMatchObject({ text: 'RateLimiter.check_limit', type: 'function' });
+    expect(index.suggest({ partial: 'max_req' })).toEqual([]);
+  });
+
+  it('should complete from path segments and symbol word starts', () => {
+    const suggestions = index.suggest({ partial: 'cache' });
+    const texts = suggestions.map(suggestion => suggestion.text);
+
+    expect(texts).toEqual(expect.arrayContaining([
+      'src/lib/cache/redis-cache-manager.ts',
+      'getCacheManager'
+    ]));
+    expect(suggestions.find(s => s.text === 'getCacheManager')).toMatchObject({
+      type: 'function',
+      context: 'src/lib/cache/redis-cache-manager.ts'
+    });
+  });
+
+  it('should rank full-text prefix matches and frequent queries first', () => {
+    index.recordSearch('redis cache ttl', [createDocument('src/lib/cache/advanced-ttl-manager.ts')]);
+    index.recordSearch('redis cache ttl', [createDocument('src/lib/cache/advanced-ttl-manager.ts')]);
+
+    const [first] = index.suggest({ partial: 'redis' });
+
+    expect(first).toMatchObject({ text: 'redis cache ttl', type: 'query', confidence: 1 });
+  });
+
+  it('should ignore searches without results', () => {
+    index.recordSearch('nothing matches this', []);
+
+    expect(index.suggest({ partial: 'nothing' })).toEqual([]);
+  });
+
+  it('should fall back to fuzzy matches for typos', () => {
+    const texts = index.suggest({ partial: 'redsi' }).map(suggestion => suggestion.text);
+
+    expect(texts).toContain('RedisCacheManager');
+  });
+
+  it('should honor the limit and source context', () => {
+    expect(index.suggest({ partial: 'ca', limit: 1 })).toHaveLength(1);
+
+    const webOnly = index.suggest({ partial: 'cach', context: ['web'] });
+    expect(webOnly.map(suggestion => suggestion.text)).toEqual(['docs/caching.md']);
+  });
+
+  it('should warm paths and stored symbols from the vector store once per interval', async () => {
+    const store = new InMemoryVectorStore({ embed: () => [1] });
+    await store.upsert('Document', [{
+      id: 'doc-1',
+      properties: { filepath: 'src/lib/search/hybrid-search.ts', source: 'github' }
+    }]);
+    await store.upsert('Symbol', [{
+      id: 'symbol-1',
+      properties: { ...createSymbol('performHybridSearch', 'function', 'src/lib/search/hybrid-search.ts') }
+    }]);
+    setVectorStore(store);
+    const getByFilter = jest.spyOn(store, 'getByFilter');
+
+    const warmIndex = new AutocompleteIndex();
+    await Promise.all([warmIndex.refreshIfStale(), warmIndex.refreshIfStale()]);
+    await warmIndex.refreshIfStale();
+
+    expect(getByFilter.mock.calls.map(([params]) => params.className)).toEqual(['Document', 'Symbol']);
+    expect(getByFilter.mock.calls[0][0].fields).not.toContain('content');
+    expect(warmIndex.suggest({ partial: 'perform' })[0]).toMatchObject({
+      text: 'performHybridSearch',
+      type: 'function',
+      context: 'src/lib/search/hybrid-search.ts'
+    });
+    expect(warmIndex.suggest({ partial: 'hybrid-s' })[0]).toMatchObject({ type: 'file' });
+  });
+});
@@ -20,7 +20,7 @@ import {
   type SearchFilters,
   type Document
 } from '../../../types/search';
-import type { SourceWeights } from '../../../types/query-classification';
+import { DEFAULT_QUERY_TYPE, type SourceWeights } from '../../../types/query-classification';
 import { classifyQueryWithMetrics } from '../query-classifier';
 import { performHybridSearch } from '../hybrid-search';
 import {
@@ -32,6 +32,7 @@ import {
 import { createTimeoutController, validateQueryConstraints } from '../search-validation';
 import { getCacheManager, createCacheContext } from '../../cache/redis-cache';
 import { getEmbeddingService, EmbeddingService } from '../../cache/embedding-service';
+import { QueryGlossary, setGlossary } from '../glossary';
 
 // Mock all dependencies
 const mockRandomUUIDFn = jest.fn();
@@ -47,6 +48,7 @@ const mockProcessQueryFn = jest.fn();
 const mockClassifyQueryWithMetricsFn = jest.fn();
 const mockPerformHybridSearchFn = jest.fn();
 const mockFilterDocumentContentFn = jest.fn();
+const mockRerankSearchResultsFn = jest.fn();
 jest.mock('crypto', () => ({
   randomUUID: mockRandomUUIDFn
 }));
@@ -218,6 +220,14 @@ describe('Cached Search Orchestrator', () => {
     // Mock query validation (should not throw)
     mockValidateQueryConstraints.mockImplementation(() => {});
 
+    // Pass-through rerank stage keeps hybrid search order
+    mockRerankSearchResultsFn.mockImplementation(async ({ documents }: any) => ({
+      documents: [...documents],
+      reranked: true,
+      rerankTime: 0,
+      breakdown: new Map()
+    }));
+
     // Default mocks for external dependencies (tests override as needed)
     mockPerformHybridSearch.mockResolvedValue({
       documents: [],
@@ -225,6 +235,8 @@ describe('Cached Search Orchestrator', () => {
       searchTime: 0
     });
 
+    // Reset drops Once values a test left unconsumed
+    mockClassifyQueryWithMetrics.mockReset();
     mockClassifyQueryWithMetrics.mockResolvedValue({
       classification: {
         type: 'operational',
@@ -245,7 +257,8 @@ describe('Cached Search Orchestrator', () => {
       performHybridSearch: mockPerformHybridSearch,
       createCacheContext: mockCreateCacheContext,
       createTimeoutController: mockCreateTimeoutController,
-      validateQueryConstraints: mockValidateQueryConstraints
+      validateQueryConstraints: mockValidateQueryConstraints,
+      rerankSearchResults: mockRerankSearchResultsFn
     });
   });
 
@@ -366,7 +379,8 @@ describe('Cached Search Orchestrator', () => {
           config: DEFAULT_SEARCH_CONFIG,
           sourceWeights: { github: 1.2, web: 0.8 },
           limit: defaultParams.limit,
-          offset: defaultParams.offset
+          offset: defaultParams.offset,
+          queryType: 'technical'
         });
       });
 
@@ -466,6 +480,45 @@ describe('Cached Search Orchestrator', () => {
         );
       });
 
+      it('should skip classification for routed requests with explicit weights', async () => {
+        // Arrange
+        mockCacheManager.getSearchResults.mockResolvedValue(null);
+        mockClassifyQueryWithMetrics.mockClear();
+        mockEmbeddingService.generateEmbedding.mockResolvedValue({
+          embedding: [0.1, 0.2, 0.3],
+          cached: false,
+          model: 'text-embedding-3-small',
+          dimensions: 1024,
+          responseTime: 10
+        });
+        mockPerformHybridSearch.mockResolvedValue({
+          documents: [createTestDocument('result')],
+          searchTime: 100,
+          totalResults: 1
+        });
+
+        const routedWeights: SourceWeights = { github: 1.5, web: 0.5 };
+        const params = { ...defaultParams, weights: routedWeights, skipClassification: true, queryType: 'technical' as const };
+
+        mockPerformHybridSearch.mockClear();
+
+        // Act
+        await orchestrator.search(params);
+        await orchestrator.search({ ...params, queryType: undefined });
+
+        // Assert
+        expect(mockClassifyQueryWithMetrics).not.toHaveBeenCalled();
+        expect(mockPerformHybridSearch).toHaveBeenNthCalledWith(1,
+          expect.objectContaining({
+            sourceWeights: routedWeights,
+            queryType: 'technical'
+          })
+        );
+        expect(mockPerformHybridSearch).toHaveBeenNthCalledWith(2,
+          expect.objectContaining({ queryType: DEFAULT_QUERY_TYPE })
+        );
+      });
+
       it('should handle timeout and cleanup properly', async () => {
         // Arrange
         mockCacheManager.getSearchResults.mockResolvedValue(null);
@@ -928,8 +981,10 @@ describe('Cached Search Orchestrator', () => {
         query: complexParams.query,
         config: complexParams.config,
         sourceWeights: complexParams.weights, // Custom weights should override classification
+        queryType: 'business', // Authority weighting still follows the classification
         limit: complexParams.limit,
-        offset: complexParams.offset
+        offset: complexParams.offset,
+        filters: complexParams.filters
       });
     });
 
@@ -961,7 +1016,165 @@ describe('Cached Search Orchestrator', () => {
       const result = await orchestrator.search(minimalParams);
 
       expect(result.success).toBe(true);
-      expect(mockCreateCacheContext).toHaveBeenCalledWith(undefined, undefined, undefined);
+      expect(mockCreateCacheContext).toHaveBeenCalledWith(undefined, undefined, undefined, undefined);
+    });
+
+    it('should rerank hybrid results and report it in metadata', async () => {
+      mockCacheManager.getSearchResults.mockResolvedValue(null);
+      const candidates = [createTestDocument('first'), createTestDocument('second')];
+      mockPerformHybridSearch.mockResolvedValue({
+        documents: candidates,
+        searchTime: 100,
+        totalResults: 2
+      });
+      mockRerankSearchResultsFn.mockResolvedValueOnce({
+        documents: [candidates[1], candidates[0]],
+        reranked: true,
+        backend: 'local',
+        rerankTime: 1,
+        breakdown: new Map()
+      });
+
+      const result = await orchestrator.search(defaultParams);
+
+      expect(mockRerankSearchResultsFn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          query: defaultParams.query,
+          documents: candidates,
+          enabled: DEFAULT_SEARCH_CONFIG.rerankEnabled,
+          config: { topK: defaultParams.limit }
+        })
+      );
+      expect(result.results.map(doc => doc.content)).toEqual(['second', 'first']);
+      expect(result.metadata.reranked).toBe(true);
+    });
+
+    it('should include active filters in the search cache context', async () => {
+      mockCacheManager.getSearchResults.mockResolvedValue(null);
+      mockClassifyQueryWithMetrics.mockResolvedValue({
+        classification: { type: 'technical', weights: { github: 1.0, web: 1.0 } },
+        metrics: { cacheHit: false }
+      });
+      mockPerformHybridSearch.mockResolvedValue({
+        documents: [createTestDocument('filtered result')],
+        searchTime: 100,
+        totalResults: 1
+      });
+
+      const filters: SearchFilters = { source: ['github'], language: ['typescript'] };
+      await orchestrator.search({ ...defaultParams, filters });
+
+      expect(mockCreateCacheContext).toHaveBeenCalledWith(
+        defaultParams.sessionId,
+        defaultParams.userId,
+        undefined,
+        expect.stringContaining('github')
+      );
+      expect(mockPerformHybridSearch).toHaveBeenCalledWith(
+        expect.objectContaining({ filters })
+      );
+    });
+
+    it('should key the cache by rerank, context budget and embedding model', async () => {
+      mockCacheManager.getSearchResults.mockResolvedValue(null);
+      mockPerformHybridSearch.mockResolvedValue({
+        documents: [createTestDocument('result')],
+        searchTime: 100,
+        totalResults: 1
+      });
+
+      await orchestrator.search({
+        ...defaultParams,
+        config: { rerankEnabled: false, contextTokenBudget: 2000, embeddingModel: 'text-embedding-3-large' }
+      });
+
+      expect(mockCreateCacheContext).toHaveBeenCalledWith(
+        defaultParams.sessionId,
+        defaultParams.userId,
+        undefined,
+        'rerank:off|context:2000|embedding:text-embedding-3-large'
+      );
+    });
+
+    it('should key the cache by the routed query type', async () => {
+      mockCacheManager.getSearchResults.mockResolvedValue(null);
+      mockPerformHybridSearch.mockResolvedValue({
+        documents: [createTestDocument('result')],
+        searchTime: 100,
+        totalResults: 1
+      });
+
+      await orchestrator.search({ ...defaultParams, queryType: 'technical' });
+
+      expect(mockCreateCacheContext).toHaveBeenCalledWith(
+        defaultParams.sessionId,
+        defaultParams.userId,
+        undefined,
+        'type:technical'
+      );
+    });
+
+    it('should key the cache by the glossary expansions of the query', async () => {
+      mockCacheManager.getSearchResults.mockResolvedValue(null);
+      mockPerformHybridSearch.mockResolvedValue({
+        documents: [createTestDocument('result')],
+        searchTime: 100,
+        totalResults: 1
+      });
+      setGlossary(new QueryGlossary({ entries: [{ term: 'Weaviate', synonyms: ['knowledge base'], acronyms: ['KB'] }] }));
+
+      try {
+        await orchestrator.search({ ...defaultParams, query: 'reindex the KB' });
+      } finally {
+        setGlossary(null);
+      }
+
+      expect(mockCreateCacheContext).toHaveBeenCalledWith(
+        defaultParams.sessionId,
+        defaultParams.userId,
+        undefined,
+        'glossary:Weaviate,knowledge base'
+      );
+    });
+
+    it('should fuse rewritten queries for the multi_query strategy', async () => {
+      mockCacheManager.getSearchResults.mockResolvedValue(null);
+      mockPerformHybridSearch.mockClear();
+      const fused = [createTestDocument('auth'), createTestDocument('rate limiting')];
+      const mockPerformMultiQuerySearch = jest.fn<any>().mockResolvedValue({
+        documents: fused,
+        searchTime: 120,
+        totalResults: 2,
+        queries: ['how do auth and rate limiting interact', 'auth', 'rate limiting interact']
+      });
+      const multiQueryOrchestrator = new CachedSearchOrchestrator({
+        getCacheManager: mockGetCacheManager,
+        getEmbeddingService: mockGetEmbeddingService,
+        classifyQueryWithMetrics: mockClassifyQueryWithMetrics,
+        performHybridSearch: mockPerformHybridSearch,
+        createCacheContext: mockCreateCacheContext,
+        createTimeoutController: mockCreateTimeoutController,
+        validateQueryConstraints: mockValidateQueryConstraints,
+        rerankSearchResults: mockRerankSearchResultsFn,
+        performMultiQuerySearch: mockPerformMultiQuerySearch
+      });
+
+      const result = await multiQueryOrchestrator.search({
+        ...defaultParams,
+        config: { retrievalStrategy: 'multi_query' }
+      });
+
+      expect(mockPerformMultiQuerySearch).toHaveBeenCalledWith(
+        expect.objectContaining({ query: defaultParams.query, limit: defaultParams.limit })
+      );
+      expect(mockPerformHybridSearch).not.toHaveBeenCalled();
+      expect(mockCreateCacheContext).toHaveBeenCalledWith(
+        defaultParams.sessionId,
+        defaultParams.userId,
+        undefined,
+        'strategy:multi_query'
+      );
+      expect(result.results.map(doc => doc.content)).toEqual(['auth', 'rate limiting']);
     });
 
     it.skip('should handle search timeout gracefully (requires real abort signal)', async () => {
@@ -10,6 +10,7 @@ import {
   calculateMixedAuthorityWeights,
   getAuthorityRecommendation,
   explainWeightCalculation,
+  calculateDocumentSourceWeight,
   type WeightingContext
 } from '../enhanced-authority-weighting';
 
@@ -236,6 +237,40 @@ describe('Enhanced Authority Weighting System', () => {
     });
   });
 
+  describe('calculateDocumentSourceWeight', () => {
+    it('should use plain source weights without a query type', () => {
+      expect(calculateDocumentSourceWeight({ source: 'web', authority: 'primary' }, { github: 1.2, web: 0.8 })).toBe(0.8);
+      expect(calculateDocumentSourceWeight({ source: 'local' }, { github: 1.2, web: 0.8 })).toBe(1.0);
+    });
+
+    it('should apply stored authority and content type for classified queries', () => {
+      const weight = calculateDocumentSourceWeight(
+        { source: 'github', authority: 'primary', isCode: true },
+        SOURCE_WEIGHT_CONFIGS.technical,
+        'technical'
+      );
+      expect(weight).toBeCloseTo(1.5 * 1.5 * 1.1, 5);
+    });
+
+    it('should keep explicit source weights as the base for classified queries', () => {
+      const weight = calculateDocumentSourceWeight(
+        { source: 'web', authority: 'authoritative', isDocumentation: true },
+        { github: 1.2, web: 0.8 },
+        'business'
+      );
+      expect(weight).toBeCloseTo(0.8 * AUTHORITY_WEIGHTS.authoritative * 1.1, 5);
+    });
+
+    it('should weight local documents like GitHub and ignore unknown authority values', () => {
+      const weight = calculateDocumentSourceWeight(
+        { source: 'local', authority: 'legacy' },
+        { github: 1.0, web: 1.0 },
+        'operational'
+      );
+      expect(weight).toBe(SOURCE_WEIGHT_CONFIGS.operational.github);
+    });
+  });
+
   describe('Performance considerations', () => {
     it('should handle large numbers of weight calculations efficiently', () => {
       const startTime = Date.now();
@@ -0,0 +1,120 @@
+/**
+ * Glossary Tests
+ * Covers synonym and acronym matching, file formats and weighted expansion
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  QueryGlossary,
+  parseGlossary,
+  loadGlossary,
+  saveGlossary,
+  collectExpansionTerms,
+  formatGlossaryEntities,
+  appendExpansionTerms
+} from '../glossary';
+import { queryWithExpansions } from '../hybrid-search';
+
+const TEAM_GLOSSARY = new QueryGlossary({
+  entries: [
+    { term: 'assistant', synonyms: ['concierge'], acronyms: [] },
+    { term: 'Weaviate', synonyms: ['knowledge base'], acronyms: ['KB'] }
+  ]
+});
+
+describe('QueryGlossary', () => {
+  it('should expand synonyms in either direction', () => {
+    expect(TEAM_GLOSSARY.expand('how does the Concierge answer?')).toEqual([
+      { matched: 'concierge', term: 'assistant', expansions: ['assistant'] }
+    ]);
+    expect(TEAM_GLOSSARY.expand('assistant prompt')).toEqual([
+      { matched: 'assistant', term: 'assistant', expansions: ['concierge'] }
+    ]);
+  });
+
+  it('should match acronyms case-sensitively and multi-word synonyms across whitespace', () => {
+    expect(TEAM_GLOSSARY.expand('reindex the KB')[0].expansions).toEqual(['Weaviate', 'knowledge base']);
+    expect(TEAM_GLOSSARY.expand('file is 40 kb')).toEqual([]);
+    expect(TEAM_GLOSSARY.expand('knowledge\n base schema')[0].expansions).toEqual(['Weaviate', 'KB']);
+  });
+
+  it('should not match inside longer words', () => {
+    expect(TEAM_GLOSSARY.expand('assistants-api and KBs')).toEqual([]);
+  });
+
+  it('should replace entries by case-insensitive term', () => {
+    const glossary = new QueryGlossary(TEAM_GLOSSARY.toJSON());
+    glossary.upsert({ term: 'ASSISTANT', synonyms: ['helper'], acronyms: [] });
+
+    expect(glossary.size).toBe(2);
+    expect(glossary.expand('helper')[0].term).toBe('ASSISTANT');
+    expect(glossary.remove('weaviate')).toBe(true);
+    expect(glossary.list().map(entry => entry.term)).toEqual(['ASSISTANT']);
+  });
+});
+
+describe('glossary helpers', () => {
+  it('should collect distinct terms and format entities', () => {
+    const expansions = TEAM_GLOSSARY.expand('KB vs knowledge base for the concierge');
+
+    expect(collectExpansionTerms(expansions)).toEqual(['assistant', 'Weaviate']);
+    expect(formatGlossaryEntities(expansions)).toEqual(['concierge => assistant', 'knowledge base => Weaviate']);
+    expect(appendExpansionTerms('KB', ['Weaviate'])).toBe('KB Weaviate');
+    expect(appendExpansionTerms('KB', [])).toBe('KB');
+  });
+});
+
+describe('glossary files', () => {
+  let dir: string;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should parse YAML and default missing lists', () => {
+    const glossary = parseGlossary('entries:\n  - term: assistant\n    synonyms: [concierge]\n', 'glossary.yaml');
+
+    expect(glossary.entries).toEqual([{ term: 'assistant', synonyms: ['concierge'], acronyms: [] }]);
+  });
+
+  it('should reject invalid entries', () => {
+    expect(() => parseGlossary('{"entries":[{"term":""}]}', 'glossary.json')).toThrow();
+  });
+
+  it('should round-trip through the file and treat a missing file as empty', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'glossary-'));
+    const filepath = join(dir, 'nested', 'glossary.yml');
+
+    expect((await loadGlossary(filepath)).size).toBe(0);
+    await saveGlossary(TEAM_GLOSSARY, filepath);
+    expect((await loadGlossary(filepath)).toJSON()).toEqual(TEAM_GLOSSARY.toJSON());
+  });
+});
+
+describe('queryWithExpansions', () => {
+  const hit = (id: string, score: number) => ({ _additional: { id, score } });
+
+  it('should run only the direct query without expansions', async () => {
+    const queries: string[] = [];
+    await queryWithExpansions('KB', [], async query => {
+      queries.push(query);
+      return [];
+    });
+
+    expect(queries).toEqual(['KB']);
+  });
+
+  it('should weight hits found only through expansions below direct hits', async () => {
+    const hits = await queryWithExpansions('KB', ['Weaviate'], async query =>
+      query === 'KB' ? [hit('direct', 0.6)] : [hit('direct', 0.5), hit('synonym', 1)]
+    );
+
+    expect(hits.map(result => [result._additional.id, result._additional.score])).toEqual([
+      ['direct', 0.6],
+      ['synonym', 0.7]
+    ]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Hierarchical Search Tests
+ * Covers chunk grouping, neighbor expansion within budget and fallback
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+jest.mock('../../weaviate/client', () => ({
+  createWeaviateClient: jest.fn()
+}));
+
+import { performHierarchicalSearch } from '../hierarchical-search';
+import { createWeaviateClient } from '../../weaviate/client';
+import { DEFAULT_SEARCH_CONFIG, createDocumentId } from '../../../types/search';
+import type { HybridSearchParams } from '../hybrid-search';
+
+const mockCreateWeaviateClient = createWeaviateClient as jest.MockedFunction<typeof createWeaviateClient>;
+
+interface StoredChunk {
+  documentId: string;
+  chunkIndex: number;
+  content: string;
+  tokenCount: number;
+  totalChunks: number;
+  source?: string;
+  filepath?: string;
+}
+
+function chunk(documentId: string, chunkIndex: number, totalChunks: number, tokenCount = 100): StoredChunk {
+  return {
+    documentId,
+    chunkIndex,
+    totalChunks,
+    tokenCount,
+    content: `${documentId} chunk ${chunkIndex}`,
+    source: 'github',
+    filepath: `${documentId}.ts`
+  };
+}
+
+/**
+ * Get builder double: hybrid queries return the hits, where-only queries
+ * return stored chunks of the requested parent within the index range
+ */
+function createChunkClient(hits: Array<StoredChunk & { score: number }>, stored: StoredChunk[]) {
+  const neighborQueries: any[] = [];
+  const client = {
+    graphql: {
+      get: () => {
+        const call: { hybrid?: unknown; where?: any; limit?: number } = {};
+        const builder = {
+          withClassName: () => builder,
+          withFields: () => builder,
+          withHybrid: (hybrid: unknown) => { call.hybrid = hybrid; return builder; },
+          withWhere: (where: unknown) => { call.where = where; return builder; },
+          withLimit: (limit: number) => { call.limit = limit; return builder; },
+          do: async () => {
+            if (call.hybrid) {
+              return { data: { Get: { Chunk: hits.map(({ score, ...rest }) => ({ ...rest, _additional: { score } })) } } };
+            }
+            neighborQueries.push(call.where);
+            const [byParent, lower, upper] = call.where.operands;
+            return { data: { Get: { Chunk: stored.filter(c =>
+              c.documentId === byParent.valueString &&
+              c.chunkIndex >= lower.valueInt &&
+              c.chunkIndex <= upper.valueInt
+            ).slice(0, call.limit) } } };
+          }
+        };
+        return builder;
+      }
+    }
+  };
+  return { client, neighborQueries };
+}
+
+const baseParams: HybridSearchParams = {
+  query: 'retry policy',
+  config: DEFAULT_SEARCH_CONFIG,
+  sourceWeights: { github: 1, web: 1 },
+  limit: 5,
+  offset: 0
+};
+
+describe('performHierarchicalSearch', () => {
+  beforeEach(() => {
+    mockCreateWeaviateClient.mockReset();
+  });
+
+  it('groups chunk hits by parent and orders parents by best chunk', async () => {
+    const stored = [chunk('a', 0, 1), chunk('b', 0, 2), chunk('b', 1, 2)];
+    const { client } = createChunkClient(
+      [{ ...chunk('a', 0, 1), score: 0.4 }, { ...chunk('b', 1, 2), score: 0.9 }, { ...chunk('b', 0, 2), score: 0.5 }],
+      stored
+    );
+    mockCreateWeaviateClient.mockReturnValue(client as any);
+
+    const result = await performHierarchicalSearch(baseParams);
+
+    expect(result.expanded).toBe(true);
+    expect(result.documents.map(doc => doc.id)).toEqual(['b', 'a']);
+    expect(result.documents[0].score).toBeCloseTo(0.9);
+    expect(result.documents[0].content).toBe('b chunk 0\nb chunk 1');
+    expect(result.documents[0].chunks?.map(c => c.chunkIndex)).toEqual([0, 1]);
+  });
+
+  it('expands to nearest neighbors until the token budget is spent', async () => {
+    const stored = Array.from({ length: 10 }, (_, i) => chunk('big', i, 10));
+    const { client, neighborQueries } = createChunkClient([{ ...chunk('big', 5, 10), score: 0.8 }], stored);
+    mockCreateWeaviateClient.mockReturnValue(client as any);
+
+    const result = await performHierarchicalSearch(baseParams, { tokenBudget: 300, neighborWindow: 2 });
+
+    expect(neighborQueries[0].operands[1].valueInt).toBe(3);
+    expect(neighborQueries[0].operands[2].valueInt).toBe(7);
+    expect(result.documents[0].chunks?.map(c => c.chunkIndex)).toEqual([4, 5, 6]);
+  });
+
+  it('marks gaps between non-adjacent chunks', async () => {
+    const stored = Array.from({ length: 20 }, (_, i) => chunk('doc', i, 20));
+    const { client } = createChunkClient(
+      [{ ...chunk('doc', 2, 20), score: 0.7 }, { ...chunk('doc', 12, 20), score: 0.6 }],
+      stored
+    );
+    mockCreateWeaviateClient.mockReturnValue(client as any);
+
+    const result = await performHierarchicalSearch(baseParams, { tokenBudget: 200, neighborWindow: 1 });
+
+    expect(result.documents[0].content).toBe('doc chunk 2\n...\ndoc chunk 12');
+  });
+
+  it('loads the neighbors of hits far apart in one parent', async () => {
+    const stored = Array.from({ length: 50 }, (_, i) => chunk('doc', i, 50));
+    const { client } = createChunkClient(
+      [{ ...chunk('doc', 2, 50), score: 0.7 }, { ...chunk('doc', 40, 50), score: 0.6 }],
+      stored
+    );
+    mockCreateWeaviateClient.mockReturnValue(client as any);
+
+    const result = await performHierarchicalSearch(baseParams, { tokenBudget: 600, neighborWindow: 1 });
+
+    expect(result.documents[0].chunks?.map(c => c.chunkIndex)).toEqual([1, 2, 3, 39, 40, 41]);
+  });
+
+  it('falls back to document-level search when no chunks are indexed', async () => {
+    const { client } = createChunkClient([], []);
+    mockCreateWeaviateClient.mockReturnValue(client as any);
+    const fallback = jest.fn<any>().mockResolvedValue({
+      documents: [{ id: createDocumentId('whole'), content: 'x', score: 0.5 }],
+      totalResults: 1,
+      searchTime: 3
+    });
+
+    const result = await performHierarchicalSearch(baseParams, { fallback });
+
+    expect(fallback).toHaveBeenCalledWith(baseParams);
+    expect(result.expanded).toBe(false);
+    expect(result.documents[0].id).toBe('whole');
+  });
+});
@@ -41,9 +41,10 @@ describe('HybridSearch', () => {
   // NO longer declare as let - they are imported constants
 
   // Define default params at the top level so all tests can access it
+  // Recency decay is disabled here so score assertions only cover source weighting
   const defaultParams: HybridSearchParams = {
     query: 'test query',
-    config: DEFAULT_SEARCH_CONFIG,
+    config: { ...DEFAULT_SEARCH_CONFIG, recency: { weight: 0 } },
     sourceWeights: { github: 1.2, web: 0.8 },
     limit: 10,
     offset: 0
@@ -343,16 +344,170 @@ describe('HybridSearch', () => {
       expect(mockClient.graphql.get).toHaveBeenCalled();
       expect(mockQuery.withClassName).toHaveBeenCalledWith('Document');
       expect(mockQuery.withFields).toHaveBeenCalledWith(
-        'content source filepath url language priority lastModified isCode isDocumentation fileType size _additional { score id }'
+        'content source filepath url language priority lastModified isCode isDocumentation fileType size authority author branch commit _additional { score id }'
       );
       expect(mockQuery.withHybrid).toHaveBeenCalledWith({
         query: 'search term',
         alpha: DEFAULT_SEARCH_CONFIG.hybridWeights.vector,
-        properties: ['content', 'filepath'],
+        properties: ['content', 'filepath', 'identifiers'],
         fusionType: 'relativeScoreFusion'
       });
       expect(mockQuery.withLimit).toHaveBeenCalledWith(30); // limit + offset
       expect(mockQuery.withOffset).toHaveBeenCalledWith(10);
+      expect(mockQuery.withWhere).not.toHaveBeenCalled(); // No filters, no where clause
+    });
+
+    it('should push filters down into a where clause', async () => {
+      // Arrange
+      mockQuery.do.mockResolvedValue({ data: { Get: { Document: [] } } });
+
+      // Act
+      await performHybridSearch({
+        ...defaultParams,
+        filters: {
+          source: ['github'],
+          language: ['typescript', 'python']
+        }
+      });
+
+      // Assert
+      expect(mockQuery.withWhere).toHaveBeenCalledWith({
+        operator: 'And',
+        operands: [
+          { operator: 'Equal', path: ['source'], valueString: 'github' },
+          {
+            operator: 'Or',
+            operands: [
+              { operator: 'Equal', path: ['language'], valueString: 'typescript' },
+              { operator: 'Equal', path: ['language'], valueString: 'python' }
+            ]
+          }
+        ]
+      });
+    });
+
+    it('should apply minScore and maxResults filters to results', async () => {
+      // Arrange
+      mockQuery.do.mockResolvedValue({
+        data: {
+          Get: {
+            Document: [
+              { content: 'High', source: 'github', priority: 1.0, _additional: { score: 0.9, id: 'high' } },
+              { content: 'Medium', source: 'github', priority: 1.0, _additional: { score: 0.7, id: 'medium' } },
+              { content: 'Low', source: 'github', priority: 1.0, _additional: { score: 0.4, id: 'low' } }
+            ]
+          }
+        }
+      });
+
+      // Act
+      const result = await performHybridSearch({
+        ...defaultParams,
+        sourceWeights: { github: 1.0, web: 1.0 },
+        filters: { minScore: 0.5, maxResults: 1 }
+      });
+
+      // Assert
+      expect(result.documents).toHaveLength(1);
+      expect(result.documents[0].content).toBe('High');
+    });
+
+    it('should rank a fresh document above a stale one with equal relevance', async () => {
+      const now = Date.now();
+      mockQuery.do.mockResolvedValue({
+        data: {
+          Get: {
+            Document: [
+              {
+                content: 'Stale crawled page',
+                source: 'web',
+                priority: 1.0,
+                lastModified: new Date(now - 60 * 24 * 60 * 60 * 1000).toISOString(), // Two web half-lives
+                _additional: { score: 0.8, id: 'stale' }
+              },
+              {
+                content: 'Current page',
+                source: 'web',
+                priority: 1.0,
+                lastModified: new Date(now).toISOString(),
+                _additional: { score: 0.8, id: 'fresh' }
+              }
+            ]
+          }
+        }
+      });
+
+      const result = await performHybridSearch({
+        ...defaultParams,
+        config: DEFAULT_SEARCH_CONFIG,
+        sourceWeights: { github: 1.0, web: 1.0 }
+      });
+
+      expect(result.documents.map(doc => doc.content)).toEqual(['Current page', 'Stale crawled page']);
+      expect(result.documents[0].score).toBeCloseTo(0.8, 3);
+      // weight 0.3: 0.8 * (0.7 + 0.3 * 0.25)
+      expect(result.documents[1].score).toBeCloseTo(0.8 * 0.775, 3);
+    });
+
+    it('should report each document passing the filters as it is scored', async () => {
+      mockQuery.do.mockResolvedValue({
+        data: {
+          Get: {
+            Document: [
+              { content: 'Low score', source: 'web', _additional: { score: 0.6, id: 'low' } },
+              { content: 'Below threshold', source: 'web', _additional: { score: 0.2, id: 'below' } },
+              { content: 'High score', source: 'github', _additional: { score: 0.8, id: 'high' } }
+            ]
+          }
+        }
+      });
+      const scored: string[] = [];
+
+      const result = await performHybridSearch({
+        ...defaultParams,
+        sourceWeights: { github: 1.0, web: 1.0 },
+        filters: { minScore: 0.5 },
+        onScored: document => scored.push(document.content)
+      });
+
+      // Scoring order, not final rank order
+      expect(scored).toEqual(['Low score', 'High score']);
+      expect(result.documents.map(doc => doc.content)).toEqual(['High score', 'Low score']);
+    });
+
+    it('should page text-filtered results after filtering', async () => {
+      const page = (content: string, score: number) => ({
+        content,
+        source: 'github',
+        _additional: { score, id: content }
+      });
+      mockQuery.do.mockResolvedValue({
+        data: {
+          Get: {
+            Document: [
+              page('cache deprecated', 0.9),
+              page('cache one', 0.8),
+              page('cache deprecated again', 0.7),
+              page('cache two', 0.6),
+              page('cache three', 0.5)
+            ]
+          }
+        }
+      });
+
+      const result = await performHybridSearch({
+        ...defaultParams,
+        sourceWeights: { github: 1.0, web: 1.0 },
+        limit: 2,
+        offset: 1,
+        filters: { exclude: ['deprecated'] }
+      });
+
+      // Several pages from the first hit, so exclusions cannot leave the page short
+      expect(mockQuery.withLimit).toHaveBeenCalledWith(12);
+      expect(mockQuery.withOffset).toHaveBeenCalledWith(0);
+      expect(result.documents.map(doc => doc.content)).toEqual(['cache two', 'cache three']);
+      expect(result.totalResults).toBe(2);
     });
 
     it('should handle network errors gracefully', async () => {
@@ -0,0 +1,92 @@
+/**
+ * MMR Selection Tests
+ * Covers the relevance/diversity trade-off used for chat context
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { selectWithMMR, getMMRCandidateLimit } from '../mmr-selection';
+import { createDocumentId, type Document } from '../../../types/search';
+
+const createDocument = (
+  id: string,
+  content: string,
+  score: number,
+  overrides: Partial<Document> = {}
+): Document => ({
+  id: createDocumentId(id),
+  content,
+  filepath: `docs/${id}.md`,
+  language: 'markdown',
+  source: 'github',
+  score,
+  priority: 1.0,
+  metadata: {
+    size: content.length,
+    wordCount: content.split(/\s+/).length,
+    lines: 1,
+    encoding: 'utf-8',
+    mimeType: 'text/markdown',
+    tags: [],
+    lastModified: new Date(),
+    created: new Date(),
+    checksum: id
+  },
+  ...overrides
+});
+
+const readme = 'installation guide setup configuration environment variables deployment';
+const candidates = [
+  createDocument('readme-1', readme, 0.95),
+  createDocument('readme-2', readme, 0.93),
+  createDocument('readme-3', readme, 0.9),
+  createDocument('schema', 'weaviate schema vectorizer properties reranker module', 0.8),
+  createDocument('cache', 'redis cache ttl invalidation keys compression', 0.7)
+];
+
+describe('getMMRCandidateLimit', () => {
+  it('should fetch a bounded multiple of maxSources', () => {
+    expect(getMMRCandidateLimit(5)).toBe(15);
+    expect(getMMRCandidateLimit(0)).toBe(3);
+    expect(getMMRCandidateLimit(40)).toBe(50);
+  });
+});
+
+describe('selectWithMMR', () => {
+  it('should keep relevance order when lambda is 1', () => {
+    const selected = selectWithMMR(candidates, { maxSources: 3, lambda: 1 });
+
+    expect(selected.map(doc => doc.id)).toEqual(['readme-1', 'readme-2', 'readme-3']);
+  });
+
+  it('should skip near-duplicate chunks with the default lambda', () => {
+    const selected = selectWithMMR(candidates, { maxSources: 3 });
+
+    expect(selected.map(doc => doc.id)).toEqual(['readme-1', 'schema', 'cache']);
+  });
+
+  it('should cap the result at maxSources', () => {
+    expect(selectWithMMR(candidates, { maxSources: 2 })).toHaveLength(2);
+    expect(selectWithMMR(candidates, { maxSources: 0 })).toEqual([]);
+  });
+
+  it('should only use redundant candidates once distinct ones run out', () => {
+    const selected = selectWithMMR(candidates, {
+      maxSources: 4,
+      lambda: 1,
+      diversityThreshold: 0.85
+    });
+
+    expect(selected.map(doc => doc.id)).toEqual(['readme-1', 'schema', 'cache', 'readme-2']);
+  });
+
+  it('should measure similarity with embeddings when available', () => {
+    const same = 'identical text in every chunk';
+    const selected = selectWithMMR([
+      createDocument('a', same, 0.9, { embedding: [1, 0] }),
+      createDocument('b', same, 0.85, { embedding: [1, 0.01] }),
+      createDocument('c', same, 0.8, { embedding: [0, 1] })
+    ], { maxSources: 2, lambda: 0.5 });
+
+    expect(selected.map(doc => doc.id)).toEqual(['a', 'c']);
+  });
+});
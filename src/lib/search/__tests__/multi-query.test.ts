@@ -0,0 +1,148 @@
+/**
+ * Multi-Query Retrieval Tests
+ * Covers query decomposition, rank fusion and parallel execution
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  decomposeQuery,
+  isCompoundQuery,
+  rewriteQuery,
+  reciprocalRankFusion,
+  performMultiQuerySearch
+} from '../multi-query';
+import type { HybridSearchParams } from '../hybrid-search';
+import type { VectorStoreHit } from '../../vector-store';
+import { DEFAULT_SEARCH_CONFIG } from '../../../types/search';
+
+const createHit = (id: string, score: number, source = 'github'): VectorStoreHit => ({
+  content: id,
+  filepath: `src/${id}.ts`,
+  language: 'typescript',
+  source,
+  priority: 1.0,
+  _additional: { id, score }
+});
+
+const baseParams: HybridSearchParams = {
+  query: 'how do auth and rate limiting interact',
+  config: DEFAULT_SEARCH_CONFIG,
+  sourceWeights: { github: 1.2, web: 0.8 },
+  limit: 3,
+  offset: 0
+};
+
+describe('decomposeQuery', () => {
+  it('should split compound questions into one query per topic', () => {
+    expect(decomposeQuery('how do auth and rate limiting interact')).toEqual([
+      'auth rate limiting interact',
+      'auth',
+      'rate limiting interact'
+    ]);
+  });
+
+  it('should return only the keyword form for simple questions', () => {
+    expect(decomposeQuery('what is the cache ttl?')).toEqual(['cache ttl']);
+    expect(isCompoundQuery('what is the cache ttl?')).toBe(false);
+    expect(isCompoundQuery('redis vs weaviate caching')).toBe(true);
+  });
+
+  it('should only split on coordinations between topics', () => {
+    expect(isCompoundQuery('search with filters')).toBe(false);
+    expect(isCompoundQuery('hello, world example')).toBe(false);
+    expect(decomposeQuery('auth, caching or rate limiting')).toEqual([
+      'auth caching rate limiting',
+      'auth',
+      'caching',
+      'rate limiting'
+    ]);
+  });
+});
+
+describe('rewriteQuery', () => {
+  it('should keep the original question first and drop duplicates', async () => {
+    const queries = await rewriteQuery('Auth flow', async () => ['auth flow', 'login sequence']);
+
+    expect(queries).toEqual(['Auth flow', 'login sequence']);
+  });
+
+  it('should fall back to decomposition when the rewriter fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const queries = await rewriteQuery('auth and rate limiting', async () => {
+      throw new Error('no model');
+    });
+
+    expect(queries).toEqual(['auth and rate limiting', 'auth rate limiting', 'auth', 'rate limiting']);
+    warn.mockRestore();
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('should rank hits found by several queries first', () => {
+    const fused = reciprocalRankFusion([
+      [createHit('shared', 0.6), createHit('auth', 0.9)],
+      [createHit('limiter', 0.8), createHit('shared', 0.7)]
+    ]);
+
+    expect(fused.map(hit => hit._additional.id)).toEqual(['shared', 'auth', 'limiter']);
+    expect(fused[0]._additional.score).toBeCloseTo(0.9);
+    expect(Number(fused[1]._additional.score)).toBeLessThan(Number(fused[0]._additional.score));
+  });
+
+  it('should return an empty list for no results', () => {
+    expect(reciprocalRankFusion([[], []])).toEqual([]);
+  });
+});
+
+describe('performMultiQuerySearch', () => {
+  it('should run every rewritten query and fuse the results', async () => {
+    const hitsByQuery: Record<string, VectorStoreHit[]> = {
+      'how do auth and rate limiting interact': [createHit('overview', 0.5)],
+      'auth': [createHit('auth-middleware', 0.9)],
+      'rate limiting': [createHit('rate-limiter', 0.85)]
+    };
+    const query = jest.fn(async (params: HybridSearchParams) => hitsByQuery[params.query] ?? []);
+
+    const result = await performMultiQuerySearch(baseParams, {
+      query,
+      rewrite: async () => ['auth', 'rate limiting']
+    });
+
+    expect(query).toHaveBeenCalledTimes(3);
+    expect(result.queries).toEqual(['how do auth and rate limiting interact', 'auth', 'rate limiting']);
+    expect(result.documents.map(doc => doc.id))
+      .toEqual(expect.arrayContaining(['overview', 'auth-middleware', 'rate-limiter']));
+  });
+
+  it('should weight the fused ranking once', async () => {
+    const query = jest.fn(async (params: HybridSearchParams) =>
+      params.query === 'auth' ? [createHit('auth-guide', 0.5, 'web'), createHit('auth-middleware', 0.45)] : []
+    );
+
+    const result = await performMultiQuerySearch(baseParams, { query, rewrite: async () => ['auth'] });
+
+    // Raw ranks fuse first; github's 1.2 then outweighs web's 0.8 exactly once
+    expect(result.documents.map(doc => [doc.id, doc.score])).toEqual([
+      ['auth-middleware', expect.closeTo(0.5 * (61 / 62) * 1.2, 5)],
+      ['auth-guide', expect.closeTo(0.5 * 0.8, 5)]
+    ]);
+  });
+
+  it('should tolerate failed sub-queries but not total failure', async () => {
+    const query = jest.fn(async (params: HybridSearchParams) => {
+      if (params.query === 'auth') throw new Error('weaviate down');
+      return [createHit('overview', 0.5)];
+    });
+
+    const partial = await performMultiQuerySearch(baseParams, { query, rewrite: async () => ['auth'] });
+    expect(partial.documents).toHaveLength(1);
+
+    const failing = jest.fn(async (): Promise<VectorStoreHit[]> => {
+      throw new Error('weaviate down');
+    });
+    await expect(
+      performMultiQuerySearch(baseParams, { query: failing, rewrite: async () => ['auth'] })
+    ).rejects.toThrow('weaviate down');
+  });
+});
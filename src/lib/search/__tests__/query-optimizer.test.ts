@@ -20,6 +20,8 @@ import {
   optimizeQuery,
   getOptimizationMetrics,
   clearOptimizationCache,
+  planChatRoute,
+  routeChatQuery,
 } from '../query-optimizer';
 
 // Mock the query classifier
@@ -356,4 +358,56 @@ describe('Query Optimizer', () => {
       expect(result.routing.strategy).toBeDefined();
     });
   });
-});
\ No newline at end of file
+
+  describe('Chat Route Planning', () => {
+    it('should run cheap strategies on the small model without re-classification', async () => {
+      const optimization = await optimizeQuery('What is Redis?', { useCache: false });
+      const plan = planChatRoute(optimization, 10);
+
+      expect(plan.strategy).toBe('cached');
+      expect(plan.model).toBe('gpt-4o-mini');
+      expect(plan.embeddingModel).toBe('text-embedding-3-small');
+      expect(plan.runClassification).toBe(false);
+      expect(plan.sourceWeights).toEqual(optimization.routing.sourceWeights);
+      expect(plan.maxSources).toBeLessThanOrEqual(optimization.routing.maxSources);
+      expect(plan.contextTokenBudget).toBe(optimization.complexity.requiredContext);
+    });
+
+    it('should run the full pipeline with classification for complex queries', async () => {
+      const plan = await routeChatQuery(
+        'How does the API authentication middleware implement rate limiting with Redis and handle database failover?',
+        10,
+        { useCache: false }
+      );
+
+      expect(plan.strategy).toBe('full');
+      expect(plan.model).toBe('gpt-4o');
+      expect(plan.embeddingModel).toBe('text-embedding-3-large');
+      expect(plan.runClassification).toBe(true);
+      expect(plan.maxSources).toBeGreaterThanOrEqual(4);
+    });
+
+    it('should never exceed the requested source count', async () => {
+      const plan = await routeChatQuery(
+        'How does the API authentication middleware implement rate limiting with Redis and handle database failover?',
+        2,
+        { useCache: false }
+      );
+
+      expect(plan.maxSources).toBe(2);
+    });
+
+    it('should record the decision inputs for cost and quality analysis', async () => {
+      const optimization = await optimizeQuery('How do I implement the search API?', { useCache: false });
+      const plan = planChatRoute(optimization, 5);
+
+      expect(plan).toMatchObject({
+        complexity: optimization.complexity.complexity,
+        confidence: optimization.confidence.overall,
+        estimatedSavings: optimization.tokenOptimization.estimatedSavings,
+        optimizationTime: optimization.optimizationTime,
+        reasoning: optimization.routing.reasoning,
+      });
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Recency Ranking Tests
+ * Covers per-source half-life decay and score blending
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { resolveRecencyConfig, calculateRecencyFactor, applyRecencyDecay } from '../recency';
+import { DEFAULT_RECENCY_CONFIG, type DocumentSource } from '../../../types/search';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-06-01T00:00:00Z').getTime();
+
+describe('calculateRecencyFactor', () => {
+  it('halves freshness after one half-life of the source', () => {
+    const webHalfLife = DEFAULT_RECENCY_CONFIG.halfLifeDays.web;
+    const modified = new Date(NOW - webHalfLife * DAY_MS);
+
+    expect(calculateRecencyFactor(modified, 'web', NOW)).toBeCloseTo(0.5);
+  });
+
+  it('decays web documents faster than code', () => {
+    const modified = new Date(NOW - 90 * DAY_MS);
+
+    expect(calculateRecencyFactor(modified, 'web', NOW))
+      .toBeLessThan(calculateRecencyFactor(modified, 'github', NOW));
+  });
+
+  it('treats future and unparseable timestamps as fresh', () => {
+    expect(calculateRecencyFactor(new Date(NOW + DAY_MS), 'web', NOW)).toBe(1);
+    expect(calculateRecencyFactor('not a date', 'web', NOW)).toBe(1);
+  });
+
+  it('honors custom half-lives', () => {
+    const modified = new Date(NOW - 10 * DAY_MS);
+    const halfLifeDays = { ...DEFAULT_RECENCY_CONFIG.halfLifeDays, local: 10 };
+
+    expect(calculateRecencyFactor(modified, 'local', NOW, halfLifeDays)).toBeCloseTo(0.5);
+  });
+
+  it('decays sources without a half-life like local files', () => {
+    const modified = new Date(NOW - 90 * DAY_MS);
+    const factor = calculateRecencyFactor(modified, 'company' as DocumentSource, NOW);
+
+    expect(Number.isFinite(factor)).toBe(true);
+    expect(factor).toBeCloseTo(calculateRecencyFactor(modified, 'local', NOW));
+  });
+});
+
+describe('applyRecencyDecay', () => {
+  it('only decays the weighted share of the score', () => {
+    expect(applyRecencyDecay(0.8, 1, 0.3)).toBeCloseTo(0.8);
+    expect(applyRecencyDecay(0.8, 0, 0.3)).toBeCloseTo(0.56);
+    expect(applyRecencyDecay(0.8, 0, 0)).toBe(0.8);
+  });
+});
+
+describe('resolveRecencyConfig', () => {
+  it('merges partial overrides over the defaults', () => {
+    const config = resolveRecencyConfig({ weight: 0.5, halfLifeDays: { web: 7 } });
+
+    expect(config.weight).toBe(0.5);
+    expect(config.halfLifeDays).toEqual({ ...DEFAULT_RECENCY_CONFIG.halfLifeDays, web: 7 });
+  });
+});
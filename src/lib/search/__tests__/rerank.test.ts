@@ -0,0 +1,291 @@
+/**
+ * Rerank Stage Tests
+ * Covers the local backend, the Weaviate backend and score blending
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+const mockCreateWeaviateClientFn = jest.fn();
+
+jest.mock('weaviate-ts-client');
+jest.mock('../../weaviate/client', () => ({
+  createWeaviateClient: mockCreateWeaviateClientFn
+}));
+
+import {
+  rerankSearchResults,
+  getReranker,
+  LocalReranker,
+  WeaviateReranker,
+  tokenizeForRanking,
+  cosineSimilarity,
+  type Reranker
+} from '../rerank';
+import { createDocumentId, type Document } from '../../../types/search';
+import { mockQuery, mockClient } from 'weaviate-ts-client';
+
+const createDocument = (
+  id: string,
+  content: string,
+  overrides: Partial<Document> = {}
+): Document => ({
+  id: createDocumentId(id),
+  content,
+  filepath: `src/${id}.ts`,
+  language: 'typescript',
+  source: 'github',
+  score: 0.5,
+  priority: 1.0,
+  metadata: {
+    size: content.length,
+    wordCount: content.split(/\s+/).length,
+    lines: 1,
+    encoding: 'utf-8',
+    mimeType: 'text/plain',
+    tags: [],
+    lastModified: new Date(),
+    created: new Date(),
+    checksum: id
+  },
+  ...overrides
+});
+
+const fixedReranker = (scores: number[]): Reranker => ({
+  backend: 'local',
+  scoreRelevance: jest.fn(async () => scores) as Reranker['scoreRelevance']
+});
+
+describe('tokenizeForRanking', () => {
+  it('should split identifiers and paths into terms', () => {
+    expect(tokenizeForRanking('getCacheManager in redis-cache_manager.ts'))
+      .toEqual(['get', 'cache', 'manager', 'redis', 'cache', 'manager', 'ts']);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should return 1 for identical vectors and 0 for mismatched ones', () => {
+    expect(cosineSimilarity([1, 2, 3], [1, 2, 3])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity(undefined, [1])).toBe(0);
+  });
+});
+
+describe('LocalReranker', () => {
+  it('should score documents that mention the query terms higher', async () => {
+    const reranker = new LocalReranker();
+    const documents = [
+      createDocument('unrelated', 'Button variants and styling helpers'),
+      createDocument('rate-limiter', 'RateLimiter checkLimit enforces the rate limit per key')
+    ];
+
+    const scores = await reranker.scoreRelevance('rate limit checkLimit', documents);
+
+    expect(scores).toHaveLength(2);
+    expect(scores[1]).toBeGreaterThan(scores[0]);
+  });
+
+  it('should use embedding cosine similarity when vectors are available', async () => {
+    const reranker = new LocalReranker();
+    const documents = [
+      createDocument('far', 'same text', { embedding: [0, 1] }),
+      createDocument('near', 'same text', { embedding: [1, 0] })
+    ];
+
+    const scores = await reranker.scoreRelevance('query', documents, { queryEmbedding: [1, 0] });
+
+    expect(scores[1]).toBeGreaterThan(scores[0]);
+  });
+});
+
+describe('WeaviateReranker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCreateWeaviateClientFn.mockImplementation(() => mockClient);
+  });
+
+  it('should request rerank scores for the candidate ids', async () => {
+    (mockQuery.do as jest.Mock<any>).mockResolvedValue({
+      data: {
+        Get: {
+          Document: [
+            { _additional: { id: 'b', rerank: [{ score: 0.9 }] } },
+            { _additional: { id: 'a', rerank: [{ score: -2 }] } }
+          ]
+        }
+      }
+    });
+
+    const reranker = new WeaviateReranker();
+    const scores = await reranker.scoreRelevance('auth flow', [
+      createDocument('a', 'alpha'),
+      createDocument('b', 'beta')
+    ]);
+
+    expect(mockQuery.withWhere).toHaveBeenCalledWith({
+      operator: 'ContainsAny',
+      path: ['id'],
+      valueTextArray: ['a', 'b']
+    });
+    expect(mockQuery.withFields).toHaveBeenCalledWith(expect.stringContaining('rerank(property: "content" query: "auth flow")'));
+    expect(scores[1]).toBe(0.9);
+    expect(scores[0]).toBeCloseTo(1 / (1 + Math.exp(2)));
+  });
+
+  it('should fail when the module returns no scores', async () => {
+    (mockQuery.do as jest.Mock<any>).mockResolvedValue({ data: { Get: { Document: [] } } });
+
+    await expect(
+      new WeaviateReranker().scoreRelevance('query', [createDocument('a', 'alpha')])
+    ).rejects.toThrow('Weaviate reranker returned no scores');
+  });
+});
+
+describe('getReranker', () => {
+  it('should default to the local backend', () => {
+    expect(getReranker().backend).toBe('local');
+    expect(getReranker('weaviate').backend).toBe('weaviate');
+  });
+});
+
+describe('rerankSearchResults', () => {
+  const documents = [
+    createDocument('a', 'alpha content about caching'),
+    createDocument('b', 'beta content about search'),
+    createDocument('c', 'gamma content about memory')
+  ];
+
+  it('should return input unchanged when disabled', async () => {
+    const result = await rerankSearchResults({ query: 'q', documents, enabled: false });
+
+    expect(result.reranked).toBe(false);
+    expect(result.documents).toEqual(documents);
+  });
+
+  it('should reorder by relevance when it dominates the weights', async () => {
+    const result = await rerankSearchResults({
+      query: 'q',
+      documents,
+      enabled: true,
+      reranker: fixedReranker([0.1, 0.9, 0.5]),
+      config: {
+        threshold: 0,
+        weights: { relevance: 1, recency: 0, authority: 0, diversity: 0 }
+      }
+    });
+
+    expect(result.reranked).toBe(true);
+    expect(result.backend).toBe('local');
+    expect(result.documents.map(doc => doc.id)).toEqual(['b', 'c', 'a']);
+    expect(result.documents[0].score).toBeCloseTo(0.9);
+    expect(result.breakdown.get('b')?.relevance).toBe(0.9);
+  });
+
+  it('should honor topK and threshold', async () => {
+    const result = await rerankSearchResults({
+      query: 'q',
+      documents,
+      enabled: true,
+      reranker: fixedReranker([0.2, 0.9, 0.6]),
+      config: {
+        topK: 2,
+        threshold: 0.5,
+        weights: { relevance: 1, recency: 0, authority: 0, diversity: 0 }
+      }
+    });
+
+    expect(result.documents.map(doc => doc.id)).toEqual(['b', 'c']);
+
+    const strict = await rerankSearchResults({
+      query: 'q',
+      documents,
+      enabled: true,
+      reranker: fixedReranker([0.2, 0.9, 0.6]),
+      config: {
+        threshold: 0.7,
+        weights: { relevance: 1, recency: 0, authority: 0, diversity: 0 }
+      }
+    });
+
+    expect(strict.documents.map(doc => doc.id)).toEqual(['b']);
+  });
+
+  it('should prefer fresher and more authoritative documents on ties', async () => {
+    const stale = createDocument('stale', 'same', {
+      metadata: { ...documents[0].metadata, lastModified: new Date('2020-01-01') }
+    });
+    const fresh = createDocument('fresh', 'same');
+    const authoritative = createDocument('authoritative', 'same', {
+      metadata: { ...documents[0].metadata, authority: 'authoritative' }
+    });
+    const community = createDocument('community', 'same', {
+      metadata: { ...documents[0].metadata, authority: 'community' }
+    });
+
+    const byRecency = await rerankSearchResults({
+      query: 'q',
+      documents: [stale, fresh],
+      enabled: true,
+      reranker: fixedReranker([0.5, 0.5]),
+      config: { threshold: 0, weights: { relevance: 0.5, recency: 0.5, authority: 0, diversity: 0 } }
+    });
+    expect(byRecency.documents[0].id).toBe('fresh');
+
+    const byAuthority = await rerankSearchResults({
+      query: 'q',
+      documents: [fresh, authoritative],
+      enabled: true,
+      reranker: fixedReranker([0.5, 0.5]),
+      config: { threshold: 0, weights: { relevance: 0.5, recency: 0, authority: 0.5, diversity: 0 } }
+    });
+    expect(byAuthority.documents[0].id).toBe('authoritative');
+
+    // Priority no longer stands in for authority
+    const byStoredAuthority = await rerankSearchResults({
+      query: 'q',
+      documents: [{ ...community, priority: 2 }, fresh],
+      enabled: true,
+      reranker: fixedReranker([0.5, 0.5]),
+      config: { threshold: 0, weights: { relevance: 0.5, recency: 0, authority: 0.5, diversity: 0 } }
+    });
+    expect(byStoredAuthority.documents[0].id).toBe('fresh');
+  });
+
+  it('should demote near-duplicates when diversity is weighted', async () => {
+    const readme = 'installation guide setup configuration environment variables deployment';
+    const duplicates = [
+      createDocument('readme-1', readme),
+      createDocument('readme-2', readme),
+      createDocument('other', 'weaviate schema vectorizer properties reranker module')
+    ];
+
+    const result = await rerankSearchResults({
+      query: 'q',
+      documents: duplicates,
+      enabled: true,
+      reranker: fixedReranker([0.9, 0.85, 0.7]),
+      config: { threshold: 0, weights: { relevance: 0.5, recency: 0, authority: 0, diversity: 0.5 } }
+    });
+
+    expect(result.documents.map(doc => doc.id)).toEqual(['readme-1', 'other', 'readme-2']);
+  });
+
+  it('should fall back to the local backend when a remote backend fails', async () => {
+    const failing: Reranker = {
+      backend: 'weaviate',
+      scoreRelevance: jest.fn(async () => { throw new Error('module not enabled'); }) as Reranker['scoreRelevance']
+    };
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await rerankSearchResults({
+      query: 'caching',
+      documents,
+      enabled: true,
+      reranker: failing,
+      config: { threshold: 0 }
+    });
+
+    expect(result.reranked).toBe(true);
+    expect(result.backend).toBe('local');
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Saved Search Tests
+ * Covers result diffing, baselines and notifications after ingestion
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  SavedSearchFileStore,
+  SavedSearchService,
+  diffResults,
+  snapshotResults,
+  savedSearchDocumentKey
+} from '../saved-searches';
+import type { AlertEvent } from '../../monitoring/alerts/types';
+import { createDocumentId, type Document } from '../../../types/search';
+
+function doc(filepath: string, content: string, score = 0.5): Document {
+  return {
+    id: createDocumentId(`local:${filepath}`),
+    source: 'local',
+    filepath,
+    content,
+    score,
+    metadata: {}
+  } as unknown as Document;
+}
+
+describe('diffResults', () => {
+  const snapshot = snapshotResults([doc('a.ts', 'alpha'), doc('b.ts', 'beta')]);
+
+  it('should report documents entering the results and changed content', () => {
+    const matches = diffResults(snapshot, [doc('c.ts', 'gamma', 0.9), doc('a.ts', 'alpha'), doc('b.ts', 'beta v2')]);
+
+    expect(matches).toEqual([
+      { source: 'local', filepath: 'c.ts', score: 0.9, rank: 1, change: 'new' },
+      { source: 'local', filepath: 'b.ts', score: 0.5, rank: 3, change: 'updated' }
+    ]);
+  });
+
+  it('should only report documents in the change set', () => {
+    const changed = new Set([savedSearchDocumentKey('local', 'b.ts')]);
+
+    expect(diffResults(snapshot, [doc('c.ts', 'gamma'), doc('b.ts', 'beta v2')], changed))
+      .toEqual([expect.objectContaining({ filepath: 'b.ts', change: 'updated' })]);
+  });
+
+  it('should key web pages by URL so paths on different hosts stay apart', () => {
+    const page = (url: string, content: string) =>
+      ({ ...doc('/docs', content), source: 'web', metadata: { url } }) as unknown as Document;
+
+    expect(snapshotResults([page('https://a.example.com/docs', 'a'), page('https://b.example.com/docs', 'b')]))
+      .toEqual({
+        'web:https://a.example.com/docs': expect.any(String),
+        'web:https://b.example.com/docs': expect.any(String)
+      });
+  });
+});
+
+describe('SavedSearchService', () => {
+  let dir: string;
+  let results: Document[];
+  let events: AlertEvent[];
+  let service: SavedSearchService;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'saved-searches-'));
+    results = [doc('src/cache.ts', 'cache v1')];
+    events = [];
+    service = new SavedSearchService({
+      store: new SavedSearchFileStore(dir),
+      runSearch: async () => results,
+      notify: async event => {
+        events.push(event);
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should baseline on creation and round-trip filters', async () => {
+    const search = await service.create({
+      name: 'Cache',
+      query: 'cache',
+      topN: 5,
+      filters: { dateRange: { from: new Date('2026-01-01') } }
+    });
+
+    const [stored] = await service.list();
+    expect(stored.snapshot).toEqual(search.snapshot);
+    expect(stored.filters?.dateRange?.from).toEqual(new Date('2026-01-01'));
+    expect(await service.check({ trigger: 'manual' })).toEqual([]);
+    expect(events).toEqual([]);
+  });
+
+  it('should notify once for new or updated results and advance the snapshot', async () => {
+    const search = await service.create({ name: 'Cache', query: 'cache', topN: 5 });
+    results = [doc('src/cache.ts', 'cache v2'), doc('src/redis.ts', 'redis cache')];
+
+    const [notification] = await service.check({ trigger: 'local_ingest' });
+
+    expect(notification.savedSearchId).toBe(search.id);
+    expect(notification.matches.map(match => [match.filepath, match.change])).toEqual([
+      ['src/cache.ts', 'updated'],
+      ['src/redis.ts', 'new']
+    ]);
+    expect(events).toEqual([expect.objectContaining({
+      id: `saved-search:${search.id}`,
+      severity: 'info'
+    })]);
+    expect(await service.listNotifications()).toEqual([notification]);
+    expect(await service.check({ trigger: 'local_ingest' })).toEqual([]);
+  });
+
+  it('should ignore documents outside the change set', async () => {
+    await service.create({ name: 'Cache', query: 'cache', topN: 5 });
+    results = [doc('src/cache.ts', 'cache v1'), doc('src/redis.ts', 'redis cache')];
+
+    expect(await service.check({ trigger: 'crawl', changed: ['web:/docs'] })).toEqual([]);
+    expect(events).toEqual([]);
+  });
+
+  it('should not save a subscription deleted during a check', async () => {
+    const search = await service.create({ name: 'Cache', query: 'cache', topN: 5 });
+    const store = new SavedSearchFileStore(dir);
+    const checking = new SavedSearchService({
+      store,
+      runSearch: async () => {
+        await store.delete(search.id);
+        return [doc('src/redis.ts', 'redis cache')];
+      },
+      notify: async event => {
+        events.push(event);
+      }
+    });
+
+    expect(await checking.check({ trigger: 'manual' })).toEqual([]);
+    expect(await service.list()).toEqual([]);
+    expect(events).toEqual([]);
+  });
+
+  it('should keep every subscription saved concurrently through separate stores', async () => {
+    const other = new SavedSearchService({ store: new SavedSearchFileStore(dir), runSearch: async () => results });
+
+    await Promise.all([
+      service.create({ name: 'Cache', query: 'cache', topN: 5 }),
+      other.create({ name: 'Redis', query: 'redis', topN: 5 }),
+      service.create({ name: 'TTL', query: 'ttl', topN: 5 })
+    ]);
+
+    expect((await service.list()).map(search => search.name).sort()).toEqual(['Cache', 'Redis', 'TTL']);
+    expect(await readdir(dir)).toEqual(['searches.json']);
+  });
+
+  it('should delete subscriptions', async () => {
+    const search = await service.create({ name: 'Cache', query: 'cache', topN: 5 });
+
+    expect(await service.delete(search.id)).toBe(true);
+    expect(await service.delete(search.id)).toBe(false);
+    expect(await service.list()).toEqual([]);
+  });
+});
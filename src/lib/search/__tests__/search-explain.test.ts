@@ -0,0 +1,94 @@
+/**
+ * Search Explain Tests
+ * Covers explainScore parsing, factor construction and ranking
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseExplainScore, buildRankingFactors, explainRanking } from '../search-explain';
+import { DEFAULT_RECENCY_CONFIG, createDocumentId, type Document } from '../../../types/search';
+
+const EXPLAIN_SCORE =
+  '\nHybrid (Result Set keyword,bm25) Document 6f1c: original score 2.41, normalized score: 0.6 - ' +
+  '\nHybrid (Result Set vector,hybridVector) Document 6f1c: original score 0.83, normalized score: 1';
+
+function createDocument(id: string, score: number, overrides: Partial<Document> = {}): Document {
+  return {
+    id: createDocumentId(id),
+    content: id,
+    filepath: `${id}.ts`,
+    language: 'typescript',
+    source: 'github',
+    score,
+    priority: 1,
+    metadata: { size: 1, lastModified: new Date(), tags: [], checksum: id } as any,
+    ...overrides
+  };
+}
+
+describe('parseExplainScore', () => {
+  it('extracts keyword and vector result-set scores', () => {
+    expect(parseExplainScore(EXPLAIN_SCORE)).toEqual({
+      keyword: { original: 2.41, normalized: 0.6 },
+      vector: { original: 0.83, normalized: 1 }
+    });
+  });
+
+  it('returns no parts for missing or unrecognized explanations', () => {
+    expect(parseExplainScore(undefined)).toEqual({});
+    expect(parseExplainScore('(bm25) score 1.2')).toEqual({});
+  });
+});
+
+describe('buildRankingFactors', () => {
+  it('reports raw vector score, BM25 contribution and multipliers', () => {
+    const factors = buildRankingFactors(
+      { source: 'web', priority: 0.8, _additional: { score: '0.9', explainScore: EXPLAIN_SCORE } },
+      { alpha: 0.75, sourceWeights: { github: 1.2, web: 0.8 }, now: Date.now() }
+    );
+
+    expect(factors).toEqual({
+      vectorSimilarity: 0.83,
+      keywordMatches: 0.6 * 0.25,
+      hybridScore: 0.9,
+      sourceAuthority: 0.8,
+      priority: 0.8,
+      recency: 1
+    });
+  });
+
+  it('includes the recency factor when decay is configured', () => {
+    const now = Date.now();
+    const webHalfLife = DEFAULT_RECENCY_CONFIG.halfLifeDays.web;
+    const factors = buildRankingFactors(
+      {
+        source: 'web',
+        lastModified: new Date(now - webHalfLife * 24 * 60 * 60 * 1000).toISOString(),
+        _additional: { score: 0.5 }
+      },
+      { alpha: 0.75, sourceWeights: { github: 1, web: 1 }, recency: DEFAULT_RECENCY_CONFIG, now }
+    );
+
+    expect(factors.recency).toBeCloseTo(0.5);
+  });
+});
+
+describe('explainRanking', () => {
+  it('assigns ranks after the offset and keeps the final score', () => {
+    const explained = explainRanking([createDocument('a', 0.9), createDocument('b', 0.4)], { offset: 10 });
+
+    expect(explained.map(doc => [doc.id, doc.rank, doc.finalScore])).toEqual([['a', 11, 0.9], ['b', 12, 0.4]]);
+    expect(explained[0].rankingFactors.hybridScore).toBe(0.9);
+  });
+
+  it('merges rerank relevance and preserves existing factors', () => {
+    const factors = {
+      vectorSimilarity: 0.7, keywordMatches: 0.1, hybridScore: 0.6,
+      sourceAuthority: 1.2, priority: 1, recency: 1, memoryBoost: 0.1
+    };
+    const [explained] = explainRanking([createDocument('a', 0.8, { rankingFactors: factors })], {
+      rerankBreakdown: new Map([['a', { relevance: 0.95, recency: 1, authority: 0.5, diversity: 1, finalScore: 0.8 }]])
+    });
+
+    expect(explained.rankingFactors).toEqual({ ...factors, rerankRelevance: 0.95 });
+  });
+});
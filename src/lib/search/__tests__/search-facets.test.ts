@@ -0,0 +1,181 @@
+/**
+ * Search Facets Tests
+ * Covers Aggregate query construction, selection marking and summaries
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+jest.mock('../../weaviate/client', () => ({
+  createWeaviateClient: jest.fn()
+}));
+
+import { computeSearchFacets, buildSearchAggregation } from '../search-facets';
+import { createWeaviateClient } from '../../weaviate/client';
+import { createDocumentId, type Document, type SearchFacets } from '../../../types/search';
+
+const mockCreateWeaviateClient = createWeaviateClient as jest.MockedFunction<typeof createWeaviateClient>;
+
+interface AggregateCall {
+  fields?: string;
+  where?: any;
+  groupBy?: string[];
+  nearText?: unknown;
+  objectLimit?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Aggregate builder double that answers based on the requested fields
+ */
+function createAggregateClient(calls: AggregateCall[]) {
+  return {
+    graphql: {
+      aggregate: () => {
+        const call: AggregateCall = {};
+        calls.push(call);
+        const builder = {
+          withClassName: () => builder,
+          withFields: (fields: string) => { call.fields = fields; return builder; },
+          withWhere: (where: unknown) => { call.where = where; return builder; },
+          withGroupBy: (groupBy: string[]) => { call.groupBy = groupBy; return builder; },
+          withNearText: (nearText: unknown) => { call.nearText = nearText; return builder; },
+          withObjectLimit: (limit: number) => { call.objectLimit = limit; return builder; },
+          do: async () => {
+            if (call.groupBy?.[0] === 'source') {
+              return { data: { Aggregate: { Document: [
+                { groupedBy: { value: 'github' }, meta: { count: 12 } },
+                { groupedBy: { value: 'web' }, meta: { count: 4 } }
+              ] } } };
+            }
+            if (call.groupBy?.[0] === 'language') {
+              return { data: { Aggregate: { Document: [
+                { groupedBy: { value: 'typescript' }, meta: { count: 9 } },
+                { groupedBy: { value: 'markdown' }, meta: { count: 7 } }
+              ] } } };
+            }
+            if (call.fields?.includes('topOccurrences')) {
+              return { data: { Aggregate: { Document: [
+                { tags: { topOccurrences: [{ value: 'code', occurs: 10 }, { value: 'docs', occurs: 6 }] } }
+              ] } } };
+            }
+            return { data: { Aggregate: { Document: [{ meta: { count: 3 } }] } } };
+          }
+        };
+        return builder;
+      }
+    }
+  };
+}
+
+const createDocument = (id: string, score: number, lastModified: string): Document => ({
+  id: createDocumentId(id),
+  content: id,
+  filepath: `src/${id}.ts`,
+  language: 'typescript',
+  source: 'github',
+  score,
+  priority: 1.0,
+  metadata: {
+    size: 1,
+    wordCount: 1,
+    lines: 1,
+    encoding: 'utf-8',
+    mimeType: 'text/plain',
+    tags: [],
+    lastModified: new Date(lastModified),
+    created: new Date(lastModified),
+    checksum: id
+  }
+});
+
+describe('computeSearchFacets', () => {
+  let calls: AggregateCall[];
+
+  beforeEach(() => {
+    calls = [];
+    mockCreateWeaviateClient.mockImplementation(() => createAggregateClient(calls) as any);
+  });
+
+  it('should scope every aggregate to the query', async () => {
+    await computeSearchFacets('hybrid search');
+
+    expect(calls.length).toBeGreaterThan(0);
+    for (const call of calls) {
+      expect(call.nearText).toEqual({ concepts: ['hybrid search'] });
+      expect(call.objectLimit).toBe(200);
+    }
+  });
+
+  it('should return counts and mark selected values', async () => {
+    const facets = await computeSearchFacets('hybrid search', {
+      source: ['web'],
+      tags: ['docs', 'legacy']
+    });
+
+    expect(facets.sources).toEqual([
+      { value: 'github', count: 12, selected: false },
+      { value: 'web', count: 4, selected: true }
+    ]);
+    expect(facets.languages.every(facet => !facet.selected)).toBe(true);
+    expect(facets.tags).toEqual([
+      { value: 'code', count: 10, selected: false },
+      { value: 'docs', count: 6, selected: true },
+      { value: 'legacy', count: 0, selected: true }
+    ]);
+    expect(facets.dateRanges.map(facet => facet.range))
+      .toEqual(['past_week', 'past_month', 'past_year', 'older']);
+  });
+
+  it('should exclude a facet\'s own filter from its counts', async () => {
+    await computeSearchFacets('query', { source: ['web'], language: ['typescript'] });
+
+    const sourceCall = calls.find(call => call.groupBy?.[0] === 'source');
+    const languageCall = calls.find(call => call.groupBy?.[0] === 'language');
+
+    expect(sourceCall?.where).toEqual({ operator: 'Equal', path: ['language'], valueString: 'typescript' });
+    expect(languageCall?.where).toEqual({ operator: 'Equal', path: ['source'], valueString: 'web' });
+  });
+
+  it('should mark the date bucket matching the requested range', async () => {
+    const facets = await computeSearchFacets('query', {
+      dateRange: { from: new Date(Date.now() - 30 * DAY_MS) }
+    });
+
+    expect(facets.dateRanges.filter(facet => facet.selected).map(facet => facet.range))
+      .toEqual(['past_month']);
+    expect(facets.dateRanges.every(facet => facet.count === 3)).toBe(true);
+  });
+});
+
+describe('buildSearchAggregation', () => {
+  it('should combine facet totals with result distributions', () => {
+    const facets: SearchFacets = {
+      sources: [{ value: 'github', count: 12, selected: false }],
+      languages: [{ value: 'markdown', count: 7, selected: false }],
+      dateRanges: [],
+      tags: []
+    };
+
+    const aggregation = buildSearchAggregation(facets, [
+      createDocument('a', 0.95, '2024-03-10T00:00:00Z'),
+      createDocument('b', 0.5, '2024-03-20T00:00:00Z'),
+      createDocument('c', 0.1, '2024-01-05T00:00:00Z')
+    ]);
+
+    expect(aggregation.sources).toEqual({ github: 12, web: 0, local: 0 });
+    expect(aggregation.languages.markdown).toBe(7);
+    expect(aggregation.languages.python).toBe(0);
+    expect(aggregation.dateHistogram).toEqual([
+      { date: '2024-01', count: 1 },
+      { date: '2024-03', count: 2 }
+    ]);
+    expect(aggregation.scoreDistribution).toEqual([
+      { range: '0.0-0.2', count: 1 },
+      { range: '0.2-0.4', count: 0 },
+      { range: '0.4-0.6', count: 1 },
+      { range: '0.6-0.8', count: 0 },
+      { range: '0.8-1.0', count: 1 }
+    ]);
+  });
+});
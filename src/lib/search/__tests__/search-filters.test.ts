@@ -0,0 +1,158 @@
+/**
+ * Search Filter Translation Tests
+ * Verifies SearchFilters map onto Weaviate where-operators and cache signatures
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildWhereFilter,
+  applyResultFilters,
+  serializeSearchFilters
+} from '../search-filters';
+import { createDocumentId, type Document } from '../../../types/search';
+
+const createDocument = (id: string, score: number): Document => ({
+  id: createDocumentId(id),
+  content: `content ${id}`,
+  filepath: `${id}.ts`,
+  language: 'typescript',
+  source: 'github',
+  score,
+  priority: 1.0,
+  metadata: {
+    size: 10,
+    wordCount: 2,
+    lines: 1,
+    encoding: 'utf-8',
+    mimeType: 'text/plain',
+    tags: [],
+    lastModified: new Date('2025-01-01'),
+    created: new Date('2025-01-01'),
+    checksum: 'hash'
+  }
+});
+
+describe('buildWhereFilter', () => {
+  it('should return undefined when no filters are active', () => {
+    expect(buildWhereFilter(undefined)).toBeUndefined();
+    expect(buildWhereFilter({})).toBeUndefined();
+    expect(buildWhereFilter({ source: [], tags: [] })).toBeUndefined();
+  });
+
+  it('should use a single Equal operand for one value', () => {
+    expect(buildWhereFilter({ source: ['github'] })).toEqual({
+      operator: 'Equal',
+      path: ['source'],
+      valueString: 'github'
+    });
+  });
+
+  it('should OR multiple values of the same field', () => {
+    expect(buildWhereFilter({ language: ['typescript', 'python'] })).toEqual({
+      operator: 'Or',
+      operands: [
+        { operator: 'Equal', path: ['language'], valueString: 'typescript' },
+        { operator: 'Equal', path: ['language'], valueString: 'python' }
+      ]
+    });
+  });
+
+  it('should bound lastModified with the date range', () => {
+    const where = buildWhereFilter({
+      dateRange: { from: new Date('2025-01-01'), to: new Date('2025-06-30') }
+    });
+
+    expect(where).toEqual({
+      operator: 'And',
+      operands: [
+        { operator: 'GreaterThanEqual', path: ['lastModified'], valueDate: '2025-01-01T00:00:00.000Z' },
+        { operator: 'LessThanEqual', path: ['lastModified'], valueDate: '2025-06-30T00:00:00.000Z' }
+      ]
+    });
+  });
+
+  it('should match any of the requested tags', () => {
+    expect(buildWhereFilter({ tags: ['api', 'docs'] })).toEqual({
+      operator: 'ContainsAny',
+      path: ['tags'],
+      valueTextArray: ['api', 'docs']
+    });
+  });
+
+  it('should match path prefixes with Like', () => {
+    expect(buildWhereFilter({ paths: ['src/lib/security'] })).toEqual({
+      operator: 'Like',
+      path: ['filepath'],
+      valueString: 'src/lib/security*'
+    });
+  });
+
+  it('should AND different fields together', () => {
+    const where = buildWhereFilter({
+      source: ['github', 'web'],
+      language: ['markdown'],
+      dateRange: { from: new Date('2025-01-01') },
+      tags: ['guide']
+    });
+
+    expect(where?.operator).toBe('And');
+    expect(where?.operands).toHaveLength(4);
+    expect(where?.operands?.[0]).toMatchObject({ operator: 'Or' });
+    expect(where?.operands?.[1]).toMatchObject({ operator: 'Equal', path: ['language'] });
+    expect(where?.operands?.[2]).toMatchObject({ operator: 'GreaterThanEqual' });
+    expect(where?.operands?.[3]).toMatchObject({ operator: 'ContainsAny' });
+  });
+});
+
+describe('applyResultFilters', () => {
+  const documents = [
+    createDocument('a', 0.9),
+    createDocument('b', 0.6),
+    createDocument('c', 0.3)
+  ];
+
+  it('should fall back to the config minimum score', () => {
+    expect(applyResultFilters(documents, 0.5)).toHaveLength(2);
+  });
+
+  it('should prefer the filter minimum score', () => {
+    expect(applyResultFilters(documents, 0.1, { minScore: 0.8 })).toHaveLength(1);
+  });
+
+  it('should cap results at maxResults', () => {
+    const result = applyResultFilters(documents, 0, { maxResults: 2 });
+    expect(result.map(doc => doc.id)).toEqual(['a', 'b']);
+  });
+
+  it('should require phrases and drop excluded terms case-insensitively', () => {
+    expect(applyResultFilters(documents, 0, { phrases: ['Content B'] }).map(doc => doc.id)).toEqual(['b']);
+    expect(applyResultFilters(documents, 0, { exclude: ['A.ts', 'content c'] }).map(doc => doc.id)).toEqual(['b']);
+  });
+
+  it('should match exclusions on whole words only', () => {
+    const versioned = [createDocument('v1', 0.9), createDocument('catalog', 0.8), createDocument('log', 0.7)];
+
+    expect(applyResultFilters(versioned, 0, { exclude: ['1'] }).map(doc => doc.id)).toEqual(['v1', 'catalog', 'log']);
+    expect(applyResultFilters(versioned, 0, { exclude: ['log'] }).map(doc => doc.id)).toEqual(['v1', 'catalog']);
+  });
+});
+
+describe('serializeSearchFilters', () => {
+  it('should return undefined for empty filters', () => {
+    expect(serializeSearchFilters(undefined)).toBeUndefined();
+    expect(serializeSearchFilters({})).toBeUndefined();
+    expect(serializeSearchFilters({ source: [] })).toBeUndefined();
+  });
+
+  it('should be independent of value order', () => {
+    expect(serializeSearchFilters({ source: ['web', 'github'] }))
+      .toBe(serializeSearchFilters({ source: ['github', 'web'] }));
+  });
+
+  it('should distinguish different filters', () => {
+    expect(serializeSearchFilters({ language: ['python'] }))
+      .not.toBe(serializeSearchFilters({ language: ['typescript'] }));
+    expect(serializeSearchFilters({ dateRange: { from: new Date('2025-01-01') } }))
+      .toContain('2025-01-01T00:00:00.000Z');
+  });
+});
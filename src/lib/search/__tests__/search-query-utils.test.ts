@@ -0,0 +1,110 @@
+/**
+ * Search Query Utilities Tests
+ * Covers inline operator parsing, filter merging and processed queries
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseQuerySyntax,
+  mergeSearchFilters,
+  applyQuerySyntax,
+  processQuery
+} from '../search-query-utils';
+
+describe('parseQuerySyntax', () => {
+  it('should extract operators into filters and keep the free text', () => {
+    const parsed = parseQuerySyntax('rate limit path:src/lib/security lang:typescript source:github after:2025-01-01');
+
+    expect(parsed.query).toBe('rate limit');
+    expect(parsed.filters).toEqual({
+      source: ['github'],
+      language: ['typescript'],
+      paths: ['src/lib/security'],
+      dateRange: { from: new Date('2025-01-01') }
+    });
+  });
+
+  it('should parse quoted phrases and exclusions', () => {
+    const parsed = parseQuerySyntax('cache "sliding window" -redis -"legacy api" lang:ts lang:py');
+
+    expect(parsed.query).toBe('cache sliding window');
+    expect(parsed.filters).toEqual({
+      language: ['typescript', 'python'],
+      phrases: ['sliding window'],
+      exclude: ['redis', 'legacy api']
+    });
+  });
+
+  it('should keep numbers and command-line flags in the text', () => {
+    for (const query of ['what is -1 index', 'jest --watch', 'npm i --save-dev x', 'range 1-2 -5']) {
+      const parsed = parseQuerySyntax(query);
+
+      expect(parsed.query).toBe(query);
+      expect(parsed.filters).toEqual({});
+    }
+  });
+
+  it('should only negate a word that starts after whitespace', () => {
+    expect(parseQuerySyntax('pre-commit hooks -husky').filters).toEqual({ exclude: ['husky'] });
+  });
+
+  it('should leave unknown operators and invalid values in the text', () => {
+    const parsed = parseQuerySyntax('see https://example.com lang:cobol after:someday error');
+
+    expect(parsed.query).toBe('see https://example.com lang:cobol after:someday error');
+    expect(parsed.filters).toEqual({});
+  });
+
+  it('should fall back to operand values for operator-only queries', () => {
+    expect(parseQuerySyntax('path:src/lib/security lang:typescript').query).toBe('src/lib/security typescript');
+  });
+});
+
+describe('mergeSearchFilters', () => {
+  it('should return request filters untouched without inline operators', () => {
+    const base = { source: ['web' as const] };
+    expect(mergeSearchFilters(base, {})).toBe(base);
+    expect(mergeSearchFilters(undefined, {})).toBeUndefined();
+  });
+
+  it('should union lists and let inline date bounds win', () => {
+    const merged = mergeSearchFilters(
+      { source: ['web'], minScore: 0.2, dateRange: { from: new Date('2024-01-01'), to: new Date('2026-01-01') } },
+      { source: ['github', 'web'], dateRange: { from: new Date('2025-06-01') } }
+    );
+
+    expect(merged).toEqual({
+      source: ['web', 'github'],
+      minScore: 0.2,
+      dateRange: { from: new Date('2025-06-01'), to: new Date('2026-01-01') }
+    });
+  });
+});
+
+describe('applyQuerySyntax', () => {
+  it('should rewrite the query and filters and keep the original', () => {
+    const params = applyQuerySyntax({ query: 'retry source:web', limit: 5 });
+
+    expect(params).toEqual({
+      query: 'retry',
+      filters: { source: ['web'] },
+      limit: 5,
+      originalQuery: 'retry source:web'
+    });
+  });
+});
+
+describe('processQuery', () => {
+  it('should report inline filters and tokenize the free text only', () => {
+    const processed = processQuery('Rate Limit path:src/lib', 'technical', { paths: ['src/lib'] });
+
+    expect(processed).toMatchObject({
+      original: 'Rate Limit path:src/lib',
+      processed: 'rate limit',
+      tokens: ['rate', 'limit'],
+      filters: { paths: ['src/lib'] },
+      inlineFilters: { paths: ['src/lib'] }
+    });
+    expect(processQuery('plain query')).not.toHaveProperty('inlineFilters');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Search Response Utility Tests
+ * Covers NDJSON encoding and streamed search bodies
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createNdjsonSearchStream,
+  emitDocumentEvents,
+  encodeNdjsonEvent
+} from '../search-response-utils';
+import {
+  createDocumentId,
+  createQueryId,
+  type Document,
+  type SearchStreamEvent
+} from '../../../types/search';
+
+function doc(filepath: string): Document {
+  return { id: createDocumentId(`local:${filepath}`), filepath } as Document;
+}
+
+async function readLines(stream: ReadableStream<Uint8Array>): Promise<SearchStreamEvent[]> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    text += decoder.decode(chunk.value, { stream: true });
+  }
+  return text.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+describe('NDJSON search streams', () => {
+  it('should encode one event per line', () => {
+    expect(encodeNdjsonEvent({ type: 'error', error: { code: 'TIMEOUT', message: 'a\nb' } }))
+      .toBe('{"type":"error","error":{"code":"TIMEOUT","message":"a\\nb"}}\n');
+  });
+
+  it('should emit ranked document lines for a stage', async () => {
+    const events: SearchStreamEvent[] = [];
+    await emitDocumentEvents([doc('a.ts'), doc('b.ts')], 'reranked', event => events.push(event));
+
+    expect(events.map(event => event.type === 'document' && [event.stage, event.rank, event.document.filepath]))
+      .toEqual([['reranked', 1, 'a.ts'], ['reranked', 2, 'b.ts']]);
+  });
+
+  it('should stream events in order and close', async () => {
+    const queryId = createQueryId('q-1');
+    const stream = createNdjsonSearchStream(async emit => {
+      emit({
+        type: 'metadata',
+        queryId,
+        query: { original: 'cache', processed: 'cache', tokens: ['cache'] },
+        classification: { type: 'technical', confidence: 0.9, weights: { github: 1.5, web: 0.5 } }
+      });
+      await emitDocumentEvents([doc('a.ts')], 'scored', emit);
+    }, () => {
+      throw new Error('unexpected error');
+    });
+
+    expect((await readLines(stream)).map(event => event.type)).toEqual(['metadata', 'document']);
+  });
+
+  it('should end with an error line when the search fails mid-stream', async () => {
+    const stream = createNdjsonSearchStream(async emit => {
+      await emitDocumentEvents([doc('a.ts')], 'scored', emit);
+      throw new Error('Weaviate unavailable');
+    }, error => ({
+      success: false,
+      error: { code: 'SERVICE_UNAVAILABLE', message: (error as Error).message }
+    }));
+
+    const events = await readLines(stream);
+    expect(events.map(event => event.type)).toEqual(['document', 'error']);
+    expect(events[1]).toEqual({
+      type: 'error',
+      error: { code: 'SERVICE_UNAVAILABLE', message: 'Weaviate unavailable' }
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Similar Documents Tests
+ * Covers neighbour ranking, self and sibling exclusion and filters
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { findSimilarDocuments } from '../similar-documents';
+import { processSearchError, DocumentNotFoundError } from '../error-handler';
+import { InMemoryVectorStore, setVectorStore, createObjectId } from '../../vector-store';
+import { SimilarDocumentsRequestSchema } from '../../../types/search';
+
+const document = (source: string, filepath: string, content: string) => ({
+  id: createObjectId(`${source}:${filepath}`),
+  properties: { source, filepath, content, language: 'typescript', lastModified: '2026-09-01T00:00:00.000Z' }
+});
+
+const DOCUMENTS = [
+  document('github', 'src/cache/redis-cache.ts', 'redis cache get set ttl expire invalidate keys'),
+  document('github', 'src/cache/ttl-manager.ts', 'cache ttl expire keys refresh redis'),
+  document('github', 'src/search/cached-search.ts', 'search results cache redis ttl keys'),
+  document('web', 'docs/caching.md', 'caching guide redis ttl expire invalidate'),
+  document('github', 'src/ui/theme.css', 'color font serif layout')
+];
+const SOURCE_ID = DOCUMENTS[0].id;
+
+describe('findSimilarDocuments', () => {
+  beforeEach(async () => {
+    const store = new InMemoryVectorStore();
+    await store.upsert('Document', DOCUMENTS);
+    setVectorStore(store);
+  });
+
+  afterEach(() => {
+    setVectorStore(null);
+  });
+
+  it('should rank neighbours by similarity and exclude the source document', async () => {
+    const { documents } = await findSimilarDocuments({ documentId: SOURCE_ID, limit: 3 });
+
+    expect(documents).toHaveLength(3);
+    expect(documents.map(doc => doc.id)).not.toContain(SOURCE_ID);
+    expect(documents.map(doc => doc.filepath)).not.toContain('src/ui/theme.css');
+    expect(documents[0].score).toBeGreaterThanOrEqual(documents[2].score);
+    expect(documents[0].content).toBe('');
+  });
+
+  it('should optionally exclude documents from the same directory', async () => {
+    const result = await findSimilarDocuments({ documentId: SOURCE_ID, limit: 5, excludeSiblings: true });
+
+    expect(result.documents.map(doc => doc.filepath)).not.toContain('src/cache/ttl-manager.ts');
+    expect(result.excludedSiblings).toBe(1);
+  });
+
+  it('should respect search filters', async () => {
+    const { documents } = await findSimilarDocuments({
+      documentId: SOURCE_ID,
+      filters: { source: ['web'] },
+      includeContent: true
+    });
+
+    expect(documents.map(doc => doc.filepath)).toEqual(['docs/caching.md']);
+    expect(documents[0].content).toContain('caching guide');
+  });
+
+  it('should report unknown documents as not found', async () => {
+    const error = await findSimilarDocuments({ documentId: createObjectId('github:missing.ts') }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(DocumentNotFoundError);
+    expect(processSearchError(error).status).toBe(404);
+  });
+
+  it('should reject document ids that are not UUIDs', () => {
+    expect(SimilarDocumentsRequestSchema.safeParse({ documentId: SOURCE_ID }).success).toBe(true);
+    expect(SimilarDocumentsRequestSchema.safeParse({ documentId: 'missing' }).success).toBe(false);
+  });
+});
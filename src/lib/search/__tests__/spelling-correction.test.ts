@@ -0,0 +1,115 @@
+/**
+ * Spelling Correction Tests
+ * Covers vocabulary building, word and query correction and score comparison
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  CorpusVocabulary,
+  getCorpusVocabulary,
+  applySpellingFixes,
+  isSignificantImprovement
+} from '../spelling-correction';
+import { validateQuerySpelling } from '../search-validation';
+import { InMemoryVectorStore, setVectorStore, createObjectId } from '../../vector-store';
+import { createDocumentId, type Document } from '../../../types/search';
+
+const RATE_LIMITER_SOURCE = [
+  'import { createRateLimiter } from "./limiter"',
+  'export const rateLimiter = createRateLimiter({ windowMs: 60000 })',
+  'export function checkRateLimit(request) {',
+  '  return rateLimiter.check(request)',
+  '}'
+].join('\n');
+
+function scored(score: number): Document {
+  return { id: createDocumentId(`doc-${score}`), score } as Document;
+}
+
+describe('CorpusVocabulary', () => {
+  let vocabulary: CorpusVocabulary;
+
+  beforeEach(() => {
+    vocabulary = new CorpusVocabulary();
+    vocabulary.addDocument(RATE_LIMITER_SOURCE, 'src/lib/security/rate-limiter.ts');
+    vocabulary.addDocument('# Weaviate\nWeaviate stores the documents.', 'docs/architecture.md');
+  });
+
+  it('should correct misspelled identifiers to their indexed spelling', () => {
+    expect(vocabulary.correctWord('Weavaite')).toBe('Weaviate');
+    expect(vocabulary.correctWord('ratelimter')).toBe('rateLimiter');
+    expect(vocabulary.correctWord('checkRateLimt')).toBe('checkRateLimit');
+  });
+
+  it('should leave known, short, numeric and unmatched words alone', () => {
+    expect(vocabulary.correctWord('RATELIMITER')).toBeNull();
+    expect(vocabulary.correctWord('impr')).toBeNull();
+    expect(vocabulary.correctWord('v2limiter')).toBeNull();
+    expect(vocabulary.correctWord('kubernetes')).toBeNull();
+  });
+
+  it('should correct every unknown word of a query', () => {
+    expect(vocabulary.correctQuery('why does ratelimter reject Weavaite calls')).toEqual({
+      query: 'why does rateLimiter reject Weaviate calls',
+      corrections: [
+        { from: 'ratelimter', to: 'rateLimiter' },
+        { from: 'Weavaite', to: 'Weaviate' }
+      ]
+    });
+    expect(vocabulary.correctQuery('rateLimiter')).toBeNull();
+  });
+});
+
+describe('spelling helpers', () => {
+  it('should apply fixes to whole words only', () => {
+    expect(applySpellingFixes('lang:ts ratelimter ratelimters', [{ from: 'ratelimter', to: 'rateLimiter' }]))
+      .toBe('lang:ts rateLimiter ratelimters');
+  });
+
+  it('should require a much better top score', () => {
+    expect(isSignificantImprovement([scored(0.2)], [scored(0.5), scored(0.1)])).toBe(true);
+    expect(isSignificantImprovement([scored(0.4)], [scored(0.5)])).toBe(false);
+    expect(isSignificantImprovement([], [scored(0.3)])).toBe(true);
+    expect(isSignificantImprovement([], [])).toBe(false);
+  });
+});
+
+describe('validateQuerySpelling', () => {
+  afterEach(() => {
+    setVectorStore(null);
+  });
+
+  it('should build the vocabulary from stored documents', async () => {
+    const store = new InMemoryVectorStore();
+    await store.upsert('Document', [{
+      id: createObjectId('local:src/lib/security/rate-limiter.ts'),
+      properties: { content: RATE_LIMITER_SOURCE, filepath: 'src/lib/security/rate-limiter.ts' }
+    }]);
+    setVectorStore(store);
+    await getCorpusVocabulary().refreshIfStale();
+
+    expect(await validateQuerySpelling('ratelimter', 'off')).toBeNull();
+    expect(await validateQuerySpelling('ratelimter')).toEqual({
+      query: 'rateLimiter',
+      corrections: [{ from: 'ratelimter', to: 'rateLimiter' }]
+    });
+  });
+
+  it('should keep the current vocabulary until a refresh completes', async () => {
+    const store = new InMemoryVectorStore();
+    await store.upsert('Document', [{
+      id: createObjectId('local:docs/architecture.md'),
+      properties: { content: 'Weaviate stores the documents.', filepath: 'docs/architecture.md' }
+    }]);
+    setVectorStore(store);
+    const vocabulary = new CorpusVocabulary();
+    vocabulary.addDocument(RATE_LIMITER_SOURCE);
+
+    const refresh = vocabulary.refreshIfStale();
+    expect(vocabulary.has('rateLimiter')).toBe(true);
+    await refresh;
+
+    expect(vocabulary.has('rateLimiter')).toBe(false);
+    expect(vocabulary.has('weaviate')).toBe(true);
+  });
+});
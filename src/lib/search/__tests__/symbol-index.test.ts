@@ -0,0 +1,144 @@
+/**
+ * Symbol Index Tests
+ * Covers exact and fuzzy lookup, identifier detection and store warm-up
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { SymbolIndex, formatSymbolContext } from '../symbol-index';
+import { extractSymbols } from '../../ingestion/symbol-extractor';
+import { InMemoryVectorStore, setVectorStore, createObjectId } from '../../vector-store';
+
+const CACHE_SOURCE = [
+  'export class RedisCacheManager {',
+  '  async get(key: string) {',
+  '    return null',
+  '  }',
+  '}',
+  'export function getCacheManager() {',
+  '  return new RedisCacheManager()',
+  '}'
+].join('\n');
+
+describe('SymbolIndex', () => {
+  let index: SymbolIndex;
+
+  beforeEach(() => {
+    index = new SymbolIndex();
+    index.addFile(
+      { filepath: 'src/lib/cache/redis-cache-manager.ts', language: 'typescript', source: 'github' },
+      extractSymbols(CACHE_SOURCE, 'typescript')
+    );
+    index.addFile(
+      { filepath: 'crawler/fetch.py', language: 'python', source: 'local' },
+      extractSymbols('def get_cache_manager():\n    pass\n', 'python')
+    );
+  });
+
+  it('should look up names and qualified names, preferring exact case', () => {
+    expect(index.lookup('RedisCacheManager.get')).toEqual([
+      expect.objectContaining({ kind: 'method', startLine: 2, endLine: 4, filepath: 'src/lib/cache/redis-cache-manager.ts' })
+    ]);
+    expect(index.lookup('getCacheManager').map(symbol => symbol.filepath)).toEqual(['src/lib/cache/redis-cache-manager.ts']);
+    expect(index.lookup('rediscachemanager')).toHaveLength(1);
+    expect(index.lookup('missing')).toEqual([]);
+  });
+
+  it('should rank fuzzy matches below exact and prefix matches', () => {
+    const matches = index.search('getcachemanager');
+
+    expect(matches[0]).toMatchObject({ matchType: 'exact', symbol: { name: 'getCacheManager' } });
+    expect(matches.map(match => match.symbol.name)).toContain('get_cache_manager');
+    expect(index.search('RedisCahceManager')[0]).toMatchObject({
+      matchType: 'fuzzy',
+      symbol: { name: 'RedisCacheManager' }
+    });
+  });
+
+  it('should find identifiers mentioned in free text', () => {
+    const matches = index.findInText('why does getCacheManager return null from `get_cache_manager`?');
+
+    expect(matches.map(match => match.symbol.qualifiedName).sort()).toEqual(['getCacheManager', 'get_cache_manager']);
+    expect(index.findInText('how does caching work')).toEqual([]);
+  });
+
+  it('should replace and remove the symbols of a file', () => {
+    index.addFile({ filepath: 'crawler/fetch.py', language: 'python', source: 'local' }, []);
+
+    expect(index.lookup('get_cache_manager')).toEqual([]);
+    expect(index.size).toBe(3);
+  });
+
+  it('should format definitions for prompt context', () => {
+    expect(formatSymbolContext(index.lookup('RedisCacheManager'))).toBe(
+      'RedisCacheManager (class) - src/lib/cache/redis-cache-manager.ts:1-5'
+    );
+  });
+});
+
+function symbolProperties(name: string): Record<string, unknown> {
+  return {
+    name,
+    qualifiedName: name,
+    kind: 'function',
+    exported: true,
+    source: 'local',
+    language: 'typescript',
+    startLine: 1,
+    endLine: 2
+  };
+}
+
+describe('SymbolIndex warm-up', () => {
+  afterEach(() => {
+    setVectorStore(null);
+  });
+
+  it('should load stored symbols once per interval', async () => {
+    const store = new InMemoryVectorStore();
+    await store.upsert('Symbol', [{
+      id: createObjectId('local:src/retry.ts@retryWithBackoff'),
+      properties: {
+        name: 'retryWithBackoff',
+        qualifiedName: 'retryWithBackoff',
+        kind: 'function',
+        exported: true,
+        filepath: 'src/retry.ts',
+        source: 'local',
+        language: 'typescript',
+        startLine: 3,
+        endLine: 12
+      }
+    }]);
+    setVectorStore(store);
+
+    const index = new SymbolIndex();
+    await Promise.all([index.refreshIfStale(), index.refreshIfStale()]);
+    await store.delete('Symbol', [createObjectId('local:src/retry.ts@retryWithBackoff')]);
+    await index.refreshIfStale();
+
+    expect(index.lookup('retryWithBackoff')).toEqual([
+      expect.objectContaining({ filepath: 'src/retry.ts', startLine: 3, endLine: 12, source: 'local' })
+    ]);
+  });
+
+  it('should page through stored symbols and drop deleted ones on rebuild', async () => {
+    const store = new InMemoryVectorStore();
+    await store.upsert('Symbol', ['alphaTask', 'betaTask', 'gammaTask'].map(name => ({
+      id: createObjectId(`local:src/tasks.ts@${name}`),
+      properties: { ...symbolProperties(name), filepath: 'src/tasks.ts' }
+    })));
+    setVectorStore(store);
+    const getByFilter = jest.spyOn(store, 'getByFilter');
+
+    const index = new SymbolIndex();
+    await index.refreshIfStale();
+    expect(index.size).toBe(3);
+    expect(getByFilter.mock.calls.every(([params]) => params.limit <= 10000)).toBe(true);
+
+    await store.delete('Symbol', [createObjectId('local:src/tasks.ts@betaTask')]);
+    await index.refreshIfStale(Date.now() + 11 * 60 * 1000);
+
+    expect(index.size).toBe(2);
+    expect(index.lookup('betaTask')).toEqual([]);
+  });
+});
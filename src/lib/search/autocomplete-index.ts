@@ -0,0 +1,352 @@
+/**
+ * Autocomplete Prefix Index
+ * In-memory completions from file paths, code symbols and past queries
+ */
+
+import { getVectorStore, scanObjects } from '../vector-store';
+import { getSymbolIndex } from './symbol-index';
+import type { CodeSymbolKind, IndexedSymbol } from '../../types/code-symbols';
+import type {
+  AutoCompleteRequest,
+  Document,
+  DocumentSource,
+  SearchSuggestion
+} from '../../types/search';
+
+type SuggestionType = SearchSuggestion['type'];
+
+interface IndexEntry {
+  readonly text: string;
+  readonly type: SuggestionType;
+  readonly source?: DocumentSource;
+  readonly context?: string;
+  weight: number;
+}
+
+interface IndexKey {
+  readonly key: string;
+  readonly entryId: string;
+  // Full-text keys rank above keys starting at an inner word
+  readonly isFullText: boolean;
+}
+
+interface ScoredMatch {
+  readonly entry: IndexEntry;
+  readonly score: number;
+}
+
+const DEFAULT_SUGGESTION_LIMIT = 8;
+const MAX_STORED_QUERIES = 1000;
+const MIN_FUZZY_PREFIX_LENGTH = 4;
+const WARM_PAGE_SIZE = 100;
+const MAX_WARM_OBJECTS = 5000;
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+const TYPE_WEIGHTS: Record<SuggestionType, number> = {
+  query: 1.0,
+  function: 0.9,
+  class: 0.9,
+  file: 0.8,
+  concept: 0.7
+};
+
+const MATCH_WEIGHTS = {
+  fullText: 1.0,
+  wordStart: 0.8,
+  fuzzy: 0.5
+} as const;
+
+// Declarations suggested as completions; plain constants are left out
+const SUGGESTED_SYMBOL_TYPES: Partial<Record<CodeSymbolKind, 'function' | 'class'>> = {
+  function: 'function',
+  method: 'function',
+  class: 'class',
+  interface: 'class'
+};
+
+/**
+ * Lowercases and collapses whitespace
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Suffixes of the text that start at a word boundary: path segments,
+ * camelCase humps, snake_case and kebab-case parts and spaces
+ */
+function wordStartKeys(text: string): string[] {
+  const keys = new Set<string>();
+  const boundary = /[/\\._\-\s]([A-Za-z0-9])|[a-z0-9]([A-Z])/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    keys.add(normalize(text.slice(match.index + 1)));
+  }
+
+  return [...keys].filter(key => key.length > 0);
+}
+
+/**
+ * Edit distance with adjacent transpositions, capped at 2 for fuzzy prefix matching
+ */
+function boundedEditDistance(a: string, b: string): number {
+  if (Math.abs(a.length - b.length) > 1) return 2;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > 1) return 2;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], 2);
+}
+
+/**
+ * Prefix index over completion entries
+ * Keys are kept in a sorted array and searched with binary search; the
+ * array is rebuilt lazily after writes
+ */
+export class AutocompleteIndex {
+  private readonly entries = new Map<string, IndexEntry>();
+  private sortedKeys: IndexKey[] = [];
+  private dirty = false;
+  private queryCount = 0;
+  private lastWarmed = 0;
+  private warming: Promise<void> | null = null;
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Adds an entry or raises the weight of an existing one
+   */
+  add(
+    text: string,
+    type: SuggestionType,
+    options: { source?: DocumentSource; context?: string; weight?: number } = {}
+  ): void {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    const id = `${type}:${type === 'query' ? normalize(trimmed) : trimmed}`;
+    const existing = this.entries.get(id);
+    if (existing) {
+      existing.weight += options.weight ?? 1;
+      return;
+    }
+
+    this.entries.set(id, {
+      text: trimmed,
+      type,
+      source: options.source,
+      context: options.context,
+      weight: options.weight ?? 1
+    });
+    if (type === 'query') this.queryCount++;
+    this.dirty = true;
+  }
+
+  /**
+   * Indexes a document path
+   */
+  addDocument(doc: Pick<Document, 'filepath' | 'source'>): void {
+    if (!doc.filepath) return;
+
+    this.add(doc.filepath, 'file', { source: doc.source, context: doc.source });
+  }
+
+  /**
+   * Indexes functions, methods, classes and interfaces by qualified name
+   */
+  addSymbols(symbols: readonly IndexedSymbol[]): void {
+    for (const symbol of symbols) {
+      const type = SUGGESTED_SYMBOL_TYPES[symbol.kind];
+      if (type) this.add(symbol.qualifiedName, type, { source: symbol.source, context: symbol.filepath });
+    }
+  }
+
+  /**
+   * Records a query that returned results, along with the paths it surfaced
+   */
+  recordSearch(query: string, documents: readonly Document[]): void {
+    if (documents.length === 0) return;
+
+    this.add(query, 'query');
+    for (const doc of documents) {
+      this.add(doc.filepath, 'file', { source: doc.source, context: doc.source });
+    }
+    this.evictQueries();
+  }
+
+  /**
+   * Ranked prefix completions, falling back to fuzzy matches when the
+   * prefix alone does not fill the limit
+   */
+  suggest(request: AutoCompleteRequest): SearchSuggestion[] {
+    const partial = normalize(request.partial);
+    const limit = request.limit ?? DEFAULT_SUGGESTION_LIMIT;
+    if (!partial || limit <= 0) return [];
+
+    this.rebuildIfDirty();
+
+    const allowedSources = request.context && request.context.length > 0
+      ? new Set(request.context)
+      : null;
+    const best = new Map<string, ScoredMatch>();
+
+    const consider = (key: IndexKey, matchWeight: number) => {
+      const entry = this.entries.get(key.entryId);
+      if (!entry) return;
+      if (allowedSources && entry.type !== 'query' && (!entry.source || !allowedSources.has(entry.source))) return;
+
+      const score = TYPE_WEIGHTS[entry.type] * matchWeight * (1 + Math.log1p(entry.weight));
+      const current = best.get(key.entryId);
+      if (!current || score > current.score) {
+        best.set(key.entryId, { entry, score });
+      }
+    };
+
+    for (const key of this.prefixRange(partial)) {
+      consider(key, key.isFullText ? MATCH_WEIGHTS.fullText : MATCH_WEIGHTS.wordStart);
+    }
+
+    if (best.size < limit && partial.length >= MIN_FUZZY_PREFIX_LENGTH) {
+      for (const key of this.sortedKeys) {
+        if (best.has(key.entryId)) continue;
+        if (boundedEditDistance(partial, key.key.slice(0, partial.length)) <= 1) {
+          consider(key, MATCH_WEIGHTS.fuzzy);
+        }
+      }
+    }
+
+    const ranked = [...best.values()]
+      .sort((a, b) => b.score - a.score || a.entry.text.length - b.entry.text.length)
+      .slice(0, limit);
+    const topScore = ranked[0]?.score ?? 1;
+
+    return ranked.map(({ entry, score }) => ({
+      text: entry.text,
+      type: entry.type,
+      confidence: Math.round((score / topScore) * 100) / 100,
+      context: entry.context
+    }));
+  }
+
+  /**
+   * Loads paths from the vector store and symbols from the symbol index
+   * when the index is stale
+   * Concurrent callers share one refresh
+   */
+  async refreshIfStale(now: number = Date.now()): Promise<void> {
+    if (now - this.lastWarmed < REFRESH_INTERVAL_MS) return;
+    if (!this.warming) {
+      this.warming = this.warmFromStore()
+        .then(() => { this.lastWarmed = Date.now(); })
+        .finally(() => { this.warming = null; });
+    }
+    return this.warming;
+  }
+
+  /**
+   * Pages through stored document paths with the cursor API, then adds the
+   * symbols the symbol index loaded from the Symbol class
+   */
+  private async warmFromStore(): Promise<void> {
+    await scanObjects<{ filepath: string; source: string }>(
+      getVectorStore(),
+      {
+        className: 'Document',
+        fields: ['filepath', 'source'],
+        pageSize: WARM_PAGE_SIZE,
+        maxObjects: MAX_WARM_OBJECTS
+      },
+      page => {
+        for (const doc of page) {
+          this.addDocument({ filepath: doc.filepath, source: doc.source as DocumentSource });
+        }
+      }
+    );
+
+    const symbols = getSymbolIndex();
+    // Path completions still work when the store has no Symbol class
+    await symbols.refreshIfStale().catch(error => {
+      console.warn('Symbol index refresh failed:', error);
+    });
+    this.addSymbols(symbols.list());
+  }
+
+  /**
+   * Keys starting with the prefix, located with binary search
+   */
+  private prefixRange(prefix: string): IndexKey[] {
+    let low = 0;
+    let high = this.sortedKeys.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.sortedKeys[mid].key < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const matches: IndexKey[] = [];
+    for (let i = low; i < this.sortedKeys.length && this.sortedKeys[i].key.startsWith(prefix); i++) {
+      matches.push(this.sortedKeys[i]);
+    }
+    return matches;
+  }
+
+  private rebuildIfDirty(): void {
+    if (!this.dirty) return;
+
+    const keys: IndexKey[] = [];
+    for (const [entryId, entry] of this.entries) {
+      keys.push({ key: normalize(entry.text), entryId, isFullText: true });
+      for (const key of wordStartKeys(entry.text)) {
+        keys.push({ key, entryId, isFullText: false });
+      }
+    }
+
+    this.sortedKeys = keys.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    this.dirty = false;
+  }
+
+  /**
+   * Drops the least used queries once the cap is exceeded
+   */
+  private evictQueries(): void {
+    if (this.queryCount <= MAX_STORED_QUERIES) return;
+
+    const queries = [...this.entries.entries()].filter(([, entry]) => entry.type === 'query');
+    queries
+      .sort(([, a], [, b]) => a.weight - b.weight)
+      .slice(0, queries.length - MAX_STORED_QUERIES)
+      .forEach(([id]) => this.entries.delete(id));
+    this.queryCount = MAX_STORED_QUERIES;
+    this.dirty = true;
+  }
+}
+
+let autocompleteIndex: AutocompleteIndex | null = null;
+
+/**
+ * Process-wide autocomplete index
+ */
+export function getAutocompleteIndex(): AutocompleteIndex {
+  if (!autocompleteIndex) {
+    autocompleteIndex = new AutocompleteIndex();
+  }
+  return autocompleteIndex;
+}
@@ -13,16 +13,29 @@ import {
   type Document,
   type SearchMetadata
 } from '../../types/search';
-import type { SourceWeights } from '../../types/query-classification';
+import { DEFAULT_QUERY_TYPE, type QueryType, type SourceWeights } from '../../types/query-classification';
+import type { GlossaryExpansion } from '../../types/glossary';
 import { classifyQueryWithMetrics } from './query-classifier';
 import { performHybridSearch } from './hybrid-search';
+import { performMultiQuerySearch } from './multi-query';
+import { performHierarchicalSearch } from './hierarchical-search';
 import {
   generateSearchSuggestions,
   buildSearchMetadata,
   processQuery,
   filterDocumentContent
 } from './search-utils';
+import { applyQuerySyntax } from './search-query-utils';
 import { createTimeoutController, validateQueryConstraints } from './search-validation';
+import { serializeSearchFilters } from './search-filters';
+import { rerankSearchResults } from './rerank';
+import { explainRanking } from './search-explain';
+import {
+  expandQueryWithGlossary,
+  collectExpansionTerms,
+  appendExpansionTerms,
+  formatGlossaryEntities
+} from './glossary';
 import { getCacheManager, createCacheContext } from '../cache/redis-cache';
 import { getEmbeddingService } from '../cache/embedding-service';
 
@@ -40,6 +53,9 @@ export interface CachedSearchExecutionParams {
   readonly userId?: string;
   readonly context?: string;
   readonly forceFresh?: boolean;
+  readonly explain?: boolean;
+  readonly skipClassification?: boolean; // Only honored with explicit weights (e.g. from chat routing)
+  readonly queryType?: QueryType; // Classification of a routed query, used when classification is skipped
 }
 
 /**
@@ -56,13 +72,19 @@ export class CachedSearchOrchestrator {
       createCacheContext?: typeof createCacheContext;
       createTimeoutController?: typeof createTimeoutController;
       validateQueryConstraints?: typeof validateQueryConstraints;
+      rerankSearchResults?: typeof rerankSearchResults;
+      performMultiQuerySearch?: typeof performMultiQuerySearch;
+      performHierarchicalSearch?: typeof performHierarchicalSearch;
     }
   ) {}
 
   /**
    * Execute search workflow with simplified caching logic
    */
-  async search(params: CachedSearchExecutionParams): Promise<SearchResponse> {
+  async search(requestParams: CachedSearchExecutionParams): Promise<SearchResponse> {
+    // Inline operators such as lang: and path: become filters (and cache-key filters)
+    const params = applyQuerySyntax(requestParams);
+
     // Use injected dependencies or defaults
     const _getCacheManager = this.deps?.getCacheManager || getCacheManager;
     const _getEmbeddingService = this.deps?.getEmbeddingService || getEmbeddingService;
@@ -71,6 +93,9 @@ export class CachedSearchOrchestrator {
     const _createCacheContext = this.deps?.createCacheContext || createCacheContext;
     const _createTimeoutController = this.deps?.createTimeoutController || createTimeoutController;
     const _validateQueryConstraints = this.deps?.validateQueryConstraints || validateQueryConstraints;
+    const _rerankSearchResults = this.deps?.rerankSearchResults || rerankSearchResults;
+    const _performMultiQuerySearch = this.deps?.performMultiQuerySearch || performMultiQuerySearch;
+    const _performHierarchicalSearch = this.deps?.performHierarchicalSearch || performHierarchicalSearch;
 
     // 1) Validate & build context
     _validateQueryConstraints(params.query);
@@ -78,10 +103,36 @@ export class CachedSearchOrchestrator {
     const cacheManager = _getCacheManager();
     const embeddingService = _getEmbeddingService();
 
+    // Merge partial config with defaults (allows overriding specific fields like embeddingModel)
+    const mergedConfig: SearchConfig = {
+      ...DEFAULT_SEARCH_CONFIG,
+      ...params.config
+    };
+
+    // Glossary synonyms inform classification and are searched at reduced weight
+    const glossaryExpansions = await expandQueryWithGlossary(params.query);
+    const expansionTerms = collectExpansionTerms(glossaryExpansions);
+
+    // Filters, config and glossary expansions that change the results are
+    // part of the key so variants and glossary edits never share entries;
+    // defaults stay out of it
+    const strategy = mergedConfig.retrievalStrategy;
+    const variantSignature = [
+      serializeSearchFilters(params.filters),
+      strategy && strategy !== 'hybrid' ? `strategy:${strategy}` : undefined,
+      mergedConfig.rerankEnabled ? undefined : 'rerank:off',
+      mergedConfig.contextTokenBudget ? `context:${mergedConfig.contextTokenBudget}` : undefined,
+      mergedConfig.embeddingModel ? `embedding:${mergedConfig.embeddingModel}` : undefined,
+      expansionTerms.length > 0 ? `glossary:${expansionTerms.join(',')}` : undefined,
+      // Routed query types weight authority when classification is skipped
+      params.queryType ? `type:${params.queryType}` : undefined,
+      params.explain ? 'explain' : undefined
+    ].filter(Boolean).join('|');
     const cacheCtx = _createCacheContext(
       params.sessionId,
       params.userId,
-      params.weights as Record<string, number> | undefined
+      params.weights as Record<string, number> | undefined,
+      variantSignature || undefined
     );
 
     // 2) Timeout controller setup
@@ -96,7 +147,13 @@ export class CachedSearchOrchestrator {
         const cached = await cacheManager.getSearchResults(params.query, cacheCtx);
         if (cached?.documents?.length) {
           cleanup();
-          return this.buildResponse(params, cached.documents as any, true);
+          return this.buildResponse(
+            params,
+            cached.documents as any,
+            true,
+            Boolean(cached.metadata?.reranked),
+            glossaryExpansions
+          );
         }
       }
 
@@ -108,38 +165,59 @@ export class CachedSearchOrchestrator {
         forceFresh: params.forceFresh
       });
 
-      const { classification } = await _classifyQueryWithMetrics(params.query, {
-        timeout: params.timeout,
-      });
+      // Routed callers that already weighted the query can skip re-classifying it
+      const classification = params.skipClassification && params.weights
+        ? undefined
+        : (await _classifyQueryWithMetrics(
+          appendExpansionTerms(params.query, expansionTerms),
+          { timeout: params.timeout }
+        )).classification;
 
-      const sourceWeights = params.weights || classification.weights;
+      const sourceWeights = params.weights || classification!.weights;
 
-      // Merge partial config with defaults (allows overriding specific fields like embeddingModel)
-      const mergedConfig: SearchConfig = {
-        ...DEFAULT_SEARCH_CONFIG,
-        ...params.config
-      };
-
-      const { documents } = await _performHybridSearch({
+      const searchParams = {
         query: params.query,
         config: mergedConfig,
         sourceWeights,
         limit: params.limit,
-        offset: params.offset
+        offset: params.offset,
+        filters: params.filters,
+        explain: params.explain,
+        // Explicit weights set the per-source base; authority weighting always applies
+        queryType: classification?.type ?? params.queryType ?? DEFAULT_QUERY_TYPE,
+        ...(expansionTerms.length > 0 && { expansions: expansionTerms })
+      };
+      const { documents: candidates, searchTime } = strategy === 'multi_query'
+        ? await _performMultiQuerySearch(searchParams)
+        : strategy === 'hierarchical'
+          ? await _performHierarchicalSearch(searchParams, { fallback: _performHybridSearch })
+          : await _performHybridSearch(searchParams);
+
+      // 5) Rerank before caching so cache hits serve the reranked order
+      const { documents: rerankedDocuments, reranked, breakdown } = await _rerankSearchResults({
+        query: params.query,
+        documents: candidates,
+        enabled: mergedConfig.rerankEnabled,
+        config: { topK: params.limit },
+        context: { queryEmbedding: embeddingResult?.embedding }
       });
+      // Explanations are cached with the results so hits keep rerank factors
+      const documents = params.explain
+        ? explainRanking(rerankedDocuments, { offset: params.offset, rerankBreakdown: breakdown })
+        : rerankedDocuments;
 
       if (cacheManager.isAvailable() && documents.length) {
         // best-effort write; do not block response
         void cacheManager.setSearchResults(
           params.query,
           documents as any,
-          {} as any,
+          { query: params.query, resultCount: documents.length, searchTime, reranked },
           cacheCtx
         ).catch(() => {});
       }
 
       cleanup();
-      return this.buildResponse(params, documents, false);
+      return this.buildResponse(params, documents, false, reranked, glossaryExpansions);
     } catch (error) {
       cleanup();
       throw error;
@@ -147,9 +225,11 @@ export class CachedSearchOrchestrator {
   }
 
   private buildResponse(
-    params: CachedSearchExecutionParams,
+    params: CachedSearchExecutionParams & { readonly originalQuery?: string },
     documents: Document[],
-    cacheHit: boolean
+    cacheHit: boolean,
+    reranked: boolean = false,
+    glossaryExpansions: readonly GlossaryExpansion[] = []
   ): SearchResponse {
     const queryId = createQueryId(randomUUID());
     const processedDocuments = filterDocumentContent(
@@ -170,10 +250,14 @@ export class CachedSearchOrchestrator {
         maxScore: documents.reduce((m, r) => Math.max(m, r.score ?? 0), 0),
         minScore: documents.reduce((m, r) => Math.min(m, r.score ?? 0), 0),
         searchTime: 0,
-        reranked: false,
+        reranked,
+        filters: params.filters,
         config: params.config || DEFAULT_SEARCH_CONFIG
       } as SearchMetadata,
-      query: processQuery(params.query, 'technical', params.filters),
+      query: {
+        ...processQuery(params.originalQuery ?? params.query, 'technical', params.filters),
+        entities: formatGlossaryEntities(glossaryExpansions)
+      },
       suggestions: generateSearchSuggestions(params.query, documents)
     };
   }
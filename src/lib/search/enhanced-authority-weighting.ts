@@ -6,7 +6,7 @@
 import type { QueryType, SourceWeights } from '../../types/query-classification';
 import type { SourceAuthority } from '../../types/source-attribution';
 import { SOURCE_WEIGHT_CONFIGS } from '../../types/query-classification';
-import { AUTHORITY_WEIGHTS } from '../../types/source-attribution';
+import { AUTHORITY_WEIGHTS, SourceAuthoritySchema } from '../../types/source-attribution';
 
 export interface EnhancedSourceWeights extends SourceWeights {
   readonly authority?: Record<SourceAuthority, number>;
@@ -15,6 +15,8 @@ export interface EnhancedSourceWeights extends SourceWeights {
 export interface WeightingContext {
   readonly queryType: QueryType;
   readonly sourceType: 'github' | 'web';
+  // Replaces the query type's weight for the source, e.g. with caller weights
+  readonly baseWeight?: number;
   readonly authority?: SourceAuthority;
   readonly contentType?: 'code' | 'documentation' | 'general';
 }
@@ -24,7 +26,7 @@ export interface WeightingContext {
  */
 export function calculateEnhancedWeight(context: WeightingContext): number {
   // Base weight from query classification
-  const baseWeight = SOURCE_WEIGHT_CONFIGS[context.queryType][context.sourceType];
+  const baseWeight = context.baseWeight ?? SOURCE_WEIGHT_CONFIGS[context.queryType][context.sourceType];
 
   // Authority multiplier (defaults to 1.0 if no authority specified)
   const authorityMultiplier = context.authority
@@ -56,6 +58,32 @@ function getContentTypeBonus(context: WeightingContext): number {
   return 1.0;
 }
 
+/**
+ * Source weight for a stored search hit
+ * With a query type, combines the source weight, the authority stored at
+ * ingestion and the content type; without one, uses the plain source weights
+ */
+export function calculateDocumentSourceWeight(
+  doc: { source?: string; authority?: string; isCode?: boolean; isDocumentation?: boolean },
+  sourceWeights: SourceWeights,
+  queryType?: QueryType
+): number {
+  if (!queryType) {
+    return sourceWeights[doc.source as keyof SourceWeights] || 1.0;
+  }
+
+  const authority = SourceAuthoritySchema.safeParse(doc.authority);
+  // Local ingestion stores repository files, so it is weighted like GitHub
+  const sourceType = doc.source === 'web' ? 'web' : 'github';
+  return calculateEnhancedWeight({
+    queryType,
+    sourceType,
+    baseWeight: sourceWeights[sourceType],
+    authority: authority.success ? authority.data : undefined,
+    contentType: doc.isCode ? 'code' : doc.isDocumentation ? 'documentation' : 'general'
+  });
+}
+
 /**
  * Generate enhanced source weights for search
  */
@@ -11,6 +11,16 @@ import {
   type SearchErrorCode
 } from '../../types/search';
 
+/**
+ * Raised when a lookup names a document that is not in the index
+ */
+export class DocumentNotFoundError extends Error {
+  constructor(public readonly documentId: string) {
+    super(`Document ${documentId} not found`);
+    this.name = 'DocumentNotFoundError';
+  }
+}
+
 /**
  * Maps error types to HTTP status codes
  */
@@ -19,6 +29,7 @@ const ERROR_STATUS_MAP: Record<SearchErrorCode, number> = {
   QUERY_TOO_LONG: 400,
   INVALID_FILTERS: 400,
   PARSING_ERROR: 400,
+  DOCUMENT_NOT_FOUND: 404,
   TIMEOUT: 408,
   RATE_LIMITED: 429,
   SERVICE_UNAVAILABLE: 500,
@@ -101,6 +112,26 @@ export function handleRateLimitError(
   };
 }
 
+/**
+ * Handles lookups of documents that are not in the index
+ */
+export function handleNotFoundError(
+  error: DocumentNotFoundError,
+  queryId?: QueryId
+): { errorResponse: SearchError; status: number } {
+  const errorResponse = createSearchError(
+    'DOCUMENT_NOT_FOUND',
+    error.message,
+    queryId,
+    { documentId: error.documentId }
+  );
+
+  return {
+    errorResponse,
+    status: ERROR_STATUS_MAP.DOCUMENT_NOT_FOUND
+  };
+}
+
 /**
  * Handles generic service errors
  */
@@ -151,6 +182,10 @@ export function processSearchError(
     return handleValidationError(error, queryId);
   }
 
+  if (error instanceof DocumentNotFoundError) {
+    return handleNotFoundError(error, queryId);
+  }
+
   if (error instanceof Error) {
     if (error.name === 'AbortError' || error.message.includes('timeout')) {
       return handleTimeoutError(queryId);
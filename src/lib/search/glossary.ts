@@ -0,0 +1,201 @@
+/**
+ * Glossary Query Expansion
+ * Team terms, synonyms and acronyms loaded from a JSON or YAML file
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import {
+  GlossarySchema,
+  type Glossary,
+  type GlossaryEntry,
+  type GlossaryExpansion
+} from '../../types/glossary';
+
+export const DEFAULT_GLOSSARY_PATH = './data/glossary.json';
+// Keeps expanded queries close to the original on broad glossary hits
+const MAX_EXPANSION_TERMS = 8;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word match that tolerates any whitespace inside multi-word terms
+ */
+function containsVariant(text: string, variant: string, caseSensitive: boolean): boolean {
+  const body = escapeRegExp(variant).replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\w-])${body}(?![\\w-])`, caseSensitive ? '' : 'i').test(text);
+}
+
+function isYamlPath(filepath: string): boolean {
+  return /\.ya?ml$/i.test(filepath);
+}
+
+function termKey(term: string): string {
+  return term.trim().toLowerCase();
+}
+
+/**
+ * Parses glossary file contents; YAML for .yaml/.yml paths, JSON otherwise
+ */
+export function parseGlossary(raw: string, filepath: string): Glossary {
+  const data: unknown = isYamlPath(filepath) ? parseYaml(raw) : JSON.parse(raw);
+  return GlossarySchema.parse(data ?? {});
+}
+
+/**
+ * Glossary entries keyed by term, matched against queries
+ */
+export class QueryGlossary {
+  private readonly entries = new Map<string, GlossaryEntry>();
+
+  constructor(glossary: Glossary = { entries: [] }) {
+    glossary.entries.forEach(entry => this.upsert(entry));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  list(): GlossaryEntry[] {
+    return [...this.entries.values()].sort((a, b) => a.term.localeCompare(b.term));
+  }
+
+  /**
+   * Adds an entry or replaces the one with the same term (case-insensitive)
+   */
+  upsert(entry: GlossaryEntry): void {
+    this.entries.set(termKey(entry.term), entry);
+  }
+
+  remove(term: string): boolean {
+    return this.entries.delete(termKey(term));
+  }
+
+  toJSON(): Glossary {
+    return { entries: this.list() };
+  }
+
+  /**
+   * Entries mentioned in the query, each with the variants the query lacks
+   * Terms and synonyms match case-insensitively, acronyms only as written
+   */
+  expand(query: string): GlossaryExpansion[] {
+    const expansions: GlossaryExpansion[] = [];
+
+    for (const entry of this.entries.values()) {
+      const variants = [
+        ...[entry.term, ...entry.synonyms].map(text => ({ text, caseSensitive: false })),
+        ...entry.acronyms.map(text => ({ text, caseSensitive: true }))
+      ];
+      const present = variants.filter(variant => containsVariant(query, variant.text, variant.caseSensitive));
+      if (present.length === 0) continue;
+
+      const presentKeys = new Set(present.map(variant => termKey(variant.text)));
+      const missing = [...new Set(variants.map(variant => variant.text))]
+        .filter(text => !presentKeys.has(termKey(text)));
+
+      if (missing.length > 0) {
+        expansions.push({ matched: present[0].text, term: entry.term, expansions: missing });
+      }
+    }
+
+    return expansions;
+  }
+}
+
+/**
+ * Distinct expansion terms across all hits, capped at MAX_EXPANSION_TERMS
+ */
+export function collectExpansionTerms(expansions: readonly GlossaryExpansion[]): string[] {
+  const terms = new Map<string, string>();
+  for (const expansion of expansions) {
+    for (const term of expansion.expansions) {
+      if (!terms.has(termKey(term))) terms.set(termKey(term), term);
+    }
+  }
+  return [...terms.values()].slice(0, MAX_EXPANSION_TERMS);
+}
+
+/**
+ * Entity labels for ProcessedQuery, e.g. "KB => Weaviate, knowledge base"
+ */
+export function formatGlossaryEntities(expansions: readonly GlossaryExpansion[]): string[] {
+  return expansions.map(expansion => `${expansion.matched} => ${expansion.expansions.join(', ')}`);
+}
+
+/**
+ * Query text with expansion terms appended, for classification
+ */
+export function appendExpansionTerms(query: string, terms: readonly string[]): string {
+  return terms.length > 0 ? `${query} ${terms.join(' ')}` : query;
+}
+
+function resolveGlossaryPath(): string {
+  return process.env.GLOSSARY_PATH || DEFAULT_GLOSSARY_PATH;
+}
+
+/**
+ * Reads the glossary file; a missing file is an empty glossary and an
+ * invalid one is an error
+ */
+export async function loadGlossary(filepath: string = resolveGlossaryPath()): Promise<QueryGlossary> {
+  try {
+    return new QueryGlossary(parseGlossary(await fs.readFile(filepath, 'utf-8'), filepath));
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+      return new QueryGlossary();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes the glossary back in the format implied by the file extension
+ */
+export async function saveGlossary(
+  glossary: QueryGlossary,
+  filepath: string = resolveGlossaryPath()
+): Promise<void> {
+  await fs.mkdir(path.dirname(filepath), { recursive: true });
+  const data = glossary.toJSON();
+  const raw = isYamlPath(filepath) ? stringifyYaml(data) : JSON.stringify(data, null, 2);
+  await fs.writeFile(filepath, raw, 'utf-8');
+}
+
+let glossaryPromise: Promise<QueryGlossary> | null = null;
+
+/**
+ * Process-wide glossary, loaded from GLOSSARY_PATH on first use
+ */
+export function getGlossary(): Promise<QueryGlossary> {
+  if (!glossaryPromise) {
+    glossaryPromise = loadGlossary();
+    // A failed load is retried on the next call rather than cached
+    glossaryPromise.catch(() => {
+      glossaryPromise = null;
+    });
+  }
+  return glossaryPromise;
+}
+
+/**
+ * Replaces the process-wide glossary; null reloads it from disk on next use
+ */
+export function setGlossary(glossary: QueryGlossary | null): void {
+  glossaryPromise = glossary ? Promise.resolve(glossary) : null;
+}
+
+/**
+ * Glossary hits for a query; an unreadable glossary expands nothing
+ */
+export async function expandQueryWithGlossary(query: string): Promise<GlossaryExpansion[]> {
+  try {
+    return (await getGlossary()).expand(query);
+  } catch (error) {
+    console.warn('Glossary unavailable, searching without expansion:', error);
+    return [];
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Hierarchical Retrieval
+ * Chunk-level hybrid search expanded to neighboring chunks within a token budget
+ */
+
+import { getVectorStore, type VectorStore } from '../vector-store';
+import {
+  createDocumentId,
+  type Document,
+  type DocumentChunk,
+  type DocumentLanguage,
+  type DocumentSource
+} from '../../types/search';
+import {
+  buildWhereFilter,
+  applyResultFilters,
+  hasTextFilters,
+  matchesTextFilters,
+  TEXT_FILTER_OVERFETCH_FACTOR
+} from './search-filters';
+import { resolveRecencyConfig } from './recency';
+import {
+  performHybridSearch,
+  calculateWeightedScore,
+  createDocumentMetadata,
+  queryWithExpansions,
+  KEYWORD_PROPERTIES,
+  type HybridSearchParams,
+  type HybridSearchResult
+} from './hybrid-search';
+import { expandIdentifierQuery } from '../ingestion/identifier-tokens';
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 4000;
+const DEFAULT_NEIGHBOR_WINDOW = 2;
+// Several chunks of one file often win, so over-fetch before grouping by parent
+const CHUNK_CANDIDATE_MULTIPLIER = 4;
+const GAP_MARKER = '\n...\n';
+
+const NEIGHBOR_FIELDS = [
+  'content', 'chunkIndex', 'startLine', 'endLine', 'tokenCount', 'symbols', 'breadcrumb', 'anchor'
+];
+const CHUNK_FIELDS = [
+  ...NEIGHBOR_FIELDS,
+  'documentId', 'source', 'filepath', 'url', 'language', 'priority', 'lastModified', 'authority', 'totalChunks',
+  'author', 'branch', 'commit'
+];
+
+export interface HierarchicalSearchOptions {
+  readonly tokenBudget?: number;
+  readonly neighborWindow?: number;
+  readonly fallback?: typeof performHybridSearch;
+}
+
+export interface HierarchicalSearchResult extends HybridSearchResult {
+  // False when no chunks were indexed and whole documents were returned
+  readonly expanded: boolean;
+}
+
+interface ChunkHit {
+  readonly raw: any;
+  readonly score: number;
+}
+
+interface ParentGroup {
+  readonly documentId: string;
+  readonly hits: ChunkHit[];
+  readonly bestScore: number;
+}
+
+/**
+ * Estimated tokens of a stored chunk, falling back to a length heuristic
+ */
+function chunkTokens(chunk: any): number {
+  return typeof chunk.tokenCount === 'number'
+    ? chunk.tokenCount
+    : Math.ceil((chunk.content || '').length / 4);
+}
+
+/**
+ * Hybrid query over the Chunk class with the same filters as documents
+ */
+async function searchChunks(
+  store: VectorStore,
+  params: HybridSearchParams
+): Promise<ChunkHit[]> {
+  const chunks = await queryWithExpansions(params.query, params.expansions, query => store.hybridQuery({
+    className: 'Chunk',
+    query: expandIdentifierQuery(query),
+    alpha: params.config.hybridWeights.vector,
+    properties: KEYWORD_PROPERTIES,
+    fields: CHUNK_FIELDS,
+    limit: (params.limit + params.offset) * CHUNK_CANDIDATE_MULTIPLIER *
+      (hasTextFilters(params.filters) ? TEXT_FILTER_OVERFETCH_FACTOR : 1),
+    where: buildWhereFilter(params.filters)
+  }));
+  const recency = params.config.recency && resolveRecencyConfig(params.config.recency);
+  const now = Date.now();
+
+  return chunks
+    .filter((chunk: any) => chunk.documentId)
+    .map((chunk: any) => ({
+      raw: chunk,
+      score: calculateWeightedScore(chunk, params.sourceWeights, { recency, now, queryType: params.queryType })
+    }));
+}
+
+/**
+ * Groups chunk hits by parent document, best parent first
+ */
+function groupByParent(hits: ChunkHit[]): ParentGroup[] {
+  const groups = new Map<string, ChunkHit[]>();
+
+  for (const hit of hits) {
+    const documentId = hit.raw.documentId as string;
+    const group = groups.get(documentId) ?? [];
+    group.push(hit);
+    groups.set(documentId, group);
+  }
+
+  return [...groups.entries()]
+    .map(([documentId, groupHits]) => ({
+      documentId,
+      hits: groupHits,
+      bestScore: Math.max(...groupHits.map(hit => hit.score))
+    }))
+    .sort((a, b) => b.bestScore - a.bestScore);
+}
+
+/**
+ * Loads the chunks of a parent that lie within the window around its hits
+ * The range spans the first to the last hit, so the limit covers all of it
+ */
+async function fetchNeighborChunks(
+  store: VectorStore,
+  group: ParentGroup,
+  window: number
+): Promise<any[]> {
+  const indexes = group.hits.map(hit => hit.raw.chunkIndex as number);
+  const first = Math.min(...indexes) - window;
+  const last = Math.max(...indexes) + window;
+
+  return store.getByFilter({
+    className: 'Chunk',
+    fields: NEIGHBOR_FIELDS,
+    where: {
+      operator: 'And',
+      operands: [
+        { operator: 'Equal', path: ['documentId'], valueString: group.documentId },
+        { operator: 'GreaterThanEqual', path: ['chunkIndex'], valueInt: first },
+        { operator: 'LessThanEqual', path: ['chunkIndex'], valueInt: last }
+      ]
+    },
+    limit: last - first + 1
+  });
+}
+
+/**
+ * Picks the hit chunks plus neighbors nearest to them that fit the allowance
+ * When every chunk of a small parent is in range, this yields the whole parent
+ */
+function selectChunks(
+  group: ParentGroup,
+  neighbors: any[],
+  allowance: number,
+  window: number
+): any[] {
+  const byIndex = new Map<number, any>();
+  for (const chunk of [...neighbors, ...group.hits.map(hit => hit.raw)]) {
+    byIndex.set(chunk.chunkIndex, chunk);
+  }
+
+  const hitIndexes = [...group.hits]
+    .sort((a, b) => b.score - a.score)
+    .map(hit => hit.raw.chunkIndex as number);
+  const selected = new Map<number, any>();
+  let used = 0;
+
+  const tryAdd = (index: number, force: boolean) => {
+    const chunk = byIndex.get(index);
+    if (!chunk || selected.has(index)) return;
+    const tokens = chunkTokens(chunk);
+    if (!force && used + tokens > allowance) return;
+    selected.set(index, chunk);
+    used += tokens;
+  };
+
+  // The best hit is always kept so every parent contributes its match
+  hitIndexes.forEach((index, position) => tryAdd(index, position === 0));
+
+  for (let distance = 1; distance <= window; distance++) {
+    for (const index of hitIndexes) {
+      tryAdd(index - distance, false);
+      tryAdd(index + distance, false);
+    }
+  }
+
+  return [...selected.values()].sort((a, b) => a.chunkIndex - b.chunkIndex);
+}
+
+/**
+ * Joins selected chunks in order, marking gaps between non-adjacent chunks
+ */
+function assembleContent(chunks: any[]): string {
+  return chunks.reduce((content: string, chunk: any, position: number) => {
+    if (position === 0) return chunk.content || '';
+    const adjacent = chunk.chunkIndex === chunks[position - 1].chunkIndex + 1;
+    return content + (adjacent ? '\n' : GAP_MARKER) + (chunk.content || '');
+  }, '');
+}
+
+/**
+ * Builds the parent-level result document from its selected chunks
+ */
+function buildExpandedDocument(group: ParentGroup, chunks: any[]): Document {
+  const best = [...group.hits].sort((a, b) => b.score - a.score)[0].raw;
+  const hitScores = new Map<number, number>(
+    group.hits.map(hit => [hit.raw.chunkIndex as number, hit.score])
+  );
+  const content = assembleContent(chunks);
+
+  const documentChunks: DocumentChunk[] = chunks.map(chunk => ({
+    id: `${group.documentId}#${chunk.chunkIndex}`,
+    content: chunk.content || '',
+    startLine: chunk.startLine || 1,
+    endLine: chunk.endLine || chunk.startLine || 1,
+    chunkIndex: chunk.chunkIndex,
+    totalChunks: best.totalChunks || chunks.length,
+    score: hitScores.get(chunk.chunkIndex),
+    ...(chunk.symbols?.length > 0 && { symbols: chunk.symbols }),
+    ...(chunk.breadcrumb?.length > 0 && { breadcrumb: chunk.breadcrumb }),
+    ...(chunk.anchor && { anchor: chunk.anchor })
+  }));
+
+  return {
+    id: createDocumentId(group.documentId),
+    content,
+    filepath: best.filepath || '',
+    language: (best.language || 'other') as DocumentLanguage,
+    source: (best.source || 'local') as DocumentSource,
+    score: group.bestScore,
+    priority: best.priority || 1.0,
+    metadata: createDocumentMetadata(best, content),
+    chunks: documentChunks
+  };
+}
+
+/**
+ * Retrieves chunks, groups them by parent document and expands each parent
+ * to neighboring chunks within its share of the token budget
+ * Falls back to document-level hybrid search when no chunks are indexed
+ */
+export async function performHierarchicalSearch(
+  params: HybridSearchParams,
+  options: HierarchicalSearchOptions = {}
+): Promise<HierarchicalSearchResult> {
+  const startTime = Date.now();
+  const fallback = options.fallback ?? performHybridSearch;
+  const tokenBudget = options.tokenBudget ?? params.config.contextTokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET;
+  const window = options.neighborWindow ?? DEFAULT_NEIGHBOR_WINDOW;
+  const store = getVectorStore();
+
+  let hits: ChunkHit[];
+  try {
+    hits = await searchChunks(store, params);
+  } catch (error) {
+    console.warn('Chunk search failed, using document-level hybrid search:', error);
+    hits = [];
+  }
+
+  if (hits.length === 0) {
+    return { ...(await fallback(params)), expanded: false };
+  }
+
+  // Parents whose matched chunks fail the text filters are dropped before paging
+  const groups = groupByParent(hits)
+    .filter(group => matchesTextFilters({
+      content: group.hits.map(hit => hit.raw.content || '').join('\n'),
+      filepath: group.hits[0].raw.filepath || ''
+    }, params.filters))
+    .slice(params.offset, params.offset + params.limit);
+  const neighborLists = await Promise.all(
+    groups.map(group =>
+      fetchNeighborChunks(store, group, window).catch(error => {
+        console.warn(`Neighbor expansion failed for ${group.documentId}:`, error);
+        return [];
+      })
+    )
+  );
+
+  // Each parent gets an equal share; unused tokens roll over to the next one
+  let remaining = tokenBudget;
+  const documents = groups.map((group, position) => {
+    const allowance = Math.floor(remaining / (groups.length - position));
+    const chunks = selectChunks(group, neighborLists[position], allowance, window);
+    remaining -= chunks.reduce((sum, chunk) => sum + chunkTokens(chunk), 0);
+    return buildExpandedDocument(group, chunks);
+  });
+
+  const filtered = applyResultFilters(documents, params.config.minScore, params.filters);
+  // A parent is only scored once its chunks are grouped and expanded
+  filtered.forEach(document => params.onScored?.(document));
+
+  return {
+    documents: filtered,
+    totalResults: filtered.length,
+    searchTime: Date.now() - startTime,
+    expanded: true
+  };
+}
@@ -4,16 +4,41 @@
  */
 
 import { randomUUID } from 'crypto';
-import { createWeaviateClient } from '../weaviate/client';
+import { getVectorStore, type VectorStoreHit } from '../vector-store';
 import {
   Document,
   DocumentSource,
   DocumentLanguage,
   createDocumentId,
   DEFAULT_SEARCH_CONFIG,
-  type SearchConfig
+  type RecencyConfig,
+  type SearchConfig,
+  type SearchFilters
 } from '../../types/search';
 import { createDocumentHash } from './search-utils';
+import {
+  buildWhereFilter,
+  applyResultFilters,
+  passesResultFilters,
+  hasTextFilters,
+  TEXT_FILTER_OVERFETCH_FACTOR
+} from './search-filters';
+import { resolveRecencyConfig, calculateRecencyFactor, applyRecencyDecay } from './recency';
+import { buildRankingFactors, type RankingFactorsContext } from './search-explain';
+import { calculateDocumentSourceWeight } from './enhanced-authority-weighting';
+import type { QueryType } from '../../types/query-classification';
+import { SourceAuthoritySchema } from '../../types/source-attribution';
+import { expandIdentifierQuery } from '../ingestion/identifier-tokens';
+
+const DOCUMENT_FIELDS = [
+  'content', 'source', 'filepath', 'url', 'language', 'priority', 'lastModified',
+  'isCode', 'isDocumentation', 'fileType', 'size', 'authority', 'author', 'branch', 'commit'
+];
+
+// BM25 side of hybrid queries; identifiers holds split camelCase/snake_case words
+export const KEYWORD_PROPERTIES = ['content', 'filepath', 'identifiers'];
+// Hits found through glossary expansions rank below direct matches
+const EXPANSION_SCORE_WEIGHT = 0.7;
 
 export interface HybridSearchParams {
   readonly query: string;
@@ -21,6 +46,11 @@ export interface HybridSearchParams {
   readonly sourceWeights: { github: number; web: number };
   readonly limit: number;
   readonly offset: number;
+  readonly filters?: SearchFilters;
+  readonly explain?: boolean;
+  readonly queryType?: QueryType; // Weights by stored authority via calculateEnhancedWeight
+  readonly expansions?: readonly string[]; // Glossary synonyms searched at reduced weight
+  readonly onScored?: (document: Document) => void; // Each document passing the filters, as it is scored
 }
 
 export interface HybridSearchResult {
@@ -30,30 +60,85 @@ export interface HybridSearchResult {
 }
 
 /**
- * Builds Weaviate hybrid query with proper field selection
+ * Runs a query and, when there are glossary expansions, a second query with
+ * them appended; each hit keeps the better of its direct score and its
+ * down-weighted expanded score
  */
-function buildHybridQuery(
-  client: ReturnType<typeof createWeaviateClient>,
-  params: HybridSearchParams
-) {
-  return client.graphql
-    .get()
-    .withClassName('Document')
-    .withFields('content source filepath url language priority lastModified isCode isDocumentation fileType size _additional { score id }')
-    .withHybrid({
-      query: params.query,
-      alpha: params.config.hybridWeights.vector,
-      properties: ['content', 'filepath'],
-      fusionType: 'relativeScoreFusion' as any
-    })
-    .withLimit(params.limit + params.offset)
-    .withOffset(params.offset);
+export async function queryWithExpansions(
+  query: string,
+  expansions: readonly string[] | undefined,
+  run: (query: string) => Promise<VectorStoreHit[]>
+): Promise<VectorStoreHit[]> {
+  if (!expansions?.length) return run(query);
+
+  const [direct, expanded] = await Promise.all([run(query), run(`${query} ${expansions.join(' ')}`)]);
+  const merged = new Map<string, VectorStoreHit>(direct.map(hit => [hit._additional.id, hit]));
+
+  for (const hit of expanded) {
+    const score = Number(hit._additional.score ?? 0) * EXPANSION_SCORE_WEIGHT;
+    const existing = merged.get(hit._additional.id);
+    if (!existing || Number(existing._additional.score ?? 0) < score) {
+      merged.set(hit._additional.id, { ...hit, _additional: { ...hit._additional, score } });
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Runs the document hybrid query with field selection and filter clause,
+ * returning unweighted hits
+ * With phrases or exclusions it fetches several pages from the first hit,
+ * and the caller pages after filtering
+ */
+export function queryDocuments(params: HybridSearchParams): Promise<VectorStoreHit[]> {
+  const overfetch = hasTextFilters(params.filters);
+  return queryWithExpansions(params.query, params.expansions, query => getVectorStore().hybridQuery({
+    className: 'Document',
+    query: expandIdentifierQuery(query),
+    alpha: params.config.hybridWeights.vector,
+    properties: KEYWORD_PROPERTIES,
+    fields: DOCUMENT_FIELDS,
+    limit: overfetch ? (params.limit + params.offset) * TEXT_FILTER_OVERFETCH_FACTOR : params.limit + params.offset,
+    offset: overfetch ? 0 : params.offset,
+    where: buildWhereFilter(params.filters),
+    explain: params.explain
+  }));
+}
+
+export interface WeightedScoreOptions {
+  readonly recency?: RecencyConfig;
+  readonly now?: number;
+  readonly queryType?: QueryType; // Enables stored-authority weighting
+}
+
+/**
+ * Applies source and priority weighting to a raw hybrid score, capped at 1,
+ * then decays it by document age when a recency config is given
+ */
+export function calculateWeightedScore(
+  doc: any,
+  sourceWeights: { github: number; web: number },
+  options: WeightedScoreOptions = {}
+): number {
+  const sourceWeight = calculateDocumentSourceWeight(doc, sourceWeights, options.queryType);
+  const priorityScore = doc.priority || 1.0;
+  const baseScore = doc._additional?.score || 0;
+  const weightedScore = Math.min(baseScore * sourceWeight * priorityScore, 1.0);
+  const { recency } = options;
+
+  if (!recency || recency.weight === 0 || !doc.lastModified) {
+    return weightedScore;
+  }
+
+  const source = (doc.source || 'local') as DocumentSource;
+  const recencyFactor = calculateRecencyFactor(doc.lastModified, source, options.now, recency.halfLifeDays);
+  return applyRecencyDecay(weightedScore, recencyFactor, recency.weight);
 }
 
 /**
  * Creates document metadata from flattened schema properties
  */
-function createDocumentMetadata(doc: any, content: string) {
+export function createDocumentMetadata(doc: any, content: string) {
   return {
     size: doc.size || 0,
     wordCount: content.split(/\s+/).length,
@@ -61,62 +146,95 @@ function createDocumentMetadata(doc: any, content: string) {
     encoding: 'utf-8',
     mimeType: 'text/plain',
     tags: [],
-    author: undefined,
+    author: doc.author || undefined,
     lastModified: doc.lastModified ? new Date(doc.lastModified) : new Date(),
     created: doc.lastModified ? new Date(doc.lastModified) : new Date(),
     version: undefined,
-    branch: undefined,
-    commit: undefined,
+    branch: doc.branch || undefined,
+    commit: doc.commit || undefined,
     url: doc.url,
+    authority: SourceAuthoritySchema.safeParse(doc.authority).data,
     checksum: createDocumentHash(content)
   };
 }
 
 /**
- * Processes raw Weaviate document result into typed Document
+ * Processes raw store hit into typed Document
  */
 function processDocumentResult(
   doc: any,
-  sourceWeights: { github: number; web: number }
+  sourceWeights: { github: number; web: number },
+  scoreOptions: WeightedScoreOptions,
+  explainContext?: RankingFactorsContext
 ): Document {
-  const sourceWeight = sourceWeights[doc.source as DocumentSource] || 1.0;
-  const priorityScore = doc.priority || 1.0;
-  const baseScore = doc._additional?.score || 0;
-  const finalScore = Math.min(baseScore * sourceWeight * priorityScore, 1.0);
-
   return {
     id: createDocumentId(doc._additional?.id || randomUUID()),
     content: doc.content || '',
     filepath: doc.filepath || '',
     language: (doc.language || 'other') as DocumentLanguage,
     source: (doc.source || 'local') as DocumentSource,
-    score: finalScore,
-    priority: priorityScore,
-    metadata: createDocumentMetadata(doc, doc.content || '')
+    score: calculateWeightedScore(doc, sourceWeights, scoreOptions),
+    priority: doc.priority || 1.0,
+    metadata: createDocumentMetadata(doc, doc.content || ''),
+    ...(explainContext && { rankingFactors: buildRankingFactors(doc, explainContext) })
   };
 }
 
 /**
- * Performs hybrid search against Weaviate with source weighting
+ * Weights raw hits by source, priority, authority and recency, then sorts
+ * them and applies the score threshold and result filters
+ */
+export function rankHits(hits: readonly VectorStoreHit[], params: HybridSearchParams): Document[] {
+  const recency = params.config.recency && resolveRecencyConfig(params.config.recency);
+  const now = Date.now();
+  const scoreOptions: WeightedScoreOptions = { recency, now, queryType: params.queryType };
+  const explainContext: RankingFactorsContext | undefined = params.explain
+    ? { ...scoreOptions, now, alpha: params.config.hybridWeights.vector, sourceWeights: params.sourceWeights }
+    : undefined;
+  const scoredDocuments = hits
+    .map((doc: any) => {
+      const document = processDocumentResult(doc, params.sourceWeights, scoreOptions, explainContext);
+      if (params.onScored && passesResultFilters(document, params.config.minScore, params.filters)) {
+        params.onScored(document);
+      }
+      return document;
+    })
+    .sort((a, b) => b.score - a.score);
+  return applyResultFilters(
+    scoredDocuments,
+    params.config.minScore,
+    params.filters
+  );
+}
+
+/**
+ * Ranks hits fetched from the first result and cuts the requested page once
+ * phrases and exclusions have dropped theirs; only that page is reported as scored
+ */
+function rankTextFilteredPage(hits: readonly VectorStoreHit[], params: HybridSearchParams): Document[] {
+  const page = rankHits(hits, { ...params, onScored: undefined })
+    .slice(params.offset, params.offset + params.limit);
+  page.forEach(document => params.onScored?.(document));
+  return page;
+}
+
+/**
+ * Performs hybrid search against the vector store with source weighting
  */
 export async function performHybridSearch(
   params: HybridSearchParams
 ): Promise<HybridSearchResult> {
   const startTime = Date.now();
-  const client = createWeaviateClient();
-
-  const hybridQuery = buildHybridQuery(client, params);
-  const result = await hybridQuery.do();
+  const hits = await queryDocuments(params);
   const searchTime = Date.now() - startTime;
 
-  if (!result?.data?.Get?.Document) {
+  if (hits.length === 0) {
     return { documents: [], totalResults: 0, searchTime };
   }
 
-  const documents = result.data.Get.Document
-    .map((doc: any) => processDocumentResult(doc, params.sourceWeights))
-    .filter((doc) => doc.score >= params.config.minScore)
-    .sort((a, b) => b.score - a.score);
+  const documents = hasTextFilters(params.filters)
+    ? rankTextFilteredPage(hits, params)
+    : rankHits(hits, params);
 
   return {
     documents,
@@ -129,6 +247,5 @@ export async function performHybridSearch(
  * Tests Weaviate connection health
  */
 export async function testWeaviateConnection(): Promise<void> {
-  const client = createWeaviateClient();
-  await client.misc.metaGetter().do();
+  await getVectorStore().healthCheck();
 }
\ No newline at end of file
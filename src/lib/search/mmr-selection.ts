@@ -0,0 +1,98 @@
+/**
+ * Maximal Marginal Relevance Selection
+ * Picks context documents that trade off relevance against redundancy
+ */
+
+import type { Document } from '../../types/search';
+import { calculateDocumentSimilarity } from './search-document-utils';
+import { cosineSimilarity } from './rerank';
+
+export const DEFAULT_MMR_LAMBDA = 0.7;
+const MMR_CANDIDATE_MULTIPLIER = 3;
+const MAX_MMR_CANDIDATES = 50;
+
+export interface MMRSelectionOptions {
+  readonly maxSources: number;
+  readonly lambda?: number;
+  readonly diversityThreshold?: number;
+}
+
+/**
+ * Size of the candidate pool to retrieve before MMR narrows it to maxSources
+ */
+export function getMMRCandidateLimit(maxSources: number): number {
+  return Math.min(Math.max(maxSources, 1) * MMR_CANDIDATE_MULTIPLIER, MAX_MMR_CANDIDATES);
+}
+
+/**
+ * Similarity between two documents: embedding cosine when both vectors
+ * exist, keyword overlap otherwise
+ */
+function documentSimilarity(a: Document, b: Document): number {
+  if (a.embedding && b.embedding && a.embedding.length === b.embedding.length) {
+    return cosineSimilarity(a.embedding, b.embedding);
+  }
+  return calculateDocumentSimilarity(a, b);
+}
+
+/**
+ * Selects up to maxSources documents with MMR
+ * lambda = 1 is pure relevance, lambda = 0 is pure diversity. Candidates more
+ * similar than diversityThreshold to a selected document are only used when
+ * nothing else is left.
+ */
+export function selectWithMMR(
+  documents: readonly Document[],
+  options: MMRSelectionOptions
+): Document[] {
+  const lambda = Math.min(Math.max(options.lambda ?? DEFAULT_MMR_LAMBDA, 0), 1);
+  const limit = Math.max(0, options.maxSources);
+  if (documents.length <= 1 || limit === 0) return documents.slice(0, limit);
+
+  const maxScore = Math.max(...documents.map(doc => doc.score), Number.EPSILON);
+  const relevance = documents.map(doc => doc.score / maxScore);
+  const similarityCache = new Map<string, number>();
+
+  const similarity = (i: number, j: number): number => {
+    const key = i < j ? `${i}:${j}` : `${j}:${i}`;
+    let value = similarityCache.get(key);
+    if (value === undefined) {
+      value = documentSimilarity(documents[i], documents[j]);
+      similarityCache.set(key, value);
+    }
+    return value;
+  };
+
+  const remaining = documents.map((_, index) => index);
+  const selected: number[] = [];
+
+  while (remaining.length > 0 && selected.length < limit) {
+    let bestPosition = -1;
+    let bestScore = -Infinity;
+    let bestIsRedundant = true;
+
+    for (let position = 0; position < remaining.length; position++) {
+      const candidate = remaining[position];
+      const redundancy = Math.max(0, ...selected.map(index => similarity(candidate, index)));
+      const isRedundant = options.diversityThreshold !== undefined &&
+        redundancy >= options.diversityThreshold;
+      const mmrScore = lambda * relevance[candidate] - (1 - lambda) * redundancy;
+
+      // Non-redundant candidates always beat redundant ones
+      const better = bestIsRedundant && !isRedundant
+        ? true
+        : isRedundant === bestIsRedundant && mmrScore > bestScore;
+
+      if (bestPosition === -1 || better) {
+        bestPosition = position;
+        bestScore = mmrScore;
+        bestIsRedundant = isRedundant;
+      }
+    }
+
+    const [index] = remaining.splice(bestPosition, 1);
+    selected.push(index);
+  }
+
+  return selected.map(index => documents[index]);
+}
@@ -0,0 +1,230 @@
+/**
+ * Multi-Query Retrieval
+ * Rewrites a question into several queries and fuses their hybrid results
+ */
+
+import { openai } from '@ai-sdk/openai';
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import type { VectorStoreHit } from '../vector-store';
+import {
+  queryDocuments,
+  rankHits,
+  type HybridSearchParams,
+  type HybridSearchResult
+} from './hybrid-search';
+
+// Standard RRF damping constant from Cormack et al.
+const RRF_K = 60;
+const MAX_REWRITTEN_QUERIES = 4;
+// Kept short so the keyword fallback still fits chat search timeouts
+const REWRITE_TIMEOUT_MS = 1000;
+
+// Coordinations between topics; "with" and lone commas qualify one topic,
+// e.g. "search with filters" or "hello, world"
+const CONJUNCTION_PATTERN = /\s+(?:and|or|vs\.?|versus)\s+/i;
+// Commas separate topics only before a conjunction, as in "a, b and c"
+const LIST_COMMA_PATTERN = /\s*,\s*/;
+
+const QUESTION_WORDS = new Set([
+  'how', 'what', 'why', 'when', 'where', 'which', 'who', 'does', 'do', 'did',
+  'is', 'are', 'can', 'should', 'the', 'a', 'an', 'of', 'in', 'on', 'to', 'for',
+  'between', 'each', 'other', 'our', 'we', 'i', 'it', 'they', 'them', 'this', 'that',
+  'and', 'or', 'vs', 'versus', 'with', 'plus'
+]);
+
+const RewriteResponseSchema = z.object({
+  queries: z.array(z.string().min(1)).min(1).max(MAX_REWRITTEN_QUERIES)
+});
+
+export interface MultiQueryResult extends HybridSearchResult {
+  readonly queries: readonly string[];
+}
+
+export interface MultiQueryOptions {
+  // Unweighted hits of one query; source and recency weighting runs after fusion
+  readonly query?: (params: HybridSearchParams) => Promise<VectorStoreHit[]>;
+  readonly rewrite?: (query: string) => Promise<string[]>;
+}
+
+/**
+ * Lowercased content words with question scaffolding removed
+ */
+function contentWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[?!.,;]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !QUESTION_WORDS.has(word));
+}
+
+/**
+ * Content-word groups joined by and/or/vs, including serial lists
+ */
+function splitConjuncts(query: string): string[][] {
+  return query
+    .split(CONJUNCTION_PATTERN)
+    .flatMap((part, index, parts) => (index < parts.length - 1 ? part.split(LIST_COMMA_PATTERN) : [part]))
+    .map(part => contentWords(part))
+    .filter(words => words.length > 0);
+}
+
+/**
+ * True when the question joins several topics that need separate retrieval
+ */
+export function isCompoundQuery(query: string): boolean {
+  return splitConjuncts(query).length > 1;
+}
+
+/**
+ * Deterministic rewrite: the keyword form of the question plus one
+ * sub-query per conjunct, so each side of a compound question is retrieved
+ */
+export function decomposeQuery(query: string): string[] {
+  const parts = splitConjuncts(query);
+  const queries: string[] = [contentWords(query).join(' ')];
+
+  if (parts.length > 1) {
+    queries.push(...parts.map(words => words.join(' ')));
+  }
+
+  return [...new Set(queries.filter(Boolean))].slice(0, MAX_REWRITTEN_QUERIES);
+}
+
+/**
+ * LLM rewrite into paraphrases and sub-questions
+ */
+async function rewriteWithLLM(query: string): Promise<string[]> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REWRITE_TIMEOUT_MS);
+
+  try {
+    const result = await generateObject({
+      model: openai('gpt-4o-mini'),
+      system: 'You rewrite search questions about a software codebase into short standalone search queries.',
+      prompt: `Rewrite this question into at most ${MAX_REWRITTEN_QUERIES} search queries. ` +
+        `Split compound questions into one query per sub-question and add one paraphrase.\n\nQuestion: "${query}"`,
+      schema: RewriteResponseSchema,
+      abortSignal: controller.signal
+    });
+    return result.object.queries;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Rewrites a question into search queries, always keeping the original first
+ * Uses the LLM when an API key is configured and falls back to keyword
+ * decomposition when it is not or when the call fails
+ */
+export async function rewriteQuery(
+  query: string,
+  rewrite?: (query: string) => Promise<string[]>
+): Promise<string[]> {
+  let rewritten: string[];
+
+  try {
+    if (rewrite) {
+      rewritten = await rewrite(query);
+    } else if (process.env.OPENAI_API_KEY) {
+      rewritten = await rewriteWithLLM(query);
+    } else {
+      rewritten = decomposeQuery(query);
+    }
+  } catch (error) {
+    console.warn('Query rewrite failed, using keyword decomposition:', error);
+    rewritten = decomposeQuery(query);
+  }
+
+  const seen = new Set<string>();
+  return [query, ...rewritten]
+    .map(text => text.trim())
+    .filter(text => {
+      const key = text.toLowerCase();
+      if (!text || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_REWRITTEN_QUERIES + 1);
+}
+
+/**
+ * Merges unweighted hit lists with reciprocal rank fusion
+ * Each list is ranked by its raw hybrid score; fused scores are rescaled
+ * onto the best raw score so weighting and minScore see the usual range
+ */
+export function reciprocalRankFusion(
+  hitLists: ReadonlyArray<readonly VectorStoreHit[]>,
+  k: number = RRF_K
+): VectorStoreHit[] {
+  const rawScore = (hit: VectorStoreHit) => Number(hit._additional.score ?? 0);
+  const fused = new Map<string, { hit: VectorStoreHit; rrf: number }>();
+
+  for (const list of hitLists) {
+    [...list].sort((a, b) => rawScore(b) - rawScore(a)).forEach((hit, rank) => {
+      const contribution = 1 / (k + rank + 1);
+      const existing = fused.get(hit._additional.id);
+      if (!existing) {
+        fused.set(hit._additional.id, { hit, rrf: contribution });
+        return;
+      }
+      existing.rrf += contribution;
+      if (rawScore(hit) > rawScore(existing.hit)) existing.hit = hit;
+    });
+  }
+
+  const ranked = [...fused.values()].sort((a, b) => b.rrf - a.rrf);
+  if (ranked.length === 0) return [];
+
+  const maxRrf = ranked[0].rrf;
+  const maxScore = Math.max(...ranked.map(entry => rawScore(entry.hit)));
+
+  return ranked.map(({ hit, rrf }) => ({
+    ...hit,
+    _additional: { ...hit._additional, score: maxScore * (rrf / maxRrf) }
+  }));
+}
+
+/**
+ * Runs the rewritten queries in parallel, fuses their unweighted rankings
+ * and weights the fused list once
+ * Individual query failures are tolerated as long as one succeeds
+ */
+export async function performMultiQuerySearch(
+  params: HybridSearchParams,
+  options: MultiQueryOptions = {}
+): Promise<MultiQueryResult> {
+  const query = options.query ?? queryDocuments;
+  const startTime = Date.now();
+  const queries = await rewriteQuery(params.query, options.rewrite);
+
+  const settled = await Promise.allSettled(
+    queries.map(text => query({
+      ...params,
+      query: text,
+      limit: params.limit + params.offset,
+      offset: 0
+    }))
+  );
+
+  const succeeded = settled
+    .filter((result): result is PromiseFulfilledResult<VectorStoreHit[]> => result.status === 'fulfilled')
+    .map(result => result.value);
+
+  if (succeeded.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  // Fused hits cover every page up to this one, so only the requested page is reported as scored
+  const documents = rankHits(reciprocalRankFusion(succeeded), { ...params, onScored: undefined })
+    .slice(params.offset, params.offset + params.limit);
+  documents.forEach(document => params.onScored?.(document));
+
+  return {
+    documents,
+    totalResults: documents.length,
+    searchTime: Date.now() - startTime,
+    queries
+  };
+}
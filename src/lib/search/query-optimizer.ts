@@ -16,6 +16,7 @@ import type {
   OptimizationOptions,
   HistoricalPerformance,
   OptimizationMetrics,
+  ChatRoutePlan,
 } from '../../types/query-optimization';
 import type { QueryClassification, SourceWeights } from '../../types/query-classification';
 
@@ -30,6 +31,18 @@ let _metrics = {
   confidenceScores: [] as number[],
 };
 
+// Per-strategy execution profile: cheaper models and no re-classification
+// for queries the optimizer is already confident about
+const CHAT_ROUTE_PROFILES: Record<
+  RoutingStrategy,
+  Pick<ChatRoutePlan, 'model' | 'embeddingModel' | 'temperature' | 'runClassification'>
+> = {
+  cached: { model: 'gpt-4o-mini', embeddingModel: 'text-embedding-3-small', temperature: 0.3, runClassification: false },
+  lightweight: { model: 'gpt-4o-mini', embeddingModel: 'text-embedding-3-small', temperature: 0.4, runClassification: false },
+  full: { model: 'gpt-4o', embeddingModel: 'text-embedding-3-large', temperature: 0.5, runClassification: true },
+  fallback: { model: 'gpt-4o', embeddingModel: 'text-embedding-3-large', temperature: 0.4, runClassification: false },
+};
+
 /**
  * Generate cache key for optimization result
  */
@@ -403,6 +416,50 @@ export async function optimizeQuery(
   }
 }
 
+/**
+ * Derive the chat execution plan from an optimization result
+ * Source count follows the token optimizer within the routing bounds and
+ * never exceeds what the caller asked for
+ */
+export function planChatRoute(
+  optimization: QueryOptimizationResult,
+  requestedMaxSources: number
+): ChatRoutePlan {
+  const { routing, tokenOptimization, complexity, confidence, classification } = optimization;
+  const profile = CHAT_ROUTE_PROFILES[routing.strategy];
+  const routedSources = Math.min(
+    routing.maxSources,
+    Math.max(routing.minSources, tokenOptimization.optimalSources)
+  );
+
+  return {
+    strategy: routing.strategy,
+    ...profile,
+    maxSources: Math.max(1, Math.min(routedSources, requestedMaxSources)),
+    contextTokenBudget: complexity.requiredContext,
+    useReranking: routing.useReranking,
+    sourceWeights: routing.sourceWeights,
+    queryType: classification.type,
+    complexity: complexity.complexity,
+    confidence: confidence.overall,
+    estimatedSavings: tokenOptimization.estimatedSavings,
+    optimizationTime: optimization.optimizationTime,
+    reasoning: routing.reasoning,
+  };
+}
+
+/**
+ * Optimize a chat query and plan its execution
+ */
+export async function routeChatQuery(
+  query: string,
+  requestedMaxSources: number,
+  options: OptimizationOptions = {}
+): Promise<ChatRoutePlan> {
+  const optimization = await optimizeQuery(query, options);
+  return planChatRoute(optimization, requestedMaxSources);
+}
+
 /**
  * Get optimization metrics
  */
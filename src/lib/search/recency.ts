@@ -0,0 +1,54 @@
+/**
+ * Recency Ranking
+ * Exponential time decay with a per-source half-life
+ */
+
+import {
+  DEFAULT_RECENCY_CONFIG,
+  type DocumentSource,
+  type RecencyConfig,
+  type RecencyOverrides
+} from '../../types/search';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Merges request overrides over the default decay configuration
+ */
+export function resolveRecencyConfig(overrides?: RecencyOverrides): RecencyConfig {
+  return {
+    weight: overrides?.weight ?? DEFAULT_RECENCY_CONFIG.weight,
+    halfLifeDays: {
+      ...DEFAULT_RECENCY_CONFIG.halfLifeDays,
+      ...overrides?.halfLifeDays
+    }
+  };
+}
+
+/**
+ * Freshness in (0, 1]: 1 for a document modified now, 0.5 after one half-life
+ * Future timestamps count as fresh rather than boosting past 1; sources
+ * without a half-life of their own, e.g. "company", decay like local files
+ */
+export function calculateRecencyFactor(
+  lastModified: Date | string,
+  source: DocumentSource,
+  now: number = Date.now(),
+  halfLifeDays: Readonly<Record<DocumentSource, number>> = DEFAULT_RECENCY_CONFIG.halfLifeDays
+): number {
+  const timestamp = new Date(lastModified).getTime();
+  if (Number.isNaN(timestamp)) return 1;
+
+  const halfLife = halfLifeDays[source] ?? DEFAULT_RECENCY_CONFIG.halfLifeDays[source] ??
+    halfLifeDays.local ?? DEFAULT_RECENCY_CONFIG.halfLifeDays.local;
+  const ageDays = Math.max(0, (now - timestamp) / DAY_MS);
+  return Math.pow(0.5, ageDays / halfLife);
+}
+
+/**
+ * Blends a relevance score with freshness; only the weighted share decays,
+ * so a stale document keeps (1 - weight) of its score
+ */
+export function applyRecencyDecay(score: number, recencyFactor: number, weight: number): number {
+  return score * (1 - weight + weight * recencyFactor);
+}
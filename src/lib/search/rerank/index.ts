@@ -0,0 +1,16 @@
+/**
+ * Reranking - Main Export
+ */
+
+export { rerankSearchResults, getReranker } from './rerank-stage';
+export { LocalReranker, tokenizeForRanking, cosineSimilarity } from './local-reranker';
+export { WeaviateReranker } from './weaviate-reranker';
+
+export type {
+  Reranker,
+  RerankBackend,
+  RerankContext,
+  RerankScoreBreakdown,
+  RerankStageParams,
+  RerankStageResult
+} from './types';
@@ -0,0 +1,118 @@
+/**
+ * Local Reranker
+ * Offline relevance scoring from lexical overlap and embedding cosine similarity
+ */
+
+import type { Document } from '../../../types/search';
+import type { Reranker, RerankContext } from './types';
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'how', 'what',
+  'why', 'when', 'where', 'which', 'does', 'with', 'this', 'that', 'from', 'into',
+  'is', 'in', 'on', 'of', 'to', 'a', 'an', 'do', 'it', 'be', 'or', 'by', 'as'
+]);
+
+// Only the head of large files is scanned to keep reranking fast
+const MAX_SCANNED_CHARS = 8000;
+const CONTENT_WEIGHT = 0.7;
+const PATH_WEIGHT = 0.3;
+
+/**
+ * Splits text into lowercase terms, breaking camelCase, snake_case and paths
+ */
+export function tokenizeForRanking(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length >= 2 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Cosine similarity clamped to [0, 1]; 0 for missing or mismatched vectors
+ */
+export function cosineSimilarity(
+  a?: readonly number[],
+  b?: readonly number[]
+): number {
+  if (!a || !b || a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return Math.max(0, dot / (Math.sqrt(normA) * Math.sqrt(normB)));
+}
+
+/**
+ * IDF-weighted share of query terms present in a term set
+ */
+function weightedCoverage(
+  queryTerms: string[],
+  termSet: Set<string>,
+  idf: Map<string, number>
+): number {
+  let matched = 0;
+  let total = 0;
+
+  for (const term of queryTerms) {
+    const weight = idf.get(term) ?? 0;
+    total += weight;
+    if (termSet.has(term)) matched += weight;
+  }
+
+  return total === 0 ? 0 : matched / total;
+}
+
+/**
+ * Inverse document frequency of each query term across the candidate set
+ */
+function buildIdf(queryTerms: string[], termSets: Set<string>[]): Map<string, number> {
+  const idf = new Map<string, number>();
+
+  for (const term of queryTerms) {
+    const df = termSets.filter(set => set.has(term)).length;
+    idf.set(term, Math.log(1 + termSets.length / (1 + df)) + 1);
+  }
+
+  return idf;
+}
+
+/**
+ * Reranker that runs fully in-process without network access
+ */
+export class LocalReranker implements Reranker {
+  readonly backend = 'local' as const;
+
+  async scoreRelevance(
+    query: string,
+    documents: readonly Document[],
+    context?: RerankContext
+  ): Promise<number[]> {
+    const queryTerms = [...new Set(tokenizeForRanking(query))];
+    const contentSets = documents.map(
+      doc => new Set(tokenizeForRanking(doc.content.slice(0, MAX_SCANNED_CHARS)))
+    );
+    const pathSets = documents.map(doc => new Set(tokenizeForRanking(doc.filepath)));
+    const idf = buildIdf(queryTerms, contentSets);
+
+    return documents.map((doc, index) => {
+      const lexical =
+        CONTENT_WEIGHT * weightedCoverage(queryTerms, contentSets[index], idf) +
+        PATH_WEIGHT * weightedCoverage(queryTerms, pathSets[index], idf);
+
+      const signals = [Math.min(Math.max(doc.score, 0), 1), lexical];
+      if (context?.queryEmbedding && doc.embedding) {
+        signals.push(cosineSimilarity(context.queryEmbedding, doc.embedding));
+      }
+
+      return signals.reduce((sum, value) => sum + value, 0) / signals.length;
+    });
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Rerank Stage
+ * Blends backend relevance with recency, authority and diversity after hybrid search
+ */
+
+import type { Document } from '../../../types/search';
+import { DEFAULT_RETRIEVAL_CONFIG, type RerankConfig } from '../../../types/rag';
+import { calculateDocumentSimilarity } from '../search-document-utils';
+import { calculateRecencyFactor } from '../recency';
+import { AUTHORITY_WEIGHTS } from '../../../types/source-attribution';
+import { LocalReranker } from './local-reranker';
+import { WeaviateReranker } from './weaviate-reranker';
+import type {
+  Reranker,
+  RerankBackend,
+  RerankScoreBreakdown,
+  RerankStageParams,
+  RerankStageResult
+} from './types';
+
+const MAX_AUTHORITY_WEIGHT = Math.max(...Object.values(AUTHORITY_WEIGHTS));
+
+/**
+ * Creates the reranker for a backend, defaulting to RERANK_BACKEND or local
+ */
+export function getReranker(backend?: RerankBackend): Reranker {
+  const resolved = backend ?? (process.env.RERANK_BACKEND as RerankBackend | undefined);
+  return resolved === 'weaviate' ? new WeaviateReranker() : new LocalReranker();
+}
+
+/**
+ * Exponential freshness score using the per-source half-life
+ */
+function calculateRecencyScore(doc: Document, now: number): number {
+  const lastModified = doc.metadata?.lastModified;
+  if (!lastModified) return 0;
+
+  return calculateRecencyFactor(lastModified, doc.source, now);
+}
+
+/**
+ * Normalized authority weight of the stored authority; unclassified
+ * documents get the neutral weight of 1
+ */
+function calculateAuthorityScore(doc: Document): number {
+  const authority = doc.metadata?.authority;
+  return (authority ? AUTHORITY_WEIGHTS[authority] : 1) / MAX_AUTHORITY_WEIGHT;
+}
+
+/**
+ * Pairwise content similarity, computed once per rerank
+ */
+function buildSimilarityMatrix(documents: readonly Document[]): number[][] {
+  const matrix = documents.map(() => new Array<number>(documents.length).fill(0));
+
+  for (let i = 0; i < documents.length; i++) {
+    for (let j = i + 1; j < documents.length; j++) {
+      const similarity = calculateDocumentSimilarity(documents[i], documents[j]);
+      matrix[i][j] = similarity;
+      matrix[j][i] = similarity;
+    }
+  }
+
+  return matrix;
+}
+
+/**
+ * Greedy selection maximizing the weighted blend; diversity is measured
+ * against the documents already selected
+ */
+function blendAndSelect(
+  documents: readonly Document[],
+  relevance: number[],
+  config: RerankConfig
+): Array<{ document: Document; breakdown: RerankScoreBreakdown }> {
+  const { weights } = config;
+  const weightSum = weights.relevance + weights.recency + weights.authority + weights.diversity || 1;
+  const now = Date.now();
+  const recency = documents.map(doc => calculateRecencyScore(doc, now));
+  const authority = documents.map(calculateAuthorityScore);
+  const similarity = weights.diversity > 0 ? buildSimilarityMatrix(documents) : null;
+
+  const remaining = documents.map((_, index) => index);
+  const selected: Array<{ index: number; breakdown: RerankScoreBreakdown }> = [];
+
+  while (remaining.length > 0 && selected.length < config.topK) {
+    let bestPosition = 0;
+    let bestBreakdown: RerankScoreBreakdown | null = null;
+
+    for (let position = 0; position < remaining.length; position++) {
+      const candidate = remaining[position];
+      const maxSimilarity = similarity
+        ? Math.max(0, ...selected.map(s => similarity[candidate][s.index]))
+        : 0;
+      const diversity = 1 - maxSimilarity;
+      const finalScore = (
+        weights.relevance * relevance[candidate] +
+        weights.recency * recency[candidate] +
+        weights.authority * authority[candidate] +
+        weights.diversity * diversity
+      ) / weightSum;
+
+      if (!bestBreakdown || finalScore > bestBreakdown.finalScore) {
+        bestPosition = position;
+        bestBreakdown = {
+          relevance: relevance[candidate],
+          recency: recency[candidate],
+          authority: authority[candidate],
+          diversity,
+          finalScore
+        };
+      }
+    }
+
+    const [index] = remaining.splice(bestPosition, 1);
+    selected.push({ index, breakdown: bestBreakdown as RerankScoreBreakdown });
+  }
+
+  return selected
+    .filter(entry => entry.breakdown.finalScore >= config.threshold)
+    .map(entry => ({ document: documents[entry.index], breakdown: entry.breakdown }));
+}
+
+/**
+ * Scores relevance, falling back to the local backend when a remote one fails
+ */
+async function scoreWithFallback(
+  reranker: Reranker,
+  params: RerankStageParams
+): Promise<{ scores: number[]; backend: RerankBackend }> {
+  try {
+    const scores = await reranker.scoreRelevance(params.query, params.documents, params.context);
+    return { scores, backend: reranker.backend };
+  } catch (error) {
+    if (reranker.backend === 'local') throw error;
+
+    console.warn(`Rerank backend "${reranker.backend}" failed, using local reranker:`, error);
+    const local = new LocalReranker();
+    const scores = await local.scoreRelevance(params.query, params.documents, params.context);
+    return { scores, backend: local.backend };
+  }
+}
+
+/**
+ * Reranks hybrid search results when enabled
+ * Returns the input unchanged (reranked: false) when disabled or on failure
+ */
+export async function rerankSearchResults(
+  params: RerankStageParams
+): Promise<RerankStageResult> {
+  const startTime = Date.now();
+  const unchanged: RerankStageResult = {
+    documents: [...params.documents],
+    reranked: false,
+    rerankTime: 0,
+    breakdown: new Map()
+  };
+
+  if (!params.enabled || params.documents.length === 0) {
+    return unchanged;
+  }
+
+  const config: RerankConfig = {
+    ...DEFAULT_RETRIEVAL_CONFIG.rerank,
+    ...params.config,
+    weights: {
+      ...DEFAULT_RETRIEVAL_CONFIG.rerank.weights,
+      ...params.config?.weights
+    }
+  };
+
+  try {
+    const reranker = params.reranker ?? getReranker();
+    const { scores, backend } = await scoreWithFallback(reranker, params);
+    const ranked = blendAndSelect(params.documents, scores, config);
+
+    const breakdown = new Map<string, RerankScoreBreakdown>();
+    const documents = ranked.map(({ document, breakdown: scoreBreakdown }) => {
+      breakdown.set(document.id, scoreBreakdown);
+      return { ...document, score: scoreBreakdown.finalScore };
+    });
+
+    return {
+      documents,
+      reranked: true,
+      backend,
+      rerankTime: Date.now() - startTime,
+      breakdown
+    };
+  } catch (error) {
+    console.warn('Reranking failed, returning hybrid search order:', error);
+    return { ...unchanged, rerankTime: Date.now() - startTime };
+  }
+}
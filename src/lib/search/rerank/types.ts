@@ -0,0 +1,56 @@
+/**
+ * Reranking Type Definitions
+ */
+
+import type { Document } from '../../../types/search';
+import type { RerankConfig } from '../../../types/rag';
+
+export type RerankBackend = 'weaviate' | 'local';
+
+/**
+ * Extra signals a backend may use when scoring relevance
+ */
+export interface RerankContext {
+  readonly queryEmbedding?: readonly number[];
+}
+
+/**
+ * Pluggable relevance scorer used by the rerank stage
+ * Returns one relevance score in [0, 1] per input document, in input order
+ */
+export interface Reranker {
+  readonly backend: RerankBackend;
+  scoreRelevance(
+    query: string,
+    documents: readonly Document[],
+    context?: RerankContext
+  ): Promise<number[]>;
+}
+
+/**
+ * Per-document breakdown of the blended rerank score
+ */
+export interface RerankScoreBreakdown {
+  readonly relevance: number;
+  readonly recency: number;
+  readonly authority: number;
+  readonly diversity: number;
+  readonly finalScore: number;
+}
+
+export interface RerankStageParams {
+  readonly query: string;
+  readonly documents: readonly Document[];
+  readonly enabled: boolean;
+  readonly config?: Partial<RerankConfig>;
+  readonly context?: RerankContext;
+  readonly reranker?: Reranker;
+}
+
+export interface RerankStageResult {
+  readonly documents: Document[];
+  readonly reranked: boolean;
+  readonly backend?: RerankBackend;
+  readonly rerankTime: number;
+  readonly breakdown: ReadonlyMap<string, RerankScoreBreakdown>;
+}
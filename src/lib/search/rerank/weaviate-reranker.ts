@@ -0,0 +1,53 @@
+/**
+ * Weaviate Reranker
+ * Cross-encoder relevance scoring through the Weaviate reranker module
+ */
+
+import { getVectorStore } from '../../vector-store';
+import type { Document } from '../../../types/search';
+import type { Reranker } from './types';
+
+/**
+ * Maps raw cross-encoder logits into [0, 1]
+ */
+function normalizeRerankScore(score: unknown): number {
+  if (typeof score !== 'number' || Number.isNaN(score)) return 0;
+  if (score >= 0 && score <= 1) return score;
+  return 1 / (1 + Math.exp(-score));
+}
+
+/**
+ * Reranker backed by the reranker-transformers module declared in the schema
+ */
+export class WeaviateReranker implements Reranker {
+  readonly backend = 'weaviate' as const;
+
+  constructor(private readonly property: string = 'content') {}
+
+  async scoreRelevance(
+    query: string,
+    documents: readonly Document[]
+  ): Promise<number[]> {
+    if (documents.length === 0) return [];
+
+    const store = getVectorStore();
+    // The stage falls back to local scoring when this throws
+    if (!store.rerank) {
+      throw new Error(`Vector store "${store.backend}" has no reranker`);
+    }
+
+    const ids = documents.map(doc => doc.id as string);
+    const rawScores = await store.rerank({ className: 'Document', query, property: this.property, ids });
+
+    const scoresById = new Map<string, number>();
+    for (const [id, score] of rawScores) {
+      scoresById.set(id, normalizeRerankScore(score));
+    }
+
+    if (scoresById.size === 0) {
+      throw new Error('Weaviate reranker returned no scores');
+    }
+
+    return ids.map(id => scoresById.get(id) ?? 0);
+  }
+}
@@ -0,0 +1,386 @@
+/**
+ * Saved Searches
+ * Query subscriptions re-checked after ingestion for new or changed top results
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  DEFAULT_SEARCH_CONFIG,
+  SearchFiltersSchema,
+  type Document
+} from '../../types/search';
+import {
+  createSavedSearchId,
+  type CreateSavedSearchRequest,
+  type SavedSearch,
+  type SavedSearchId,
+  type SavedSearchMatch,
+  type SavedSearchNotification,
+  type SavedSearchTrigger
+} from '../../types/saved-search';
+import type { AlertEvent } from '../monitoring/alerts/types';
+import { AlertManager } from '../monitoring/alerts/alert-manager';
+import { performHybridSearch } from './hybrid-search';
+import { applyQuerySyntax } from './search-query-utils';
+import { createDocumentHash } from './search-document-utils';
+
+const MAX_STORED_NOTIFICATIONS = 200;
+const LOCK_RETRY_MS = 25;
+// A lock older than this was left behind by a crashed process
+const STALE_LOCK_MS = 10000;
+
+export type SavedSearchRunner = (search: Pick<SavedSearch, 'query' | 'filters' | 'topN'>) => Promise<Document[]>;
+
+export interface SavedSearchCheckOptions {
+  readonly trigger: SavedSearchTrigger;
+  // Document keys written by the run; other documents never notify
+  readonly changed?: Iterable<string>;
+}
+
+/**
+ * Key shared by snapshots and change sets, e.g. "local:src/lib/cache.ts" or
+ * "web:https://docs.example.com/guide"
+ */
+export function savedSearchDocumentKey(source: string, location: string): string {
+  return `${source}:${location}`;
+}
+
+/**
+ * Key of a search result; web pages are keyed by URL because their paths
+ * repeat across hosts
+ */
+export function resultDocumentKey(doc: Pick<Document, 'source' | 'filepath' | 'metadata'>): string {
+  const url = doc.source === 'web' ? doc.metadata?.url : undefined;
+  return savedSearchDocumentKey(doc.source, url ?? doc.filepath);
+}
+
+/**
+ * Content hash of each result, keyed by resultDocumentKey
+ */
+export function snapshotResults(documents: readonly Document[]): Record<string, string> {
+  return Object.fromEntries(documents.map(doc => [resultDocumentKey(doc), createDocumentHash(doc.content)]));
+}
+
+/**
+ * Results that entered the top N or whose content changed since the snapshot
+ */
+export function diffResults(
+  snapshot: Readonly<Record<string, string>>,
+  documents: readonly Document[],
+  changed?: ReadonlySet<string>
+): SavedSearchMatch[] {
+  const matches: SavedSearchMatch[] = [];
+
+  documents.forEach((doc, index) => {
+    const key = resultDocumentKey(doc);
+    if (changed && !changed.has(key)) return;
+
+    const previous = snapshot[key];
+    if (previous === createDocumentHash(doc.content)) return;
+
+    matches.push({
+      source: doc.source,
+      filepath: doc.filepath,
+      score: doc.score,
+      rank: index + 1,
+      change: previous === undefined ? 'new' : 'updated'
+    });
+  });
+
+  return matches;
+}
+
+/**
+ * Hybrid search for a subscription, honouring inline query operators
+ */
+async function runSavedSearch(search: Pick<SavedSearch, 'query' | 'filters' | 'topN'>): Promise<Document[]> {
+  const params = applyQuerySyntax({ query: search.query, filters: search.filters });
+  const { documents } = await performHybridSearch({
+    query: params.query,
+    config: DEFAULT_SEARCH_CONFIG,
+    sourceWeights: DEFAULT_SEARCH_CONFIG.sourceWeights,
+    limit: search.topN,
+    offset: 0,
+    filters: params.filters
+  });
+  return documents.slice(0, search.topN);
+}
+
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException | null)?.code;
+}
+
+/**
+ * Takes an exclusive lock file shared with other processes, e.g. the app
+ * and an ingestion run; returns its release
+ */
+async function acquireLock(lockPath: string): Promise<() => Promise<void>> {
+  for (;;) {
+    try {
+      await (await fs.open(lockPath, 'wx')).close();
+      return () => fs.rm(lockPath, { force: true });
+    } catch (error: unknown) {
+      if (errorCode(error) !== 'EEXIST') throw error;
+      const stats = await fs.stat(lockPath).catch(() => null);
+      if (stats && Date.now() - stats.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lockPath, { force: true });
+      } else {
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+  }
+}
+
+/**
+ * File-based subscription and notification storage
+ * Read-modify-write updates run one at a time under a lock file and write
+ * through a temporary file, so concurrent writers never drop each other's
+ * changes or leave a truncated file
+ * In production, this would be replaced with a database
+ */
+export class SavedSearchFileStore {
+  private readonly dataDir: string;
+  private readonly searchesPath: string;
+  private readonly notificationsPath: string;
+  private readonly lockPath: string;
+  private updating: Promise<unknown> = Promise.resolve();
+
+  constructor(dataDir = './data/saved-searches') {
+    this.dataDir = dataDir;
+    this.searchesPath = path.join(dataDir, 'searches.json');
+    this.notificationsPath = path.join(dataDir, 'notifications.json');
+    this.lockPath = path.join(dataDir, '.lock');
+  }
+
+  async list(): Promise<SavedSearch[]> {
+    const searches = await this.readJson<SavedSearch[]>(this.searchesPath);
+    // Filters round-trip through JSON, so date ranges come back as strings
+    return searches.map(search => ({
+      ...search,
+      filters: search.filters ? SearchFiltersSchema.parse(search.filters) : undefined
+    }));
+  }
+
+  async get(id: SavedSearchId): Promise<SavedSearch | null> {
+    return (await this.list()).find(search => search.id === id) ?? null;
+  }
+
+  /**
+   * Adds a subscription or replaces the one with the same id
+   */
+  save(search: SavedSearch): Promise<void> {
+    return this.mutate(async () => {
+      const searches = (await this.list()).filter(existing => existing.id !== search.id);
+      await this.writeJson(this.searchesPath, [...searches, search]);
+    });
+  }
+
+  /**
+   * Updates a stored subscription; returns null without writing when it
+   * has been deleted
+   */
+  update(
+    id: SavedSearchId,
+    changes: Partial<Pick<SavedSearch, 'lastCheckedAt' | 'snapshot'>>
+  ): Promise<SavedSearch | null> {
+    return this.mutate(async () => {
+      const searches = await this.list();
+      const index = searches.findIndex(search => search.id === id);
+      if (index < 0) return null;
+
+      const updated = { ...searches[index], ...changes };
+      searches[index] = updated;
+      await this.writeJson(this.searchesPath, searches);
+      return updated;
+    });
+  }
+
+  delete(id: SavedSearchId): Promise<boolean> {
+    return this.mutate(async () => {
+      const searches = await this.list();
+      const remaining = searches.filter(search => search.id !== id);
+      if (remaining.length === searches.length) return false;
+
+      await this.writeJson(this.searchesPath, remaining);
+      return true;
+    });
+  }
+
+  /**
+   * Newest notifications first
+   */
+  async listNotifications(limit: number = MAX_STORED_NOTIFICATIONS): Promise<SavedSearchNotification[]> {
+    return (await this.readJson<SavedSearchNotification[]>(this.notificationsPath)).slice(0, limit);
+  }
+
+  async addNotifications(notifications: readonly SavedSearchNotification[]): Promise<void> {
+    if (notifications.length === 0) return;
+
+    await this.mutate(async () => {
+      const existing = await this.readJson<SavedSearchNotification[]>(this.notificationsPath);
+      await this.writeJson(
+        this.notificationsPath,
+        [...notifications, ...existing].slice(0, MAX_STORED_NOTIFICATIONS)
+      );
+    });
+  }
+
+  /**
+   * Runs an update after the ones before it, holding the lock file
+   */
+  private mutate<T>(update: () => Promise<T>): Promise<T> {
+    // A failed update must not block the ones after it
+    const result = this.updating.catch(() => {}).then(async () => {
+      await fs.mkdir(this.dataDir, { recursive: true });
+      const release = await acquireLock(this.lockPath);
+      try {
+        return await update();
+      } finally {
+        await release();
+      }
+    });
+    this.updating = result;
+    return result;
+  }
+
+  private async readJson<T>(filepath: string): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(filepath, 'utf-8'));
+    } catch (error: unknown) {
+      if (errorCode(error) === 'ENOENT') return [] as unknown as T;
+      throw error;
+    }
+  }
+
+  private async writeJson(filepath: string, data: unknown): Promise<void> {
+    const temporary = `${filepath}.${randomUUID()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(temporary, filepath);
+  }
+}
+
+/**
+ * Creates subscriptions and checks them against the index
+ */
+export class SavedSearchService {
+  private readonly store: SavedSearchFileStore;
+  private readonly runSearch: SavedSearchRunner;
+  private readonly notify: (event: AlertEvent) => Promise<void>;
+
+  constructor(deps: {
+    store?: SavedSearchFileStore;
+    runSearch?: SavedSearchRunner;
+    notify?: (event: AlertEvent) => Promise<void>;
+  } = {}) {
+    this.store = deps.store ?? new SavedSearchFileStore();
+    this.runSearch = deps.runSearch ?? runSavedSearch;
+    this.notify = deps.notify ?? (event => AlertManager.getInstance().notify(event));
+  }
+
+  list(): Promise<SavedSearch[]> {
+    return this.store.list();
+  }
+
+  listNotifications(limit?: number): Promise<SavedSearchNotification[]> {
+    return this.store.listNotifications(limit);
+  }
+
+  delete(id: SavedSearchId): Promise<boolean> {
+    return this.store.delete(id);
+  }
+
+  /**
+   * Saves a subscription with the current top N as its baseline, so only
+   * content arriving afterwards notifies
+   */
+  async create(request: CreateSavedSearchRequest): Promise<SavedSearch> {
+    const documents = await this.runSearch(request);
+    const now = new Date().toISOString();
+    const search: SavedSearch = {
+      id: createSavedSearchId(randomUUID()),
+      name: request.name,
+      query: request.query,
+      filters: request.filters,
+      topN: request.topN,
+      owner: request.owner,
+      createdAt: now,
+      lastCheckedAt: now,
+      snapshot: snapshotResults(documents)
+    };
+
+    await this.store.save(search);
+    return search;
+  }
+
+  /**
+   * Re-runs every subscription, notifies those whose top N gained new or
+   * changed documents and advances their snapshots
+   * Subscriptions deleted while the check runs are dropped rather than
+   * saved again; a failing subscription is logged and skipped
+   */
+  async check(options: SavedSearchCheckOptions): Promise<SavedSearchNotification[]> {
+    const changed = options.changed ? new Set(options.changed) : undefined;
+    const notifications: SavedSearchNotification[] = [];
+
+    for (const search of await this.store.list()) {
+      try {
+        const documents = await this.runSearch(search);
+        const matches = diffResults(search.snapshot, documents, changed);
+        const now = new Date().toISOString();
+
+        const updated = await this.store.update(search.id, { lastCheckedAt: now, snapshot: snapshotResults(documents) });
+        if (!updated || matches.length === 0) continue;
+
+        const notification: SavedSearchNotification = {
+          id: randomUUID(),
+          savedSearchId: search.id,
+          savedSearchName: search.name,
+          query: search.query,
+          trigger: options.trigger,
+          matches,
+          createdAt: now
+        };
+        notifications.push(notification);
+        await this.notify({
+          id: `saved-search:${search.id}`,
+          name: `Saved search: ${search.name}`,
+          message: `${matches.length} new or updated result(s) for "${search.query}"`,
+          severity: 'info',
+          details: { ...notification }
+        });
+      } catch (error) {
+        console.error(`Saved search ${search.id} check failed:`, error);
+      }
+    }
+
+    await this.store.addNotifications(notifications);
+    return notifications;
+  }
+}
+
+let savedSearchService: SavedSearchService | null = null;
+
+/**
+ * Process-wide saved search service
+ */
+export function getSavedSearchService(): SavedSearchService {
+  if (!savedSearchService) {
+    savedSearchService = new SavedSearchService();
+  }
+  return savedSearchService;
+}
+
+/**
+ * Checks subscriptions after an ingestion run; failures are logged so
+ * ingestion never fails because of a subscription
+ */
+export async function notifySavedSearches(options: SavedSearchCheckOptions): Promise<number> {
+  try {
+    return (await getSavedSearchService().check(options)).length;
+  } catch (error) {
+    console.error('Saved search notifications failed:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Search Explain Mode
+ * Per-result ranking factors answering "why did this file win?"
+ */
+
+import type {
+  Document,
+  DocumentSource,
+  RankingFactors,
+  RecencyConfig,
+  ScoredDocument
+} from '../../types/search';
+import type { RerankScoreBreakdown } from './rerank/types';
+import { calculateRecencyFactor } from './recency';
+import { calculateDocumentSourceWeight } from './enhanced-authority-weighting';
+import type { QueryType } from '../../types/query-classification';
+
+export interface ExplainScoreParts {
+  readonly vector?: { readonly original: number; readonly normalized: number };
+  readonly keyword?: { readonly original: number; readonly normalized: number };
+}
+
+export interface RankingFactorsContext {
+  readonly alpha: number;
+  readonly sourceWeights: { github: number; web: number };
+  readonly recency?: RecencyConfig;
+  readonly now: number;
+  readonly queryType?: QueryType;
+}
+
+export interface ExplainRankingOptions {
+  readonly offset?: number;
+  readonly rerankBreakdown?: ReadonlyMap<string, RerankScoreBreakdown>;
+}
+
+// Weaviate relativeScoreFusion explain line, one per result set:
+// "Hybrid (Result Set keyword,bm25) Document <id>: original score 2.1, normalized score: 0.3"
+const EXPLAIN_SCORE_PATTERN =
+  /Result Set (keyword|vector)[^)]*\)[^:]*:\s*original score:?\s*([-\d.e]+),\s*normalized score:?\s*([-\d.e]+)/gi;
+
+/**
+ * Extracts the keyword and vector result-set scores from Weaviate's explainScore
+ */
+export function parseExplainScore(explainScore?: string): ExplainScoreParts {
+  if (!explainScore) return {};
+
+  const parts: { vector?: ExplainScoreParts['vector']; keyword?: ExplainScoreParts['keyword'] } = {};
+  for (const match of explainScore.matchAll(EXPLAIN_SCORE_PATTERN)) {
+    const resultSet = match[1].toLowerCase() as 'keyword' | 'vector';
+    parts[resultSet] = { original: Number(match[2]), normalized: Number(match[3]) };
+  }
+  return parts;
+}
+
+/**
+ * Ranking factors of a raw Weaviate hit, mirroring calculateWeightedScore
+ */
+export function buildRankingFactors(doc: any, context: RankingFactorsContext): RankingFactors {
+  const { vector, keyword } = parseExplainScore(doc._additional?.explainScore);
+  const source = (doc.source || 'local') as DocumentSource;
+  const recency = context.recency && context.recency.weight > 0 && doc.lastModified
+    ? calculateRecencyFactor(doc.lastModified, source, context.now, context.recency.halfLifeDays)
+    : 1;
+
+  return {
+    vectorSimilarity: vector?.original ?? 0,
+    keywordMatches: (keyword?.normalized ?? 0) * (1 - context.alpha),
+    hybridScore: Number(doc._additional?.score) || 0,
+    sourceAuthority: calculateDocumentSourceWeight(doc, context.sourceWeights, context.queryType),
+    priority: doc.priority || 1.0,
+    recency
+  };
+}
+
+/**
+ * Factors for documents that bypassed the hybrid path, e.g. chunk retrieval
+ */
+function fallbackFactors(doc: Document): RankingFactors {
+  return {
+    vectorSimilarity: 0,
+    keywordMatches: 0,
+    hybridScore: doc.score,
+    sourceAuthority: 1.0,
+    priority: doc.priority,
+    recency: 1
+  };
+}
+
+/**
+ * Attaches final score and rank to documents in their returned order
+ * Safe to call again after later stages re-order results
+ */
+export function explainRanking(
+  documents: readonly Document[],
+  options: ExplainRankingOptions = {}
+): ScoredDocument[] {
+  const offset = options.offset ?? 0;
+
+  return documents.map((doc, index) => {
+    const rerank = options.rerankBreakdown?.get(doc.id);
+    const rankingFactors: RankingFactors = {
+      ...(doc.rankingFactors ?? fallbackFactors(doc)),
+      ...(rerank && { rerankRelevance: rerank.relevance })
+    };
+
+    return {
+      ...doc,
+      rankingFactors,
+      finalScore: doc.score,
+      rank: offset + index + 1
+    };
+  });
+}
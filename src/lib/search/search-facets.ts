@@ -0,0 +1,258 @@
+/**
+ * Faceted Search
+ * Drill-down counts computed with vector store aggregates
+ */
+
+import { getVectorStore, type VectorStore, type VectorStoreFilter } from '../vector-store';
+import {
+  DocumentSourceSchema,
+  DocumentLanguageSchema,
+  type Document,
+  type DocumentSource,
+  type DocumentLanguage,
+  type SearchFacets,
+  type SearchAggregation,
+  type SearchFilters
+} from '../../types/search';
+import { buildWhereFilter } from './search-filters';
+
+// Number of nearest objects the query-scoped aggregates are computed over
+const FACET_OBJECT_LIMIT = 200;
+const MAX_TAG_FACETS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Slack when matching a requested date range against a bucket boundary
+const DATE_MATCH_TOLERANCE_MS = DAY_MS;
+
+const DATE_RANGE_BUCKETS = [
+  { range: 'past_week', days: 7 },
+  { range: 'past_month', days: 30 },
+  { range: 'past_year', days: 365 }
+] as const;
+const OLDER_BUCKET = 'older';
+
+const SCORE_BUCKETS = [0, 0.2, 0.4, 0.6, 0.8] as const;
+
+type FacetDimension = 'source' | 'language' | 'tags' | 'dateRange';
+
+interface DateBucket {
+  readonly range: string;
+  readonly from?: Date;
+  readonly to?: Date;
+}
+
+/**
+ * Drops one dimension so its own facet still shows the unselected values
+ */
+function filtersWithout(
+  filters: SearchFilters | undefined,
+  dimension: FacetDimension
+): SearchFilters | undefined {
+  if (!filters) return undefined;
+  return { ...filters, [dimension]: undefined };
+}
+
+/**
+ * AND-combines optional where operands
+ */
+function combineWhere(...operands: Array<VectorStoreFilter | undefined>): VectorStoreFilter | undefined {
+  const present = operands.filter((operand): operand is VectorStoreFilter => operand !== undefined);
+  if (present.length === 0) return undefined;
+  return present.length === 1 ? present[0] : { operator: 'And', operands: present };
+}
+
+/**
+ * Aggregate scope: the objects nearest the search query
+ */
+function aggregateScope(query: string, where?: VectorStoreFilter) {
+  return {
+    className: 'Document' as const,
+    nearText: query,
+    objectLimit: FACET_OBJECT_LIMIT,
+    where
+  };
+}
+
+/**
+ * Counts objects per value of a string property
+ */
+async function aggregateGroupCounts(
+  store: VectorStore,
+  query: string,
+  property: 'source' | 'language',
+  where?: VectorStoreFilter
+): Promise<Map<string, number>> {
+  const { groups = [] } = await store.aggregate({ ...aggregateScope(query, where), groupBy: property });
+  return new Map(groups.map(group => [group.value, group.count]));
+}
+
+/**
+ * Most frequent tag values among the query-scoped objects
+ */
+async function aggregateTagCounts(
+  store: VectorStore,
+  query: string,
+  where?: VectorStoreFilter
+): Promise<Map<string, number>> {
+  const { topOccurrences = [] } = await store.aggregate({
+    ...aggregateScope(query, where),
+    topOccurrences: { property: 'tags', limit: MAX_TAG_FACETS }
+  });
+  return new Map(topOccurrences.map(occurrence => [occurrence.value, occurrence.occurs]));
+}
+
+/**
+ * Total object count for a where clause
+ */
+async function aggregateCount(
+  store: VectorStore,
+  query: string,
+  where?: VectorStoreFilter
+): Promise<number> {
+  const { count } = await store.aggregate(aggregateScope(query, where));
+  return count;
+}
+
+/**
+ * Relative date buckets ending now, plus everything older than a year
+ */
+function buildDateBuckets(now: number): DateBucket[] {
+  const buckets: DateBucket[] = DATE_RANGE_BUCKETS.map(bucket => ({
+    range: bucket.range,
+    from: new Date(now - bucket.days * DAY_MS)
+  }));
+  const oldest = DATE_RANGE_BUCKETS[DATE_RANGE_BUCKETS.length - 1];
+  buckets.push({ range: OLDER_BUCKET, to: new Date(now - oldest.days * DAY_MS) });
+  return buckets;
+}
+
+/**
+ * Compares an optional filter boundary with an optional bucket boundary
+ */
+function sameBoundary(filterDate?: Date, bucketDate?: Date): boolean {
+  if (!filterDate || !bucketDate) return !filterDate && !bucketDate;
+  return Math.abs(new Date(filterDate).getTime() - bucketDate.getTime()) <= DATE_MATCH_TOLERANCE_MS;
+}
+
+/**
+ * A bucket is selected when the requested date range matches its boundaries
+ */
+function isDateBucketSelected(bucket: DateBucket, dateRange?: SearchFilters['dateRange']): boolean {
+  if (!dateRange || (!dateRange.from && !dateRange.to)) return false;
+  return sameBoundary(dateRange.from, bucket.from) && sameBoundary(dateRange.to, bucket.to);
+}
+
+/**
+ * Converts value counts into facet entries, keeping selected values visible
+ */
+function toFacetValues<T extends string>(
+  counts: Map<string, number>,
+  selected: readonly T[] = []
+): Array<{ value: T; count: number; selected: boolean }> {
+  const values = new Set<string>([...counts.keys(), ...selected]);
+
+  return [...values]
+    .map(value => ({
+      value: value as T,
+      count: counts.get(value) ?? 0,
+      selected: selected.includes(value as T)
+    }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Computes drill-down facets for a query
+ * Each facet applies every active filter except its own, so alternative
+ * values keep their counts while a value is selected
+ */
+export async function computeSearchFacets(
+  query: string,
+  filters?: SearchFilters
+): Promise<SearchFacets> {
+  const store = getVectorStore();
+  const dateBuckets = buildDateBuckets(Date.now());
+  const dateBaseWhere = buildWhereFilter(filtersWithout(filters, 'dateRange'));
+
+  const [sourceCounts, languageCounts, tagCounts, dateCounts] = await Promise.all([
+    aggregateGroupCounts(store, query, 'source', buildWhereFilter(filtersWithout(filters, 'source'))),
+    aggregateGroupCounts(store, query, 'language', buildWhereFilter(filtersWithout(filters, 'language'))),
+    aggregateTagCounts(store, query, buildWhereFilter(filtersWithout(filters, 'tags'))),
+    Promise.all(dateBuckets.map(bucket =>
+      aggregateCount(
+        store,
+        query,
+        combineWhere(dateBaseWhere, buildWhereFilter({ dateRange: { from: bucket.from, to: bucket.to } }))
+      )
+    ))
+  ]);
+
+  return {
+    sources: toFacetValues<DocumentSource>(sourceCounts, filters?.source),
+    languages: toFacetValues<DocumentLanguage>(languageCounts, filters?.language),
+    dateRanges: dateBuckets.map((bucket, index) => ({
+      range: bucket.range,
+      count: dateCounts[index],
+      selected: isDateBucketSelected(bucket, filters?.dateRange)
+    })),
+    tags: toFacetValues<string>(tagCounts, filters?.tags)
+  };
+}
+
+/**
+ * Monthly histogram of result modification dates
+ */
+function buildDateHistogram(documents: readonly Document[]): SearchAggregation['dateHistogram'] {
+  const counts = new Map<string, number>();
+
+  for (const doc of documents) {
+    const lastModified = doc.metadata?.lastModified;
+    if (!lastModified) continue;
+    const month = new Date(lastModified).toISOString().slice(0, 7);
+    counts.set(month, (counts.get(month) ?? 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, count]) => ({ date, count }));
+}
+
+/**
+ * Result counts per fixed score bucket
+ */
+function buildScoreDistribution(documents: readonly Document[]): SearchAggregation['scoreDistribution'] {
+  return SCORE_BUCKETS.map((lower, index) => {
+    const upper = SCORE_BUCKETS[index + 1] ?? 1;
+    const isLast = index === SCORE_BUCKETS.length - 1;
+    const count = documents.filter(doc =>
+      doc.score >= lower && (isLast ? doc.score <= upper : doc.score < upper)
+    ).length;
+
+    return { range: `${lower.toFixed(1)}-${upper.toFixed(1)}`, count };
+  });
+}
+
+/**
+ * Summarizes corpus-level facet counts and the returned result set
+ * Source and language totals come from the facets; the date histogram and
+ * score distribution describe the returned documents
+ */
+export function buildSearchAggregation(
+  facets: SearchFacets,
+  documents: readonly Document[]
+): SearchAggregation {
+  const sources = Object.fromEntries(
+    DocumentSourceSchema.options.map(source => [source, 0])
+  ) as Record<DocumentSource, number>;
+  for (const facet of facets.sources) sources[facet.value] = facet.count;
+
+  const languages = Object.fromEntries(
+    DocumentLanguageSchema.options.map(language => [language, 0])
+  ) as Record<DocumentLanguage, number>;
+  for (const facet of facets.languages) languages[facet.value] = facet.count;
+
+  return {
+    sources,
+    languages,
+    dateHistogram: buildDateHistogram(documents),
+    scoreDistribution: buildScoreDistribution(documents)
+  };
+}
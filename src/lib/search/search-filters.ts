@@ -0,0 +1,201 @@
+/**
+ * Search Filter Translation
+ * Converts SearchFilters into Weaviate where-operators and cache signatures
+ */
+
+import type { WhereFilter } from 'weaviate-ts-client';
+import type { Document, SearchFilters } from '../../types/search';
+
+// Phrases and exclusions drop fetched results, so queries using them fetch this many pages
+export const TEXT_FILTER_OVERFETCH_FACTOR = 4;
+
+/**
+ * Builds an Equal operand for one value or an Or group for several
+ */
+function buildAnyOfOperand(
+  property: string,
+  values?: readonly string[]
+): WhereFilter | undefined {
+  if (!values || values.length === 0) return undefined;
+
+  const operands: WhereFilter[] = values.map(value => ({
+    operator: 'Equal',
+    path: [property],
+    valueString: value
+  }));
+
+  return operands.length === 1 ? operands[0] : { operator: 'Or', operands };
+}
+
+/**
+ * Builds lastModified bounds from the filter date range
+ */
+function buildDateRangeOperand(
+  dateRange?: SearchFilters['dateRange']
+): WhereFilter | undefined {
+  if (!dateRange) return undefined;
+
+  const operands: WhereFilter[] = [];
+
+  if (dateRange.from) {
+    operands.push({
+      operator: 'GreaterThanEqual',
+      path: ['lastModified'],
+      valueDate: new Date(dateRange.from).toISOString()
+    });
+  }
+
+  if (dateRange.to) {
+    operands.push({
+      operator: 'LessThanEqual',
+      path: ['lastModified'],
+      valueDate: new Date(dateRange.to).toISOString()
+    });
+  }
+
+  if (operands.length === 0) return undefined;
+  return operands.length === 1 ? operands[0] : { operator: 'And', operands };
+}
+
+/**
+ * Builds a ContainsAny operand over the tags array property
+ */
+function buildTagsOperand(tags?: readonly string[]): WhereFilter | undefined {
+  if (!tags || tags.length === 0) return undefined;
+
+  return {
+    operator: 'ContainsAny',
+    path: ['tags'],
+    valueTextArray: [...tags]
+  };
+}
+
+/**
+ * Builds filepath prefix matches; several prefixes are OR-ed
+ */
+function buildPathsOperand(paths?: readonly string[]): WhereFilter | undefined {
+  if (!paths || paths.length === 0) return undefined;
+
+  const operands: WhereFilter[] = paths.map(path => ({
+    operator: 'Like',
+    path: ['filepath'],
+    valueString: `${path}*`
+  }));
+
+  return operands.length === 1 ? operands[0] : { operator: 'Or', operands };
+}
+
+/**
+ * Converts SearchFilters into a Weaviate where clause
+ * Fields are AND-ed together; multi-valued fields are OR-ed internally
+ */
+export function buildWhereFilter(filters?: SearchFilters): WhereFilter | undefined {
+  if (!filters) return undefined;
+
+  const operands = [
+    buildAnyOfOperand('source', filters.source),
+    buildAnyOfOperand('language', filters.language),
+    buildDateRangeOperand(filters.dateRange),
+    buildTagsOperand(filters.tags),
+    buildPathsOperand(filters.paths)
+  ].filter((operand): operand is WhereFilter => operand !== undefined);
+
+  if (operands.length === 0) return undefined;
+  return operands.length === 1 ? operands[0] : { operator: 'And', operands };
+}
+
+/**
+ * Matches a term as whole words, so excluding "log" keeps "catalog"
+ */
+function containsWord(text: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, 'iu').test(text);
+}
+
+/**
+ * Whether the filters include phrases or exclusions, which only run on fetched results
+ */
+export function hasTextFilters(filters?: SearchFilters): boolean {
+  return Boolean(filters?.phrases?.length || filters?.exclude?.length);
+}
+
+/**
+ * Checks exact phrases and whole-word exclusions, case-insensitively
+ * Keyword tokenization cannot express either, so they run on the results
+ */
+export function matchesTextFilters(
+  doc: Pick<Document, 'content' | 'filepath'>,
+  filters?: SearchFilters
+): boolean {
+  const phrases = filters?.phrases ?? [];
+  const exclude = filters?.exclude ?? [];
+  if (phrases.length === 0 && exclude.length === 0) return true;
+
+  const content = doc.content.toLowerCase();
+  const filepath = doc.filepath.toLowerCase();
+
+  return phrases.every(phrase => content.includes(phrase.toLowerCase())) &&
+    !exclude.some(term => containsWord(content, term) || containsWord(filepath, term));
+}
+
+/**
+ * Checks one document against the score and text filters, before any result cap
+ */
+export function passesResultFilters(
+  doc: Document,
+  defaultMinScore: number,
+  filters?: SearchFilters
+): boolean {
+  return doc.score >= (filters?.minScore ?? defaultMinScore) && matchesTextFilters(doc, filters);
+}
+
+/**
+ * Applies the score, text and result-count filters that Weaviate cannot express
+ */
+export function applyResultFilters(
+  documents: Document[],
+  defaultMinScore: number,
+  filters?: SearchFilters
+): Document[] {
+  const filtered = documents.filter(doc => passesResultFilters(doc, defaultMinScore, filters));
+
+  return filters?.maxResults ? filtered.slice(0, filters.maxResults) : filtered;
+}
+
+/**
+ * Sorted copy of an optional string list for stable serialization
+ */
+function sortedValues(values?: readonly string[]): string[] | undefined {
+  return values && values.length > 0 ? [...values].sort() : undefined;
+}
+
+/**
+ * Normalizes an optional date boundary to ISO format
+ */
+function toIsoDate(value?: Date): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+/**
+ * Creates a stable signature of the active filters for cache keys
+ * Returns undefined when no filter constrains the result set
+ */
+export function serializeSearchFilters(filters?: SearchFilters): string | undefined {
+  if (!filters) return undefined;
+
+  const normalized = {
+    source: sortedValues(filters.source),
+    language: sortedValues(filters.language),
+    from: toIsoDate(filters.dateRange?.from),
+    to: toIsoDate(filters.dateRange?.to),
+    tags: sortedValues(filters.tags),
+    paths: sortedValues(filters.paths),
+    phrases: sortedValues(filters.phrases),
+    exclude: sortedValues(filters.exclude),
+    minScore: filters.minScore,
+    maxResults: filters.maxResults
+  };
+
+  const signature = JSON.stringify(normalized);
+  return signature === '{}' ? undefined : signature;
+}
@@ -25,7 +25,8 @@ export function buildSearchMetadata(
   searchTime: number,
   cacheHit: boolean,
   filters?: SearchFilters,
-  config?: SearchConfig
+  config?: SearchConfig,
+  reranked: boolean = false
 ): SearchMetadata {
   const { maxScore, minScore } = calculateScoreRange(documents);
   const sourceCounts = countDocumentsBySource(documents);
@@ -40,7 +41,7 @@ export function buildSearchMetadata(
     cacheHit,
     sourceCounts,
     languageCounts,
-    reranked: false,
+    reranked,
     filters,
     config: config as SearchConfig
   };
@@ -9,18 +9,51 @@ import {
   SearchResponse,
   DEFAULT_SEARCH_CONFIG,
   type SearchFilters,
-  type SearchConfig
+  type SearchConfig,
+  type SearchFacets,
+  type DidYouMean,
+  type Document,
+  type ProcessedQuery,
+  type QueryId,
+  type SearchStreamStage
 } from '../../types/search';
-import type { SourceWeights } from '../../types/query-classification';
+import type { QueryClassification, SourceWeights } from '../../types/query-classification';
 import { classifyQueryWithMetrics } from './query-classifier';
-import { performHybridSearch } from './hybrid-search';
+import {
+  performHybridSearch,
+  type HybridSearchParams,
+  type HybridSearchResult
+} from './hybrid-search';
+import { performMultiQuerySearch } from './multi-query';
+import { performHierarchicalSearch } from './hierarchical-search';
 import {
   generateSearchSuggestions,
   buildSearchMetadata,
   processQuery,
   filterDocumentContent
 } from './search-utils';
-import { createTimeoutController, validateQueryConstraints } from './search-validation';
+import { applyQuerySyntax } from './search-query-utils';
+import {
+  createTimeoutController,
+  validateQueryConstraints,
+  validateQuerySpelling
+} from './search-validation';
+import {
+  applySpellingFixes,
+  isSignificantImprovement,
+  type SpellingCorrection
+} from './spelling-correction';
+import { rerankSearchResults } from './rerank';
+import { explainRanking, type ExplainRankingOptions } from './search-explain';
+import { computeSearchFacets, buildSearchAggregation } from './search-facets';
+import { getAutocompleteIndex } from './autocomplete-index';
+import { findSymbolsInText } from './symbol-index';
+import {
+  expandQueryWithGlossary,
+  collectExpansionTerms,
+  appendExpansionTerms,
+  formatGlossaryEntities
+} from './glossary';
 
 export interface SearchExecutionParams {
   readonly query: string;
@@ -32,49 +65,206 @@ export interface SearchExecutionParams {
   readonly timeout: number;
   readonly filters?: SearchFilters;
   readonly config?: SearchConfig;
+  readonly facets?: boolean;
+  readonly explain?: boolean;
+}
+
+/**
+ * Progress callbacks for streamed searches, awaited in workflow order
+ */
+export interface SearchWorkflowObserver {
+  onClassified(queryId: QueryId, query: ProcessedQuery, classification: QueryClassification): void | Promise<void>;
+  onScored(document: Document): void;
+  onDocuments(documents: Document[], stage: SearchStreamStage): void | Promise<void>;
+}
+
+const SILENT_OBSERVER: SearchWorkflowObserver = {
+  onClassified: () => undefined,
+  onScored: () => undefined,
+  onDocuments: () => undefined
+};
+
+/**
+ * Applies explanations and the content/embedding flags to returned documents
+ */
+function presentDocuments(
+  documents: Document[],
+  params: Pick<SearchExecutionParams, 'offset' | 'includeContent' | 'includeEmbedding' | 'explain'>,
+  rerankBreakdown?: ExplainRankingOptions['rerankBreakdown']
+): Document[] {
+  return filterDocumentContent(
+    params.explain
+      ? explainRanking(documents, { offset: params.offset, rerankBreakdown })
+      : documents,
+    params.includeContent,
+    params.includeEmbedding
+  );
+}
+
+/**
+ * Computes facets without failing the search when Aggregate is unavailable
+ */
+async function computeFacetsSafely(
+  query: string,
+  filters?: SearchFilters
+): Promise<SearchFacets | undefined> {
+  try {
+    return await computeSearchFacets(query, filters);
+  } catch (error) {
+    console.warn('Facet aggregation failed, returning results without facets:', error);
+    return undefined;
+  }
+}
+
+type RetrievalResult = HybridSearchResult & { queries?: readonly string[] };
+
+/**
+ * Dispatches to the configured retrieval strategy; unknown strategies use hybrid
+ */
+async function runRetrievalStrategy(
+  searchParams: HybridSearchParams,
+  config?: SearchConfig
+): Promise<RetrievalResult> {
+  switch (config?.retrievalStrategy) {
+    case 'multi_query':
+      return performMultiQuerySearch(searchParams);
+    case 'hierarchical':
+      return performHierarchicalSearch(searchParams);
+    default:
+      return performHybridSearch(searchParams);
+  }
+}
+
+/**
+ * Retrieves for the query and, when there is a spelling correction, for the
+ * corrected query too; the correction is reported only when it scores much
+ * better, and in 'auto' mode its results replace the original ones
+ */
+async function retrieveWithSpelling(
+  searchParams: HybridSearchParams,
+  originalQuery: string,
+  correction: SpellingCorrection | null,
+  config?: SearchConfig
+): Promise<{ retrieval: RetrievalResult; didYouMean?: DidYouMean }> {
+  if (!correction) {
+    return { retrieval: await runRetrievalStrategy(searchParams, config) };
+  }
+
+  // Only the kept retrieval is reported as scored, once both have finished
+  const { onScored, ...quietParams } = searchParams;
+  const [original, corrected] = await Promise.all([
+    runRetrievalStrategy(quietParams, config),
+    runRetrievalStrategy({ ...quietParams, query: correction.query }, config)
+  ]);
+  const improved = isSignificantImprovement(original.documents, corrected.documents);
+  const applied = improved && config?.spellingCorrection === 'auto';
+  const retrieval = applied ? corrected : original;
+  retrieval.documents.forEach(document => onScored?.(document));
+  if (!improved) {
+    return { retrieval };
+  }
+
+  return {
+    retrieval,
+    didYouMean: {
+      query: applySpellingFixes(originalQuery, correction.corrections),
+      corrections: correction.corrections,
+      applied
+    }
+  };
 }
 
 /**
  * Executes complete search workflow with classification and processing
  */
 export async function executeSearchWorkflow(
-  params: SearchExecutionParams
+  requestParams: SearchExecutionParams,
+  observer: SearchWorkflowObserver = SILENT_OBSERVER
 ): Promise<SearchResponse> {
+  // Inline operators such as lang: and path: become filters
+  const params = applyQuerySyntax(requestParams);
   const queryId = createQueryId(randomUUID());
   validateQueryConstraints(params.query);
 
+  const spellingPromise = validateQuerySpelling(params.query, params.config?.spellingCorrection);
+
   const { cleanup } = createTimeoutController(params.timeout);
 
   try {
+    // Glossary synonyms inform classification and are searched at reduced weight
+    const glossaryExpansions = await expandQueryWithGlossary(params.query);
+    const expansionTerms = collectExpansionTerms(glossaryExpansions);
     const { classification, metrics } = await classifyQueryWithMetrics(
-      params.query,
+      appendExpansionTerms(params.query, expansionTerms),
       { timeout: Math.max(1000, Math.min(params.timeout / 3, 2000)) }
     );
 
+    const processedQuery: ProcessedQuery = {
+      ...processQuery(params.originalQuery, classification.type, params.filters),
+      entities: formatGlossaryEntities(glossaryExpansions)
+    };
+    await observer.onClassified(queryId, processedQuery, classification);
+
     const sourceWeights = params.weights || classification.weights;
-    const { documents, searchTime } = await performHybridSearch({
+    const facetsPromise = params.facets
+      ? computeFacetsSafely(params.query, params.filters)
+      : Promise.resolve(undefined);
+    const symbolsPromise = findSymbolsInText(params.query);
+    const searchParams = {
       query: params.query,
-      config: DEFAULT_SEARCH_CONFIG,
+      config: { ...DEFAULT_SEARCH_CONFIG, ...params.config },
       sourceWeights,
       limit: params.limit,
-      offset: params.offset
+      offset: params.offset,
+      filters: params.filters,
+      explain: params.explain,
+      // Explicit weights set the per-source base; authority weighting always applies
+      queryType: classification.type,
+      ...(expansionTerms.length > 0 && { expansions: expansionTerms }),
+      onScored: (document: Document) => observer.onScored(
+        filterDocumentContent([document], params.includeContent, params.includeEmbedding)[0]
+      )
+    };
+    const { retrieval, didYouMean } = await retrieveWithSpelling(
+      searchParams,
+      params.originalQuery,
+      await spellingPromise,
+      params.config
+    );
+    const { documents: candidates, searchTime } = retrieval;
+    const searchedQuery = didYouMean?.applied
+      ? applySpellingFixes(params.query, didYouMean.corrections)
+      : params.query;
+
+    const { documents, reranked, breakdown } = await rerankSearchResults({
+      query: searchedQuery,
+      documents: candidates,
+      enabled: (params.config ?? DEFAULT_SEARCH_CONFIG).rerankEnabled,
+      config: { topK: params.limit }
     });
 
-    const processedDocuments = filterDocumentContent(
-      documents,
-      params.includeContent,
-      params.includeEmbedding
-    );
+    const processedDocuments = presentDocuments(documents, params, breakdown);
+    if (reranked) {
+      await observer.onDocuments(processedDocuments, 'reranked');
+    }
 
-    const suggestions = generateSearchSuggestions(params.query, documents);
+    // The alternative query leads: the correction, or the query as typed once corrected
+    const suggestions = [
+      ...(didYouMean ? [didYouMean.applied ? params.originalQuery : didYouMean.query] : []),
+      ...generateSearchSuggestions(searchedQuery, documents)
+    ];
     const metadata = buildSearchMetadata(
       queryId,
       documents,
       searchTime,
       metrics.cacheHit,
       params.filters,
-      params.config
+      params.config,
+      reranked
     );
+    const facets = await facetsPromise;
+    const symbols = await symbolsPromise;
+    getAutocompleteIndex().recordSearch(searchedQuery, documents);
 
     cleanup();
 
@@ -82,8 +272,14 @@ export async function executeSearchWorkflow(
       success: true,
       results: processedDocuments,
       metadata,
-      query: processQuery(params.query, classification.type, params.filters),
-      suggestions
+      query: { ...processedQuery, rewrites: retrieval.queries },
+      suggestions,
+      ...(didYouMean && { didYouMean }),
+      ...(symbols.length > 0 && { symbols: symbols.map(match => match.symbol) }),
+      ...(facets && {
+        facets,
+        aggregations: buildSearchAggregation(facets, documents)
+      })
     };
 
   } catch (error) {
@@ -103,7 +299,8 @@ export function createHealthResponse(): Record<string, unknown> {
       'hybrid_search',
       'query_classification',
       'source_weighting',
-      'result_caching'
+      'result_caching',
+      'faceted_search'
     ],
     limits: {
       maxQueryLength: 1000,
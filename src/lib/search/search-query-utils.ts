@@ -3,21 +3,200 @@
  * Functions for processing and analyzing search queries
  */
 
-import type {
-  ProcessedQuery,
-  SearchFilters
+import {
+  DocumentLanguageSchema,
+  DocumentSourceSchema,
+  type DocumentLanguage,
+  type DocumentSource,
+  type ProcessedQuery,
+  type SearchFilters
 } from '../../types/search';
 import type { QueryType } from '../../types/query-classification';
 
+// Optional "-", optional "key:", then a quoted phrase or a bare word
+// "-" only negates at the start of a word and before a letter or quote, so
+// "-1", "--watch" and "--save-dev" stay in the text
+const QUERY_TOKEN = /(?:(?<!\S)(-)(?=[A-Za-z"]))?(?:([A-Za-z]+):)?(?:"([^"]*)"|(\S+))/g;
+
+const LANGUAGE_ALIASES: Record<string, DocumentLanguage> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  py: 'python',
+  md: 'markdown',
+  mdx: 'markdown',
+  yml: 'yaml',
+  txt: 'text'
+};
+
+interface InlineFilters {
+  source: DocumentSource[];
+  language: DocumentLanguage[];
+  paths: string[];
+  phrases: string[];
+  exclude: string[];
+  from?: Date;
+  to?: Date;
+}
+
+export interface ParsedQuerySyntax {
+  // Free text with operators removed; phrases keep their words
+  readonly query: string;
+  // Only the filters written inline; empty when the query has no operators
+  readonly filters: SearchFilters;
+}
+
+function parseDate(value: string): Date | undefined {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Records a key:value operator; returns false for unknown keys or values
+ * so the token stays in the free text
+ */
+function applyOperator(key: string, value: string, inline: InlineFilters): boolean {
+  const normalized = value.trim();
+  if (!normalized) return false;
+
+  switch (key.toLowerCase()) {
+    case 'lang':
+    case 'language': {
+      const language = DocumentLanguageSchema.safeParse(LANGUAGE_ALIASES[normalized.toLowerCase()] ?? normalized.toLowerCase());
+      if (language.success) inline.language.push(language.data);
+      return language.success;
+    }
+    case 'source': {
+      const source = DocumentSourceSchema.safeParse(normalized.toLowerCase());
+      if (source.success) inline.source.push(source.data);
+      return source.success;
+    }
+    case 'path':
+      inline.paths.push(normalized.replace(/^\.\//, '').replace(/\*+$/, ''));
+      return true;
+    case 'after':
+    case 'before': {
+      const date = parseDate(normalized);
+      if (date && key.toLowerCase() === 'after') inline.from = date;
+      if (date && key.toLowerCase() === 'before') inline.to = date;
+      return date !== undefined;
+    }
+    default:
+      return false;
+  }
+}
+
+function unique<T>(values: readonly T[]): T[] | undefined {
+  return values.length > 0 ? [...new Set(values)] : undefined;
+}
+
+/**
+ * Drops unset fields so an operator-free query yields an empty object
+ */
+function compactFilters(filters: SearchFilters): SearchFilters {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as SearchFilters;
+}
+
+/**
+ * Splits power-user syntax out of a query:
+ * lang:, path:, source:, after:, before:, "exact phrases" and -exclusions
+ * Unknown operators and invalid values stay in the free text
+ */
+export function parseQuerySyntax(rawQuery: string): ParsedQuerySyntax {
+  const inline: InlineFilters = { source: [], language: [], paths: [], phrases: [], exclude: [] };
+  const text: string[] = [];
+
+  for (const match of rawQuery.matchAll(QUERY_TOKEN)) {
+    const [token, negated, key, quoted, bare] = match;
+    const value = quoted ?? bare;
+
+    if (key && !negated && applyOperator(key, value, inline)) continue;
+
+    if (negated && !key && value) {
+      inline.exclude.push(value);
+    } else if (quoted !== undefined && !key) {
+      if (quoted.trim()) inline.phrases.push(quoted.trim());
+      text.push(quoted);
+    } else {
+      text.push(token);
+    }
+  }
+
+  const filters = compactFilters({
+    source: unique(inline.source),
+    language: unique(inline.language),
+    paths: unique(inline.paths),
+    phrases: unique(inline.phrases),
+    exclude: unique(inline.exclude),
+    dateRange: inline.from || inline.to
+      ? { ...(inline.from && { from: inline.from }), ...(inline.to && { to: inline.to }) }
+      : undefined
+  });
+  const query = text.join(' ').replace(/\s+/g, ' ').trim();
+  // An operator-only query still needs search text: fall back to the operand values
+  const fallback = [...(filters.paths ?? []), ...(filters.language ?? [])].join(' ');
+
+  return { query: query || fallback || rawQuery.trim(), filters };
+}
+
+function mergeValues<T>(base?: readonly T[], inline?: readonly T[]): T[] | undefined {
+  return unique([...(base ?? []), ...(inline ?? [])]);
+}
+
+/**
+ * Combines request filters with inline ones; list fields are unioned and
+ * inline date bounds override the request's
+ */
+export function mergeSearchFilters(
+  base?: SearchFilters,
+  inline?: SearchFilters
+): SearchFilters | undefined {
+  if (!inline || Object.keys(inline).length === 0) return base;
+
+  return compactFilters({
+    ...base,
+    source: mergeValues(base?.source, inline.source),
+    language: mergeValues(base?.language, inline.language),
+    tags: mergeValues(base?.tags, inline.tags),
+    paths: mergeValues(base?.paths, inline.paths),
+    phrases: mergeValues(base?.phrases, inline.phrases),
+    exclude: mergeValues(base?.exclude, inline.exclude),
+    dateRange: base?.dateRange || inline.dateRange
+      ? { ...base?.dateRange, ...inline.dateRange }
+      : undefined
+  });
+}
+
+/**
+ * Rewrites search params so the query is free text and inline operators
+ * become filters; the raw query is kept for the response
+ */
+export function applyQuerySyntax<T extends { readonly query: string; readonly filters?: SearchFilters }>(
+  params: T
+): T & { readonly originalQuery: string } {
+  const parsed = parseQuerySyntax(params.query);
+  return {
+    ...params,
+    query: parsed.query,
+    filters: mergeSearchFilters(params.filters, parsed.filters),
+    originalQuery: params.query
+  };
+}
+
 /**
  * Processes raw query into structured format
+ * The processed text and tokens exclude inline operators
  */
 export function processQuery(
   originalQuery: string,
   queryType?: QueryType,
   filters?: SearchFilters
 ): ProcessedQuery {
-  const processed = originalQuery.trim().toLowerCase();
+  const parsed = parseQuerySyntax(originalQuery);
+  const processed = parsed.query.trim().toLowerCase();
   const tokens = processed.split(/\s+/);
 
   return {
@@ -26,7 +205,8 @@ export function processQuery(
     tokens,
     queryType,
     entities: [],
-    filters
+    filters,
+    ...(Object.keys(parsed.filters).length > 0 && { inlineFilters: parsed.filters })
   };
 }
 
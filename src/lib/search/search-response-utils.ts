@@ -3,7 +3,14 @@
  * Functions for formatting and processing search responses
  */
 
-import type { Document } from '../../types/search';
+import type {
+  Document,
+  SearchError,
+  SearchStreamEvent,
+  SearchStreamStage
+} from '../../types/search';
+
+export type SearchStreamEmitter = (event: SearchStreamEvent) => void;
 
 /**
  * Filters documents based on include content flag
@@ -111,6 +118,51 @@ export function createStreamingSearchResponse(
   };
 }
 
+/**
+ * Emits one NDJSON document line per result, ranked from 1
+ */
+export async function emitDocumentEvents(
+  documents: Document[],
+  stage: SearchStreamStage,
+  emit: SearchStreamEmitter
+): Promise<void> {
+  let rank = 0;
+  for await (const document of createStreamingSearchResponse(documents)) {
+    emit({ type: 'document', stage, rank: ++rank, document });
+  }
+}
+
+/**
+ * Serializes stream events as newline-delimited JSON
+ */
+export function encodeNdjsonEvent(event: SearchStreamEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+/**
+ * Creates an NDJSON body fed by a search run; a failure after the stream
+ * has started is sent as a final error line since the status is already out
+ */
+export function createNdjsonSearchStream(
+  run: (emit: SearchStreamEmitter) => Promise<void>,
+  toError: (error: unknown) => SearchError
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit: SearchStreamEmitter = event => controller.enqueue(encoder.encode(encodeNdjsonEvent(event)));
+      try {
+        await run(emit);
+      } catch (error) {
+        emit({ type: 'error', error: toError(error).error });
+      } finally {
+        controller.close();
+      }
+    }
+  });
+}
+
 /**
  * Calculate response size estimation for performance monitoring
  */
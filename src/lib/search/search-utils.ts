@@ -40,6 +40,9 @@ export {
   createPerformanceHeaders,
   formatSearchResponse,
   createStreamingSearchResponse,
+  emitDocumentEvents,
+  encodeNdjsonEvent,
+  createNdjsonSearchStream,
   estimateResponseSize
 } from './search-response-utils';
 
@@ -9,8 +9,10 @@ import {
   SearchRequestSchema,
   DEFAULT_SEARCH_CONFIG,
   type SearchRequest,
-  type SearchConfig
+  type SearchConfig,
+  type SpellingCorrectionMode
 } from '../../types/search';
+import { findSpellingCorrection, type SpellingCorrection } from './spelling-correction';
 
 export interface ValidatedSearchRequest extends SearchRequest {
   readonly config: SearchConfig;
@@ -99,6 +101,17 @@ export function validateQueryConstraints(query: string): void {
   }
 }
 
+/**
+ * Checks the query against the corpus vocabulary; 'off' skips the lookup
+ */
+export async function validateQuerySpelling(
+  query: string,
+  mode: SpellingCorrectionMode = 'suggest'
+): Promise<SpellingCorrection | null> {
+  if (mode === 'off') return null;
+  return findSpellingCorrection(query);
+}
+
 /**
  * Validates pagination parameters
  */
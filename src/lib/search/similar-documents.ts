@@ -0,0 +1,146 @@
+/**
+ * Similar Documents
+ * "More like this" retrieval from a stored document's own vector
+ */
+
+import { getVectorStore, type VectorStoreHit } from '../vector-store';
+import {
+  createDocumentId,
+  type Document,
+  type DocumentLanguage,
+  type DocumentSource,
+  type SimilarDocumentsRequest
+} from '../../types/search';
+import {
+  buildWhereFilter,
+  applyResultFilters,
+  hasTextFilters,
+  TEXT_FILTER_OVERFETCH_FACTOR
+} from './search-filters';
+import { DocumentNotFoundError } from './error-handler';
+import { createDocumentMetadata } from './hybrid-search';
+
+const DEFAULT_SIMILAR_LIMIT = 10;
+// Extra neighbours fetched so sibling exclusion still fills the limit
+const SIBLING_OVERFETCH_FACTOR = 3;
+const MAX_NEIGHBOURS = 100;
+
+const SIMILAR_DOCUMENT_FIELDS = [
+  'content', 'source', 'filepath', 'url', 'language', 'priority', 'lastModified', 'size', 'authority',
+  'author', 'branch', 'commit'
+];
+
+// Stored Document properties read here; every field may be missing
+interface StoredDocument {
+  readonly content?: string;
+  readonly source?: string;
+  readonly filepath?: string;
+  readonly url?: string;
+  readonly language?: string;
+  readonly priority?: number;
+  readonly lastModified?: string;
+  readonly size?: number;
+  readonly authority?: string;
+}
+
+type DocumentHit = VectorStoreHit<StoredDocument>;
+
+export interface SimilarDocumentsResult {
+  readonly documents: Document[];
+  readonly excludedSiblings: number;
+  readonly searchTime: number;
+}
+
+/**
+ * Directory part of a path; top-level files share the empty directory
+ */
+function parentDirectory(filepath: string): string {
+  const index = filepath.lastIndexOf('/');
+  return index === -1 ? '' : filepath.slice(0, index);
+}
+
+/**
+ * Siblings share the source document's source and directory
+ */
+function isSibling(hit: DocumentHit, target: DocumentHit): boolean {
+  return hit.source === target.source &&
+    parentDirectory(hit.filepath ?? '') === parentDirectory(target.filepath ?? '');
+}
+
+/**
+ * Converts a neighbour into a Document scored by cosine similarity
+ */
+function toSimilarDocument(hit: DocumentHit): Document {
+  const content = hit.content || '';
+  const distance = hit._additional.distance ?? 1;
+
+  return {
+    id: createDocumentId(hit._additional.id),
+    content,
+    filepath: hit.filepath || '',
+    language: (hit.language || 'other') as DocumentLanguage,
+    source: (hit.source || 'local') as DocumentSource,
+    score: Math.max(0, Math.min(1, 1 - distance)),
+    priority: hit.priority || 1.0,
+    metadata: createDocumentMetadata(hit, content)
+  };
+}
+
+/**
+ * Looks up the source document, failing with DocumentNotFoundError
+ */
+async function fetchSourceDocument(documentId: string): Promise<DocumentHit> {
+  const [target] = await getVectorStore().getByFilter<StoredDocument>({
+    className: 'Document',
+    fields: ['source', 'filepath'],
+    where: { operator: 'Equal', path: ['id'], valueText: documentId },
+    limit: 1
+  });
+
+  if (!target) throw new DocumentNotFoundError(documentId);
+  return target;
+}
+
+/**
+ * Documents nearest to a stored document, excluding the document itself
+ * and optionally its siblings; filters narrow the neighbour set
+ */
+export async function findSimilarDocuments(
+  request: SimilarDocumentsRequest
+): Promise<SimilarDocumentsResult> {
+  const startTime = Date.now();
+  const limit = request.limit ?? DEFAULT_SIMILAR_LIMIT;
+  const target = await fetchSourceDocument(request.documentId);
+
+  // The source document is its own nearest neighbour, hence the extra slot
+  const fetchLimit = Math.min(
+    MAX_NEIGHBOURS,
+    limit *
+      (request.excludeSiblings ? SIBLING_OVERFETCH_FACTOR : 1) *
+      (hasTextFilters(request.filters) ? TEXT_FILTER_OVERFETCH_FACTOR : 1) + 1
+  );
+  const hits = await getVectorStore().nearObjectQuery<StoredDocument>({
+    className: 'Document',
+    id: request.documentId,
+    fields: SIMILAR_DOCUMENT_FIELDS,
+    limit: fetchLimit,
+    where: buildWhereFilter(request.filters)
+  });
+
+  const neighbours = hits.filter(hit => hit._additional.id !== request.documentId);
+  const kept = request.excludeSiblings
+    ? neighbours.filter(hit => !isSibling(hit, target))
+    : neighbours;
+
+  // Phrase and exclusion filters read the content, so it is dropped afterwards
+  const documents = applyResultFilters(kept.map(toSimilarDocument), 0, request.filters)
+    .slice(0, limit)
+    .map(doc => (request.includeContent ? doc : { ...doc, content: '' }));
+
+  return {
+    documents,
+    excludedSiblings: neighbours.length - kept.length,
+    searchTime: Date.now() - startTime
+  };
+}
+
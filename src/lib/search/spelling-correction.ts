@@ -0,0 +1,247 @@
+/**
+ * Spelling Correction
+ * "Did you mean" corrections against the vocabulary of indexed content
+ */
+
+import { getVectorStore, scanObjects } from '../vector-store';
+import type { Document, SpellingFix } from '../../types/search';
+
+const MIN_TERM_LENGTH = 4;
+// Words up to this length allow one edit, longer words two
+const SHORT_TERM_LENGTH = 5;
+const MAX_LOADED_DOCUMENTS = 5000;
+// Full document content per page, so pages stay small
+const WARM_PAGE_SIZE = 100;
+// Vocabulary is built from the head of each document only
+const MAX_SCAN_CHARS = 20000;
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+// A correction must lift the top score by this factor to be offered
+const MIN_SCORE_IMPROVEMENT = 1.5;
+
+// Words and identifiers; snake_case stays whole, kebab-case and paths split
+const TERM_PATTERN = /[A-Za-z_$][\w$]*/g;
+
+// Question scaffolding is never corrected, even when the corpus lacks it
+const COMMON_WORDS = new Set([
+  'what', 'when', 'where', 'which', 'does', 'doing', 'have', 'with', 'from', 'into',
+  'that', 'this', 'these', 'those', 'there', 'their', 'about', 'should', 'would',
+  'could', 'them', 'they', 'work', 'works', 'used', 'uses', 'using', 'between'
+]);
+
+interface VocabularyTerm {
+  documentCount: number;
+  // Spellings seen for the term, e.g. "rateLimiter" and "RateLimiter"
+  readonly forms: Map<string, number>;
+}
+
+export interface SpellingCorrection {
+  readonly query: string;
+  readonly corrections: readonly SpellingFix[];
+}
+
+/**
+ * Edit distance counting adjacent transpositions as one edit, returning
+ * max + 1 once it is certain to exceed max
+ */
+function damerauDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function mostFrequentForm(term: VocabularyTerm): string {
+  let best = '';
+  let bestCount = 0;
+  for (const [form, count] of term.forms) {
+    if (count > bestCount) {
+      best = form;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replaces each corrected word wherever it appears as a whole word
+ */
+export function applySpellingFixes(text: string, fixes: readonly SpellingFix[]): string {
+  return fixes.reduce(
+    (result, fix) => result.replace(new RegExp(`(?<![\\w$])${escapeRegExp(fix.from)}(?![\\w$])`, 'g'), fix.to),
+    text
+  );
+}
+
+/**
+ * Whether results for the corrected query score much better than the originals
+ */
+export function isSignificantImprovement(
+  original: readonly Document[],
+  corrected: readonly Document[]
+): boolean {
+  const topScore = (documents: readonly Document[]) =>
+    documents.reduce((max, doc) => Math.max(max, doc.score), 0);
+  const correctedTop = topScore(corrected);
+
+  return correctedTop > 0 && correctedTop >= topScore(original) * MIN_SCORE_IMPROVEMENT;
+}
+
+/**
+ * Counts each distinct term of a document once, and every spelling seen
+ */
+function addDocumentTerms(terms: Map<string, VocabularyTerm>, content: string, filepath: string): void {
+  const seen = new Set<string>();
+  const text = `${filepath}\n${content.slice(0, MAX_SCAN_CHARS)}`;
+
+  for (const match of text.matchAll(TERM_PATTERN)) {
+    const form = match[0];
+    if (form.length < MIN_TERM_LENGTH) continue;
+
+    const key = form.toLowerCase();
+    const term = terms.get(key) ?? { documentCount: 0, forms: new Map<string, number>() };
+    term.forms.set(form, (term.forms.get(form) ?? 0) + 1);
+    if (!seen.has(key)) {
+      seen.add(key);
+      term.documentCount++;
+    }
+    terms.set(key, term);
+  }
+}
+
+/**
+ * Terms and identifiers from indexed content with their document frequency
+ */
+export class CorpusVocabulary {
+  private terms = new Map<string, VocabularyTerm>();
+  private lastWarmed = 0;
+  private warming: Promise<void> | null = null;
+
+  get size(): number {
+    return this.terms.size;
+  }
+
+  addDocument(content: string, filepath: string = ''): void {
+    addDocumentTerms(this.terms, content, filepath);
+  }
+
+  has(word: string): boolean {
+    return this.terms.has(word.toLowerCase());
+  }
+
+  /**
+   * Closest known term for an unknown word, preferring fewer edits and then
+   * more frequent terms; known and short words are left alone
+   */
+  correctWord(word: string): string | null {
+    const key = word.toLowerCase();
+    if (key.length < MIN_TERM_LENGTH || /\d/.test(key) || COMMON_WORDS.has(key) || this.terms.has(key)) {
+      return null;
+    }
+
+    const maxEdits = key.length <= SHORT_TERM_LENGTH ? 1 : 2;
+    let best: { term: VocabularyTerm; distance: number } | null = null;
+
+    for (const [candidate, term] of this.terms) {
+      const distance = damerauDistance(key, candidate, maxEdits);
+      if (distance > maxEdits) continue;
+      if (!best || distance < best.distance ||
+        (distance === best.distance && term.documentCount > best.term.documentCount)) {
+        best = { term, distance };
+      }
+    }
+
+    return best ? mostFrequentForm(best.term) : null;
+  }
+
+  /**
+   * Query with unknown words replaced by their closest terms, or null when
+   * every word is known or has no close match
+   */
+  correctQuery(query: string): SpellingCorrection | null {
+    if (this.terms.size === 0) return null;
+
+    const corrections = new Map<string, string>();
+    for (const match of query.matchAll(TERM_PATTERN)) {
+      if (corrections.has(match[0])) continue;
+      const corrected = this.correctWord(match[0]);
+      if (corrected) corrections.set(match[0], corrected);
+    }
+    if (corrections.size === 0) return null;
+
+    const fixes = [...corrections].map(([from, to]) => ({ from, to }));
+    return { query: applySpellingFixes(query, fixes), corrections: fixes };
+  }
+
+  /**
+   * Rebuilds the vocabulary from stored documents when it is stale; the
+   * current vocabulary keeps answering until the new one is complete
+   * Concurrent callers share one refresh; failures wait for the next interval
+   */
+  async refreshIfStale(now: number = Date.now()): Promise<void> {
+    if (now - this.lastWarmed < REFRESH_INTERVAL_MS) return;
+    if (!this.warming) {
+      this.warming = this.warmFromStore()
+        .finally(() => {
+          this.lastWarmed = Date.now();
+          this.warming = null;
+        });
+    }
+    return this.warming;
+  }
+
+  private async warmFromStore(): Promise<void> {
+    const terms = new Map<string, VocabularyTerm>();
+    await scanObjects<{ content?: string; filepath?: string }>(
+      getVectorStore(),
+      { className: 'Document', fields: ['content', 'filepath'], pageSize: WARM_PAGE_SIZE, maxObjects: MAX_LOADED_DOCUMENTS },
+      hits => {
+        for (const hit of hits) addDocumentTerms(terms, hit.content ?? '', hit.filepath ?? '');
+      }
+    );
+    this.terms = terms;
+  }
+}
+
+let corpusVocabulary: CorpusVocabulary | null = null;
+
+/**
+ * Process-wide vocabulary of indexed content
+ */
+export function getCorpusVocabulary(): CorpusVocabulary {
+  if (!corpusVocabulary) {
+    corpusVocabulary = new CorpusVocabulary();
+  }
+  return corpusVocabulary;
+}
+
+/**
+ * Spelling correction for a query from the current vocabulary; a stale
+ * vocabulary is rebuilt in the background, so requests never wait on the store
+ */
+export async function findSpellingCorrection(query: string): Promise<SpellingCorrection | null> {
+  const vocabulary = getCorpusVocabulary();
+  vocabulary.refreshIfStale().catch(error => {
+    console.warn('Vocabulary refresh failed:', error);
+  });
+  return vocabulary.correctQuery(query);
+}
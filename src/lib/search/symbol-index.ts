@@ -0,0 +1,380 @@
+/**
+ * Code Symbol Index
+ * Exact and fuzzy lookup of functions, classes and constants by name
+ */
+
+import { getVectorStore, scanObjects } from '../vector-store';
+import type { VectorStoreHit } from '../vector-store/types';
+import type { DocumentSource } from '../../types/search';
+import type { CodeSymbol, CodeSymbolKind, IndexedSymbol, SymbolMatch } from '../../types/code-symbols';
+
+const DEFAULT_SEARCH_LIMIT = 10;
+const DEFAULT_QUERY_SYMBOL_LIMIT = 5;
+const MIN_FUZZY_QUERY_LENGTH = 3;
+const MAX_LOADED_SYMBOLS = 20000;
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+const SYMBOL_FIELDS = [
+  'name',
+  'qualifiedName',
+  'kind',
+  'container',
+  'exported',
+  'filepath',
+  'source',
+  'language',
+  'url',
+  'startLine',
+  'endLine'
+];
+
+// Symbol properties as ingestion stores them
+interface StoredSymbol {
+  readonly name: string;
+  readonly qualifiedName?: string;
+  readonly kind: CodeSymbolKind;
+  readonly container?: string | null;
+  readonly exported?: boolean;
+  readonly filepath: string;
+  readonly source?: string;
+  readonly language: string;
+  readonly url?: string;
+  readonly startLine: number;
+  readonly endLine: number;
+}
+
+const MATCH_SCORES = {
+  exact: 1.0,
+  prefix: 0.8,
+  wordStart: 0.65,
+  substring: 0.5,
+  // Minus 0.1 per edit
+  edit: 0.4,
+  subsequence: 0.2
+} as const;
+
+// Declarations people search for by name rank above plain constants
+const KIND_RANK: Record<CodeSymbolKind, number> = {
+  class: 0,
+  interface: 1,
+  function: 2,
+  method: 3,
+  const: 4
+};
+
+// Identifier-shaped tokens: dotted paths, camelCase, PascalCase and snake_case
+const IDENTIFIER_TOKEN = /[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*/g;
+const BACKTICKED = /`([^`\s]+)`/g;
+
+/**
+ * Whether a word in free text is likely a code identifier rather than prose
+ */
+function looksLikeIdentifier(token: string): boolean {
+  return /[a-z][A-Z]/.test(token) ||
+    /^[A-Z][a-z]+[A-Z]/.test(token) ||
+    /\w_\w/.test(token) ||
+    /\w\.\w/.test(token);
+}
+
+/**
+ * Lowercased suffixes starting at camelCase humps and snake_case or dot boundaries
+ */
+function wordStarts(name: string): string[] {
+  const starts: string[] = [];
+  const boundary = /[._$]([A-Za-z0-9])|[a-z0-9]([A-Z])/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(name)) !== null) {
+    starts.push(name.slice(match.index + 1).toLowerCase());
+  }
+  return starts;
+}
+
+/**
+ * Levenshtein distance, returning max + 1 once it is certain to exceed max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function isSubsequence(query: string, text: string): boolean {
+  let position = 0;
+  for (const char of text) {
+    if (char === query[position]) position++;
+    if (position === query.length) return true;
+  }
+  return false;
+}
+
+/**
+ * Scores one symbol against a lowercased query; 0 means no match
+ */
+function scoreSymbol(symbol: IndexedSymbol, query: string): number {
+  const name = symbol.name.toLowerCase();
+  const qualifiedName = symbol.qualifiedName.toLowerCase();
+
+  if (name === query || qualifiedName === query) return MATCH_SCORES.exact;
+  if (name.startsWith(query) || qualifiedName.startsWith(query)) return MATCH_SCORES.prefix;
+  if (wordStarts(symbol.name).some(start => start.startsWith(query))) return MATCH_SCORES.wordStart;
+  if (query.length < MIN_FUZZY_QUERY_LENGTH) return 0;
+  if (name.includes(query)) return MATCH_SCORES.substring;
+
+  const maxEdits = query.length >= 6 ? 2 : 1;
+  const distance = editDistance(query, name, maxEdits);
+  if (distance <= maxEdits) return MATCH_SCORES.edit - 0.1 * (distance - 1);
+
+  return isSubsequence(query, name) ? MATCH_SCORES.subsequence : 0;
+}
+
+function compareMatches(a: SymbolMatch, b: SymbolMatch): number {
+  return b.score - a.score ||
+    Number(b.symbol.exported) - Number(a.symbol.exported) ||
+    KIND_RANK[a.symbol.kind] - KIND_RANK[b.symbol.kind] ||
+    a.symbol.qualifiedName.length - b.symbol.qualifiedName.length ||
+    a.symbol.filepath.localeCompare(b.symbol.filepath);
+}
+
+export interface SymbolFile {
+  readonly filepath: string;
+  readonly language: string;
+  readonly source?: DocumentSource;
+  readonly url?: string;
+}
+
+function fileKey(filepath: string, source?: DocumentSource): string {
+  return `${source ?? ''}:${filepath}`;
+}
+
+/**
+ * In-memory symbol table keyed by declaring file
+ * Exact lookups go through a name map; fuzzy search scans every symbol,
+ * which stays cheap at repository scale
+ */
+export class SymbolIndex {
+  private readonly files = new Map<string, IndexedSymbol[]>();
+  private readonly byName = new Map<string, IndexedSymbol[]>();
+  private dirty = false;
+  private lastWarmed = 0;
+  private warming: Promise<void> | null = null;
+
+  get size(): number {
+    let count = 0;
+    for (const symbols of this.files.values()) count += symbols.length;
+    return count;
+  }
+
+  /**
+   * Replaces the symbols recorded for a file
+   */
+  addFile(
+    file: SymbolFile,
+    symbols: readonly CodeSymbol[]
+  ): void {
+    const key = fileKey(file.filepath, file.source);
+    if (symbols.length === 0) {
+      this.removeFile(file.filepath, file.source);
+      return;
+    }
+
+    this.files.set(key, symbols.map(symbol => ({
+      ...symbol,
+      filepath: file.filepath,
+      language: file.language,
+      source: file.source,
+      url: file.url
+    })));
+    this.dirty = true;
+  }
+
+  /**
+   * Every indexed symbol, grouped by declaring file
+   */
+  list(): IndexedSymbol[] {
+    return [...this.files.values()].flat();
+  }
+
+  removeFile(filepath: string, source?: DocumentSource): void {
+    if (this.files.delete(fileKey(filepath, source))) this.dirty = true;
+  }
+
+  /**
+   * Symbols whose name or qualified name equals the given name, preferring
+   * case-sensitive matches over case-insensitive ones
+   */
+  lookup(name: string): IndexedSymbol[] {
+    this.rebuildIfDirty();
+
+    const candidates = this.byName.get(name.toLowerCase()) ?? [];
+    const caseSensitive = candidates.filter(symbol => symbol.name === name || symbol.qualifiedName === name);
+    return caseSensitive.length > 0 ? caseSensitive : candidates;
+  }
+
+  /**
+   * Ranked fuzzy matches: exact, prefix, word-start, substring, small edit
+   * distance and finally subsequence
+   */
+  search(query: string, limit: number = DEFAULT_SEARCH_LIMIT): SymbolMatch[] {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized || limit <= 0) return [];
+
+    const matches: SymbolMatch[] = [];
+    for (const symbols of this.files.values()) {
+      for (const symbol of symbols) {
+        const score = scoreSymbol(symbol, normalized);
+        if (score > 0) {
+          matches.push({ symbol, score, matchType: score === MATCH_SCORES.exact ? 'exact' : 'fuzzy' });
+        }
+      }
+    }
+
+    return matches.sort(compareMatches).slice(0, limit);
+  }
+
+  /**
+   * Exact definitions of identifiers mentioned in free text, e.g. a search
+   * query or chat message; backticked names count even when they read as prose
+   */
+  findInText(text: string, limit: number = DEFAULT_QUERY_SYMBOL_LIMIT): SymbolMatch[] {
+    const candidates = new Set<string>();
+    for (const match of text.matchAll(BACKTICKED)) candidates.add(match[1].replace(/\(\)$/, ''));
+    for (const match of text.matchAll(IDENTIFIER_TOKEN)) {
+      if (looksLikeIdentifier(match[0])) candidates.add(match[0]);
+    }
+
+    const found = new Map<string, SymbolMatch>();
+    for (const candidate of candidates) {
+      for (const symbol of this.lookup(candidate)) {
+        const key = `${fileKey(symbol.filepath, symbol.source)}#${symbol.qualifiedName}`;
+        if (!found.has(key)) found.set(key, { symbol, score: MATCH_SCORES.exact, matchType: 'exact' });
+      }
+    }
+
+    return [...found.values()].sort(compareMatches).slice(0, limit);
+  }
+
+  /**
+   * Rebuilds the index from stored Symbol objects when it is stale, so
+   * symbols deleted from the store drop out
+   * Concurrent callers share one refresh; a failed refresh keeps the current
+   * symbols and is retried only after the interval, so a store without the
+   * Symbol class costs one call
+   */
+  async refreshIfStale(now: number = Date.now()): Promise<void> {
+    if (now - this.lastWarmed < REFRESH_INTERVAL_MS) return;
+    if (!this.warming) {
+      this.warming = this.warmFromStore()
+        .finally(() => {
+          this.lastWarmed = Date.now();
+          this.warming = null;
+        });
+    }
+    return this.warming;
+  }
+
+  private async warmFromStore(): Promise<void> {
+    const grouped = new Map<string, { file: SymbolFile; symbols: CodeSymbol[] }>();
+    await scanObjects<StoredSymbol>(
+      getVectorStore(),
+      { className: 'Symbol', fields: SYMBOL_FIELDS, maxObjects: MAX_LOADED_SYMBOLS },
+      hits => this.groupHits(hits, grouped)
+    );
+
+    this.files.clear();
+    this.dirty = true;
+    for (const { file, symbols } of grouped.values()) {
+      this.addFile(file, symbols);
+    }
+  }
+
+  private groupHits(
+    hits: readonly VectorStoreHit<StoredSymbol>[],
+    grouped: Map<string, { file: SymbolFile; symbols: CodeSymbol[] }>
+  ): void {
+    for (const hit of hits) {
+      const source = hit.source as DocumentSource | undefined;
+      const key = fileKey(hit.filepath, source);
+      const group = grouped.get(key) ?? {
+        file: { filepath: hit.filepath, language: hit.language, source, url: hit.url },
+        symbols: [] as CodeSymbol[]
+      };
+      group.symbols.push({
+        name: hit.name,
+        qualifiedName: hit.qualifiedName ?? hit.name,
+        kind: hit.kind,
+        startLine: hit.startLine,
+        endLine: hit.endLine,
+        exported: hit.exported ?? false,
+        container: hit.container ?? undefined
+      });
+      grouped.set(key, group);
+    }
+  }
+
+  private rebuildIfDirty(): void {
+    if (!this.dirty) return;
+
+    this.byName.clear();
+    for (const symbols of this.files.values()) {
+      for (const symbol of symbols) {
+        for (const key of new Set([symbol.name.toLowerCase(), symbol.qualifiedName.toLowerCase()])) {
+          const bucket = this.byName.get(key) ?? [];
+          bucket.push(symbol);
+          this.byName.set(key, bucket);
+        }
+      }
+    }
+    this.dirty = false;
+  }
+}
+
+let symbolIndex: SymbolIndex | null = null;
+
+/**
+ * Process-wide symbol index
+ */
+export function getSymbolIndex(): SymbolIndex {
+  if (!symbolIndex) {
+    symbolIndex = new SymbolIndex();
+  }
+  return symbolIndex;
+}
+
+/**
+ * Definitions of identifiers mentioned in the text, answered from the
+ * current index; a stale index is rebuilt in the background, so requests
+ * never wait on the store
+ */
+export async function findSymbolsInText(
+  text: string,
+  limit: number = DEFAULT_QUERY_SYMBOL_LIMIT
+): Promise<SymbolMatch[]> {
+  const index = getSymbolIndex();
+  index.refreshIfStale().catch(error => {
+    console.warn('Symbol index refresh failed:', error);
+  });
+  return index.findInText(text, limit);
+}
+
+/**
+ * One line per definition for prompt context, e.g.
+ * "RedisCacheManager.get (method) - src/lib/cache/redis.ts:25-29"
+ */
+export function formatSymbolContext(symbols: readonly IndexedSymbol[]): string {
+  return symbols
+    .map(symbol => `${symbol.qualifiedName} (${symbol.kind}) - ${symbol.filepath}:${symbol.startLine}-${symbol.endLine}`)
+    .join('\n');
+}
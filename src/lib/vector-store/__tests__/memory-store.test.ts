@@ -0,0 +1,241 @@
+/**
+ * In-Memory Vector Store Tests
+ * Covers hybrid ranking, filters, aggregates, snapshots and offline search end-to-end
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InMemoryVectorStore, setVectorStore, createLocalEmbedding, createObjectId, scanObjects } from '..';
+import { performHybridSearch } from '../../search/hybrid-search';
+import { parseExplainScore } from '../../search/search-explain';
+import { buildWhereFilter } from '../../search/search-filters';
+import { DEFAULT_SEARCH_CONFIG } from '../../../types/search';
+
+const DOCUMENTS = [
+  {
+    id: createObjectId('github:src/retry.ts'),
+    properties: {
+      content: 'export function retryWithBackoff(fn, attempts) { /* exponential backoff retry */ }',
+      filepath: 'src/retry.ts',
+      source: 'github',
+      language: 'typescript',
+      tags: ['code', 'typescript'],
+      lastModified: '2026-09-01T00:00:00.000Z'
+    }
+  },
+  {
+    id: createObjectId('web:docs/retries'),
+    properties: {
+      content: 'Retry policies: configure backoff and maximum attempts for failed requests.',
+      filepath: 'docs/retries.md',
+      source: 'web',
+      language: 'markdown',
+      tags: ['docs'],
+      lastModified: '2024-01-01T00:00:00.000Z'
+    }
+  },
+  {
+    id: createObjectId('github:src/theme.css'),
+    properties: {
+      content: 'body { color: rebeccapurple; font-family: serif; }',
+      filepath: 'src/theme.css',
+      source: 'github',
+      language: 'css',
+      tags: ['code', 'css'],
+      lastModified: '2026-09-02T00:00:00.000Z'
+    }
+  }
+];
+
+const FIELDS = ['content', 'filepath', 'source', 'language'];
+
+describe('InMemoryVectorStore', () => {
+  let store: InMemoryVectorStore;
+
+  beforeEach(async () => {
+    store = new InMemoryVectorStore();
+    await store.upsert('Document', DOCUMENTS);
+  });
+
+  it('ranks keyword and vector matches above unrelated objects', async () => {
+    const hits = await store.hybridQuery({
+      className: 'Document',
+      query: 'retry backoff',
+      alpha: 0.5,
+      properties: ['content', 'filepath'],
+      fields: FIELDS,
+      limit: 10
+    });
+
+    expect(hits.map(hit => hit.filepath).slice(0, 2).sort()).toEqual(['docs/retries.md', 'src/retry.ts']);
+    expect(hits[0]._additional.score).toBeGreaterThan(hits[hits.length - 1]._additional.score as number);
+    expect(Object.keys(hits[0]).sort()).toEqual(['_additional', ...FIELDS].sort());
+  });
+
+  it('applies where filters built from SearchFilters', async () => {
+    const hits = await store.hybridQuery({
+      className: 'Document',
+      query: 'retry backoff',
+      alpha: 0.5,
+      properties: ['content'],
+      fields: FIELDS,
+      limit: 10,
+      where: buildWhereFilter({
+        source: ['github'],
+        dateRange: { from: new Date('2026-01-01') }
+      })
+    });
+
+    expect(hits.map(hit => hit.filepath)).toEqual(['src/retry.ts']);
+  });
+
+  it('emits explain lines in the Weaviate format', async () => {
+    const [hit] = await store.hybridQuery({
+      className: 'Document',
+      query: 'retryWithBackoff',
+      alpha: 0.5,
+      properties: ['content'],
+      fields: FIELDS,
+      limit: 1,
+      explain: true
+    });
+
+    const parts = parseExplainScore(hit._additional.explainScore);
+    expect(parts.keyword?.normalized).toBe(1);
+    expect(parts.vector?.original).toBeGreaterThan(0);
+  });
+
+  it('overwrites on upsert and reports deletions', async () => {
+    await store.upsert('Document', [{ ...DOCUMENTS[2], properties: { ...DOCUMENTS[2].properties, language: 'scss' } }]);
+
+    const [updated] = await store.getByFilter({
+      className: 'Document',
+      fields: ['language'],
+      where: { operator: 'Equal', path: ['filepath'], valueString: 'src/theme.css' },
+      limit: 5
+    });
+    expect(updated.language).toBe('scss');
+
+    expect(await store.delete('Document', [DOCUMENTS[2].id, 'missing'])).toBe(1);
+    expect((await store.aggregate({ className: 'Document' })).count).toBe(2);
+  });
+
+  it('aggregates grouped counts and top occurrences', async () => {
+    const bySource = await store.aggregate({ className: 'Document', groupBy: 'source' });
+    const tags = await store.aggregate({
+      className: 'Document',
+      topOccurrences: { property: 'tags', limit: 2 }
+    });
+
+    expect(bySource.groups).toEqual([{ value: 'github', count: 2 }, { value: 'web', count: 1 }]);
+    expect(tags.topOccurrences).toEqual([{ value: 'code', occurs: 2 }, { value: 'css', occurs: 1 }]);
+  });
+
+  it('limits near-text aggregates to the closest objects', async () => {
+    const result = await store.aggregate({
+      className: 'Document',
+      nearText: 'css color font',
+      objectLimit: 1,
+      groupBy: 'language'
+    });
+
+    expect(result.groups).toEqual([{ value: 'css', count: 1 }]);
+  });
+
+  it('scans every object page by page without overlap', async () => {
+    const pages: string[][] = [];
+
+    const loaded = await scanObjects(store, { className: 'Document', fields: ['filepath'], pageSize: 2 }, hits => {
+      pages.push(hits.map(hit => hit._additional.id));
+    });
+
+    expect(loaded).toBe(3);
+    expect(pages.map(page => page.length)).toEqual([2, 1]);
+    expect(pages.flat()).toEqual(DOCUMENTS.map(document => document.id).sort());
+  });
+});
+
+describe('createLocalEmbedding', () => {
+  it('is deterministic and normalized', () => {
+    const first = createLocalEmbedding('hybrid search ranking');
+    const second = createLocalEmbedding('hybrid search ranking');
+    const norm = Math.sqrt(first.reduce((sum, value) => sum + value * value, 0));
+
+    expect(first).toEqual(second);
+    expect(norm).toBeCloseTo(1);
+  });
+});
+
+describe('InMemoryVectorStore snapshots', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vector-store-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('shares written objects with another store through the snapshot', async () => {
+    const snapshotPath = join(dir, 'data', 'vector-store.json');
+    const writer = new InMemoryVectorStore({ snapshotPath });
+    await writer.upsert('Document', DOCUMENTS);
+    await writer.flush();
+
+    const reader = new InMemoryVectorStore({ snapshotPath });
+    const hits = await reader.hybridQuery({
+      className: 'Document',
+      query: 'exponential backoff retry',
+      alpha: 0.5,
+      properties: ['content'],
+      fields: ['filepath'],
+      limit: 1
+    });
+    expect(hits[0].filepath).toBe('src/retry.ts');
+
+    await writer.delete('Document', [DOCUMENTS[0].id]);
+    await writer.flush();
+
+    const remaining = await reader.getByFilter({ className: 'Document', fields: ['filepath'], limit: 10 });
+    expect(remaining.map(hit => hit.filepath)).not.toContain('src/retry.ts');
+    expect(await readdir(join(dir, 'data'))).toEqual(['vector-store.json']);
+  });
+
+  it('starts empty without a snapshot', async () => {
+    const store = new InMemoryVectorStore({ snapshotPath: join(dir, 'missing.json') });
+
+    expect(await store.aggregate({ className: 'Document' })).toEqual({ count: 0 });
+    await store.flush();
+    expect(await readdir(dir)).toEqual([]);
+  });
+});
+
+describe('performHybridSearch with the in-memory store', () => {
+  beforeEach(async () => {
+    const store = new InMemoryVectorStore();
+    await store.upsert('Document', DOCUMENTS);
+    setVectorStore(store);
+  });
+
+  afterEach(() => {
+    setVectorStore(null);
+  });
+
+  it('runs the hybrid search path offline', async () => {
+    const result = await performHybridSearch({
+      query: 'exponential backoff retry',
+      config: { ...DEFAULT_SEARCH_CONFIG, minScore: 0, recency: { weight: 0 } },
+      sourceWeights: { github: 1, web: 1 },
+      limit: 2,
+      offset: 0
+    });
+
+    expect(result.documents[0].filepath).toBe('src/retry.ts');
+    expect(result.documents[0].id).toBe(DOCUMENTS[0].id);
+    expect(result.documents).toHaveLength(2);
+    expect(result.documents[0].score).toBeGreaterThan(result.documents[1].score);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * BM25 Keyword Scoring
+ * Okapi BM25 over an in-memory corpus, matching Weaviate's keyword ranking
+ */
+
+import { tokenizeForRanking } from '../search/rerank/local-reranker';
+
+export interface Bm25Options {
+  readonly k1: number;
+  readonly b: number;
+}
+
+// Weaviate's default BM25 parameters
+export const DEFAULT_BM25_OPTIONS: Bm25Options = { k1: 1.2, b: 0.75 };
+
+/**
+ * Scores each text against the query; texts sharing no term score 0
+ * IDF is computed over the given texts, so scores are relative to that corpus
+ */
+export function scoreBm25(
+  query: string,
+  texts: readonly string[],
+  options: Bm25Options = DEFAULT_BM25_OPTIONS
+): number[] {
+  const queryTerms = [...new Set(tokenizeForRanking(query))];
+  if (queryTerms.length === 0 || texts.length === 0) return texts.map(() => 0);
+
+  const termCounts = texts.map(text => {
+    const counts = new Map<string, number>();
+    for (const term of tokenizeForRanking(text)) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    return counts;
+  });
+  const lengths = termCounts.map(counts => [...counts.values()].reduce((sum, n) => sum + n, 0));
+  const averageLength = lengths.reduce((sum, n) => sum + n, 0) / texts.length || 1;
+
+  const idf = new Map(queryTerms.map(term => {
+    const containing = termCounts.filter(counts => counts.has(term)).length;
+    return [term, Math.log(1 + (texts.length - containing + 0.5) / (containing + 0.5))];
+  }));
+
+  return termCounts.map((counts, index) => {
+    const lengthNorm = options.k1 * (1 - options.b + options.b * (lengths[index] / averageLength));
+    return queryTerms.reduce((score, term) => {
+      const frequency = counts.get(term) ?? 0;
+      if (frequency === 0) return score;
+      return score + idf.get(term)! * (frequency * (options.k1 + 1)) / (frequency + lengthNorm);
+    }, 0);
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Vector Store - Main Export
+ */
+
+import { InMemoryVectorStore } from './memory-store';
+import { WeaviateVectorStore } from './weaviate-store';
+import type { VectorStore, VectorStoreBackend } from './types';
+
+// In-memory objects persist here, so ingestion scripts and the app share them
+export const DEFAULT_VECTOR_STORE_SNAPSHOT = 'data/vector-store.json';
+
+let _vectorStore: VectorStore | null = null;
+
+/**
+ * Creates a store for a backend, defaulting to VECTOR_STORE or weaviate
+ * The memory backend persists to VECTOR_STORE_SNAPSHOT
+ */
+export function createVectorStore(backend?: VectorStoreBackend): VectorStore {
+  const resolved = backend ?? (process.env.VECTOR_STORE as VectorStoreBackend | undefined);
+  if (resolved === 'memory') {
+    return new InMemoryVectorStore({
+      snapshotPath: process.env.VECTOR_STORE_SNAPSHOT || DEFAULT_VECTOR_STORE_SNAPSHOT
+    });
+  }
+  return new WeaviateVectorStore();
+}
+
+/**
+ * Shared store instance, so ingestion and search see the same in-memory data
+ */
+export function getVectorStore(): VectorStore {
+  if (!_vectorStore) {
+    _vectorStore = createVectorStore();
+  }
+  return _vectorStore;
+}
+
+/**
+ * Replaces the shared store, e.g. with a seeded in-memory store; null resets it
+ */
+export function setVectorStore(store: VectorStore | null): void {
+  _vectorStore = store;
+}
+
+export { InMemoryVectorStore } from './memory-store';
+export { WeaviateVectorStore } from './weaviate-store';
+export { createLocalEmbedding, LOCAL_EMBEDDING_DIMENSIONS } from './local-embedder';
+export { scoreBm25 } from './bm25';
+export { createObjectId } from './object-id';
+export { scanObjects, DEFAULT_SCAN_PAGE_SIZE } from './scan';
+
+export type {
+  VectorStore,
+  VectorStoreBackend,
+  VectorStoreClass,
+  VectorStoreFilter,
+  VectorObject,
+  VectorStoreHit,
+  VectorStoreProperties,
+  HybridQueryParams,
+  NearObjectQueryParams,
+  FilterQueryParams,
+  RerankQueryParams,
+  AggregateParams,
+  AggregateResult
+} from './types';
+export type { ScanParams } from './scan';
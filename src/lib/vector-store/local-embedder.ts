@@ -0,0 +1,56 @@
+/**
+ * Local Embedder
+ * Deterministic feature-hashing embeddings for offline vector search
+ */
+
+import { tokenizeForRanking } from '../search/rerank/local-reranker';
+
+export const LOCAL_EMBEDDING_DIMENSIONS = 256;
+
+// Character n-grams let related identifiers (retry / retries) share dimensions
+const NGRAM_SIZE = 3;
+const NGRAM_WEIGHT = 0.5;
+
+/**
+ * 32-bit FNV-1a hash, stable across runs and platforms
+ */
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Adds a feature to its hashed dimension; a second hash bit picks the sign
+ * so unrelated collisions tend to cancel out
+ */
+function addFeature(vector: number[], feature: string, weight: number): void {
+  const hash = hashFeature(feature);
+  const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+  vector[hash % vector.length] += sign * weight;
+}
+
+/**
+ * Embeds text as an L2-normalized bag of terms and character n-grams
+ * The same text always yields the same vector; empty text yields zeros
+ */
+export function createLocalEmbedding(
+  text: string,
+  dimensions: number = LOCAL_EMBEDDING_DIMENSIONS
+): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+
+  for (const term of tokenizeForRanking(text)) {
+    addFeature(vector, `t:${term}`, 1);
+    const padded = `^${term}$`;
+    for (let i = 0; i + NGRAM_SIZE <= padded.length; i++) {
+      addFeature(vector, `g:${padded.slice(i, i + NGRAM_SIZE)}`, NGRAM_WEIGHT);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
@@ -0,0 +1,438 @@
+/**
+ * In-Memory Vector Store
+ * Fully in-process VectorStore: BM25 plus cosine similarity over local embeddings
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rename, stat, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { cosineSimilarity } from '../search/rerank/local-reranker';
+import { createLocalEmbedding } from './local-embedder';
+import { scoreBm25 } from './bm25';
+import type {
+  AggregateParams,
+  AggregateResult,
+  FilterQueryParams,
+  HybridQueryParams,
+  NearObjectQueryParams,
+  VectorObject,
+  VectorStore,
+  VectorStoreClass,
+  VectorStoreFilter,
+  VectorStoreHit
+} from './types';
+
+// Properties embedded when an object is written without a vector
+const VECTORIZED_PROPERTIES = ['filepath', 'content'];
+// Snapshot saves wait until writes pause for this long
+const SNAPSHOT_SAVE_DELAY_MS = 1000;
+
+interface StoredObject {
+  readonly id: string;
+  readonly properties: Record<string, unknown>;
+  readonly vector: readonly number[];
+}
+
+interface ScoredObject {
+  readonly object: StoredObject;
+  readonly score: number;
+  readonly keyword?: { readonly original: number; readonly normalized: number };
+  readonly vector?: { readonly original: number; readonly normalized: number };
+}
+
+export interface InMemoryVectorStoreOptions {
+  readonly embed?: (text: string) => number[];
+  // JSON file loaded on first use and saved after writes, so ingestion
+  // scripts and the app share objects; a rewrite by another process is
+  // picked up before the next operation
+  readonly snapshotPath?: string;
+}
+
+interface VectorStoreSnapshot {
+  readonly version: 1;
+  readonly classes: Partial<Record<VectorStoreClass, StoredObject[]>>;
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | null)?.code === 'ENOENT';
+}
+
+/**
+ * First value field set on a where operand
+ */
+function filterValue(filter: VectorStoreFilter): unknown {
+  return filter.valueString ?? filter.valueText ?? filter.valueInt ?? filter.valueNumber ??
+    filter.valueBoolean ?? filter.valueDate ?? filter.valueTextArray ?? filter.valueStringArray ??
+    filter.valueIntArray ?? filter.valueNumberArray ?? filter.valueBooleanArray ?? filter.valueDateArray;
+}
+
+/**
+ * Orders two scalar values, comparing dates by timestamp
+ */
+function compareValues(left: unknown, right: unknown, isDate: boolean): number {
+  if (isDate) return new Date(left as string).getTime() - new Date(right as string).getTime();
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  return String(left).localeCompare(String(right));
+}
+
+/**
+ * Converts a Like pattern (* and ?) into a case-insensitive expression
+ */
+function likePattern(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+// Range operators as a test on the comparison result
+const ORDER_OPERATORS: Record<string, (order: number) => boolean> = {
+  GreaterThan: order => order > 0,
+  GreaterThanEqual: order => order >= 0,
+  LessThan: order => order < 0,
+  LessThanEqual: order => order <= 0
+};
+
+/**
+ * Evaluates a comparison operand against a present property value
+ * Operators on array properties match when any element matches
+ */
+function matchesOperand(filter: VectorStoreFilter, actual: unknown): boolean {
+  const expected = filterValue(filter);
+  const actualValues = Array.isArray(actual) ? actual : [actual];
+  const expectedValues = Array.isArray(expected) ? expected : [expected];
+  const isDate = filter.valueDate !== undefined;
+  const equals = (value: unknown) => expectedValues.some(candidate => compareValues(value, candidate, isDate) === 0);
+
+  const order = ORDER_OPERATORS[filter.operator ?? ''];
+  if (order) return actualValues.some(value => order(compareValues(value, expected, isDate)));
+
+  switch (filter.operator) {
+    case 'Equal':
+    case 'ContainsAny':
+      return actualValues.some(equals);
+    case 'NotEqual':
+      return !actualValues.some(equals);
+    case 'Like':
+      return actualValues.some(value => likePattern(String(expected)).test(String(value)));
+    case 'ContainsAll':
+      return expectedValues.every(candidate =>
+        actualValues.some(value => compareValues(value, candidate, isDate) === 0)
+      );
+    default:
+      throw new Error(`Unsupported filter operator for in-memory store: ${filter.operator}`);
+  }
+}
+
+/**
+ * Evaluates a where filter against one object with Weaviate semantics
+ */
+function matchesFilter(object: StoredObject, filter?: VectorStoreFilter): boolean {
+  if (!filter) return true;
+
+  const operands = filter.operands ?? [];
+  if (filter.operator === 'And') return operands.every(operand => matchesFilter(object, operand));
+  if (filter.operator === 'Or') return operands.some(operand => matchesFilter(object, operand));
+
+  const property = filter.path?.[0];
+  const actual = property === 'id' ? object.id : property ? object.properties[property] : undefined;
+  const missing = actual === undefined || actual === null;
+
+  if (filter.operator === 'IsNull') return missing === (filterValue(filter) !== false);
+  if (missing) return filter.operator === 'NotEqual';
+  return matchesOperand(filter, actual);
+}
+
+/**
+ * Min-max normalization of one result set, as in relativeScoreFusion
+ */
+function normalizeScores(scores: ReadonlyMap<string, number>): Map<string, number> {
+  const values = [...scores.values()];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return new Map([...scores].map(([id, score]) => [id, max === min ? 1 : (score - min) / (max - min)]));
+}
+
+/**
+ * Weaviate-style explain line so explain mode parses both backends alike
+ */
+function formatExplainScore(scored: ScoredObject): string {
+  const lines: string[] = [];
+  if (scored.keyword) {
+    lines.push(`Hybrid (Result Set keyword,bm25) Document ${scored.object.id}: ` +
+      `original score ${scored.keyword.original}, normalized score: ${scored.keyword.normalized}`);
+  }
+  if (scored.vector) {
+    lines.push(`Hybrid (Result Set vector,hybridVector) Document ${scored.object.id}: ` +
+      `original score ${scored.vector.original}, normalized score: ${scored.vector.normalized}`);
+  }
+  return lines.join(' - \n');
+}
+
+/**
+ * Counts each value of a property, counting every element of array values
+ */
+function countValues(objects: readonly StoredObject[], property: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const object of objects) {
+    const value = object.properties[property];
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item === undefined || item === null) continue;
+      counts.set(String(item), (counts.get(String(item)) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * VectorStore kept entirely in process memory
+ * Lets the RAG stack run and be integration-tested without a Weaviate instance
+ */
+export class InMemoryVectorStore implements VectorStore {
+  readonly backend = 'memory' as const;
+  private readonly classes = new Map<VectorStoreClass, Map<string, StoredObject>>();
+  private readonly embed: (text: string) => number[];
+  private readonly snapshotPath?: string;
+  // Modification time of the snapshot as this store last read or wrote it
+  private snapshotMtimeMs: number | null = null;
+  // Writes not yet in the snapshot
+  private dirty = false;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: InMemoryVectorStoreOptions = {}) {
+    this.embed = options.embed ?? (text => createLocalEmbedding(text));
+    this.snapshotPath = options.snapshotPath;
+  }
+
+  async upsert(className: VectorStoreClass, objects: readonly VectorObject[]): Promise<void> {
+    await this.loadSnapshot();
+    const stored = this.getClass(className);
+    for (const object of objects) {
+      const text = VECTORIZED_PROPERTIES
+        .map(property => object.properties[property])
+        .filter((value): value is string => typeof value === 'string')
+        .join('\n');
+
+      stored.set(object.id, {
+        id: object.id,
+        properties: { ...object.properties },
+        vector: object.vector ? [...object.vector] : this.embed(text)
+      });
+    }
+    this.scheduleSave();
+  }
+
+  async delete(className: VectorStoreClass, ids: readonly string[]): Promise<number> {
+    await this.loadSnapshot();
+    const stored = this.getClass(className);
+    const deleted = ids.filter(id => stored.delete(id)).length;
+    if (deleted > 0) this.scheduleSave();
+    return deleted;
+  }
+
+  async hybridQuery<P extends object>(params: HybridQueryParams): Promise<VectorStoreHit<P>[]> {
+    await this.loadSnapshot();
+    const candidates = this.filterObjects(params.className, params.where);
+    if (candidates.length === 0) return [];
+
+    const keywordTexts = candidates.map(object =>
+      params.properties.map(property => String(object.properties[property] ?? '')).join('\n')
+    );
+    const bm25 = scoreBm25(params.query, keywordTexts);
+    const queryVector = this.embed(params.query);
+
+    const keywordScores = new Map<string, number>();
+    const vectorScores = new Map<string, number>();
+    candidates.forEach((object, index) => {
+      if (bm25[index] > 0) keywordScores.set(object.id, bm25[index]);
+      const similarity = cosineSimilarity(queryVector, object.vector);
+      if (similarity > 0) vectorScores.set(object.id, similarity);
+    });
+
+    const keywordNormalized = normalizeScores(keywordScores);
+    const vectorNormalized = normalizeScores(vectorScores);
+
+    const scored: ScoredObject[] = candidates
+      .filter(object => keywordScores.has(object.id) || vectorScores.has(object.id))
+      .map(object => {
+        const keyword = keywordScores.has(object.id)
+          ? { original: keywordScores.get(object.id)!, normalized: keywordNormalized.get(object.id)! }
+          : undefined;
+        const vector = vectorScores.has(object.id)
+          ? { original: vectorScores.get(object.id)!, normalized: vectorNormalized.get(object.id)! }
+          : undefined;
+        const score = params.alpha * (vector?.normalized ?? 0) + (1 - params.alpha) * (keyword?.normalized ?? 0);
+        return { object, score, keyword, vector };
+      })
+      .sort((a, b) => b.score - a.score || a.object.id.localeCompare(b.object.id));
+
+    const offset = params.offset ?? 0;
+    return scored.slice(offset, offset + params.limit).map(item =>
+      this.toHit<P>(item.object, params.fields, {
+        score: item.score,
+        ...(params.explain && { explainScore: formatExplainScore(item) })
+      })
+    );
+  }
+
+  async nearObjectQuery<P extends object>(params: NearObjectQueryParams): Promise<VectorStoreHit<P>[]> {
+    await this.loadSnapshot();
+    const target = this.getClass(params.className).get(params.id);
+    if (!target) throw new Error(`No ${params.className} object with id ${params.id}`);
+
+    return this.filterObjects(params.className, params.where)
+      .map(object => ({ object, similarity: cosineSimilarity(target.vector, object.vector) }))
+      .sort((a, b) => b.similarity - a.similarity || a.object.id.localeCompare(b.object.id))
+      .slice(0, params.limit)
+      .map(({ object, similarity }) => this.toHit<P>(object, params.fields, { distance: 1 - similarity }));
+  }
+
+  async aggregate(params: AggregateParams): Promise<AggregateResult> {
+    await this.loadSnapshot();
+    let objects = this.filterObjects(params.className, params.where);
+
+    if (params.nearText) {
+      const queryVector = this.embed(params.nearText);
+      objects = objects
+        .map(object => ({ object, similarity: cosineSimilarity(queryVector, object.vector) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .map(({ object }) => object);
+    }
+    if (params.objectLimit) objects = objects.slice(0, params.objectLimit);
+
+    if (params.groupBy) {
+      const groups = [...countValues(objects, params.groupBy)]
+        .map(([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+      return { count: objects.length, groups };
+    }
+
+    if (params.topOccurrences) {
+      const topOccurrences = [...countValues(objects, params.topOccurrences.property)]
+        .map(([value, occurs]) => ({ value, occurs }))
+        .sort((a, b) => b.occurs - a.occurs || a.value.localeCompare(b.value))
+        .slice(0, params.topOccurrences.limit);
+      return { count: objects.length, topOccurrences };
+    }
+
+    return { count: objects.length };
+  }
+
+  async getByFilter<P extends object>(params: FilterQueryParams): Promise<VectorStoreHit<P>[]> {
+    await this.loadSnapshot();
+    const after = params.after;
+    // Id order, like the Weaviate cursor API, so pages never overlap
+    return this.filterObjects(params.className, params.where)
+      .filter(object => after === undefined || object.id > after)
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .slice(0, params.limit)
+      .map(object => this.toHit<P>(object, params.fields));
+  }
+
+  // Nothing to connect to
+  async healthCheck(): Promise<void> {}
+
+  /**
+   * Saves pending writes to the snapshot now
+   */
+  flush(): Promise<void> {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    if (this.snapshotPath && this.dirty) {
+      // A failed save must not block the ones after it
+      this.saving = this.saving.catch(() => {}).then(() => this.writeSnapshot());
+    }
+    return this.saving;
+  }
+
+  private scheduleSave(): void {
+    if (!this.snapshotPath) return;
+    this.dirty = true;
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.flush().catch(error => console.error('Failed to save vector store snapshot:', error));
+    }, SNAPSHOT_SAVE_DELAY_MS);
+    // A pending save never keeps the process alive; scripts flush before exiting
+    this.saveTimer.unref?.();
+  }
+
+  /**
+   * Replaces the objects with the snapshot when it changed on disk since
+   * this store last read or wrote it; unsaved writes win over a rewrite
+   */
+  private async loadSnapshot(): Promise<void> {
+    if (!this.snapshotPath || this.dirty) return;
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await stat(this.snapshotPath)).mtimeMs;
+    } catch (error) {
+      if (isMissingFile(error)) return;
+      throw error;
+    }
+    if (mtimeMs === this.snapshotMtimeMs) return;
+
+    const snapshot: VectorStoreSnapshot = JSON.parse(await readFile(this.snapshotPath, 'utf-8'));
+    if (this.dirty) return;
+    this.classes.clear();
+    for (const [className, objects] of Object.entries(snapshot.classes)) {
+      this.classes.set(className as VectorStoreClass, new Map((objects ?? []).map(object => [object.id, object])));
+    }
+    this.snapshotMtimeMs = mtimeMs;
+  }
+
+  /**
+   * Writes the snapshot through a temporary file, so readers never see a
+   * partial one
+   */
+  private async writeSnapshot(): Promise<void> {
+    if (!this.snapshotPath || !this.dirty) return;
+    this.dirty = false;
+
+    const snapshot: VectorStoreSnapshot = {
+      version: 1,
+      classes: Object.fromEntries([...this.classes].map(([className, objects]) => [className, [...objects.values()]]))
+    };
+    const temporary = `${this.snapshotPath}.${randomUUID()}.tmp`;
+    try {
+      await mkdir(dirname(this.snapshotPath), { recursive: true });
+      await writeFile(temporary, JSON.stringify(snapshot), 'utf-8');
+      await rename(temporary, this.snapshotPath);
+      this.snapshotMtimeMs = (await stat(this.snapshotPath)).mtimeMs;
+    } catch (error) {
+      this.dirty = true;
+      throw error;
+    }
+  }
+
+  private getClass(className: VectorStoreClass): Map<string, StoredObject> {
+    let stored = this.classes.get(className);
+    if (!stored) {
+      stored = new Map();
+      this.classes.set(className, stored);
+    }
+    return stored;
+  }
+
+  private filterObjects(className: VectorStoreClass, where?: VectorStoreFilter): StoredObject[] {
+    return [...this.getClass(className).values()].filter(object => matchesFilter(object, where));
+  }
+
+  /**
+   * Copies the requested fields; their shape is the caller's declaration,
+   * as with Weaviate results
+   */
+  private toHit<P extends object>(
+    object: StoredObject,
+    fields: readonly string[],
+    additional: { score?: number; explainScore?: string; distance?: number } = {}
+  ): VectorStoreHit<P> {
+    const hit: Record<string, unknown> = {};
+    for (const field of fields) {
+      if (field in object.properties) hit[field] = object.properties[field];
+    }
+    return { ...hit, _additional: { id: object.id, ...additional } } as VectorStoreHit<P>;
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Deterministic Object IDs
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Derives a stable UUID-formatted id from a natural key (e.g. source and path),
+ * so re-ingesting the same file overwrites its object instead of duplicating it
+ */
+export function createObjectId(key: string): string {
+  const hex = createHash('sha256').update(key).digest('hex');
+  // Version 5-style layout: version nibble 5, RFC 4122 variant bits
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
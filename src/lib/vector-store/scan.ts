@@ -0,0 +1,47 @@
+/**
+ * Vector Store Scans
+ * Reads every object of a class page by page with the cursor API
+ */
+
+import type { FilterQueryParams, VectorStore, VectorStoreHit, VectorStoreProperties } from './types';
+
+// Weaviate caps a single Get at 10000 objects (QUERY_MAXIMUM_RESULTS)
+export const DEFAULT_SCAN_PAGE_SIZE = 1000;
+
+export interface ScanParams extends Pick<FilterQueryParams, 'className' | 'fields'> {
+  readonly pageSize?: number;
+  // Stops after this many objects
+  readonly maxObjects?: number;
+}
+
+/**
+ * Calls onPage with each page of objects in id order; returns how many
+ * objects were read
+ */
+export async function scanObjects<P extends object = VectorStoreProperties>(
+  store: VectorStore,
+  params: ScanParams,
+  onPage: (hits: VectorStoreHit<P>[]) => void | Promise<void>
+): Promise<number> {
+  const pageSize = params.pageSize ?? DEFAULT_SCAN_PAGE_SIZE;
+  const maxObjects = params.maxObjects ?? Infinity;
+  let after: string | undefined;
+  let loaded = 0;
+
+  while (loaded < maxObjects) {
+    const page = await store.getByFilter<P>({
+      className: params.className,
+      fields: params.fields,
+      limit: Math.min(pageSize, maxObjects - loaded),
+      after
+    });
+    if (page.length === 0) break;
+
+    await onPage(page);
+    loaded += page.length;
+    after = page[page.length - 1]._additional.id;
+    if (page.length < pageSize) break;
+  }
+
+  return loaded;
+}
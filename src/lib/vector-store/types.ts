@@ -0,0 +1,115 @@
+/**
+ * Vector Store Type Definitions
+ */
+
+import type { WhereFilter } from 'weaviate-ts-client';
+
+export type VectorStoreBackend = 'weaviate' | 'memory';
+
+export type VectorStoreClass = 'Document' | 'Chunk' | 'Symbol';
+
+// Filters use the Weaviate where-operator shape so buildWhereFilter works for every backend
+export type VectorStoreFilter = WhereFilter;
+
+/**
+ * Object to write; the id makes writes idempotent across re-ingestion
+ */
+export interface VectorObject {
+  readonly id: string;
+  readonly properties: Record<string, unknown>;
+  readonly vector?: readonly number[];
+}
+
+// Requested fields of a hit when the caller does not name their shape
+export type VectorStoreProperties = Record<string, unknown>;
+
+/**
+ * Stored properties plus the backend's additional fields, shaped like a
+ * Weaviate Get result so scoring code reads every backend the same way
+ * Callers name the shape of the fields they request, e.g.
+ * getByFilter<{ filepath: string }>
+ */
+export type VectorStoreHit<P extends object = VectorStoreProperties> = Readonly<P> & {
+  readonly _additional: {
+    readonly id: string;
+    readonly score?: string | number;
+    readonly explainScore?: string;
+    // Cosine distance to the query object in near-object queries
+    readonly distance?: number;
+  };
+};
+
+export interface HybridQueryParams {
+  readonly className: VectorStoreClass;
+  readonly query: string;
+  // Share of the vector result set in relative score fusion (0 = keyword only)
+  readonly alpha: number;
+  readonly properties: readonly string[];
+  readonly fields: readonly string[];
+  readonly limit: number;
+  readonly offset?: number;
+  readonly where?: VectorStoreFilter;
+  readonly explain?: boolean;
+}
+
+export interface FilterQueryParams {
+  readonly className: VectorStoreClass;
+  readonly fields: readonly string[];
+  readonly where?: VectorStoreFilter;
+  readonly limit: number;
+  // Cursor: objects are returned in id order after this id; Weaviate does
+  // not combine a cursor with where
+  readonly after?: string;
+}
+
+export interface NearObjectQueryParams {
+  readonly className: VectorStoreClass;
+  // Stored object whose vector is the query; it is returned as its own nearest hit
+  readonly id: string;
+  readonly fields: readonly string[];
+  readonly limit: number;
+  readonly where?: VectorStoreFilter;
+}
+
+export interface AggregateParams {
+  readonly className: VectorStoreClass;
+  // Restricts the aggregate to the objects nearest this text
+  readonly nearText?: string;
+  readonly objectLimit?: number;
+  readonly where?: VectorStoreFilter;
+  readonly groupBy?: string;
+  readonly topOccurrences?: { readonly property: string; readonly limit: number };
+}
+
+export interface RerankQueryParams {
+  readonly className: VectorStoreClass;
+  readonly query: string;
+  // Text property the cross-encoder reads
+  readonly property: string;
+  readonly ids: readonly string[];
+}
+
+export interface AggregateResult {
+  readonly count: number;
+  readonly groups?: ReadonlyArray<{ readonly value: string; readonly count: number }>;
+  readonly topOccurrences?: ReadonlyArray<{ readonly value: string; readonly occurs: number }>;
+}
+
+/**
+ * Storage and retrieval operations the search and ingestion layers depend on
+ */
+export interface VectorStore {
+  readonly backend: VectorStoreBackend;
+  upsert(className: VectorStoreClass, objects: readonly VectorObject[]): Promise<void>;
+  delete(className: VectorStoreClass, ids: readonly string[]): Promise<number>;
+  hybridQuery<P extends object = VectorStoreProperties>(params: HybridQueryParams): Promise<VectorStoreHit<P>[]>;
+  nearObjectQuery<P extends object = VectorStoreProperties>(params: NearObjectQueryParams): Promise<VectorStoreHit<P>[]>;
+  aggregate(params: AggregateParams): Promise<AggregateResult>;
+  getByFilter<P extends object = VectorStoreProperties>(params: FilterQueryParams): Promise<VectorStoreHit<P>[]>;
+  // Raw cross-encoder scores by object id; only backends with a reranker module implement it
+  rerank?(params: RerankQueryParams): Promise<Map<string, unknown>>;
+  // Rejects when the backend is unreachable
+  healthCheck(): Promise<void>;
+  // Resolves once every write so far is durable
+  flush(): Promise<void>;
+}
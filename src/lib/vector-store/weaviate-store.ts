@@ -0,0 +1,207 @@
+/**
+ * Weaviate Vector Store
+ * VectorStore backed by Weaviate GraphQL, batch and data APIs
+ */
+
+import { FusionType } from 'weaviate-ts-client';
+import { createWeaviateClient } from '../weaviate/client';
+import type {
+  AggregateParams,
+  AggregateResult,
+  FilterQueryParams,
+  HybridQueryParams,
+  NearObjectQueryParams,
+  RerankQueryParams,
+  VectorObject,
+  VectorStore,
+  VectorStoreClass,
+  VectorStoreHit
+} from './types';
+
+/**
+ * One row of an Aggregate result for the fields buildAggregateFields selects
+ */
+interface AggregateRow {
+  readonly groupedBy?: { readonly value?: unknown };
+  readonly meta?: { readonly count?: number };
+  readonly [property: string]: unknown;
+}
+
+interface TopOccurrence {
+  readonly value?: unknown;
+  readonly occurs?: number;
+}
+
+interface RerankRow {
+  readonly _additional?: { readonly id?: string; readonly rerank?: ReadonlyArray<{ readonly score?: unknown }> };
+}
+
+/**
+ * Aggregate field selection for the requested statistic
+ */
+function buildAggregateFields(params: AggregateParams): string {
+  if (params.groupBy) return 'groupedBy { value } meta { count }';
+  if (params.topOccurrences) {
+    const { property, limit } = params.topOccurrences;
+    return `${property} { topOccurrences(limit: ${limit}) { value occurs } }`;
+  }
+  return 'meta { count }';
+}
+
+/**
+ * VectorStore that delegates to the configured Weaviate instance
+ * The client is resolved per call so connection configuration stays lazy
+ */
+export class WeaviateVectorStore implements VectorStore {
+  readonly backend = 'weaviate' as const;
+
+  async upsert(className: VectorStoreClass, objects: readonly VectorObject[]): Promise<void> {
+    if (objects.length === 0) return;
+
+    const client = createWeaviateClient();
+    // Batch imports replace objects whose id already exists
+    const results = await client.batch
+      .objectsBatcher()
+      .withObjects(...objects.map(object => ({
+        class: className,
+        id: object.id,
+        properties: object.properties,
+        ...(object.vector && { vector: [...object.vector] })
+      })))
+      .do();
+
+    const failures = (results ?? []).filter(result => result.result?.errors);
+    if (failures.length > 0) {
+      const [first] = failures;
+      const message = first.result?.errors?.error?.[0]?.message ?? 'unknown error';
+      throw new Error(`Weaviate upsert failed for ${failures.length} ${className} objects: ${message}`);
+    }
+  }
+
+  async delete(className: VectorStoreClass, ids: readonly string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const client = createWeaviateClient();
+    const result = await client.batch
+      .objectsBatchDeleter()
+      .withClassName(className)
+      .withWhere({ operator: 'ContainsAny', path: ['id'], valueTextArray: [...ids] })
+      .do();
+
+    return result?.results?.successful ?? 0;
+  }
+
+  async hybridQuery<P extends object>(params: HybridQueryParams): Promise<VectorStoreHit<P>[]> {
+    const client = createWeaviateClient();
+    let query = client.graphql
+      .get()
+      .withClassName(params.className)
+      .withFields(`${params.fields.join(' ')} _additional { score ${params.explain ? 'explainScore ' : ''}id }`)
+      .withHybrid({
+        query: params.query,
+        alpha: params.alpha,
+        properties: [...params.properties],
+        fusionType: FusionType.relativeScoreFusion
+      })
+      .withLimit(params.limit);
+
+    if (params.offset !== undefined) query = query.withOffset(params.offset);
+    if (params.where) query = query.withWhere(params.where);
+
+    const result = await query.do();
+    return result?.data?.Get?.[params.className] ?? [];
+  }
+
+  async nearObjectQuery<P extends object>(params: NearObjectQueryParams): Promise<VectorStoreHit<P>[]> {
+    const client = createWeaviateClient();
+    let query = client.graphql
+      .get()
+      .withClassName(params.className)
+      .withFields(`${params.fields.join(' ')} _additional { distance id }`)
+      .withNearObject({ id: params.id })
+      .withLimit(params.limit);
+
+    if (params.where) query = query.withWhere(params.where);
+
+    const result = await query.do();
+    return result?.data?.Get?.[params.className] ?? [];
+  }
+
+  async aggregate(params: AggregateParams): Promise<AggregateResult> {
+    const client = createWeaviateClient();
+    let aggregate = client.graphql
+      .aggregate()
+      .withClassName(params.className)
+      .withFields(buildAggregateFields(params));
+
+    if (params.nearText) aggregate = aggregate.withNearText({ concepts: [params.nearText] });
+    if (params.objectLimit) aggregate = aggregate.withObjectLimit(params.objectLimit);
+    if (params.where) aggregate = aggregate.withWhere(params.where);
+    if (params.groupBy) aggregate = aggregate.withGroupBy([params.groupBy]);
+
+    const result = await aggregate.do();
+    const rows: AggregateRow[] = result?.data?.Aggregate?.[params.className] ?? [];
+
+    if (params.groupBy) {
+      const groups = rows.flatMap(row => typeof row.groupedBy?.value === 'string'
+        ? [{ value: row.groupedBy.value, count: row.meta?.count ?? 0 }]
+        : []);
+      return { count: groups.reduce((sum, group) => sum + group.count, 0), groups };
+    }
+
+    if (params.topOccurrences) {
+      const property = rows[0]?.[params.topOccurrences.property] as { topOccurrences?: TopOccurrence[] } | undefined;
+      const occurrences = (property?.topOccurrences ?? []).flatMap(occurrence => typeof occurrence.value === 'string'
+        ? [{ value: occurrence.value, occurs: occurrence.occurs ?? 0 }]
+        : []);
+      return { count: rows[0]?.meta?.count ?? 0, topOccurrences: occurrences };
+    }
+
+    return { count: rows[0]?.meta?.count ?? 0 };
+  }
+
+  async getByFilter<P extends object>(params: FilterQueryParams): Promise<VectorStoreHit<P>[]> {
+    const client = createWeaviateClient();
+    let query = client.graphql
+      .get()
+      .withClassName(params.className)
+      .withFields(`${params.fields.join(' ')} _additional { id }`)
+      .withLimit(params.limit);
+
+    if (params.where) query = query.withWhere(params.where);
+    if (params.after) query = query.withAfter(params.after);
+
+    const result = await query.do();
+    return result?.data?.Get?.[params.className] ?? [];
+  }
+
+  /**
+   * Scores through the reranker-transformers module declared in the schema
+   */
+  async rerank(params: RerankQueryParams): Promise<Map<string, unknown>> {
+    const client = createWeaviateClient();
+    const result = await client.graphql
+      .get()
+      .withClassName(params.className)
+      .withFields(
+        `_additional { id rerank(property: ${JSON.stringify(params.property)} query: ${JSON.stringify(params.query)}) { score } }`
+      )
+      .withWhere({ operator: 'ContainsAny', path: ['id'], valueTextArray: [...params.ids] })
+      .withLimit(params.ids.length)
+      .do();
+
+    const rows: RerankRow[] = result?.data?.Get?.[params.className] ?? [];
+    const scores = new Map<string, unknown>();
+    for (const row of rows) {
+      if (row._additional?.id) scores.set(row._additional.id, row._additional.rerank?.[0]?.score);
+    }
+    return scores;
+  }
+
+  async healthCheck(): Promise<void> {
+    await createWeaviateClient().misc.metaGetter().do();
+  }
+
+  // Batch writes are durable once upsert resolves
+  async flush(): Promise<void> {}
+}
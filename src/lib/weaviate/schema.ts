@@ -12,6 +12,12 @@ export const documentSchema = {
       dataType: ['text'],
       description: 'The main content of the document'
     },
+    {
+      name: 'identifiers',
+      dataType: ['text'],
+      description: 'Split identifier and path words for keyword search (not vectorized)',
+      moduleConfig: { 'text2vec-openai': { skip: true, vectorizePropertyName: false } }
+    },
     {
       name: 'source',
       dataType: ['string'],
@@ -61,6 +67,31 @@ export const documentSchema = {
       name: 'size',
       dataType: ['int'],
       description: 'File size in bytes'
+    },
+    {
+      name: 'tags',
+      dataType: ['text[]'],
+      description: 'Free-form labels used by search filters'
+    },
+    {
+      name: 'authority',
+      dataType: ['string'],
+      description: 'Source authority: primary, authoritative, supplementary or community'
+    },
+    {
+      name: 'author',
+      dataType: ['string'],
+      description: 'Author of the last commit touching the file'
+    },
+    {
+      name: 'branch',
+      dataType: ['string'],
+      description: 'Branch checked out when the file was ingested'
+    },
+    {
+      name: 'commit',
+      dataType: ['string'],
+      description: 'Commit sha whose tree matches the file, empty for uncommitted changes'
     }
   ],
   vectorizer: 'text2vec-openai',
@@ -75,26 +106,274 @@ export const documentSchema = {
   }
 }
 
+export const CHUNK_CLASS = 'Chunk'
+
+export const chunkSchema = {
+  class: CHUNK_CLASS,
+  description: 'Line-aligned slices of a Document used for chunk-level retrieval',
+  properties: [
+    {
+      name: 'content',
+      dataType: ['text'],
+      description: 'The chunk text'
+    },
+    {
+      name: 'identifiers',
+      dataType: ['text'],
+      description: 'Split identifier and path words of the chunk (not vectorized)',
+      moduleConfig: { 'text2vec-openai': { skip: true, vectorizePropertyName: false } }
+    },
+    {
+      name: 'document',
+      dataType: [DOCUMENT_CLASS],
+      description: 'Reference to the parent Document'
+    },
+    {
+      name: 'documentId',
+      dataType: ['string'],
+      description: 'Parent Document id, duplicated for cheap filtering'
+    },
+    {
+      name: 'source',
+      dataType: ['string'],
+      description: 'Source type of the parent document'
+    },
+    {
+      name: 'filepath',
+      dataType: ['string'],
+      description: 'Relative file path of the parent document'
+    },
+    {
+      name: 'url',
+      dataType: ['string'],
+      description: 'URL of the parent document'
+    },
+    {
+      name: 'language',
+      dataType: ['string'],
+      description: 'Programming language or content type'
+    },
+    {
+      name: 'lastModified',
+      dataType: ['date'],
+      description: 'Last modification timestamp of the parent document'
+    },
+    {
+      name: 'priority',
+      dataType: ['number'],
+      description: 'Priority weighting inherited from the parent document'
+    },
+    {
+      name: 'tags',
+      dataType: ['text[]'],
+      description: 'Labels inherited from the parent document'
+    },
+    {
+      name: 'authority',
+      dataType: ['string'],
+      description: 'Source authority inherited from the parent document'
+    },
+    {
+      name: 'author',
+      dataType: ['string'],
+      description: 'Author of the last commit touching the parent document'
+    },
+    {
+      name: 'branch',
+      dataType: ['string'],
+      description: 'Branch checked out when the parent document was ingested'
+    },
+    {
+      name: 'commit',
+      dataType: ['string'],
+      description: 'Commit sha whose tree matches the parent document, empty for uncommitted changes'
+    },
+    {
+      name: 'chunkIndex',
+      dataType: ['int'],
+      description: 'Zero-based position of the chunk within its document'
+    },
+    {
+      name: 'totalChunks',
+      dataType: ['int'],
+      description: 'Number of chunks in the parent document'
+    },
+    {
+      name: 'startLine',
+      dataType: ['int'],
+      description: 'First line of the chunk (1-based)'
+    },
+    {
+      name: 'endLine',
+      dataType: ['int'],
+      description: 'Last line of the chunk (inclusive)'
+    },
+    {
+      name: 'tokenCount',
+      dataType: ['int'],
+      description: 'Estimated token count used for context budgeting'
+    },
+    {
+      name: 'symbols',
+      dataType: ['text[]'],
+      description: 'Top-level declarations in the chunk'
+    },
+    {
+      name: 'breadcrumb',
+      dataType: ['text[]'],
+      description: 'Headings from the top of the document down to the chunk section'
+    },
+    {
+      name: 'anchor',
+      dataType: ['string'],
+      description: 'Fragment id of the chunk section heading'
+    },
+    {
+      name: 'context',
+      dataType: ['text'],
+      description: 'Imports the chunk refers to or its heading path, vectorized with the content'
+    }
+  ],
+  vectorizer: 'text2vec-openai',
+  moduleConfig: documentSchema.moduleConfig
+}
+
+export const SYMBOL_CLASS = 'Symbol'
+
+export const symbolSchema = {
+  class: SYMBOL_CLASS,
+  description: 'Functions, classes, interfaces and constants declared in source files',
+  properties: [
+    {
+      name: 'name',
+      dataType: ['string'],
+      description: 'Declared identifier'
+    },
+    {
+      name: 'qualifiedName',
+      dataType: ['string'],
+      description: 'Container-qualified name, e.g. Class.method'
+    },
+    {
+      name: 'kind',
+      dataType: ['string'],
+      description: 'function, class, interface, method or const'
+    },
+    {
+      name: 'container',
+      dataType: ['string'],
+      description: 'Enclosing class for methods'
+    },
+    {
+      name: 'exported',
+      dataType: ['boolean'],
+      description: 'Whether the symbol is part of the module surface'
+    },
+    {
+      name: 'documentId',
+      dataType: ['string'],
+      description: 'Id of the Document declaring the symbol'
+    },
+    {
+      name: 'source',
+      dataType: ['string'],
+      description: 'Source type of the declaring document'
+    },
+    {
+      name: 'filepath',
+      dataType: ['string'],
+      description: 'Relative file path of the declaring document'
+    },
+    {
+      name: 'url',
+      dataType: ['string'],
+      description: 'URL of the declaring document'
+    },
+    {
+      name: 'language',
+      dataType: ['string'],
+      description: 'Programming language of the declaring document'
+    },
+    {
+      name: 'author',
+      dataType: ['string'],
+      description: 'Author of the last commit touching the declaring document'
+    },
+    {
+      name: 'branch',
+      dataType: ['string'],
+      description: 'Branch checked out when the declaring document was ingested'
+    },
+    {
+      name: 'commit',
+      dataType: ['string'],
+      description: 'Commit sha whose tree matches the declaring document, empty for uncommitted changes'
+    },
+    {
+      name: 'startLine',
+      dataType: ['int'],
+      description: 'First line of the declaration (1-based)'
+    },
+    {
+      name: 'endLine',
+      dataType: ['int'],
+      description: 'Last line of the declaration (inclusive)'
+    }
+  ],
+  // Symbols are looked up by name, never by vector
+  vectorizer: 'none'
+}
+
+type ClassSchema = typeof documentSchema | typeof chunkSchema | typeof symbolSchema
+
+async function createClassIfMissing(
+  client: ReturnType<typeof createWeaviateClient>,
+  existingClasses: any[],
+  classSchema: ClassSchema
+): Promise<void> {
+  const existing = existingClasses.find(cls => cls.class === classSchema.class)
+  if (existing) {
+    console.log(`✅ ${classSchema.class} class already exists`)
+    await addMissingProperties(client, existing, classSchema)
+    return
+  }
+
+  console.log(`🔧 Creating ${classSchema.class} class schema...`)
+  await client.schema.classCreator().withClass(classSchema).do()
+  console.log(`✅ ${classSchema.class} class created successfully`)
+}
+
+// Weaviate allows adding properties to a live class, so new fields roll out without a reindex
+async function addMissingProperties(
+  client: ReturnType<typeof createWeaviateClient>,
+  existing: any,
+  classSchema: ClassSchema
+): Promise<void> {
+  const existingNames = new Set((existing.properties ?? []).map((prop: any) => prop.name as string))
+
+  for (const property of classSchema.properties) {
+    if (existingNames.has(property.name)) continue
+
+    console.log(`🔧 Adding ${classSchema.class}.${property.name} property...`)
+    await client.schema.propertyCreator()
+      .withClassName(classSchema.class)
+      .withProperty(property as any)
+      .do()
+  }
+}
+
 export async function initializeSchema(): Promise<void> {
   const client = createWeaviateClient()
 
   try {
-    // Check if schema already exists
     const existingSchema = await client.schema.getter().do()
-    const classExists = existingSchema.classes?.some(
-      (cls: any) => cls.class === DOCUMENT_CLASS
-    )
-
-    if (classExists) {
-      console.log('✅ Document class already exists')
-      return
-    }
+    const existingClasses = existingSchema.classes ?? []
 
-    // Create the Document class
-    console.log('🔧 Creating Document class schema...')
-    await client.schema.classCreator().withClass(documentSchema).do()
+    // Chunk references Document, so Document must exist first
+    await createClassIfMissing(client, existingClasses, documentSchema)
+    await createClassIfMissing(client, existingClasses, chunkSchema)
+    await createClassIfMissing(client, existingClasses, symbolSchema)
 
-    console.log('✅ Document class created successfully')
     console.log('📊 Schema configured with:')
     console.log('  - OpenAI text-embedding-3-large (1024 dimensions)')
     console.log('  - Hybrid search (75% vector, 25% keyword)')
@@ -123,6 +402,20 @@ export async function validateSchema(): Promise<boolean> {
     console.log('✅ Document class validated')
     console.log(`📊 Properties: ${documentClass.properties?.length || 0}`)
     console.log(`🔧 Vectorizer: ${documentClass.vectorizer}`)
+
+    const chunkClass = schema.classes?.find(
+      (cls: any) => cls.class === CHUNK_CLASS
+    )
+    console.log(chunkClass
+      ? '✅ Chunk class validated'
+      : '⚠️  Chunk class not found, hierarchical retrieval will fall back to whole documents')
+
+    const symbolClass = schema.classes?.find(
+      (cls: any) => cls.class === SYMBOL_CLASS
+    )
+    console.log(symbolClass
+      ? '✅ Symbol class validated'
+      : '⚠️  Symbol class not found, symbol lookup and symbol completions are unavailable')
     return true
 
   } catch (error) {
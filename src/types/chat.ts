@@ -5,6 +5,8 @@
 
 import { z } from 'zod';
 import type { DocumentId, Document } from './search';
+import type { ChatRoutePlan } from './query-optimization';
+import type { IndexedSymbol } from './code-symbols';
 
 // Branded types for chat system
 export type MessageId = string & { readonly __brand: 'MessageId' };
@@ -69,6 +71,9 @@ export interface MessageMetadata {
   readonly cost?: number;
   readonly version?: string;
   readonly flags?: readonly string[];
+  readonly routing?: ChatRoutePlan;
+  // Definitions of code identifiers the message mentions
+  readonly symbols?: readonly IndexedSymbol[];
 }
 
 // Core message interface
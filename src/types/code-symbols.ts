@@ -0,0 +1,38 @@
+/**
+ * Code Symbol Types
+ * Declarations extracted from source files for symbol lookup
+ */
+
+import type { DocumentSource } from './search';
+
+export type CodeSymbolKind = 'function' | 'class' | 'interface' | 'method' | 'const';
+
+/**
+ * A declaration and the lines it spans (1-based, inclusive)
+ */
+export interface CodeSymbol {
+  readonly name: string;
+  // Container-qualified name, e.g. RateLimiter.checkLimit for a method
+  readonly qualifiedName: string;
+  readonly kind: CodeSymbolKind;
+  readonly startLine: number;
+  readonly endLine: number;
+  readonly exported: boolean;
+  readonly container?: string;
+}
+
+/**
+ * A symbol together with the file that declares it
+ */
+export interface IndexedSymbol extends CodeSymbol {
+  readonly filepath: string;
+  readonly language: string;
+  readonly source?: DocumentSource;
+  readonly url?: string;
+}
+
+export interface SymbolMatch {
+  readonly symbol: IndexedSymbol;
+  readonly score: number;
+  readonly matchType: 'exact' | 'fuzzy';
+}
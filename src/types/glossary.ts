@@ -0,0 +1,37 @@
+/**
+ * Glossary Types
+ * Team vocabulary used to expand search queries
+ */
+
+import { z } from 'zod';
+
+// One concept with the other words people use for it
+export interface GlossaryEntry {
+  readonly term: string;
+  readonly synonyms: readonly string[];
+  // Matched case-sensitively so "KB" does not fire on "kb" in prose
+  readonly acronyms: readonly string[];
+  readonly description?: string;
+}
+
+export interface Glossary {
+  readonly entries: readonly GlossaryEntry[];
+}
+
+// A glossary hit in a query and the alternatives added for it
+export interface GlossaryExpansion {
+  readonly matched: string;
+  readonly term: string;
+  readonly expansions: readonly string[];
+}
+
+export const GlossaryEntrySchema = z.object({
+  term: z.string().trim().min(1).max(100),
+  synonyms: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+  acronyms: z.array(z.string().trim().min(1).max(20)).max(20).default([]),
+  description: z.string().max(500).optional()
+}).strict();
+
+export const GlossarySchema = z.object({
+  entries: z.array(GlossaryEntrySchema).default([])
+}).strict();
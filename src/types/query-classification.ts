@@ -52,6 +52,9 @@ export const DEFAULT_WEIGHTS: SourceWeights = {
   web: 1.0
 } as const;
 
+// Query type for unclassified queries; it weights both sources evenly
+export const DEFAULT_QUERY_TYPE: QueryType = 'operational';
+
 export interface GPTClassificationResponse {
   type: QueryType;
   confidence: number;
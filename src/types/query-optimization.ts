@@ -4,7 +4,7 @@
  * and intelligent routing (Issue #76)
  */
 
-import type { QueryClassification, SourceWeights } from './query-classification';
+import type { QueryClassification, QueryType, SourceWeights } from './query-classification';
 
 /**
  * Query complexity levels based on analysis
@@ -180,4 +180,39 @@ export interface OptimizationMetrics {
   strategyDistribution: Record<RoutingStrategy, number>;
   /** Quality score trend */
   qualityTrend: number[];
-}
\ No newline at end of file
+}
+/**
+ * Chat execution plan derived from a routing decision
+ */
+export interface ChatRoutePlan {
+  /** Routing strategy the plan was derived from */
+  strategy: RoutingStrategy;
+  /** Chat model used to generate the answer */
+  model: string;
+  /** Embedding model used for retrieval */
+  embeddingModel: 'text-embedding-3-small' | 'text-embedding-3-large';
+  /** Number of sources passed to the model */
+  maxSources: number;
+  /** Token budget for retrieved context */
+  contextTokenBudget: number;
+  /** Sampling temperature for generation */
+  temperature: number;
+  /** Whether retrieval re-runs query classification */
+  runClassification: boolean;
+  /** Whether retrieval reranks results */
+  useReranking: boolean;
+  /** Source weights used when classification is skipped */
+  sourceWeights: SourceWeights;
+  /** Query type the router classified, for authority weighting when classification is skipped */
+  queryType: QueryType;
+  /** Query complexity behind the decision */
+  complexity: QueryComplexity;
+  /** Overall confidence behind the decision (0-1) */
+  confidence: number;
+  /** Estimated token savings vs. baseline */
+  estimatedSavings: number;
+  /** Time spent optimizing (ms) */
+  optimizationTime: number;
+  /** Routing decision reasoning */
+  reasoning: string;
+}
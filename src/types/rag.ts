@@ -516,6 +516,7 @@ export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
   topK: 10,
   minScore: 0.1,
   maxDocuments: 5,
+  diversityThreshold: 0.85,
   sourceWeighting: { github: 1.2, web: 0.8 },
   rerank: {
     enabled: true,
@@ -0,0 +1,55 @@
+/**
+ * Saved Search Types
+ * Query subscriptions that notify when new or changed content ranks for them
+ */
+
+import { z } from 'zod';
+import { SearchFiltersSchema, type DocumentSource, type SearchFilters } from './search';
+
+export type SavedSearchId = string & { readonly __brand: 'SavedSearchId' };
+
+export const createSavedSearchId = (id: string): SavedSearchId => id as SavedSearchId;
+
+// What added or changed the documents a check looks at
+export type SavedSearchTrigger = 'crawl' | 'local_ingest' | 'manual';
+
+export interface SavedSearch {
+  readonly id: SavedSearchId;
+  readonly name: string;
+  readonly query: string;
+  readonly filters?: SearchFilters;
+  readonly topN: number;
+  readonly owner?: string;
+  readonly createdAt: string;
+  readonly lastCheckedAt?: string;
+  // Content hash of each top-N document at the last check, keyed by source:filepath (source:url for web pages)
+  readonly snapshot: Readonly<Record<string, string>>;
+}
+
+export interface SavedSearchMatch {
+  readonly source: DocumentSource;
+  readonly filepath: string;
+  readonly score: number;
+  readonly rank: number;
+  readonly change: 'new' | 'updated';
+}
+
+export interface SavedSearchNotification {
+  readonly id: string;
+  readonly savedSearchId: SavedSearchId;
+  readonly savedSearchName: string;
+  readonly query: string;
+  readonly trigger: SavedSearchTrigger;
+  readonly matches: readonly SavedSearchMatch[];
+  readonly createdAt: string;
+}
+
+export const CreateSavedSearchRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  query: z.string().min(1).max(1000),
+  filters: SearchFiltersSchema.optional(),
+  topN: z.number().int().min(1).max(50).default(10),
+  owner: z.string().max(100).optional()
+}).strict();
+
+export type CreateSavedSearchRequest = z.infer<typeof CreateSavedSearchRequestSchema>;
@@ -5,6 +5,9 @@
 
 import { z } from 'zod';
 import type { SourceWeights, QueryType } from './query-classification';
+import type { RetrievalStrategy } from './rag';
+import type { SourceAuthority } from './source-attribution';
+import type { IndexedSymbol } from './code-symbols';
 
 // Branded types for ID safety
 export type DocumentId = string & { readonly __brand: 'DocumentId' };
@@ -26,6 +29,9 @@ export interface SearchFilters {
   readonly minScore?: number;
   readonly maxResults?: number;
   readonly tags?: string[];
+  readonly paths?: string[]; // File path prefixes, e.g. src/lib/security
+  readonly phrases?: string[]; // Exact phrases the content must contain
+  readonly exclude?: string[]; // Terms that must not appear in content or path
 }
 
 // Document metadata interface
@@ -43,6 +49,7 @@ export interface DocumentMetadata {
   readonly branch?: string;
   readonly commit?: string;
   readonly url?: string;
+  readonly authority?: SourceAuthority; // Assigned at ingestion from domain/path rules
   readonly checksum: string;
 }
 
@@ -58,6 +65,7 @@ export interface Document {
   readonly metadata: DocumentMetadata;
   readonly embedding?: readonly number[];
   readonly chunks?: readonly DocumentChunk[];
+  readonly rankingFactors?: RankingFactors; // Present when the request sets explain
 }
 
 // Document chunk for large files
@@ -69,6 +77,11 @@ export interface DocumentChunk {
   readonly chunkIndex: number;
   readonly totalChunks: number;
   readonly score?: number;
+  // Top-level declarations in the chunk, when the file was chunked by structure
+  readonly symbols?: readonly string[];
+  // Heading path and section anchor, when the file was chunked by headings
+  readonly breadcrumb?: readonly string[];
+  readonly anchor?: string;
 }
 
 // Processed query interface
@@ -81,6 +94,9 @@ export interface ProcessedQuery {
   readonly intent?: QueryIntent;
   readonly entities?: readonly string[];
   readonly filters?: SearchFilters;
+  // Filters written inline in the query, e.g. lang:typescript path:src/lib
+  readonly inlineFilters?: SearchFilters;
+  readonly rewrites?: readonly string[];
 }
 
 // Query intent classification
@@ -93,6 +109,32 @@ export type QueryIntent =
   | 'best_practices'
   | 'examples';
 
+// Time decay applied to the hybrid score; a weight of 0 disables it
+export interface RecencyConfig {
+  readonly weight: number; // Share of the score that decays with age (0-1)
+  readonly halfLifeDays: Readonly<Record<DocumentSource, number>>;
+}
+
+export interface RecencyOverrides {
+  readonly weight?: number;
+  readonly halfLifeDays?: Partial<Record<DocumentSource, number>>;
+}
+
+// Whether misspelled queries get a suggestion, an automatic correction or neither
+export type SpellingCorrectionMode = 'off' | 'suggest' | 'auto';
+
+export interface SpellingFix {
+  readonly from: string;
+  readonly to: string;
+}
+
+export interface DidYouMean {
+  readonly query: string;
+  readonly corrections: readonly SpellingFix[];
+  // True when the results are for the corrected query
+  readonly applied: boolean;
+}
+
 // Search configuration
 export interface SearchConfig {
   readonly hybridWeights: {
@@ -107,6 +149,10 @@ export interface SearchConfig {
   readonly cacheEnabled: boolean;
   readonly cacheTtl: number;
   readonly embeddingModel?: 'text-embedding-3-small' | 'text-embedding-3-large'; // Optional: smart model selection
+  readonly retrievalStrategy?: RetrievalStrategy; // Defaults to a single hybrid query
+  readonly contextTokenBudget?: number; // Hierarchical strategy: total tokens of expanded chunks
+  readonly recency?: RecencyOverrides; // Merged over DEFAULT_RECENCY_CONFIG
+  readonly spellingCorrection?: SpellingCorrectionMode; // Defaults to 'suggest'
 }
 
 // Search metadata
@@ -136,6 +182,10 @@ export interface SearchRequest {
   readonly includeContent?: boolean;
   readonly includeEmbedding?: boolean;
   readonly timeout?: number;
+  readonly facets?: boolean;
+  readonly explain?: boolean;
+  // Stream results as NDJSON instead of a single JSON body
+  readonly stream?: boolean;
 }
 
 export interface SearchResponse {
@@ -144,6 +194,12 @@ export interface SearchResponse {
   readonly metadata: SearchMetadata;
   readonly query: ProcessedQuery;
   readonly suggestions?: readonly string[];
+  // Spelling correction that scored much better than the query as typed
+  readonly didYouMean?: DidYouMean;
+  // Definitions of code identifiers mentioned in the query
+  readonly symbols?: readonly IndexedSymbol[];
+  readonly facets?: SearchFacets;
+  readonly aggregations?: SearchAggregation;
 }
 
 // Search error types
@@ -165,19 +221,47 @@ export type SearchErrorCode =
   | 'RATE_LIMITED'
   | 'SERVICE_UNAVAILABLE'
   | 'EMBEDDING_FAILED'
-  | 'PARSING_ERROR';
+  | 'PARSING_ERROR'
+  | 'DOCUMENT_NOT_FOUND';
 
 // Result type for search operations
 export type SearchResult = SearchResponse | SearchError;
 
+// NDJSON stream lines for streamed searches, in the order they are sent
+export type SearchStreamStage = 'scored' | 'reranked';
+
+export type SearchStreamEvent =
+  | {
+      readonly type: 'metadata';
+      readonly queryId: QueryId;
+      readonly query: ProcessedQuery;
+      readonly classification: {
+        readonly type: QueryType;
+        readonly confidence: number;
+        readonly weights: SourceWeights;
+      };
+    }
+  | {
+      readonly type: 'document';
+      // Scored documents stream unranked as they are scored; the results are the
+      // summary's totalResults highest-scoring ones, or the reranked documents when reranking is on
+      readonly stage: SearchStreamStage;
+      readonly rank?: number;
+      readonly document: Document;
+    }
+  | ({ readonly type: 'summary'; readonly totalResults: number } & Omit<SearchResponse, 'results'>)
+  | { readonly type: 'error'; readonly error: SearchError['error'] };
+
 // Ranking and scoring
 export interface RankingFactors {
-  readonly vectorSimilarity: number;
-  readonly keywordMatches: number;
-  readonly sourceAuthority: number;
-  readonly recency: number;
-  readonly filePopularity: number;
-  readonly contextRelevance: number;
+  readonly vectorSimilarity: number; // Raw vector score before fusion
+  readonly keywordMatches: number; // BM25 contribution to the fused score
+  readonly hybridScore: number; // Fused score returned by Weaviate
+  readonly sourceAuthority: number; // Source weight, including stored authority when classified
+  readonly priority: number; // Stored priority multiplier
+  readonly recency: number; // Freshness factor, 1 when decay is disabled
+  readonly rerankRelevance?: number;
+  readonly memoryBoost?: number;
 }
 
 export interface ScoredDocument extends Document {
@@ -230,6 +314,28 @@ export interface AutoCompleteResponse {
   };
 }
 
+// "More like this": neighbours of a stored document by vector similarity
+export interface SimilarDocumentsRequest {
+  readonly documentId: string;
+  readonly limit?: number;
+  // Also drops documents from the same source and directory
+  readonly excludeSiblings?: boolean;
+  readonly includeContent?: boolean;
+  readonly filters?: SearchFilters;
+}
+
+export interface SimilarDocumentsResponse {
+  readonly success: true;
+  readonly documentId: string;
+  readonly results: readonly Document[];
+  readonly metadata: {
+    readonly searchTime: number;
+    readonly totalResults: number;
+    readonly excludedSiblings: number;
+    readonly filters?: SearchFilters;
+  };
+}
+
 // Zod validation schemas
 export const DocumentIdSchema = z.string().brand('DocumentId');
 export const QueryIdSchema = z.string().brand('QueryId');
@@ -244,12 +350,15 @@ export const SearchFiltersSchema = z.object({
   source: z.array(DocumentSourceSchema).optional(),
   language: z.array(DocumentLanguageSchema).optional(),
   dateRange: z.object({
-    from: z.date().optional(),
-    to: z.date().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
   }).optional(),
   minScore: z.number().min(0).max(1).optional(),
   maxResults: z.number().positive().max(1000).optional(),
   tags: z.array(z.string()).optional(),
+  paths: z.array(z.string().min(1)).optional(),
+  phrases: z.array(z.string().min(1)).optional(),
+  exclude: z.array(z.string().min(1)).optional(),
 }).strict();
 
 export const SearchRequestSchema = z.object({
@@ -271,10 +380,39 @@ export const SearchRequestSchema = z.object({
     minScore: z.number().min(0).max(1).optional(),
     timeout: z.number().positive().optional(),
     cacheEnabled: z.boolean().optional(),
+    rerankEnabled: z.boolean().optional(),
+    retrievalStrategy: z.enum(['hybrid', 'multi_query', 'hierarchical']).optional(),
+    contextTokenBudget: z.number().int().positive().max(32000).optional(),
+    spellingCorrection: z.enum(['off', 'suggest', 'auto']).optional(),
+    recency: z.object({
+      weight: z.number().min(0).max(1).optional(),
+      halfLifeDays: z.object({
+        github: z.number().positive().optional(),
+        web: z.number().positive().optional(),
+        local: z.number().positive().optional(),
+      }).optional(),
+    }).optional(),
   }).optional(),
   includeContent: z.boolean().default(true),
   includeEmbedding: z.boolean().default(false),
   timeout: z.number().positive().max(30000).optional(),
+  facets: z.boolean().default(false),
+  explain: z.boolean().default(false),
+  stream: z.boolean().default(false),
+}).strict();
+
+export const AutoCompleteRequestSchema = z.object({
+  partial: z.string().min(1).max(200),
+  limit: z.coerce.number().int().positive().max(20).optional(),
+  context: z.array(DocumentSourceSchema).optional(),
+}).strict();
+
+export const SimilarDocumentsRequestSchema = z.object({
+  documentId: z.string().uuid(),
+  limit: z.coerce.number().int().positive().max(50).default(10),
+  excludeSiblings: z.boolean().default(false),
+  includeContent: z.boolean().default(false),
+  filters: SearchFiltersSchema.optional(),
 }).strict();
 
 export const DocumentMetadataSchema = z.object({
@@ -337,6 +475,12 @@ export const isSearchError = (result: SearchResult): result is SearchError =>
   result.success === false;
 
 // Default configurations
+// Crawled web docs go stale quickly; code and local files age slowly
+export const DEFAULT_RECENCY_CONFIG: RecencyConfig = {
+  weight: 0.3,
+  halfLifeDays: { web: 30, github: 180, local: 365 },
+} as const;
+
 export const DEFAULT_SEARCH_CONFIG: SearchConfig = {
   hybridWeights: { vector: 0.75, keyword: 0.25 },
   sourceWeights: { github: 1.0, web: 1.0 },
@@ -346,6 +490,7 @@ export const DEFAULT_SEARCH_CONFIG: SearchConfig = {
   timeout: 5000,
   cacheEnabled: true,
   cacheTtl: 300,
+  recency: DEFAULT_RECENCY_CONFIG,
 } as const;
 
 export const MAX_QUERY_LENGTH = 1000;